@@ -4,57 +4,91 @@
  * It sets up the main application structure, including context providers for
  * authentication and language, and defines all the client-side routes
  * using React Router. It also implements a protected route mechanism
- * to restrict access to certain parts of the application to authenticated users.
+ * to restrict access to certain parts of the application to authenticated users,
+ * and some of them to users with a given role.
  */
 
 import React from 'react';
 import * as ReactRouterDOM from 'react-router-dom';
 import { AuthProvider, useAuth } from './contexts/AuthContext.tsx';
 import { LanguageProvider } from './contexts/LanguageContext.tsx';
+import { PrivacyProvider, usePrivacy } from './contexts/PrivacyContext.tsx';
+import { VaultProvider } from './contexts/VaultContext.tsx';
+import { AiServiceProvider } from './contexts/AiServiceContext.tsx';
+import { SavedPathwaysProvider } from './contexts/SavedPathwaysContext.tsx';
+import { ConversationsProvider } from './contexts/ConversationsContext.tsx';
+import { EmergencyContactsProvider } from './contexts/EmergencyContactsContext.tsx';
+import { UserProfileProvider } from './contexts/UserProfileContext.tsx';
+import { BeneficiariesProvider } from './contexts/BeneficiariesContext.tsx';
 import MainLayout from './components/layout/MainLayout.tsx';
+import TranslationOverlay from './components/dev/TranslationOverlay.tsx';
 import WelcomeScreen from './screens/WelcomeScreen.tsx';
 import RegistrationScreen from './screens/auth/RegistrationScreen.tsx';
 import LoginScreen from './screens/auth/LoginScreen.tsx';
+import ProfilePickerScreen from './screens/auth/ProfilePickerScreen.tsx';
 import HomeScreen from './screens/dashboard/HomeScreen.tsx'; 
-// ProfileScreen import removed as route is removed for now
 import SettingsScreen from './screens/settings/SettingsScreen.tsx';
 
 // Updated imports for placeholder screens:
 import { 
-  EmergencyContactsScreen,
   HelpScreen,
 } from './screens/PlaceholderScreen.tsx'; 
+import EmergencyContactsScreen from './screens/emergency/EmergencyContactsScreen.tsx';
 
 import AwarenessLifeSkillsScreen from './screens/awareness/AwarenessLifeSkillsScreen.tsx';
 import { WomenAwarenessScreen } from './screens/awareness/WomenAwarenessScreen.tsx'; // Changed to named import
 import WomenLawAwarenessScreen from './screens/awareness/WomenLawAwarenessScreen.tsx';
 import LearnToUseAppsScreen from './screens/digitalLearning/LearnToUseAppsScreen.tsx';
 import GuidancePathwayScreen from './screens/guidance/GuidancePathwayScreen.tsx';
+import MyPathwaysScreen from './screens/guidance/MyPathwaysScreen.tsx';
+import ComparePathwaysScreen from './screens/guidance/ComparePathwaysScreen.tsx';
+import ConversationsScreen from './screens/conversations/ConversationsScreen.tsx';
 import BrainQuizzesScreen from './screens/games/BrainQuizzesScreen.tsx'; 
+import CalculatorScreen from './screens/privacy/CalculatorScreen.tsx';
+import IncidentJournalScreen from './screens/journal/IncidentJournalScreen.tsx';
+import BeneficiariesScreen from './screens/fieldWork/BeneficiariesScreen.tsx';
+import ManageRolesScreen from './screens/admin/ManageRolesScreen.tsx';
 import { APP_ROUTES } from './constants.ts';
+import { UserRole } from './types.ts';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  roles?: UserRole[]; // The roles allowed on the route; every role if not given
 }
 
 /**
  * A wrapper component that protects routes requiring authentication.
- * If the user is not authenticated, it redirects them to the login page.
- * Otherwise, it renders the child components.
+ * If no profile is open, it redirects to the profile picker, or to the login page if
+ * nobody is signed in on this device. If the user's role is not allowed on the route, it
+ * redirects to the home page. Otherwise, it renders the child components.
  * @param {ProtectedRouteProps} props - The component props.
  * @returns {JSX.Element} The child components or a redirect.
  */
-const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
-  const { isAuthenticated } = useAuth();
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, roles }) => {
+  const { isAuthenticated, profiles, role } = useAuth();
   if (!isAuthenticated) {
-    // If not authenticated, redirect to the login page.
+    // If not authenticated, redirect to the profile picker or the login page.
     // `replace` prevents the user from going back to the protected route via the browser's back button.
-    return <ReactRouterDOM.Navigate to={APP_ROUTES.LOGIN} replace />;
+    return <ReactRouterDOM.Navigate to={profiles.length > 0 ? APP_ROUTES.PROFILES : APP_ROUTES.LOGIN} replace />;
+  }
+  if (roles && !roles.includes(role)) {
+    return <ReactRouterDOM.Navigate to={APP_ROUTES.HOME} replace />;
   }
   // If authenticated, render the requested component.
   return <>{children}</>;
 };
 
+/**
+ * Shows the neutral calculator instead of any page of the app while the quick exit is active,
+ * so even pages reached with the browser's Back button stay hidden.
+ * @param {object} props - The component props.
+ * @returns {JSX.Element} The calculator or the child components.
+ */
+const QuickExitGate: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { isQuickExited } = usePrivacy();
+  return isQuickExited ? <CalculatorScreen /> : <>{children}</>;
+};
+
 /**
  * The main App component that orchestrates the entire application.
  * It wraps the application in necessary context providers and sets up routing.
@@ -63,114 +97,193 @@ const App: React.FC = () => {
   return (
     // The LanguageProvider makes language state and translation functions available throughout the app.
     <LanguageProvider>
-      {/* The AuthProvider manages user authentication state and makes it available to all child components. */}
-      <AuthProvider>
-        {/* HashRouter is used for client-side routing, compatible with static hosting environments. */}
-        <ReactRouterDOM.HashRouter>
-          {/* The Routes component defines all possible application routes. */}
-          <ReactRouterDOM.Routes>
-            {/* Public routes accessible to everyone */}
-            <ReactRouterDOM.Route path={APP_ROUTES.WELCOME} element={<WelcomeScreen />} />
-            <ReactRouterDOM.Route path={APP_ROUTES.REGISTER} element={<RegistrationScreen />} />
-            <ReactRouterDOM.Route path={APP_ROUTES.LOGIN} element={<LoginScreen />} />
-            
-            {/* Protected routes that require authentication */}
-            {/* Each protected route is wrapped in the MainLayout, which includes the sidebar and header. */}
-            <ReactRouterDOM.Route 
-              path={APP_ROUTES.HOME} 
-              element={
-                <ProtectedRoute>
-                  <MainLayout><HomeScreen /></MainLayout>
-                </ProtectedRoute>
-              } 
-            />
-             <ReactRouterDOM.Route 
-              path={APP_ROUTES.SETTINGS} 
-              element={
-                <ProtectedRoute>
-                  <MainLayout><SettingsScreen /></MainLayout>
-                </ProtectedRoute>
-              } 
-            />
-             <ReactRouterDOM.Route 
-              path={APP_ROUTES.WOMEN_AWARENESS} // This is for age-specific awareness
-              element={
-                <ProtectedRoute>
-                  <MainLayout><WomenAwarenessScreen /></MainLayout>
-                </ProtectedRoute>
-              } 
-            />
-            <ReactRouterDOM.Route 
-              path={APP_ROUTES.WOMEN_LAW_AWARENESS} // New route for Law Awareness
-              element={
-                <ProtectedRoute>
-                  <MainLayout><WomenLawAwarenessScreen /></MainLayout> 
-                </ProtectedRoute>
-              } 
-            />
-            {/* SCHEMES_BENEFITS Route Removed 
-            <ReactRouterDOM.Route 
-              path={APP_ROUTES.SCHEMES_BENEFITS} 
-              element={
-                <ProtectedRoute>
-                  <MainLayout><GovernmentSchemesScreen /></MainLayout> 
-                </ProtectedRoute>
-              } 
-            />
-            */}
-            <ReactRouterDOM.Route 
-              path={APP_ROUTES.BRAIN_QUIZZES} 
-              element={
-                <ProtectedRoute>
-                  <MainLayout><BrainQuizzesScreen /></MainLayout>
-                </ProtectedRoute>
-              } 
-            />
-            <ReactRouterDOM.Route 
-              path={APP_ROUTES.EMERGENCY_CONTACTS} 
-              element={
-                <ProtectedRoute>
-                  <MainLayout><EmergencyContactsScreen /></MainLayout>
-                </ProtectedRoute>
-              } 
-            />
-             <ReactRouterDOM.Route 
-              path={APP_ROUTES.HELP} 
-              element={
-                <ProtectedRoute>
-                  <MainLayout><HelpScreen /></MainLayout>
-                </ProtectedRoute>
-              } 
-            />
-             <ReactRouterDOM.Route 
-              path={APP_ROUTES.SMART_PATHWAY}
-              element={
-                <ProtectedRoute>
-                  <MainLayout><GuidancePathwayScreen /></MainLayout>
-                </ProtectedRoute>
-              } 
-            />
-            <ReactRouterDOM.Route 
-              path={APP_ROUTES.AWARENESS_LIFE_SKILLS} 
-              element={
-                <ProtectedRoute>
-                  <MainLayout><AwarenessLifeSkillsScreen /></MainLayout>
-                </ProtectedRoute>
-              } 
-            />
-            <ReactRouterDOM.Route 
-              path={APP_ROUTES.LEARN_TO_USE_APPS} 
-              element={
-                <ProtectedRoute>
-                  <MainLayout><LearnToUseAppsScreen /></MainLayout>
-                </ProtectedRoute>
-              } 
-            />
-            {/* Fallback route: If no other route matches, redirect to the welcome screen. */}
-            <ReactRouterDOM.Route path="*" element={<ReactRouterDOM.Navigate to={APP_ROUTES.WELCOME} replace />} />
-          </ReactRouterDOM.Routes>
-        </ReactRouterDOM.HashRouter>
-      </AuthProvider>
+      {/* In development, the TranslationOverlay outlines the text that is not translated into the current language. */}
+      {process.env.NODE_ENV === 'development' && <TranslationOverlay />}
+      {/* The PrivacyProvider holds the quick exit, disguise mode and chat history settings of this device. */}
+      <PrivacyProvider>
+        {/* The VaultProvider shows the lock screen until the encrypted storage is unlocked with the device passphrase. */}
+        <VaultProvider>
+          {/* The AuthProvider manages user authentication state and makes it available to all child components. */}
+          <AuthProvider>
+            {/* The AiServiceProvider shares one AI client, with its model and retry settings, across all AI screens. */}
+            <AiServiceProvider>
+              {/* The BeneficiariesProvider keeps a volunteer's beneficiaries and which one is being assisted. */}
+              <BeneficiariesProvider>
+                {/* The SavedPathwaysProvider keeps the "My Pathways" library of the logged-in user, or of the assisted beneficiary. */}
+                <SavedPathwaysProvider>
+                  {/* The ConversationsProvider keeps the logged-in user's saved AI chats. */}
+                  <ConversationsProvider>
+                    {/* The EmergencyContactsProvider keeps the logged-in user's trusted contacts and helpline state. */}
+                    <EmergencyContactsProvider>
+                      {/* The UserProfileProvider keeps the logged-in user's profile, which pre-fills the AI screens' forms. */}
+                      <UserProfileProvider>
+                        {/* HashRouter is used for client-side routing, compatible with static hosting environments. */}
+                        <ReactRouterDOM.HashRouter>
+                          {/* While the quick exit is active, the neutral calculator replaces every page. */}
+                          <QuickExitGate>
+                            {/* The Routes component defines all possible application routes. */}
+                            <ReactRouterDOM.Routes>
+                              {/* Public routes accessible to everyone */}
+                              <ReactRouterDOM.Route path={APP_ROUTES.WELCOME} element={<WelcomeScreen />} />
+                              <ReactRouterDOM.Route path={APP_ROUTES.REGISTER} element={<RegistrationScreen />} />
+                              <ReactRouterDOM.Route path={APP_ROUTES.LOGIN} element={<LoginScreen />} />
+                              <ReactRouterDOM.Route path={APP_ROUTES.PROFILES} element={<ProfilePickerScreen />} />
+              
+                              {/* Protected routes that require authentication */}
+                              {/* Each protected route is wrapped in the MainLayout, which includes the sidebar and header. */}
+                              <ReactRouterDOM.Route 
+                                path={APP_ROUTES.HOME} 
+                                element={
+                                  <ProtectedRoute>
+                                    <MainLayout><HomeScreen /></MainLayout>
+                                  </ProtectedRoute>
+                                } 
+                              />
+                               <ReactRouterDOM.Route 
+                                path={APP_ROUTES.SETTINGS} 
+                                element={
+                                  <ProtectedRoute>
+                                    <MainLayout><SettingsScreen /></MainLayout>
+                                  </ProtectedRoute>
+                                } 
+                              />
+                               <ReactRouterDOM.Route 
+                                path={APP_ROUTES.WOMEN_AWARENESS} // This is for age-specific awareness
+                                element={
+                                  <ProtectedRoute>
+                                    <MainLayout><WomenAwarenessScreen /></MainLayout>
+                                  </ProtectedRoute>
+                                } 
+                              />
+                              <ReactRouterDOM.Route 
+                                path={APP_ROUTES.WOMEN_LAW_AWARENESS} // New route for Law Awareness
+                                element={
+                                  <ProtectedRoute>
+                                    <MainLayout><WomenLawAwarenessScreen /></MainLayout> 
+                                  </ProtectedRoute>
+                                } 
+                              />
+                              {/* SCHEMES_BENEFITS Route Removed 
+                              <ReactRouterDOM.Route 
+                                path={APP_ROUTES.SCHEMES_BENEFITS} 
+                                element={
+                                  <ProtectedRoute>
+                                    <MainLayout><GovernmentSchemesScreen /></MainLayout> 
+                                  </ProtectedRoute>
+                                } 
+                              />
+                              */}
+                              <ReactRouterDOM.Route 
+                                path={APP_ROUTES.BRAIN_QUIZZES} 
+                                element={
+                                  <ProtectedRoute>
+                                    <MainLayout><BrainQuizzesScreen /></MainLayout>
+                                  </ProtectedRoute>
+                                } 
+                              />
+                              <ReactRouterDOM.Route 
+                                path={APP_ROUTES.EMERGENCY_CONTACTS} 
+                                element={
+                                  <ProtectedRoute>
+                                    <MainLayout><EmergencyContactsScreen /></MainLayout>
+                                  </ProtectedRoute>
+                                } 
+                              />
+                               <ReactRouterDOM.Route 
+                                path={APP_ROUTES.INCIDENT_JOURNAL} 
+                                element={
+                                  <ProtectedRoute>
+                                    <MainLayout><IncidentJournalScreen /></MainLayout>
+                                  </ProtectedRoute>
+                                } 
+                              />
+                              <ReactRouterDOM.Route 
+                                path={APP_ROUTES.HELP} 
+                                element={
+                                  <ProtectedRoute>
+                                    <MainLayout><HelpScreen /></MainLayout>
+                                  </ProtectedRoute>
+                                } 
+                              />
+                               <ReactRouterDOM.Route 
+                                path={APP_ROUTES.SMART_PATHWAY}
+                                element={
+                                  <ProtectedRoute>
+                                    <MainLayout><GuidancePathwayScreen /></MainLayout>
+                                  </ProtectedRoute>
+                                } 
+                              />
+                              <ReactRouterDOM.Route 
+                                path={APP_ROUTES.AWARENESS_LIFE_SKILLS} 
+                                element={
+                                  <ProtectedRoute>
+                                    <MainLayout><AwarenessLifeSkillsScreen /></MainLayout>
+                                  </ProtectedRoute>
+                                } 
+                              />
+                              <ReactRouterDOM.Route 
+                                path={APP_ROUTES.LEARN_TO_USE_APPS} 
+                                element={
+                                  <ProtectedRoute>
+                                    <MainLayout><LearnToUseAppsScreen /></MainLayout>
+                                  </ProtectedRoute>
+                                } 
+                              />
+                              <ReactRouterDOM.Route 
+                                path={APP_ROUTES.MY_PATHWAYS} 
+                                element={
+                                  <ProtectedRoute>
+                                    <MainLayout><MyPathwaysScreen /></MainLayout>
+                                  </ProtectedRoute>
+                                } 
+                              />
+                              <ReactRouterDOM.Route 
+                                path={APP_ROUTES.COMPARE_PATHWAYS} 
+                                element={
+                                  <ProtectedRoute>
+                                    <MainLayout><ComparePathwaysScreen /></MainLayout>
+                                  </ProtectedRoute>
+                                } 
+                              />
+                              <ReactRouterDOM.Route 
+                                path={APP_ROUTES.CONVERSATIONS} 
+                                element={
+                                  <ProtectedRoute>
+                                    <MainLayout><ConversationsScreen /></MainLayout>
+                                  </ProtectedRoute>
+                                } 
+                              />
+                              {/* Routes that also require a role */}
+                              <ReactRouterDOM.Route 
+                                path={APP_ROUTES.BENEFICIARIES} 
+                                element={
+                                  <ProtectedRoute roles={['volunteer', 'ngo_admin']}>
+                                    <MainLayout><BeneficiariesScreen /></MainLayout>
+                                  </ProtectedRoute>
+                                } 
+                              />
+                              <ReactRouterDOM.Route 
+                                path={APP_ROUTES.MANAGE_ROLES} 
+                                element={
+                                  <ProtectedRoute roles={['ngo_admin']}>
+                                    <MainLayout><ManageRolesScreen /></MainLayout>
+                                  </ProtectedRoute>
+                                } 
+                              />
+                              {/* Fallback route: If no other route matches, redirect to the welcome screen. */}
+                              <ReactRouterDOM.Route path="*" element={<ReactRouterDOM.Navigate to={APP_ROUTES.WELCOME} replace />} />
+                            </ReactRouterDOM.Routes>
+                          </QuickExitGate>
+                        </ReactRouterDOM.HashRouter>
+                      </UserProfileProvider>
+                    </EmergencyContactsProvider>
+                  </ConversationsProvider>
+                </SavedPathwaysProvider>
+              </BeneficiariesProvider>
+            </AiServiceProvider>
+          </AuthProvider>
+        </VaultProvider>
+      </PrivacyProvider>
     </LanguageProvider>
   );
 };
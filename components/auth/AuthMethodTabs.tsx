@@ -0,0 +1,49 @@
+/**
+ * @file AuthMethodTabs.tsx
+ * @description The tabs at the top of the login and registration forms for choosing how to
+ * sign in: with an email, with a phone number, or (to log in) with the quick login PIN.
+ */
+
+import React from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { TranslationKey } from '../../types';
+
+export type AuthMethod = 'email' | 'phone' | 'pin';
+
+// The label and icon of each method.
+const AUTH_METHOD_TABS: Record<AuthMethod, { labelKey: TranslationKey; icon: string }> = {
+  email: { labelKey: 'authMethodEmail', icon: 'fa-envelope' },
+  phone: { labelKey: 'authMethodPhone', icon: 'fa-mobile-alt' },
+  pin: { labelKey: 'authMethodPin', icon: 'fa-key' },
+};
+
+// Define the props for the AuthMethodTabs component.
+interface AuthMethodTabsProps {
+  methods: AuthMethod[];
+  selected: AuthMethod;
+  onSelect: (method: AuthMethod) => void;
+}
+
+const AuthMethodTabs: React.FC<AuthMethodTabsProps> = ({ methods, selected, onSelect }) => {
+  const { translate } = useLanguage();
+
+  return (
+    <div className="flex mb-6 rounded-lg bg-gray-100 p-1" role="tablist" aria-label={translate('authMethodLabel')}>
+      {methods.map(method => (
+        <button
+          key={method}
+          type="button"
+          role="tab"
+          aria-selected={method === selected}
+          onClick={() => onSelect(method)}
+          className={`flex-1 py-2 px-3 rounded-md font-medium transition-colors ${method === selected ? 'bg-white text-teal-700 shadow' : 'text-gray-600 hover:text-teal-700'}`}
+        >
+          <i className={`fas ${AUTH_METHOD_TABS[method].icon} mr-2`} aria-hidden="true"></i>
+          {translate(AUTH_METHOD_TABS[method].labelKey)}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default AuthMethodTabs;
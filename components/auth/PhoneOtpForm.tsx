@@ -0,0 +1,155 @@
+/**
+ * @file PhoneOtpForm.tsx
+ * @description The form for registering or logging in with a phone number instead of an email.
+ * The user enters their number (and, to register, their name), receives a six-digit code by
+ * SMS and enters it to finish.
+ */
+
+import React, { useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { AuthApiError, getAuthErrorMessageKey } from '../../services/authApi';
+import { OtpChallenge } from '../../types';
+import Input from '../common/Input';
+import Button from '../common/Button';
+
+// Define the props for the PhoneOtpForm component.
+interface PhoneOtpFormProps {
+  purpose: 'register' | 'login';
+  onSuccess: () => void; // Called once the user is signed in
+}
+
+const PhoneOtpForm: React.FC<PhoneOtpFormProps> = ({ purpose, onSuccess }) => {
+  const { requestOtp, verifyOtp } = useAuth();
+  const { translate } = useLanguage();
+  const [name, setName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [code, setCode] = useState('');
+  const [challenge, setChallenge] = useState<OtpChallenge | null>(null); // Set once a code has been sent
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<{ phone?: string; code?: string }>({});
+
+  /**
+   * Shows an error from the auth server next to the field it is about, or above the form.
+   * @param {unknown} authError - The caught error.
+   */
+  const showError = (authError: unknown) => {
+    const message = translate(getAuthErrorMessageKey(authError));
+    const errorCode = authError instanceof AuthApiError ? authError.code : null;
+    if (errorCode === 'INVALID_PHONE' || errorCode === 'PHONE_TAKEN') {
+      setFieldErrors({ phone: message });
+    } else if (errorCode === 'INVALID_CODE') {
+      setFieldErrors({ code: message });
+    } else {
+      setError(message);
+    }
+  };
+
+  const sendCode = async () => {
+    setError('');
+    setFieldErrors({});
+    setIsBusy(true);
+    try {
+      setChallenge(await requestOtp(phone, purpose, purpose === 'register' ? name : undefined));
+      setCode('');
+    } catch (requestError) {
+      showError(requestError);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challenge) {
+      sendCode();
+      return;
+    }
+    setError('');
+    setFieldErrors({});
+    setIsBusy(true);
+    try {
+      await verifyOtp(challenge.challengeId, code);
+      onSuccess();
+    } catch (verifyError) {
+      showError(verifyError);
+      setCode('');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const changeNumber = () => {
+    setChallenge(null);
+    setCode('');
+    setError('');
+    setFieldErrors({});
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {error && <p className="mb-4 text-center text-red-600 bg-red-100 p-3 rounded-md" role="alert">{error}</p>}
+
+      {!challenge ? (
+        <>
+          {purpose === 'register' && (
+            <Input
+              id="phoneName"
+              label={translate('name')}
+              type="text"
+              autoComplete="name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+          )}
+          <Input
+            id="phone"
+            label={translate('phoneNumber')}
+            type="tel"
+            inputMode="tel"
+            autoComplete="tel"
+            value={phone}
+            onChange={(e) => setPhone(e.target.value)}
+            error={fieldErrors.phone}
+            required
+            placeholder="98765 43210"
+          />
+          <Button type="submit" fullWidth size="lg" disabled={isBusy} leftIcon={<i className="fas fa-sms"></i>}>
+            {translate(isBusy ? 'sendingCode' : 'sendCode')}
+          </Button>
+        </>
+      ) : (
+        <>
+          <p className="text-gray-700">
+            {translate('otpSentTo')} <strong className="whitespace-nowrap">{phone}</strong>
+          </p>
+          <Input
+            id="otpCode"
+            label={translate('otpCode')}
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            pattern="\d{6}"
+            maxLength={6}
+            value={code}
+            onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+            error={fieldErrors.code}
+            autoFocus
+            required
+          />
+          <Button type="submit" fullWidth size="lg" disabled={isBusy}>
+            {translate(isBusy ? 'verifyingCode' : 'verifyCode')}
+          </Button>
+          <div className="flex justify-between text-sm">
+            <Button type="button" variant="link" onClick={changeNumber} disabled={isBusy}>{translate('changePhoneNumber')}</Button>
+            <Button type="button" variant="link" onClick={sendCode} disabled={isBusy}>{translate('resendCode')}</Button>
+          </div>
+        </>
+      )}
+    </form>
+  );
+};
+
+export default PhoneOtpForm;
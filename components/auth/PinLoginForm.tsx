@@ -0,0 +1,78 @@
+/**
+ * @file PinLoginForm.tsx
+ * @description The form for logging in again quickly with the 4-digit PIN, for users who have
+ * set one. It is meant for shared phones, where typing a password or waiting for a code each
+ * time is a burden.
+ */
+
+import React, { useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { getAuthErrorMessageKey, PIN_LENGTH } from '../../services/authApi';
+import Input from '../common/Input';
+import Button from '../common/Button';
+
+// Define the props for the PinLoginForm component.
+interface PinLoginFormProps {
+  onSuccess: () => void; // Called once the user is signed in
+}
+
+const PinLoginForm: React.FC<PinLoginFormProps> = ({ onSuccess }) => {
+  const { loginWithPin } = useAuth();
+  const { translate } = useLanguage();
+  const [identifier, setIdentifier] = useState('');
+  const [pin, setPin] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    if (pin.length !== PIN_LENGTH) {
+      setError(translate('pinMustHaveFourDigits'));
+      return;
+    }
+    setIsBusy(true);
+    try {
+      await loginWithPin(identifier, pin);
+      onSuccess();
+    } catch (loginError) {
+      setError(translate(getAuthErrorMessageKey(loginError)));
+      setPin('');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {error && <p className="mb-4 text-center text-red-600 bg-red-100 p-3 rounded-md" role="alert">{error}</p>}
+      <Input
+        id="pinIdentifier"
+        label={translate('phoneOrEmail')}
+        type="text"
+        autoComplete="username"
+        value={identifier}
+        onChange={(e) => setIdentifier(e.target.value)}
+        required
+      />
+      <Input
+        id="quickLoginPin"
+        label={translate('quickLoginPin')}
+        type="password"
+        inputMode="numeric"
+        autoComplete="off"
+        maxLength={PIN_LENGTH}
+        value={pin}
+        onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+        required
+        className="tracking-widest"
+      />
+      <Button type="submit" fullWidth size="lg" disabled={isBusy} leftIcon={<i className="fas fa-key"></i>}>
+        {translate(isBusy ? 'signingIn' : 'login')}
+      </Button>
+    </form>
+  );
+};
+
+export default PinLoginForm;
@@ -0,0 +1,85 @@
+/**
+ * @file QuickLoginPinSettings.tsx
+ * @description The settings card where the signed-in user sets, changes or removes their
+ * quick login PIN (see PinLoginForm.tsx).
+ */
+
+import React, { useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { getAuthErrorMessageKey, PIN_LENGTH } from '../../services/authApi';
+import Card from '../common/Card';
+import Input from '../common/Input';
+import Button from '../common/Button';
+import { TranslationKey } from '../../types';
+
+const QuickLoginPinSettings: React.FC = () => {
+  const { user, setPin, removePin } = useAuth();
+  const { translate } = useLanguage();
+  const [newPin, setNewPin] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  /**
+   * Runs a PIN change and shows its outcome.
+   * @param {() => Promise<void>} change - The change.
+   * @param {TranslationKey} successKey - The key of the message shown when it worked.
+   */
+  const runChange = async (change: () => Promise<void>, successKey: TranslationKey) => {
+    setError('');
+    setMessage('');
+    setIsBusy(true);
+    try {
+      await change();
+      setNewPin('');
+      setMessage(translate(successKey));
+    } catch (changeError) {
+      setError(translate(getAuthErrorMessageKey(changeError)));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newPin.length !== PIN_LENGTH) {
+      setError(translate('pinMustHaveFourDigits'));
+      return;
+    }
+    runChange(() => setPin(newPin), 'pinSaved');
+  };
+
+  const handleRemove = () => {
+    if (window.confirm(translate('confirmRemovePin'))) runChange(removePin, 'pinRemoved');
+  };
+
+  return (
+    <Card className="mb-8">
+      <h3 className="text-xl font-semibold text-gray-700 mb-1">{translate('quickLoginPinTitle')}</h3>
+      <p className="text-sm text-gray-500 mb-4">{translate('quickLoginPinHint')}</p>
+      {user?.hasPin && <p className="text-green-700 mb-4"><i className="fas fa-check-circle mr-2" aria-hidden="true"></i>{translate('pinIsSet')}</p>}
+      <form onSubmit={handleSave}>
+        <Input
+          id="newQuickLoginPin"
+          label={translate(user?.hasPin ? 'changePin' : 'quickLoginPin')}
+          type="password"
+          inputMode="numeric"
+          autoComplete="off"
+          maxLength={PIN_LENGTH}
+          value={newPin}
+          onChange={(e) => setNewPin(e.target.value.replace(/\D/g, ''))}
+          error={error || undefined}
+          className="tracking-widest"
+        />
+        <div className="flex flex-wrap gap-3">
+          <Button type="submit" disabled={isBusy} leftIcon={<i className="fas fa-key"></i>}>{translate('savePin')}</Button>
+          {user?.hasPin && <Button type="button" variant="secondary" onClick={handleRemove} disabled={isBusy}>{translate('removePin')}</Button>}
+        </div>
+      </form>
+      {message && <p className="text-sm text-green-600 mt-3" role="status">{message}</p>}
+    </Card>
+  );
+};
+
+export default QuickLoginPinSettings;
@@ -1,12 +1,14 @@
 /**
  * @file AwarenessPointCard.tsx
  * @description A component that displays a single awareness point in a card format.
- * It shows an emoji, the awareness text, and a textual suggestion for a related image.
+ * It shows an emoji, the awareness text, which can be read aloud, and a textual suggestion
+ * for a related image.
  */
 
 import React from 'react';
 import { AwarenessPoint } from '../../types';
 import Card from '../common/Card';
+import ReadAloudControls from '../common/ReadAloudControls';
 import { useLanguage } from '../../contexts/LanguageContext';
 
 // Define the props for the AwarenessPointCard component.
@@ -26,7 +28,8 @@ const AwarenessPointCard: React.FC<AwarenessPointCardProps> = ({ point }) => {
         <div className="text-5xl mb-3" aria-hidden="true">{point.emoji}</div>
         
         {/* The main awareness text. */}
-        <p className="text-gray-700 text-base mb-4 leading-relaxed">{point.awarenessText}</p>
+        <p className="text-gray-700 text-base mb-2 leading-relaxed">{point.awarenessText}</p>
+        <ReadAloudControls text={point.awarenessText} className="justify-center mb-4" />
         
         {/* The section for the AI's image suggestion. */}
         <div className="mt-4 border-t pt-4">
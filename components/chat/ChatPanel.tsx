@@ -0,0 +1,226 @@
+/**
+ * @file ChatPanel.tsx
+ * @description The follow-up chat shown by the Smart Pathway, Women Awareness ("Caring Partner")
+ * and Learn to Use Apps screens. It renders the messages of a `useChatSession` chat with
+ * Markdown formatting, lets the user copy a reply or listen to it, retry a failed one or stop one that is
+ * being written, offers suggested questions, and handles the keyboard: Enter sends,
+ * Shift+Enter starts a new line and Escape stops the reply. When a message looks like a
+ * crisis, the helpline banner is shown above the input.
+ */
+
+import React, { useState, useRef, useEffect } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { ChatSession } from '../../hooks/useChatSession';
+import MarkdownText from './MarkdownText';
+import ReadAloudControls from '../common/ReadAloudControls';
+import CrisisSupportBanner from '../safety/CrisisSupportBanner';
+import Card from '../common/Card';
+import Button from '../common/Button';
+
+// The colour schemes of the panel, matching the screen it is shown on.
+const CHAT_THEMES = {
+  teal: {
+    card: '',
+    title: 'text-teal-700',
+    subtitle: 'text-gray-500',
+    log: 'border-gray-200 bg-gray-50',
+    userBubble: 'bg-teal-500 text-white',
+    userTime: 'text-teal-100',
+    aiBubble: 'bg-white text-gray-800 border border-gray-200',
+    aiTime: 'text-gray-400',
+    spinner: 'text-teal-500',
+    chip: 'border-teal-300 text-teal-700 hover:bg-teal-50',
+    button: '',
+  },
+  rose: {
+    card: 'bg-rose-50 border border-rose-200',
+    title: 'text-rose-700',
+    subtitle: 'text-rose-600',
+    log: 'border-rose-200 bg-white',
+    userBubble: 'bg-rose-500 text-white',
+    userTime: 'text-rose-100',
+    aiBubble: 'bg-rose-100 text-rose-800',
+    aiTime: 'text-rose-400',
+    spinner: 'text-rose-500',
+    chip: 'border-rose-300 text-rose-700 bg-white hover:bg-rose-100',
+    button: 'bg-rose-600 hover:bg-rose-700 focus:ring-rose-500',
+  },
+};
+
+// How long the "Copied" confirmation stays on a message.
+const COPIED_FEEDBACK_MS = 2000;
+
+// Define the props for the ChatPanel component.
+interface ChatPanelProps {
+  chat: ChatSession;
+  title: string;
+  subtitle?: string;
+  placeholder: string;
+  suggestions?: string[]; // Follow-up questions offered as one-tap chips
+  disabled?: boolean; // Disables sending, e.g. while the screen is generating new content
+  theme?: keyof typeof CHAT_THEMES;
+}
+
+const ChatPanel: React.FC<ChatPanelProps> = ({ chat, title, subtitle, placeholder, suggestions = [], disabled = false, theme = 'teal' }) => {
+  const { translate } = useLanguage();
+  const styles = CHAT_THEMES[theme];
+  const [input, setInput] = useState('');
+  const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
+  const logRef = useRef<HTMLDivElement>(null); // To auto-scroll the messages
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+
+  // Effect to scroll the chat to the bottom when messages are added or a reply grows.
+  useEffect(() => {
+    if (logRef.current) {
+      logRef.current.scrollTop = logRef.current.scrollHeight;
+    }
+  }, [chat.messages]);
+
+  const canSend = chat.isActive && !chat.isLoading && !disabled;
+
+  /**
+   * Sends a message and clears the input.
+   * @param {string} text - The message to send.
+   */
+  const send = (text: string) => {
+    if (!canSend || !text.trim()) return;
+    chat.sendMessage(text.trim());
+    setInput('');
+    inputRef.current?.focus();
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    send(input);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Enter is also used to confirm a word in Indic input methods; leave it alone while composing.
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      send(input);
+    } else if (e.key === 'Escape' && chat.isLoading) {
+      e.preventDefault();
+      chat.stopGeneration();
+    }
+  };
+
+  /**
+   * Copies a message to the clipboard and briefly confirms it.
+   * @param {string} text - The message text.
+   * @param {number} index - The index of the message.
+   */
+  const handleCopy = async (text: string, index: number) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopiedIndex(index);
+      setTimeout(() => setCopiedIndex(current => (current === index ? null : current)), COPIED_FEEDBACK_MS);
+    } catch (copyError) {
+      console.error("Failed to copy the message", copyError);
+    }
+  };
+
+  const lastMessage = chat.messages[chat.messages.length - 1];
+  const showSuggestions = suggestions.length > 0 && canSend && lastMessage?.sender !== 'user';
+
+  return (
+    <Card className={`mt-10 pt-6 shadow-xl ${styles.card}`}>
+      <h2 className={`text-2xl font-semibold mb-1 px-6 ${styles.title}`}>{title}</h2>
+      {subtitle && <p className={`text-sm mb-4 px-6 ${styles.subtitle}`}>{subtitle}</p>}
+      <div
+        ref={logRef}
+        className={`h-96 overflow-y-auto mb-4 p-4 border-t border-b space-y-3 ${styles.log}`}
+        aria-live="polite"
+        role="log"
+      >
+        {chat.messages.map((msg, index) => (
+          <div key={index} className={`flex ${msg.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
+            <div
+              className={`max-w-lg lg:max-w-xl px-4 py-2 rounded-xl shadow-md text-sm ${
+                msg.sender === 'user' ? styles.userBubble : msg.isError ? 'bg-red-50 text-red-700 border border-red-200' : styles.aiBubble
+              }`}
+            >
+              {msg.sender === 'user' ? <p className="whitespace-pre-wrap">{msg.text}</p> : <MarkdownText text={msg.text} />}
+              <div className={`flex items-center gap-3 mt-1 text-xs ${msg.sender === 'user' ? `justify-end ${styles.userTime}` : `justify-start ${styles.aiTime}`}`}>
+                {msg.timestamp && <span>{msg.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>}
+                {msg.sender === 'ai' && !msg.isError && !(chat.isLoading && index === chat.messages.length - 1) && (
+                  <button type="button" onClick={() => handleCopy(msg.text, index)} className="hover:underline" aria-label={translate('copyMessage')}>
+                    <i className={`fas ${copiedIndex === index ? 'fa-check' : 'fa-copy'} mr-1`} aria-hidden="true"></i>
+                    {copiedIndex === index ? translate('copied') : translate('copyMessage')}
+                  </button>
+                )}
+                {msg.sender === 'ai' && !msg.isError && !(chat.isLoading && index === chat.messages.length - 1) && (
+                  <ReadAloudControls text={msg.text} language={chat.language} />
+                )}
+                {msg.isError && (
+                  <button type="button" onClick={() => chat.retryMessage(index)} disabled={!canSend} className="font-semibold text-red-700 hover:underline disabled:opacity-50">
+                    <i className="fas fa-redo mr-1" aria-hidden="true"></i>{translate('retry')}
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        ))}
+        {/* Shown until the first streamed chunk of the reply arrives */}
+        {chat.isLoading && lastMessage?.sender === 'user' && (
+          <div className="flex justify-start">
+            <div className={`max-w-xs p-3 rounded-lg shadow ${styles.aiBubble}`}>
+              <i className={`fas fa-spinner fa-spin mr-2 ${styles.spinner}`}></i>
+              <span className="text-sm">{translate('aiTyping')}</span>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {chat.crisisAlert && (
+        <CrisisSupportBanner category={chat.crisisAlert} onCall={chat.recordHelplineCall} onDismiss={chat.dismissCrisisAlert} />
+      )}
+
+      {/* --- Suggested Follow-up Questions --- */}
+      {showSuggestions && (
+        <div className="flex flex-wrap gap-2 px-4 mb-3">
+          {suggestions.map(suggestion => (
+            <button
+              key={suggestion}
+              type="button"
+              onClick={() => send(suggestion)}
+              className={`px-3 py-1 text-sm rounded-full border transition-colors ${styles.chip}`}
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="flex gap-3 p-4 pt-0 items-end">
+        <textarea
+          ref={inputRef}
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder={placeholder}
+          rows={2}
+          className="flex-grow resize-none px-4 py-3 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-teal-500 text-sm bg-white text-gray-900 placeholder-gray-500"
+          disabled={!chat.isActive || disabled}
+          aria-label={placeholder}
+          aria-describedby="chat-keyboard-hint"
+        />
+        {chat.isLoading ? (
+          <Button type="button" variant="secondary" onClick={chat.stopGeneration} aria-label={translate('stopGenerating')} className="px-4">
+            <i className="fas fa-stop"></i>
+            <span className="sr-only">{translate('stopGenerating')}</span>
+          </Button>
+        ) : (
+          <Button type="submit" disabled={!canSend || !input.trim()} aria-label={translate('send')} className={`px-4 ${styles.button}`}>
+            <i className="fas fa-paper-plane"></i>
+            <span className="sr-only">{translate('send')}</span>
+          </Button>
+        )}
+      </form>
+      <p id="chat-keyboard-hint" className="text-xs text-gray-400 px-4 pb-2">{translate('chatKeyboardHint')}</p>
+      {!chat.isActive && <p role="alert" className="text-red-500 text-xs text-center pb-2 px-4">{translate('aiErrorMissingApiKey')}</p>}
+    </Card>
+  );
+};
+
+export default ChatPanel;
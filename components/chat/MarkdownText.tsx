@@ -0,0 +1,121 @@
+/**
+ * @file MarkdownText.tsx
+ * @description Renders the small subset of Markdown that the AI uses in chat replies:
+ * headings, bullet and numbered lists, **bold**, *italic*, `code`, [links](https://...)
+ * and bare URLs. The text is turned into React elements (never raw HTML), so replies
+ * cannot inject markup into the page.
+ */
+
+import React from 'react';
+
+// Inline patterns, tried at every position: links, bare URLs, bold, italic and code.
+const INLINE_PATTERN = /\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)|(https?:\/\/[^\s<>()]+[^\s<>().,!?;:'"])|\*\*(.+?)\*\*|__(.+?)__|\*([^*\s][^*]*?)\*|(?<!\w)_([^_\s][^_]*?)_(?!\w)|`([^`]+)`/g;
+
+/**
+ * Renders the inline formatting of one line of text.
+ * @param {string} text - The line.
+ * @param {string} keyPrefix - Makes the keys of the returned elements unique.
+ * @returns {React.ReactNode[]} The rendered pieces.
+ */
+const renderInline = (text: string, keyPrefix: string): React.ReactNode[] => {
+  const nodes: React.ReactNode[] = [];
+  let lastIndex = 0;
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) nodes.push(text.slice(lastIndex, index));
+    const key = `${keyPrefix}-${index}`;
+    const [, linkText, linkUrl, bareUrl, bold, boldAlt, italic, italicAlt, code] = match;
+    if (linkUrl || bareUrl) {
+      nodes.push(
+        <a key={key} href={linkUrl || bareUrl} target="_blank" rel="noopener noreferrer" className="underline break-words">
+          {linkText || bareUrl}
+        </a>
+      );
+    } else if (bold || boldAlt) {
+      nodes.push(<strong key={key}>{renderInline(bold || boldAlt, key)}</strong>);
+    } else if (italic || italicAlt) {
+      nodes.push(<em key={key}>{italic || italicAlt}</em>);
+    } else if (code) {
+      nodes.push(<code key={key} className="px-1 rounded bg-black/10 font-mono text-[0.9em]">{code}</code>);
+    }
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < text.length) nodes.push(text.slice(lastIndex));
+  return nodes;
+};
+
+// A block of the reply: a heading, a paragraph (possibly several lines) or a list.
+type Block =
+  | { kind: 'heading'; level: number; text: string }
+  | { kind: 'paragraph'; lines: string[] }
+  | { kind: 'list'; ordered: boolean; items: string[] };
+
+/**
+ * Splits a reply into blocks.
+ * @param {string} text - The reply.
+ * @returns {Block[]} The blocks, in order.
+ */
+const toBlocks = (text: string): Block[] => {
+  const blocks: Block[] = [];
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+    const last = blocks[blocks.length - 1];
+    const heading = trimmed.match(/^(#{1,6})\s+(.*)$/);
+    const bullet = trimmed.match(/^[-*•]\s+(.*)$/);
+    const numbered = trimmed.match(/^\d+[.)]\s+(.*)$/);
+    if (!trimmed) {
+      blocks.push({ kind: 'paragraph', lines: [] }); // Ends the current block
+    } else if (heading) {
+      blocks.push({ kind: 'heading', level: heading[1].length, text: heading[2] });
+    } else if (bullet || numbered) {
+      const ordered = Boolean(numbered);
+      const itemText = (bullet || numbered)![1];
+      if (last?.kind === 'list' && last.ordered === ordered) last.items.push(itemText);
+      else blocks.push({ kind: 'list', ordered, items: [itemText] });
+    } else if (last?.kind === 'paragraph') {
+      last.lines.push(trimmed);
+    } else {
+      blocks.push({ kind: 'paragraph', lines: [trimmed] });
+    }
+  }
+  return blocks.filter(block => block.kind !== 'paragraph' || block.lines.length > 0);
+};
+
+// Define the props for the MarkdownText component.
+interface MarkdownTextProps {
+  text: string;
+  className?: string;
+}
+
+const MarkdownText: React.FC<MarkdownTextProps> = ({ text, className = '' }) => (
+  <div className={`space-y-2 break-words ${className}`}>
+    {toBlocks(text).map((block, blockIndex) => {
+      const key = `block-${blockIndex}`;
+      switch (block.kind) {
+        case 'heading':
+          return <p key={key} className={`font-semibold ${block.level <= 2 ? 'text-base' : ''}`}>{renderInline(block.text, key)}</p>;
+        case 'list': {
+          const ListTag = block.ordered ? 'ol' : 'ul';
+          return (
+            <ListTag key={key} className={`${block.ordered ? 'list-decimal' : 'list-disc'} pl-5 space-y-1`}>
+              {block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item, `${key}-${itemIndex}`)}</li>)}
+            </ListTag>
+          );
+        }
+        case 'paragraph':
+          return (
+            <p key={key}>
+              {block.lines.map((line, lineIndex) => (
+                <React.Fragment key={lineIndex}>
+                  {lineIndex > 0 && <br />}
+                  {renderInline(line, `${key}-${lineIndex}`)}
+                </React.Fragment>
+              ))}
+            </p>
+          );
+      }
+    })}
+  </div>
+);
+
+export default MarkdownText;
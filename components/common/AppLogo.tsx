@@ -1,6 +1,5 @@
 
 import React from 'react';
-import { APP_NAME } from '../../constants';
 import { useLanguage } from '../../contexts/LanguageContext';
 
 interface AppLogoProps {
@@ -10,7 +9,7 @@ interface AppLogoProps {
 
 const AppLogo: React.FC<AppLogoProps> = ({ size = 60, className = '' }) => {
   const { translate } = useLanguage();
-  const altText = `${translate('appName', APP_NAME)} Logo`;
+  const altText = `${translate('appName')} Logo`;
 
   return (
     <svg
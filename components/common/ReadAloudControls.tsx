@@ -0,0 +1,79 @@
+/**
+ * @file ReadAloudControls.tsx
+ * @description The read-aloud controls of a piece of content: a "Listen" button, then pause,
+ * resume, stop and the reading speed while it is read. Nothing is shown if the browser cannot
+ * read aloud at all, and a short note replaces the button if the device has no voice for the
+ * language of the text.
+ */
+
+import React from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useReadAloud } from '../../hooks/useReadAloud';
+import { SPEECH_RATES } from '../../services/speech';
+import { LANGUAGE_OPTIONS } from '../../constants';
+import { Language } from '../../types';
+
+// Define the props for the ReadAloudControls component.
+interface ReadAloudControlsProps {
+  text: string; // The text to read, as shown on screen
+  language?: Language; // The language of the text; defaults to the language of the UI
+  className?: string;
+}
+
+const ReadAloudControls: React.FC<ReadAloudControlsProps> = ({ text, language, className = '' }) => {
+  const { translate, language: uiLanguage } = useLanguage();
+  const textLanguage = language ?? uiLanguage;
+  const readAloud = useReadAloud(text, textLanguage);
+
+  if (!readAloud.isSupported || !text.trim()) return null;
+
+  if (readAloud.hasVoice === false || readAloud.status === 'unavailable') {
+    const languageName = LANGUAGE_OPTIONS.find(option => option.code === textLanguage)?.nativeName ?? textLanguage;
+    return (
+      <p className={`text-xs text-gray-400 ${className}`}>
+        <i className="fas fa-volume-mute mr-1" aria-hidden="true"></i>
+        {translate('readAloudNoVoice', { language: languageName })}
+      </p>
+    );
+  }
+
+  const buttonClassName = 'inline-flex items-center text-xs font-medium text-teal-700 hover:text-teal-800 hover:underline disabled:opacity-50';
+
+  if (readAloud.status === 'idle') {
+    return (
+      <div className={`flex items-center ${className}`}>
+        <button type="button" onClick={readAloud.play} disabled={readAloud.hasVoice === null} className={buttonClassName}>
+          <i className="fas fa-volume-up mr-1" aria-hidden="true"></i>{translate('readAloud')}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`flex flex-wrap items-center gap-3 ${className}`}>
+      {readAloud.status === 'playing' ? (
+        <button type="button" onClick={readAloud.pause} className={buttonClassName}>
+          <i className="fas fa-pause mr-1" aria-hidden="true"></i>{translate('readAloudPause')}
+        </button>
+      ) : (
+        <button type="button" onClick={readAloud.resume} className={buttonClassName}>
+          <i className="fas fa-play mr-1" aria-hidden="true"></i>{translate('readAloudResume')}
+        </button>
+      )}
+      <button type="button" onClick={readAloud.stop} className={buttonClassName}>
+        <i className="fas fa-stop mr-1" aria-hidden="true"></i>{translate('readAloudStop')}
+      </button>
+      <select
+        value={readAloud.rate}
+        onChange={(e) => readAloud.setRate(Number(e.target.value))}
+        aria-label={translate('readAloudSpeed')}
+        title={translate('readAloudSpeed')}
+        className="text-xs border border-gray-300 rounded px-1 py-0.5 bg-white text-gray-700"
+      >
+        {SPEECH_RATES.map(rate => <option key={rate} value={rate}>{rate}×</option>)}
+      </select>
+    </div>
+  );
+};
+
+export default ReadAloudControls;
@@ -0,0 +1,193 @@
+/**
+ * @file TranslationOverlay.tsx
+ * @description A development tool that outlines the untranslated text on screen. It is only
+ * rendered by `npm run dev` (see App.tsx). When switched on with its button, it looks for the
+ * strings of the current language that are missing from its catalog (red) or the same as in
+ * English (amber), and outlines the elements showing them; hovering one shows its key. Text
+ * written into the JSX of a component instead of a catalog (purple) is found by reading the
+ * sources of the components, and hovering it shows the file and line it is written in.
+ * `npm run i18n:coverage` lists the same strings for every language at once.
+ */
+
+/// <reference types="vite/client" />
+
+import React, { useEffect, useMemo, useState } from 'react';
+import en from '../../locales/en.json';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { getTranslationForms, getTranslationStatus } from '../../services/i18n';
+import { findHardCodedText } from '../../services/hardCodedText';
+import { Language, TranslationKey, TranslationStatus } from '../../types';
+
+// The attributes whose text is checked, besides the text of the elements.
+const CHECKED_ATTRIBUTES = ['placeholder', 'aria-label', 'title'];
+// Marks the overlay's own elements, which are never outlined.
+const OVERLAY_ATTRIBUTE = 'data-translation-overlay';
+// The sources of the components, loaded when the overlay is first switched on.
+const COMPONENT_SOURCES = import.meta.glob<string>(['/**/*.tsx', '!/node_modules/**', '!/components/dev/**'], { query: '?raw', import: 'default' });
+
+// The outline of each status that is highlighted.
+const OVERLAY_STYLES = `
+  [data-untranslated="missing"], [data-untranslated="fallback"] { outline: 2px dashed #dc2626; outline-offset: 2px; }
+  [data-untranslated="identical"] { outline: 2px dashed #d97706; outline-offset: 2px; }
+  [data-untranslated="hardCoded"] { outline: 2px dashed #7c3aed; outline-offset: 2px; }
+`;
+
+interface UntranslatedString {
+  label: string; // Shown on hover: the key of the string, or where hard-coded text is written
+  status: Exclude<TranslationStatus, 'translated'> | 'hardCoded';
+}
+
+interface UntranslatedMatchers {
+  exact: Map<string, UntranslatedString>; // Strings without placeholders, and hard-coded text
+  patterns: { pattern: RegExp; string: UntranslatedString }[]; // Strings with placeholders, which match any value
+}
+
+/**
+ * Reads the hard-coded text of every component.
+ * @returns {Promise<Map<string, string>>} The text, with the file and line it is written in.
+ */
+const loadHardCodedText = async (): Promise<Map<string, string>> => {
+  const hardCodedText = new Map<string, string>();
+  await Promise.all(Object.entries(COMPONENT_SOURCES).map(async ([file, loadSource]) => {
+    findHardCodedText(await loadSource()).forEach(({ text, line }) => hardCodedText.set(text, `${file.slice(1)}:${line}`));
+  }));
+  return hardCodedText;
+};
+
+/**
+ * Builds the matchers of the untranslated strings of a language.
+ * @param {Language} language - The language of the UI.
+ * @param {Map<string, string>} hardCodedText - The hard-coded text of the components, with where it is written.
+ * @returns {UntranslatedMatchers} The matchers.
+ */
+const buildMatchers = (language: Language, hardCodedText: Map<string, string>): UntranslatedMatchers => {
+  const matchers: UntranslatedMatchers = { exact: new Map(), patterns: [] };
+  hardCodedText.forEach((location, text) => matchers.exact.set(text, { label: location, status: 'hardCoded' }));
+  for (const key of Object.keys(en) as TranslationKey[]) {
+    const status = getTranslationStatus(language, key);
+    if (status === 'translated') continue;
+    for (const form of getTranslationForms(language, key)) {
+      // Strings without letters, such as "{count}/{total}", read the same in every language.
+      if (!/\p{L}/u.test(form.replace(/\{\w+\}/g, ''))) continue;
+      if (!form.includes('{')) {
+        matchers.exact.set(form.trim(), { label: key, status });
+        continue;
+      }
+      const source = form.trim().split(/\{\w+\}/).map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('.+?');
+      matchers.patterns.push({ pattern: new RegExp(`^${source}$`, 's'), string: { label: key, status } });
+    }
+  }
+  return matchers;
+};
+
+/**
+ * Finds the untranslated string a text shows, if any.
+ * @param {string | null} text - The text of an element or attribute.
+ * @param {UntranslatedMatchers} matchers - The matchers of the untranslated strings.
+ * @returns {UntranslatedString | undefined} The string, or undefined if the text is translated.
+ */
+const matchText = (text: string | null, matchers: UntranslatedMatchers): UntranslatedString | undefined => {
+  const trimmedText = text?.replace(/\s+/g, ' ').trim();
+  if (!trimmedText) return undefined;
+  return matchers.exact.get(trimmedText) ?? matchers.patterns.find(({ pattern }) => pattern.test(trimmedText))?.string;
+};
+
+/**
+ * Outlines the elements showing untranslated strings, clearing the previous outlines first.
+ * @param {UntranslatedMatchers} matchers - The matchers of the untranslated strings.
+ * @returns {number} How many elements were outlined.
+ */
+const markUntranslatedElements = (matchers: UntranslatedMatchers): number => {
+  document.querySelectorAll('[data-untranslated]').forEach(element => {
+    element.removeAttribute('data-untranslated');
+    if (element.hasAttribute('data-translation-title')) {
+      element.removeAttribute('title');
+      element.removeAttribute('data-translation-title');
+    }
+  });
+  const marked = new Map<Element, UntranslatedString>();
+  const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const element = node.parentElement;
+    if (!element || element.closest(`[${OVERLAY_ATTRIBUTE}], script, style`)) continue;
+    const string = matchText(node.textContent, matchers);
+    if (string) marked.set(element, string);
+  }
+  document.querySelectorAll(CHECKED_ATTRIBUTES.map(attribute => `[${attribute}]`).join(', ')).forEach(element => {
+    if (element.closest(`[${OVERLAY_ATTRIBUTE}]`)) return;
+    const string = CHECKED_ATTRIBUTES.map(attribute => matchText(element.getAttribute(attribute), matchers)).find(Boolean);
+    if (string) marked.set(element, string);
+  });
+  marked.forEach((string, element) => {
+    element.setAttribute('data-untranslated', string.status);
+    // The key is shown on hover, unless the element already has a tooltip of its own.
+    if (!element.hasAttribute('title')) {
+      element.setAttribute('title', `${string.label} (${string.status})`);
+      element.setAttribute('data-translation-title', '');
+    }
+  });
+  return marked.size;
+};
+
+/**
+ * The development overlay that highlights untranslated text.
+ * @returns {JSX.Element} The switch of the overlay, and its outlines while it is on.
+ */
+const TranslationOverlay: React.FC = () => {
+  const { language } = useLanguage();
+  const [isActive, setIsActive] = useState(() => localStorage.getItem('femmoraTranslationOverlay') === 'on');
+  const [markedCount, setMarkedCount] = useState(0);
+  const [hardCodedText, setHardCodedText] = useState<Map<string, string> | null>(null);
+  const matchers = useMemo(() => buildMatchers(language, hardCodedText ?? new Map()), [language, hardCodedText]);
+
+  // Effect to read the hard-coded text of the components the first time the overlay is switched on.
+  useEffect(() => {
+    if (!isActive || hardCodedText) return;
+    loadHardCodedText()
+      .then(setHardCodedText)
+      .catch(error => console.error("Failed to read the sources of the components", error));
+  }, [isActive, hardCodedText]);
+
+  // Effect to outline the untranslated text while the overlay is on, again whenever the page changes.
+  useEffect(() => {
+    if (!isActive) return;
+    let frame = 0;
+    const mark = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => setMarkedCount(markUntranslatedElements(matchers)));
+    };
+    // Only content changes are observed, so setting the outline attributes does not trigger another pass.
+    const observer = new MutationObserver(mark);
+    observer.observe(document.body, { childList: true, subtree: true, characterData: true });
+    mark();
+    return () => {
+      observer.disconnect();
+      cancelAnimationFrame(frame);
+      markUntranslatedElements({ exact: new Map(), patterns: [] });
+    };
+  }, [isActive, matchers]);
+
+  /**
+   * Switches the overlay on or off, and remembers the choice on this device.
+   */
+  const toggleOverlay = () => {
+    localStorage.setItem('femmoraTranslationOverlay', isActive ? 'off' : 'on');
+    setIsActive(!isActive);
+  };
+
+  return (
+    <div {...{ [OVERLAY_ATTRIBUTE]: '' }} className="fixed bottom-6 left-6 z-50">
+      {isActive && <style>{OVERLAY_STYLES}</style>}
+      <button
+        type="button"
+        onClick={toggleOverlay}
+        className="bg-gray-800 text-white text-xs px-3 py-2 rounded-full shadow-lg opacity-80 hover:opacity-100"
+        title="Outline the text that is not translated into the current language"
+      >
+        🌐 {isActive ? `${markedCount} untranslated (${language})` : 'Check translations'}
+      </button>
+    </div>
+  );
+};
+
+export default TranslationOverlay;
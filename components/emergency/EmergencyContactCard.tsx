@@ -0,0 +1,68 @@
+/**
+ * @file EmergencyContactCard.tsx
+ * @description Shows one emergency contact (a helpline or a trusted contact) with a call
+ * button. Calling goes through a `tel:` link, which opens the phone's dialler.
+ */
+
+import React from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { getTelLink } from '../../services/emergencyContacts';
+import { EMERGENCY_CONTACT_ICONS } from '../../data/emergencyContactsData';
+import { EmergencyContact, TranslationKey } from '../../types';
+import Card from '../common/Card';
+
+// Define the props for the EmergencyContactCard component.
+interface EmergencyContactCardProps {
+  contact: EmergencyContact;
+  onRemove?: () => void; // Shown for trusted contacts only
+}
+
+/**
+ * Returns the name to show for a contact. National helplines are translated; trusted
+ * contacts keep the name the user typed, and state helplines their English name.
+ * @param {EmergencyContact} contact - The contact.
+ * @param {(key: TranslationKey) => string} translate - The translate function of the LanguageContext.
+ * @returns {string} The name.
+ */
+export const getContactName = (contact: EmergencyContact, translate: (key: TranslationKey) => string): string =>
+  contact.nameKey ? translate(contact.nameKey) : contact.name;
+
+const EmergencyContactCard: React.FC<EmergencyContactCardProps> = ({ contact, onRemove }) => {
+  const { translate } = useLanguage();
+  const name = getContactName(contact, translate);
+
+  return (
+    <Card className="!bg-red-50 border border-red-200">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div>
+          <h3 className="text-xl font-semibold text-red-700 flex items-center">
+            <i className={`fas ${EMERGENCY_CONTACT_ICONS[contact.type]} mr-3 text-2xl`} aria-hidden="true"></i>{name}
+          </h3>
+          {contact.relation && <p className="text-sm text-gray-600 mt-1">{contact.relation}</p>}
+          <p className="text-2xl text-gray-800 font-bold mt-1">{contact.phoneNumber}</p>
+        </div>
+        <div className="flex gap-2">
+          <a
+            href={getTelLink(contact.phoneNumber)}
+            className="inline-flex items-center justify-center px-6 py-3 rounded-lg bg-red-600 hover:bg-red-700 text-white font-semibold text-lg shadow focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2"
+            aria-label={`${translate('callNumber')} ${name} ${contact.phoneNumber}`}
+          >
+            <i className="fas fa-phone mr-2" aria-hidden="true"></i>{translate('callNumber')}
+          </a>
+          {onRemove && (
+            <button
+              type="button"
+              onClick={onRemove}
+              className="px-4 py-3 rounded-lg border border-red-300 text-red-700 hover:bg-red-100"
+              aria-label={`${translate('removeContact')} ${name}`}
+            >
+              <i className="fas fa-trash" aria-hidden="true"></i>
+            </button>
+          )}
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export default EmergencyContactCard;
@@ -0,0 +1,78 @@
+/**
+ * @file QuickDialWidget.tsx
+ * @description A phone button pinned to the bottom corner of every page of the main layout.
+ * It opens a small panel to call the main helplines, the user's state helplines and their
+ * trusted contacts in one tap, without leaving the page.
+ */
+
+import React, { useState } from 'react';
+import * as ReactRouterDOM from 'react-router-dom';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useEmergencyContacts } from '../../contexts/EmergencyContactsContext';
+import { getTelLink } from '../../services/emergencyContacts';
+import { EMERGENCY_CONTACT_ICONS, NATIONAL_HELPLINES } from '../../data/emergencyContactsData';
+import { APP_ROUTES } from '../../constants';
+import { getContactName } from './EmergencyContactCard';
+
+// The national helplines offered in the panel, by id.
+const QUICK_DIAL_HELPLINE_IDS = ['emergencyHelpline', 'womenHelpline', 'policeHelpline'];
+
+const QuickDialWidget: React.FC = () => {
+  const { translate } = useLanguage();
+  const { trustedContacts, stateHelplines } = useEmergencyContacts();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const contacts = [
+    ...NATIONAL_HELPLINES.filter(helpline => QUICK_DIAL_HELPLINE_IDS.includes(helpline.id)),
+    ...stateHelplines,
+    ...trustedContacts,
+  ];
+
+  return (
+    <div className="fixed bottom-6 right-6 z-40 flex flex-col items-end">
+      {isOpen && (
+        <div id="quick-dial-panel" className="mb-3 w-72 max-h-[70vh] overflow-y-auto bg-white rounded-xl shadow-2xl border border-red-200 p-4">
+          <h2 className="text-lg font-semibold text-red-700 mb-3">{translate('quickDial')}</h2>
+          <ul className="space-y-2">
+            {contacts.map(contact => (
+              <li key={contact.id}>
+                <a
+                  href={getTelLink(contact.phoneNumber)}
+                  className="flex items-center justify-between gap-3 px-3 py-2 rounded-lg bg-red-50 hover:bg-red-100 text-gray-800"
+                >
+                  <span className="flex items-center min-w-0">
+                    <i className={`fas ${EMERGENCY_CONTACT_ICONS[contact.type]} text-red-600 mr-2`} aria-hidden="true"></i>
+                    <span className="truncate">{getContactName(contact, translate)}</span>
+                  </span>
+                  <span className="font-bold text-red-700 whitespace-nowrap">
+                    <i className="fas fa-phone mr-1" aria-hidden="true"></i>{contact.phoneNumber}
+                  </span>
+                </a>
+              </li>
+            ))}
+          </ul>
+          <ReactRouterDOM.Link
+            to={APP_ROUTES.EMERGENCY_CONTACTS}
+            onClick={() => setIsOpen(false)}
+            className="block mt-3 text-sm text-teal-600 hover:text-teal-800 font-medium"
+          >
+            {translate('allEmergencyContacts')} <i className="fas fa-arrow-right ml-1" aria-hidden="true"></i>
+          </ReactRouterDOM.Link>
+        </div>
+      )}
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="bg-red-600 text-white w-14 h-14 rounded-full shadow-lg hover:bg-red-700 transition-colors focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2"
+        aria-label={translate('quickDial')}
+        aria-expanded={isOpen}
+        aria-controls="quick-dial-panel"
+        title={translate('quickDial')}
+      >
+        <i className={`fas ${isOpen ? 'fa-times' : 'fa-phone-alt'} text-2xl`} aria-hidden="true"></i>
+      </button>
+    </div>
+  );
+};
+
+export default QuickDialWidget;
@@ -0,0 +1,182 @@
+/**
+ * @file SosButton.tsx
+ * @description The SOS button in the header of every page of the main layout. Pressing it
+ * starts a short countdown that can be cancelled; when the countdown ends, the alert is
+ * written in the user's language with a link to her current location, recorded in the local
+ * incident log, and the SMS app is opened with the alert addressed to all trusted contacts.
+ * WhatsApp share buttons for each contact, and a call to 112, are shown as well.
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import * as ReactRouterDOM from 'react-router-dom';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { useEmergencyContacts } from '../../contexts/EmergencyContactsContext';
+import { buildSosMessage, getCurrentLocation, getMapLink, getSmsLink, getWhatsAppLink } from '../../services/sosAlert';
+import { getTelLink } from '../../services/emergencyContacts';
+import { recordSosIncident } from '../../services/sosIncidentLog';
+import { APP_ROUTES } from '../../constants';
+import { GeoPoint } from '../../types';
+import Button from '../common/Button';
+
+// How many seconds the user has to cancel the alert.
+const SOS_COUNTDOWN_SECONDS = 5;
+
+// The number called from the SOS panel (the national emergency number).
+const SOS_EMERGENCY_NUMBER = '112';
+
+// 'countdown': waiting for the user to cancel; 'sending': waiting for the location; 'sent': the alert is ready.
+type SosPhase = 'idle' | 'countdown' | 'sending' | 'sent';
+
+const SosButton: React.FC = () => {
+  const { translate } = useLanguage();
+  const { user } = useAuth();
+  const { trustedContacts } = useEmergencyContacts();
+  const [phase, setPhase] = useState<SosPhase>('idle');
+  const [secondsLeft, setSecondsLeft] = useState(SOS_COUNTDOWN_SECONDS);
+  const [alert, setAlert] = useState<{ message: string; location: GeoPoint | null } | null>(null);
+  const locationRef = useRef<Promise<GeoPoint | null> | null>(null); // Looked up while the countdown runs
+  const cancelledRef = useRef(false);
+
+  // Effect to tick the countdown down once a second, and to send the alert when it ends.
+  useEffect(() => {
+    if (phase !== 'countdown') return;
+    if (secondsLeft === 0) {
+      sendAlert();
+      return;
+    }
+    const timerId = window.setTimeout(() => setSecondsLeft(seconds => seconds - 1), 1000);
+    return () => window.clearTimeout(timerId);
+  }, [phase, secondsLeft]);
+
+  // Effect to cancel the countdown with the Escape key.
+  useEffect(() => {
+    if (phase !== 'countdown' && phase !== 'sending') return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') handleCancel();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [phase]);
+
+  const handleStart = () => {
+    cancelledRef.current = false;
+    locationRef.current = getCurrentLocation();
+    setAlert(null);
+    setSecondsLeft(SOS_COUNTDOWN_SECONDS);
+    setPhase('countdown');
+  };
+
+  const handleCancel = () => {
+    cancelledRef.current = true;
+    setPhase('idle');
+  };
+
+  /**
+   * Writes the alert, records it and opens the SMS app with it.
+   */
+  const sendAlert = async () => {
+    setPhase('sending');
+    const location = await (locationRef.current ?? getCurrentLocation());
+    if (cancelledRef.current) return;
+    const message = buildSosMessage({
+      alert: translate('sosMessage'),
+      senderName: user?.name ?? '',
+      locationLabel: translate('sosMyLocation'),
+      noLocation: translate('sosLocationUnavailable'),
+    }, location);
+    if (user) recordSosIncident(user.id, { location: location ?? undefined, contactsAlerted: trustedContacts.length });
+    setAlert({ message, location });
+    setPhase('sent');
+    if (trustedContacts.length > 0) {
+      window.location.href = getSmsLink(trustedContacts.map(contact => contact.phoneNumber), message);
+    }
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={handleStart}
+        className="px-3 py-2 rounded-full bg-red-600 hover:bg-red-700 text-white font-bold shadow focus:outline-none focus:ring-2 focus:ring-white"
+        aria-label={translate('sosButtonLabel')}
+        title={translate('sosButtonLabel')}
+      >
+        <i className="fas fa-exclamation-circle mr-1" aria-hidden="true"></i>SOS
+      </button>
+
+      {phase !== 'idle' && (
+        <div className="fixed inset-0 z-[60] bg-black/60 flex items-center justify-center p-4">
+          <div role="alertdialog" aria-modal="true" aria-labelledby="sos-title" className="bg-white rounded-2xl shadow-2xl w-full max-w-md p-6 text-gray-800">
+            {phase === 'countdown' && (
+              <div className="text-center">
+                <h2 id="sos-title" className="text-2xl font-bold text-red-700 mb-2">{translate('sosCountdownTitle')}</h2>
+                <p className="text-7xl font-extrabold text-red-600 my-6" aria-live="assertive">{secondsLeft}</p>
+                <p className="text-gray-600 mb-6">{translate('sosCountdownHint')}</p>
+                <Button onClick={handleCancel} variant="secondary" size="lg" fullWidth>{translate('cancel')}</Button>
+              </div>
+            )}
+
+            {phase === 'sending' && (
+              <div className="text-center" role="status">
+                <h2 id="sos-title" className="text-2xl font-bold text-red-700 mb-4">{translate('sosSending')}</h2>
+                <i className="fas fa-spinner fa-spin text-4xl text-red-600 mb-6" aria-hidden="true"></i>
+                <Button onClick={handleCancel} variant="secondary" size="lg" fullWidth>{translate('cancel')}</Button>
+              </div>
+            )}
+
+            {phase === 'sent' && alert && (
+              <div>
+                <h2 id="sos-title" className="text-2xl font-bold text-red-700 mb-2">{translate('sosReadyTitle')}</h2>
+                <p className="text-sm text-gray-600 mb-4">
+                  {alert.location ? (
+                    <a href={getMapLink(alert.location)} target="_blank" rel="noopener noreferrer" className="text-teal-600 underline">
+                      <i className="fas fa-map-marker-alt mr-1" aria-hidden="true"></i>{translate('sosMyLocation')}
+                    </a>
+                  ) : translate('sosLocationUnavailable')}
+                </p>
+                {trustedContacts.length > 0 ? (
+                  <div className="space-y-2 mb-4">
+                    <a
+                      href={getSmsLink(trustedContacts.map(contact => contact.phoneNumber), alert.message)}
+                      className="flex items-center justify-center px-4 py-3 rounded-lg bg-red-600 hover:bg-red-700 text-white font-semibold"
+                    >
+                      <i className="fas fa-sms mr-2" aria-hidden="true"></i>{translate('sosSendSms')}
+                    </a>
+                    {trustedContacts.map(contact => (
+                      <a
+                        key={contact.id}
+                        href={getWhatsAppLink(contact.phoneNumber, alert.message)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center justify-center px-4 py-2 rounded-lg bg-green-600 hover:bg-green-700 text-white font-medium"
+                      >
+                        <i className="fab fa-whatsapp mr-2" aria-hidden="true"></i>{translate('sosSendWhatsApp')} {contact.name}
+                      </a>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="bg-amber-50 border-l-4 border-amber-500 p-3 text-sm text-amber-800 mb-4">
+                    {translate('sosNoTrustedContacts')}{' '}
+                    <ReactRouterDOM.Link to={APP_ROUTES.EMERGENCY_CONTACTS} onClick={() => setPhase('idle')} className="underline font-medium">
+                      {translate('addTrustedContact')}
+                    </ReactRouterDOM.Link>
+                  </p>
+                )}
+                <a
+                  href={getTelLink(SOS_EMERGENCY_NUMBER)}
+                  className="flex items-center justify-center px-4 py-3 mb-3 rounded-lg border-2 border-red-600 text-red-700 font-semibold hover:bg-red-50"
+                >
+                  <i className="fas fa-phone mr-2" aria-hidden="true"></i>{translate('callNumber')} {SOS_EMERGENCY_NUMBER}
+                </a>
+                <Button onClick={() => setPhase('idle')} variant="secondary" fullWidth>{translate('sosClose')}</Button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default SosButton;
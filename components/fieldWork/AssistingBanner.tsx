@@ -0,0 +1,39 @@
+/**
+ * @file AssistingBanner.tsx
+ * @description Shows, at the top of every page of the main layout, which beneficiary the
+ * volunteer is assisting, so pathways are never created for the wrong person. Stopping
+ * goes back to the volunteer's own pathways.
+ */
+
+import React from 'react';
+import * as ReactRouterDOM from 'react-router-dom';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useBeneficiaries } from '../../contexts/BeneficiariesContext';
+import { APP_ROUTES } from '../../constants';
+import Button from '../common/Button';
+
+const AssistingBanner: React.FC = () => {
+  const { translate } = useLanguage();
+  const { assistedBeneficiary, stopAssisting } = useBeneficiaries();
+  const navigate = ReactRouterDOM.useNavigate();
+
+  if (!assistedBeneficiary) return null;
+
+  const handleStop = () => {
+    stopAssisting();
+    navigate(APP_ROUTES.BENEFICIARIES);
+  };
+
+  return (
+    <div className="bg-indigo-50 border-l-4 border-indigo-500 rounded-lg shadow p-4 mb-6 flex flex-col sm:flex-row sm:items-center gap-3" role="status">
+      <i className="fas fa-hands-helping text-indigo-500 text-2xl" aria-hidden="true"></i>
+      <div className="flex-grow">
+        <p className="font-semibold text-indigo-800">{translate('assistingBeneficiary', { name: assistedBeneficiary.name })}</p>
+        <p className="text-gray-700 text-sm">{translate('assistingBeneficiaryHint')}</p>
+      </div>
+      <Button size="sm" variant="secondary" onClick={handleStop}>{translate('stopAssisting')}</Button>
+    </div>
+  );
+};
+
+export default AssistingBanner;
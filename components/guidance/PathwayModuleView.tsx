@@ -0,0 +1,251 @@
+/**
+ * @file PathwayModuleView.tsx
+ * @description Renders one module of a generated Smart Pathway (the roadmap, life awareness,
+ * schemes, digital learning tips or motivational support). Used by the pathway screen and
+ * by the side-by-side compare view. When progress handlers are given, the steps and resources
+ * of the roadmap get checkboxes to mark them as done. The steps, topics, audio tips and
+ * encouragement can be read aloud, in the language the pathway was generated in.
+ */
+
+import React from 'react';
+import { GeneratedGuidance, GuidanceModuleError, GuidanceModuleKey, Language, PathwayProgress, PathwayStepResource, TranslationKey } from '../../types';
+import { getResourceKey } from '../../services/pathwayProgress';
+import Card from '../common/Card';
+import ReadAloudControls from '../common/ReadAloudControls';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { translateText } from '../../services/i18n';
+
+// Translation keys of the module titles, used for the headings and for validation errors.
+export const PATHWAY_MODULE_TITLE_KEYS: Record<GuidanceModuleError['module'], TranslationKey> = {
+  educationalPathway: 'pathwayModuleEducational',
+  lifeAwarenessModule: 'pathwayModuleLifeAwareness',
+  schemesAndRights: 'pathwayModuleSchemes',
+  digitalLearningTips: 'pathwayModuleDigitalLearning',
+  motivationalSupport: 'pathwayModuleMotivation',
+  response: 'pathwayModuleWholeResponse',
+};
+
+/**
+ * Extracts the first URL found in a given string.
+ * @param {string} text - The text to search for a URL.
+ * @returns {string | undefined} The found URL or undefined.
+ */
+const extractUrl = (text: string): string | undefined => {
+  const urlRegex = /(https?:\/\/[^\s()]+)/g;
+  const match = text.match(urlRegex);
+  return match ? match[0] : undefined;
+};
+
+/**
+ * Renders a single resource item within a pathway step, making it a clickable link if a URL exists.
+ * @param {PathwayStepResource} resource - The resource to render.
+ * @returns {JSX.Element} The rendered resource element.
+ */
+const renderPathwayStepResource = (resource: PathwayStepResource) => {
+  let resourceDisplay = resource.name;
+  if (resource.type) {
+      resourceDisplay = `${resource.name} (${resource.type})`;
+  }
+  if (resource.url) {
+    return (
+      <a href={resource.url} target="_blank" rel="noopener noreferrer" className="text-teal-600 hover:text-teal-700 underline">
+        {resourceDisplay} <i className="fas fa-external-link-alt text-xs"></i>
+      </a>
+    );
+  }
+  return <span className="text-gray-700">{resourceDisplay}</span>;
+};
+
+// Define the props for the PathwayModuleView component.
+interface PathwayModuleViewProps {
+  guidance: GeneratedGuidance;
+  module: GuidanceModuleKey;
+  progress?: PathwayProgress; // What is marked as done; checkboxes are shown only when the handlers are given
+  onToggleStep?: (stepIndex: number) => void;
+  onToggleResource?: (resourceKey: string) => void;
+  language?: Language; // The language the pathway was generated in, which it is read aloud in
+}
+
+const PathwayModuleView: React.FC<PathwayModuleViewProps> = ({ guidance, module, progress, onToggleStep, onToggleResource, language }) => {
+  const { translate, language: uiLanguage } = useLanguage();
+  const contentLanguage = language ?? uiLanguage;
+
+  /**
+   * Builds the text read aloud for a roadmap step, with the headings of its lists in the
+   * language of the pathway so the voice can read them.
+   * @param {number} index - The index of the step.
+   * @returns {string} The title, do's, don'ts and tip of the step, one per line.
+   */
+  const getStepSpeech = (index: number): string => {
+    const step = guidance.educationalPathway!.steps[index];
+    return [
+      step.stepTitle || `${translateText(contentLanguage, 'step')} ${index + 1}`,
+      ...(step.dos.length > 0 ? [translateText(contentLanguage, 'dos'), ...step.dos] : []),
+      ...(step.donts.length > 0 ? [translateText(contentLanguage, 'donts'), ...step.donts] : []),
+      ...(step.tip ? [translateText(contentLanguage, 'tip'), step.tip] : []),
+    ].join('\n');
+  };
+
+  switch (module) {
+    case 'educationalPathway':
+      return (
+        <>
+          {guidance.educationalPathway && guidance.educationalPathway.steps.length > 0 && (
+            <Card>
+              <h2 className="text-2xl font-semibold text-teal-700 mb-4">1️⃣ {translate(PATHWAY_MODULE_TITLE_KEYS.educationalPathway)}</h2>
+              <div className="space-y-6">
+                {guidance.educationalPathway.steps.map((step, index) => (
+                  <Card key={index} className={`border shadow-md ${progress?.completedSteps.includes(index) ? 'border-green-400 bg-green-50' : 'border-teal-200'}`}>
+                    <h3 className="text-xl font-semibold text-teal-700 mb-3">
+                      {onToggleStep ? (
+                        <label className="flex items-start gap-3 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={progress?.completedSteps.includes(index) ?? false}
+                            onChange={() => onToggleStep(index)}
+                            className="mt-1 h-5 w-5 flex-shrink-0 text-teal-600 border-gray-300 rounded focus:ring-teal-500"
+                            aria-label={translate('markStepDone')}
+                          />
+                          <span>{step.stepTitle || `${translate('step')} ${index + 1}`}</span>
+                        </label>
+                      ) : (step.stepTitle || `${translate('step')} ${index + 1}`)}
+                    </h3>
+                    <ReadAloudControls text={getStepSpeech(index)} language={contentLanguage} className="mb-3" />
+                    {step.dos.length > 0 && (<div className="mb-2"><h4 className="text-md font-medium text-green-700"><i className="fas fa-check-circle mr-2" aria-hidden="true"></i>{translate('dos')}</h4><ul className="list-disc list-inside text-gray-700 pl-4">{step.dos.map((item, i) => <li key={i}>{item}</li>)}</ul></div>)}
+                    {step.donts.length > 0 && (<div className="mb-2"><h4 className="text-md font-medium text-red-700"><i className="fas fa-times-circle mr-2" aria-hidden="true"></i>{translate('donts')}</h4><ul className="list-disc list-inside text-gray-700 pl-4">{step.donts.map((item, i) => <li key={i}>{item}</li>)}</ul></div>)}
+                    {step.resources.length > 0 && (<div className="mb-2"><h4 className="text-md font-medium text-blue-700"><i className="fas fa-book-reader mr-2" aria-hidden="true"></i>{translate('resources')}</h4>{onToggleResource ? (
+                      <ul className="text-gray-700 pl-4 space-y-1">
+                        {step.resources.map((item, i) => (
+                          <li key={i} className="flex items-start gap-2">
+                            <input
+                              type="checkbox"
+                              checked={progress?.completedResources.includes(getResourceKey(index, i)) ?? false}
+                              onChange={() => onToggleResource(getResourceKey(index, i))}
+                              className="mt-1 h-4 w-4 flex-shrink-0 text-teal-600 border-gray-300 rounded focus:ring-teal-500"
+                              aria-label={`${translate('markResourceDone')}: ${item.name}`}
+                            />
+                            {renderPathwayStepResource(item)}
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (<ul className="list-disc list-inside text-gray-700 pl-4">{step.resources.map((item, i) => <li key={i}>{renderPathwayStepResource(item)}</li>)}</ul>)}</div>)}
+                    {step.tip && (<div><h4 className="text-md font-medium text-amber-700"><i className="fas fa-lightbulb mr-2" aria-hidden="true"></i>{translate('tip')}</h4><p className="text-gray-700 italic pl-4">{step.tip}</p></div>)}
+                  </Card>
+                ))}
+              </div>
+            </Card>
+          )}
+        </>
+      );
+    case 'lifeAwarenessModule':
+      return (
+        <>
+          {guidance.lifeAwarenessModule && (guidance.lifeAwarenessModule.ageGroupFocus || guidance.lifeAwarenessModule.topics.length > 0) && (
+            <Card>
+                <h2 className="text-2xl font-semibold text-teal-700 mb-4">2️⃣ {translate(PATHWAY_MODULE_TITLE_KEYS.lifeAwarenessModule)}</h2>
+                {guidance.lifeAwarenessModule.ageGroupFocus && <p className="text-lg text-gray-700 mb-3"><strong>{translate('pathwayFocus')}:</strong> {guidance.lifeAwarenessModule.ageGroupFocus}</p>}
+                <div className="space-y-6">
+                    {guidance.lifeAwarenessModule.topics.map((topic,idx) => (
+                        <Card key={idx} className="border border-gray-200 shadow-sm">
+                            <h4 className="text-xl font-medium text-teal-600 mb-2">{topic.topicTitle}</h4>
+                            <ReadAloudControls text={[topic.topicTitle, ...topic.guidancePoints.map(gp => gp.point)].join('\n')} language={contentLanguage} className="mb-2" />
+                            {topic.guidancePoints.map((gp, gpIdx) => (
+                                <div key={gpIdx} className="mb-3 pb-3 border-b border-gray-100 last:border-b-0">
+                                    <p className="text-gray-700 flex items-start">
+                                      <i className="fas fa-lightbulb text-yellow-500 mr-2 mt-1 flex-shrink-0" aria-hidden="true"></i>
+                                      <span>{gp.point}</span>
+                                    </p>
+                                    {gp.visualCue && (
+                                      <div className="mt-2 pl-6">
+                                        {/* Removed img tag that used picsum.photos */}
+                                        <p className="text-xs text-gray-500 italic mt-1 p-2 bg-gray-50 rounded text-center">{translate('pathwayVisualSuggestion')}: {gp.visualCue}</p>
+                                      </div>
+                                    )}
+                                </div>
+                            ))}
+                            {topic.audioTip && (
+                              <div className="mt-2 pl-2">
+                                <p className="text-sm text-blue-500 italic"><i className="fas fa-volume-up mr-1" aria-hidden="true"></i> {topic.audioTip}</p>
+                                <ReadAloudControls text={topic.audioTip} language={contentLanguage} className="mt-1" />
+                              </div>
+                            )}
+                        </Card>
+                    ))}
+                </div>
+            </Card>
+          )}
+        </>
+      );
+    case 'schemesAndRights':
+      return (
+        <>
+          {guidance.schemesAndRights && guidance.schemesAndRights.length > 0 && (
+            <Card>
+              <h2 className="text-2xl font-semibold text-teal-700 mb-4">3️⃣ {translate(PATHWAY_MODULE_TITLE_KEYS.schemesAndRights)}</h2>
+               <ul className="space-y-4">
+                {guidance.schemesAndRights.map((item, index) => (
+                  <li key={index} className="p-3 border rounded-md">
+                    <h4 className="text-xl font-medium text-teal-600 mb-1">{item.emoji} {item.type}: {item.name}</h4>
+                    <p className="text-gray-700 mb-1"><strong>{translate('pathwaySchemeDetails')}:</strong> {item.details}</p>
+                    <p className="text-gray-700">
+                        <strong>{translate('pathwayHowToAccess')}:</strong> {item.url ? <a href={item.url} target="_blank" rel="noopener noreferrer" className="text-teal-600 hover:underline">{item.howToAccess.replace(item.url, '').trim() || item.howToAccess} <i className="fas fa-external-link-alt text-xs" aria-hidden="true"></i></a> : item.howToAccess}
+                    </p>
+                    {item.source && <p className="text-sm text-gray-500"><strong>{translate('pathwaySource')}:</strong> {extractUrl(item.source) ? <a href={extractUrl(item.source)!} target="_blank" rel="noopener noreferrer" className="text-teal-600 hover:underline">{item.source.replace(extractUrl(item.source)!, '').trim() || item.source} <i className="fas fa-external-link-alt text-xs" aria-hidden="true"></i></a> : item.source}</p>}
+                  </li>
+                ))}
+              </ul>
+            </Card>
+          )}
+        </>
+      );
+    case 'digitalLearningTips':
+      return (
+        <>
+          {guidance.digitalLearningTips && guidance.digitalLearningTips.length > 0 && (
+              <Card>
+                  <h2 className="text-2xl font-semibold text-teal-700 mb-4">4️⃣ {translate(PATHWAY_MODULE_TITLE_KEYS.digitalLearningTips)}</h2>
+                  <div className="space-y-4">
+                      {guidance.digitalLearningTips.map((tip, index) =>(
+                          <div key={index} className="p-3 border rounded-md">
+                              <h4 className="text-xl font-medium text-teal-600">{translate('pathwayApp')}: {tip.app}</h4>
+                              {tip.howToUse.split('\n').map((line, lineIdx) => (
+                                <p key={lineIdx} className="text-gray-700 my-1">{lineIdx === 0 ? <strong>{translate('howToUse')}: </strong> : null}{line.replace(/^How to Use\s*[:\-]?\s*/i, "")}</p>
+                              ))}
+                              <p className="text-gray-700"><strong>{translate('pathwayExampleTask')}:</strong> "{tip.exampleSearchOrTask}"</p>
+                              {tip.visualCue && <p className="text-sm text-gray-500 italic mt-1">({translate('pathwayVisualIdea')}: {tip.visualCue})</p>}
+                              {tip.audioTip && (
+                                <div className="mt-1">
+                                  <p className="text-sm text-blue-500 italic"><i className="fas fa-volume-up mr-1" aria-hidden="true"></i> {tip.audioTip}</p>
+                                  <ReadAloudControls text={tip.audioTip} language={contentLanguage} className="mt-1" />
+                                </div>
+                              )}
+                          </div>
+                      ))}
+                  </div>
+              </Card>
+            )}
+        </>
+      );
+    case 'motivationalSupport':
+      return (
+        <>
+          {guidance.motivationalSupport && (guidance.motivationalSupport.personalizedEncouragement || guidance.motivationalSupport.quote || guidance.motivationalSupport.nextStep) && (
+             <Card className="bg-teal-50 border-l-4 border-teal-500">
+                <h2 className="text-2xl font-semibold text-teal-700 mb-4">5️⃣ {translate(PATHWAY_MODULE_TITLE_KEYS.motivationalSupport)}</h2>
+                <ReadAloudControls
+                  text={[guidance.motivationalSupport.personalizedEncouragement, guidance.motivationalSupport.quote, guidance.motivationalSupport.nextStep, guidance.motivationalSupport.reminder].filter(Boolean).join('\n')}
+                  language={contentLanguage}
+                  className="mb-3"
+                />
+                {guidance.motivationalSupport.personalizedEncouragement && <p className="text-lg text-teal-800 mb-3">🌟 {guidance.motivationalSupport.personalizedEncouragement}</p>}
+                {guidance.motivationalSupport.quote && <p className="text-lg italic text-teal-800 mb-3">🌟 "{guidance.motivationalSupport.quote}"</p>}
+                {guidance.motivationalSupport.nextStep && <p className="text-lg text-gray-700 mb-2">✅ <strong>{translate('pathwayNextStep')}:</strong> {guidance.motivationalSupport.nextStep}</p>}
+                {guidance.motivationalSupport.reminder && <p className="text-md text-gray-600">🔁 {guidance.motivationalSupport.reminder}</p>}
+            </Card>
+          )}
+        </>
+      );
+  }
+};
+
+export default PathwayModuleView;
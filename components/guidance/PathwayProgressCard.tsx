@@ -0,0 +1,102 @@
+/**
+ * @file PathwayProgressCard.tsx
+ * @description Shows how much of a saved pathway is done and lets the user set a daily
+ * reminder for its next step. Reminders are local: they are shown as a browser notification
+ * when allowed, and always as a banner inside the app (see PathwayReminderBanner).
+ */
+
+import React, { useState } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useSavedPathways } from '../../contexts/SavedPathwaysContext';
+import { getCompletionPercent } from '../../services/pathwayProgress';
+import { SavedPathway } from '../../types';
+import Card from '../common/Card';
+import Button from '../common/Button';
+
+// The time suggested when no reminder is set yet.
+const DEFAULT_REMINDER_TIME = '18:00';
+
+/**
+ * A progress bar for a completion percentage.
+ * @param {object} props - The component props.
+ * @param {number} props.percent - The completion percentage, from 0 to 100.
+ */
+export const ProgressBar: React.FC<{ percent: number }> = ({ percent }) => (
+  <div className="w-full bg-gray-200 rounded-full h-3" role="progressbar" aria-valuenow={percent} aria-valuemin={0} aria-valuemax={100}>
+    <div className="bg-teal-500 h-3 rounded-full transition-all duration-300" style={{ width: `${percent}%` }}></div>
+  </div>
+);
+
+// Define the props for the PathwayProgressCard component.
+interface PathwayProgressCardProps {
+  pathway: SavedPathway;
+}
+
+const PathwayProgressCard: React.FC<PathwayProgressCardProps> = ({ pathway }) => {
+  const { translate } = useLanguage();
+  const { setReminder } = useSavedPathways();
+  const [reminderTime, setReminderTime] = useState(pathway.reminder?.time ?? DEFAULT_REMINDER_TIME);
+  const [notificationsBlocked, setNotificationsBlocked] = useState(false);
+
+  const percent = getCompletionPercent(pathway);
+  const nextStep = pathway.guidance.motivationalSupport?.nextStep;
+
+  /**
+   * Turns the reminder on (or changes its time). Browser notifications are requested here,
+   * as browsers only allow asking in response to a user action.
+   */
+  const handleSetReminder = async () => {
+    setReminder(pathway.id, { time: reminderTime, setAt: new Date().toISOString() });
+    if ('Notification' in window && Notification.permission === 'default') {
+      const permission = await Notification.requestPermission();
+      setNotificationsBlocked(permission !== 'granted');
+    } else {
+      setNotificationsBlocked(!('Notification' in window) || Notification.permission !== 'granted');
+    }
+  };
+
+  return (
+    <Card>
+      <h2 className="text-2xl font-semibold text-teal-700 mb-2">{translate('yourProgress')}</h2>
+      <div className="flex items-center gap-4 mb-1">
+        <ProgressBar percent={percent} />
+        <span className="text-lg font-semibold text-teal-700 whitespace-nowrap">{percent}%</span>
+      </div>
+      <p className="text-sm text-gray-500 mb-4">{percent === 100 ? translate('pathwayCompleted') : translate('progressHint')}</p>
+
+      {/* --- Daily Reminder for the Next Step --- */}
+      {nextStep && (
+        <div className="border-t border-gray-200 pt-4">
+          <h3 className="text-lg font-medium text-gray-700 mb-1"><i className="fas fa-bell mr-2 text-amber-500" aria-hidden="true"></i>{translate('nextStepReminder')}</h3>
+          <p className="text-gray-600 mb-3">{nextStep}</p>
+          <div className="flex flex-wrap items-center gap-2">
+            <label htmlFor={`reminder-time-${pathway.id}`} className="text-gray-700">{translate('remindMeDailyAt')}</label>
+            <input
+              id={`reminder-time-${pathway.id}`}
+              type="time"
+              value={reminderTime}
+              onChange={(e) => setReminderTime(e.target.value)}
+              className="p-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-teal-500 bg-white text-gray-800"
+            />
+            <Button size="sm" onClick={handleSetReminder} disabled={!reminderTime}>
+              {pathway.reminder ? translate('updateReminder') : translate('setReminder')}
+            </Button>
+            {pathway.reminder && (
+              <Button size="sm" variant="secondary" onClick={() => setReminder(pathway.id, undefined)}>
+                {translate('turnOffReminder')}
+              </Button>
+            )}
+          </div>
+          {pathway.reminder && (
+            <p className="text-sm text-green-700 mt-2" role="status">
+              <i className="fas fa-check mr-1" aria-hidden="true"></i>{translate('reminderSetFor')} {pathway.reminder.time}
+            </p>
+          )}
+          {notificationsBlocked && <p className="text-sm text-amber-700 mt-1">{translate('notificationsBlocked')}</p>}
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default PathwayProgressCard;
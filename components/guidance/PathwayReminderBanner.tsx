@@ -0,0 +1,93 @@
+/**
+ * @file PathwayReminderBanner.tsx
+ * @description Shows the pathway reminders that are due, at the top of every page of the
+ * main layout. While the app is open, it also schedules a timer for the next reminder and
+ * shows a browser notification when it rings (if the user allowed notifications), except in
+ * disguise mode, where a notification would give the app away.
+ * Reminders that rang while the app was closed appear here the next time it opens.
+ */
+
+import React, { useState, useEffect } from 'react';
+import * as ReactRouterDOM from 'react-router-dom';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useSavedPathways } from '../../contexts/SavedPathwaysContext';
+import { usePrivacy } from '../../contexts/PrivacyContext';
+import { getNextReminderTime, isReminderDue } from '../../services/pathwayProgress';
+import { APP_ROUTES } from '../../constants';
+import Button from '../common/Button';
+
+/**
+ * Shows a browser notification. Android Chrome only allows notifications through a service
+ * worker (`new Notification` throws there), so its registration is used when there is one.
+ * A notification that cannot be shown is skipped; the banner still appears in the app.
+ * @param {string} title - The title of the notification.
+ * @param {string} body - Its text.
+ */
+const showNotification = async (title: string, body: string) => {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+  try {
+    const registration = await navigator.serviceWorker?.getRegistration();
+    if (registration) {
+      await registration.showNotification(title, { body });
+    } else {
+      new Notification(title, { body });
+    }
+  } catch (error) {
+    console.error("Failed to show the reminder notification", error);
+  }
+};
+
+const PathwayReminderBanner: React.FC = () => {
+  const { translate } = useLanguage();
+  const { savedPathways, markReminderShown } = useSavedPathways();
+  const { isDisguised } = usePrivacy();
+  const navigate = ReactRouterDOM.useNavigate();
+  const [now, setNow] = useState(() => new Date()); // Updated whenever a reminder rings
+
+  // Effect to wake up when the next reminder rings.
+  useEffect(() => {
+    const withReminders = savedPathways.filter(pathway => pathway.reminder);
+    if (withReminders.length === 0) return;
+    const current = new Date();
+    const next = withReminders
+      .map(pathway => ({ pathway, at: getNextReminderTime(pathway.reminder!, current) }))
+      .sort((a, b) => a.at.getTime() - b.at.getTime())[0];
+    const timerId = window.setTimeout(() => {
+      setNow(new Date());
+      if (!isDisguised) showNotification(next.pathway.title, next.pathway.guidance.motivationalSupport?.nextStep ?? '');
+    }, next.at.getTime() - current.getTime());
+    return () => window.clearTimeout(timerId);
+  }, [savedPathways, now, isDisguised]);
+
+  const duePathways = savedPathways.filter(pathway => pathway.reminder && isReminderDue(pathway.reminder, now));
+  if (duePathways.length === 0) return null;
+
+  /**
+   * Opens a pathway from its reminder, which also dismisses the reminder for today.
+   * @param {string} id - The id of the pathway.
+   */
+  const handleOpen = (id: string) => {
+    markReminderShown(id);
+    navigate(`${APP_ROUTES.SMART_PATHWAY}?pathway=${encodeURIComponent(id)}`);
+  };
+
+  return (
+    <div className="space-y-3 mb-6" role="status">
+      {duePathways.map(pathway => (
+        <div key={pathway.id} className="bg-amber-50 border-l-4 border-amber-500 rounded-lg shadow p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+          <i className="fas fa-bell text-amber-500 text-2xl" aria-hidden="true"></i>
+          <div className="flex-grow">
+            <p className="font-semibold text-amber-800">{translate('reminderFor')} {pathway.title}</p>
+            {pathway.guidance.motivationalSupport?.nextStep && <p className="text-gray-700">{pathway.guidance.motivationalSupport.nextStep}</p>}
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" onClick={() => handleOpen(pathway.id)}>{translate('openPathway')}</Button>
+            <Button size="sm" variant="secondary" onClick={() => markReminderShown(pathway.id)}>{translate('dismiss')}</Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default PathwayReminderBanner;
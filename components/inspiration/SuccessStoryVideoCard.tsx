@@ -19,8 +19,8 @@ interface SuccessStoryVideoCardProps {
 
 const SuccessStoryVideoCard: React.FC<SuccessStoryVideoCardProps> = ({ story, className }) => {
   const { language, translate } = useLanguage();
-  const currentTitle = story?.title?.[language] || story?.title?.['en'] || translate('loading', 'Loading title...');
-  const currentDescription = story?.description?.[language] || story?.description?.['en'] || translate('loading', 'Loading description...');
+  const currentTitle = story?.title?.[language] || story?.title?.['en'] || translate('loading');
+  const currentDescription = story?.description?.[language] || story?.description?.['en'] || translate('loading');
 
   const getYouTubeEmbedUrl = (videoUrl?: string): string | null => {
     if (!videoUrl) return null;
@@ -68,7 +68,7 @@ const SuccessStoryVideoCard: React.FC<SuccessStoryVideoCardProps> = ({ story, cl
       </div>
       <div className="mt-auto p-5 border-t border-gray-200 dark:border-slate-700">
         <button className="text-teal-600 dark:text-teal-400 hover:text-teal-700 dark:hover:text-teal-300 font-semibold text-sm">
-          {translate('viewDetails', 'View Details')} <i className="fas fa-arrow-right text-xs ml-1"></i>
+          {translate('viewDetails')} <i className="fas fa-arrow-right text-xs ml-1"></i>
         </button>
       </div>
     </Card>
@@ -0,0 +1,55 @@
+/**
+ * @file IncidentEntryCard.tsx
+ * @description Shows one incident journal entry, with buttons to edit or delete it.
+ */
+
+import React from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { IncidentEntry } from '../../types';
+import Card from '../common/Card';
+
+// Define the props for the IncidentEntryCard component.
+interface IncidentEntryCardProps {
+  entry: IncidentEntry;
+  onEdit: () => void;
+  onDelete: () => void;
+}
+
+const IncidentEntryCard: React.FC<IncidentEntryCardProps> = ({ entry, onEdit, onDelete }) => {
+  const { translate } = useLanguage();
+
+  return (
+    <Card className="border border-gray-200">
+      <div className="flex justify-between items-start gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-teal-700">
+            <i className="fas fa-calendar-day mr-2" aria-hidden="true"></i>
+            {new Date(`${entry.date}T00:00:00`).toLocaleDateString()}{entry.time && ` · ${entry.time}`}
+          </h3>
+          {entry.place && <p className="text-sm text-gray-600"><i className="fas fa-map-marker-alt mr-1" aria-hidden="true"></i>{entry.place}</p>}
+        </div>
+        <div className="flex gap-2 flex-shrink-0">
+          <button type="button" onClick={onEdit} className="px-3 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50" aria-label={translate('journalEditEntry')}>
+            <i className="fas fa-pen" aria-hidden="true"></i>
+          </button>
+          <button type="button" onClick={onDelete} className="px-3 py-2 rounded-lg border border-red-300 text-red-700 hover:bg-red-50" aria-label={translate('journalDeleteEntry')}>
+            <i className="fas fa-trash" aria-hidden="true"></i>
+          </button>
+        </div>
+      </div>
+      <p className="text-gray-800 mt-3 whitespace-pre-line">{entry.description}</p>
+      {entry.witnesses && (
+        <p className="text-sm text-gray-600 mt-3"><strong>{translate('journalWitnesses')}:</strong> {entry.witnesses}</p>
+      )}
+      {entry.photos.length > 0 && (
+        <div className="flex flex-wrap gap-3 mt-3">
+          {entry.photos.map(photo => (
+            <img key={photo.id} src={photo.dataUrl} alt={photo.name} className="h-32 max-w-full object-contain rounded-lg border border-gray-200" />
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default IncidentEntryCard;
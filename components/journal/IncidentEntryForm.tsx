@@ -0,0 +1,131 @@
+/**
+ * @file IncidentEntryForm.tsx
+ * @description The form to write or edit an incident journal entry: the date, time and place
+ * of the incident, what happened, who witnessed it, and photos.
+ */
+
+import React, { useState } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { readIncidentPhoto } from '../../services/incidentJournal';
+import { IncidentEntry, IncidentPhoto } from '../../types';
+import Card from '../common/Card';
+import Input from '../common/Input';
+import Button from '../common/Button';
+
+/**
+ * The fields of an entry that the user fills in.
+ */
+export type IncidentEntryFields = Pick<IncidentEntry, 'date' | 'time' | 'place' | 'description' | 'witnesses' | 'photos'>;
+
+// Define the props for the IncidentEntryForm component.
+interface IncidentEntryFormProps {
+  initialEntry?: IncidentEntry; // The entry being edited; a new entry if missing
+  onSave: (fields: IncidentEntryFields) => void;
+  onCancel: () => void;
+  isSaving: boolean;
+}
+
+/**
+ * Returns today's date as YYYY-MM-DD in the device's time zone.
+ * @returns {string} The date.
+ */
+const getToday = (): string => {
+  const now = new Date();
+  return new Date(now.getTime() - now.getTimezoneOffset() * 60000).toISOString().slice(0, 10);
+};
+
+const textAreaClass = "mt-1 block w-full px-4 py-3 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-teal-500 bg-white text-gray-900 placeholder-gray-500";
+
+const IncidentEntryForm: React.FC<IncidentEntryFormProps> = ({ initialEntry, onSave, onCancel, isSaving }) => {
+  const { translate } = useLanguage();
+  const [date, setDate] = useState(initialEntry?.date ?? getToday());
+  const [time, setTime] = useState(initialEntry?.time ?? '');
+  const [place, setPlace] = useState(initialEntry?.place ?? '');
+  const [description, setDescription] = useState(initialEntry?.description ?? '');
+  const [witnesses, setWitnesses] = useState(initialEntry?.witnesses ?? '');
+  const [photos, setPhotos] = useState<IncidentPhoto[]>(initialEntry?.photos ?? []);
+  const [photoError, setPhotoError] = useState<string | null>(null);
+
+  const handlePhotosChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = ''; // Lets the same photo be chosen again after removing it
+    setPhotoError(null);
+    try {
+      const newPhotos = await Promise.all(files.map(readIncidentPhoto));
+      setPhotos(prev => [...prev, ...newPhotos]);
+    } catch (error) {
+      console.error("Failed to read a photo for the journal", error);
+      setPhotoError(translate('journalPhotoError'));
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!date || !description.trim()) return;
+    onSave({ date, time, place: place.trim(), description: description.trim(), witnesses: witnesses.trim(), photos });
+  };
+
+  return (
+    <Card className="mb-8">
+      <h2 className="text-xl font-semibold text-teal-700 mb-4">{translate(initialEntry ? 'journalEditEntry' : 'journalNewEntry')}</h2>
+      <form onSubmit={handleSubmit}>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4">
+          <Input id="incidentDate" label={translate('journalDate')} type="date" value={date} max={getToday()} onChange={e => setDate(e.target.value)} required />
+          <Input id="incidentTime" label={translate('journalTime')} type="time" value={time} onChange={e => setTime(e.target.value)} />
+        </div>
+        <Input id="incidentPlace" label={translate('journalPlace')} value={place} onChange={e => setPlace(e.target.value)} placeholder={translate('journalPlacePlaceholder')} />
+        <div className="mb-4">
+          <label htmlFor="incidentDescription" className="block text-lg font-medium text-gray-700 mb-1">{translate('journalDescription')}</label>
+          <textarea
+            id="incidentDescription"
+            rows={6}
+            value={description}
+            onChange={e => setDescription(e.target.value)}
+            placeholder={translate('journalDescriptionPlaceholder')}
+            className={textAreaClass}
+            required
+          />
+        </div>
+        <div className="mb-4">
+          <label htmlFor="incidentWitnesses" className="block text-lg font-medium text-gray-700 mb-1">{translate('journalWitnesses')}</label>
+          <textarea
+            id="incidentWitnesses"
+            rows={2}
+            value={witnesses}
+            onChange={e => setWitnesses(e.target.value)}
+            placeholder={translate('journalWitnessesPlaceholder')}
+            className={textAreaClass}
+          />
+        </div>
+        <div className="mb-6">
+          <label htmlFor="incidentPhotos" className="block text-lg font-medium text-gray-700 mb-1">{translate('journalPhotos')}</label>
+          <input id="incidentPhotos" type="file" accept="image/*" multiple onChange={handlePhotosChosen} className="block w-full text-sm text-gray-600" />
+          {photoError && <p className="mt-1 text-sm text-red-600">{photoError}</p>}
+          {photos.length > 0 && (
+            <div className="flex flex-wrap gap-3 mt-3">
+              {photos.map(photo => (
+                <div key={photo.id} className="relative">
+                  <img src={photo.dataUrl} alt={photo.name} className="h-24 w-24 object-cover rounded-lg border border-gray-200" />
+                  <button
+                    type="button"
+                    onClick={() => setPhotos(prev => prev.filter(p => p.id !== photo.id))}
+                    className="absolute -top-2 -right-2 bg-red-600 text-white rounded-full w-6 h-6 text-xs"
+                    aria-label={`${translate('journalRemovePhoto')} ${photo.name}`}
+                  >
+                    <i className="fas fa-times" aria-hidden="true"></i>
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-3">
+          <Button type="submit" disabled={isSaving} leftIcon={<i className={`fas ${isSaving ? 'fa-spinner fa-spin' : 'fa-save'}`}></i>}>{translate('journalSaveEntry')}</Button>
+          <Button type="button" variant="secondary" onClick={onCancel}>{translate('cancel')}</Button>
+        </div>
+      </form>
+    </Card>
+  );
+};
+
+export default IncidentEntryForm;
@@ -0,0 +1,93 @@
+/**
+ * @file JournalPinForm.tsx
+ * @description The PIN form of the incident journal. The first time, it asks the user to
+ * choose a PIN (typed twice); after that, it asks for the PIN to unlock the journal.
+ */
+
+import React, { useState } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { isValidPin } from '../../services/incidentJournal';
+import Card from '../common/Card';
+import Input from '../common/Input';
+import Button from '../common/Button';
+
+// Define the props for the JournalPinForm component.
+interface JournalPinFormProps {
+  mode: 'create' | 'unlock';
+  onSubmit: (pin: string) => void;
+  isBusy: boolean; // True while the key is being derived
+  error: string | null; // E.g. a wrong PIN
+  onForgotPin?: () => void; // Offered in unlock mode
+}
+
+const JournalPinForm: React.FC<JournalPinFormProps> = ({ mode, onSubmit, isBusy, error, onForgotPin }) => {
+  const { translate } = useLanguage();
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValidPin(pin)) {
+      setFormError(translate('journalPinInvalid'));
+      return;
+    }
+    if (mode === 'create' && pin !== confirmPin) {
+      setFormError(translate('journalPinMismatch'));
+      return;
+    }
+    setFormError(null);
+    onSubmit(pin);
+    setPin('');
+    setConfirmPin('');
+  };
+
+  return (
+    <Card className="max-w-md mx-auto">
+      <div className="text-center mb-4">
+        <i className="fas fa-lock text-4xl text-teal-600 mb-3" aria-hidden="true"></i>
+        <h2 className="text-xl font-semibold text-gray-800">{translate(mode === 'create' ? 'journalCreatePinTitle' : 'journalUnlockTitle')}</h2>
+        <p className="text-sm text-gray-600 mt-1">{translate(mode === 'create' ? 'journalCreatePinHint' : 'journalUnlockHint')}</p>
+      </div>
+      <form onSubmit={handleSubmit}>
+        <Input
+          id="journalPin"
+          label={translate('journalPin')}
+          type="password"
+          inputMode="numeric"
+          autoComplete="off"
+          maxLength={6}
+          value={pin}
+          onChange={e => setPin(e.target.value)}
+          error={mode === 'unlock' ? (formError ?? error ?? undefined) : undefined}
+          autoFocus
+          required
+        />
+        {mode === 'create' && (
+          <Input
+            id="journalConfirmPin"
+            label={translate('journalConfirmPin')}
+            type="password"
+            inputMode="numeric"
+            autoComplete="off"
+            maxLength={6}
+            value={confirmPin}
+            onChange={e => setConfirmPin(e.target.value)}
+            error={formError ?? error ?? undefined}
+            required
+          />
+        )}
+        <Button type="submit" fullWidth disabled={isBusy} leftIcon={<i className={`fas ${isBusy ? 'fa-spinner fa-spin' : mode === 'create' ? 'fa-key' : 'fa-unlock'}`}></i>}>
+          {translate(mode === 'create' ? 'journalCreate' : 'journalUnlock')}
+        </Button>
+      </form>
+      {mode === 'unlock' && onForgotPin && (
+        <button type="button" onClick={onForgotPin} className="block mx-auto mt-4 text-sm text-gray-500 hover:text-red-600 underline">
+          {translate('journalForgotPin')}
+        </button>
+      )}
+    </Card>
+  );
+};
+
+export default JournalPinForm;
@@ -1,14 +1,17 @@
 /**
  * @file Header.tsx
  * @description The main header component for the application's authenticated layout.
- * It displays the app logo and name, and includes a hamburger icon to toggle the
- * sidebar on mobile devices.
+ * It displays the app logo and name, includes a hamburger icon to toggle the
+ * sidebar on mobile devices, and holds the quick-exit and SOS buttons. In disguise mode it
+ * shows the app as a calculator.
  */
 import React from 'react';
 import * as ReactRouterDOM from 'react-router-dom';
-import { APP_ROUTES, APP_NAME, APP_TAGLINE } from '../../constants';
+import { APP_ROUTES } from '../../constants';
 import { useLanguage } from '../../contexts/LanguageContext';
+import { usePrivacy } from '../../contexts/PrivacyContext';
 import AppLogo from '../common/AppLogo';
+import SosButton from '../emergency/SosButton';
 
 // Define the props for the Header component.
 interface HeaderProps {
@@ -21,6 +24,7 @@ interface HeaderProps {
  */
 const Header: React.FC<HeaderProps> = ({ toggleSidebar }) => {
   const { translate } = useLanguage();
+  const { appName, isDisguised, quickExit } = usePrivacy();
 
   return (
     <header className="bg-teal-600 text-white shadow-md sticky top-0 z-50">
@@ -36,10 +40,10 @@ const Header: React.FC<HeaderProps> = ({ toggleSidebar }) => {
           </button>
           {/* Link to the home screen */}
           <ReactRouterDOM.Link to={APP_ROUTES.HOME} className="flex items-center space-x-2">
-            <AppLogo size={40} className="text-white" />
+            {isDisguised ? <i className="fas fa-calculator text-3xl" aria-hidden="true"></i> : <AppLogo size={40} className="text-white" />}
             <div>
-              <h1 className="text-xl font-bold">{translate('appName', APP_NAME)}</h1>
-              <p className="text-xs hidden sm:block opacity-90">{translate('appTagline', APP_TAGLINE)}</p>
+              <h1 className="text-xl font-bold">{appName}</h1>
+              {!isDisguised && <p className="text-xs hidden sm:block opacity-90">{translate('appTagline')}</p>}
             </div>
           </ReactRouterDOM.Link>
         </div>
@@ -53,6 +57,18 @@ const Header: React.FC<HeaderProps> = ({ toggleSidebar }) => {
             <i className="fas fa-bell text-lg"></i>
           </button>
           */}
+          {/* Replaces the app with a neutral screen at once (also triggered by pressing Escape twice) */}
+          <button
+            type="button"
+            onClick={quickExit}
+            className="px-3 py-2 rounded-full bg-white text-teal-700 font-semibold shadow hover:bg-teal-50 focus:outline-none focus:ring-2 focus:ring-white"
+            aria-label={translate('quickExit')}
+            title={translate('quickExitHint')}
+          >
+            <i className="fas fa-eye-slash sm:mr-1" aria-hidden="true"></i><span className="hidden sm:inline">{translate('quickExit')}</span>
+          </button>
+          {/* Alerts the user's trusted contacts after a short countdown */}
+          <SosButton />
         </div>
       </div>
     </header>
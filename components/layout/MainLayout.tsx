@@ -9,6 +9,9 @@
 import React, { useState, ReactNode } from 'react';
 import Header from './Header';
 import Sidebar from './Sidebar.tsx';
+import PathwayReminderBanner from '../guidance/PathwayReminderBanner';
+import AssistingBanner from '../fieldWork/AssistingBanner';
+import QuickDialWidget from '../emergency/QuickDialWidget';
 
 // Define the props for the MainLayout component.
 interface MainLayoutProps {
@@ -36,6 +39,10 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
         
         {/* The main scrollable content area where screen components are rendered */}
         <main className="flex-1 overflow-x-hidden overflow-y-auto bg-[#FFF1F5] p-6 md:p-8">
+          {/* The beneficiary a volunteer is assisting, if any */}
+          <AssistingBanner />
+          {/* Reminders for the next step of saved pathways, when they are due */}
+          <PathwayReminderBanner />
           {children}
            {/* Placeholder for a real-time chat support button (removed from UI for now) */}
             {/*
@@ -46,6 +53,8 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
                 <i className="fas fa-comments text-2xl"></i>
             </button>
             */}
+          {/* Pinned button to call helplines and trusted contacts from any page */}
+          <QuickDialWidget />
         </main>
       </div>
     </div>
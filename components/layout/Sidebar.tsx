@@ -2,17 +2,19 @@
  * @file Sidebar.tsx
  * @description The main navigation sidebar for the application.
  * It contains links to all major features, user information, a language switcher,
- * a logout button, and copyright information. It is responsive and can be
+ * buttons to switch profile and to log out, and copyright information. It is responsive and can be
  * toggled on mobile screens.
  */
 
 import React from 'react';
 import * as ReactRouterDOM from 'react-router-dom';
-import { APP_ROUTES } from '../../constants';
+import { APP_ROUTES, LANGUAGE_OPTIONS, USER_ROLE_LABEL_KEYS } from '../../constants';
+import { getLanguagePickerLabel } from '../../services/i18n';
 import { useLanguage } from '../../contexts/LanguageContext';
 import { useAuth } from '../../contexts/AuthContext';
+import { usePrivacy } from '../../contexts/PrivacyContext';
 import AppLogo from '../common/AppLogo';
-import { Language } from '../../types';
+import { Language, TranslationKey, UserRole } from '../../types';
 
 // Define the props for the main Sidebar component.
 interface SidebarProps {
@@ -24,7 +26,7 @@ interface SidebarProps {
 interface NavItemProps {
   to: string;
   icon: string;
-  labelKey: string;
+  labelKey: TranslationKey;
   onClick?: () => void;
 }
 
@@ -56,21 +58,33 @@ const NavItem: React.FC<NavItemProps> = ({ to, icon, labelKey, onClick }) => {
  */
 const Sidebar: React.FC<SidebarProps> = ({ isOpen, toggleSidebar }) => {
   const { translate, language, setLanguage } = useLanguage();
-  const { logout, user } = useAuth();
+  const { logout, switchProfile, user, role } = useAuth();
+  const { appName, isDisguised } = usePrivacy();
   const navigate = ReactRouterDOM.useNavigate();
 
   /**
-   * Handles the logout process, navigates to the login screen,
-   * and closes the sidebar on mobile.
+   * Handles the logout process, navigates to the profile picker (which goes on to the login
+   * screen if no other profile is left), and closes the sidebar on mobile.
    */
   const handleLogout = () => {
     logout();
-    navigate(APP_ROUTES.LOGIN);
+    navigate(APP_ROUTES.PROFILES);
     if (window.innerWidth < 768) { // Close sidebar on mobile after action
         toggleSidebar();
     }
   };
 
+  /**
+   * Closes the open profile and shows the profile picker, so someone else can use the phone.
+   */
+  const handleSwitchProfile = () => {
+    switchProfile();
+    navigate(APP_ROUTES.PROFILES);
+    if (window.innerWidth < 768) {
+        toggleSidebar();
+    }
+  };
+
   /**
    * Handles changes to the language selector dropdown.
    */
@@ -93,15 +107,21 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, toggleSidebar }) => {
 
 
   // An array defining all the navigation links to be displayed in the sidebar.
-  const navLinks = [
+  // Links with `roles` are only shown to users with one of those roles.
+  const navLinks: (Omit<NavItemProps, 'onClick'> & { roles?: UserRole[] })[] = [
     { to: APP_ROUTES.HOME, icon: 'fa-home', labelKey: 'home' },
     { to: APP_ROUTES.SMART_PATHWAY, icon: 'fa-route', labelKey: 'smartPathway' },
+    { to: APP_ROUTES.MY_PATHWAYS, icon: 'fa-folder-open', labelKey: 'myPathways' },
+    { to: APP_ROUTES.CONVERSATIONS, icon: 'fa-comments', labelKey: 'myConversations' },
     { to: APP_ROUTES.WOMEN_AWARENESS, icon: 'fa-venus', labelKey: 'womenAwareness' }, // Age-specific awareness
     { to: APP_ROUTES.WOMEN_LAW_AWARENESS, icon: 'fa-gavel', labelKey: 'womenLawAwarenessTitle' }, // New Law Awareness
     { to: APP_ROUTES.AWARENESS_LIFE_SKILLS, icon: 'fa-lightbulb', labelKey: 'awarenessLifeSkills' },
     { to: APP_ROUTES.LEARN_TO_USE_APPS, icon: 'fa-mobile-alt', labelKey: 'learnToUseApps' },
     { to: APP_ROUTES.BRAIN_QUIZZES, icon: 'fa-brain', labelKey: 'brainQuizzes' },
     { to: APP_ROUTES.EMERGENCY_CONTACTS, icon: 'fa-phone-alt', labelKey: 'emergencyContacts' },
+    { to: APP_ROUTES.INCIDENT_JOURNAL, icon: 'fa-book', labelKey: 'incidentJournal' },
+    { to: APP_ROUTES.BENEFICIARIES, icon: 'fa-hands-helping', labelKey: 'beneficiaries', roles: ['volunteer', 'ngo_admin'] },
+    { to: APP_ROUTES.MANAGE_ROLES, icon: 'fa-user-shield', labelKey: 'manageRoles', roles: ['ngo_admin'] },
     { to: APP_ROUTES.SETTINGS, icon: 'fa-cog', labelKey: 'settings' },
     { to: APP_ROUTES.HELP, icon: 'fa-question-circle', labelKey: 'helpSupport' },
   ];
@@ -125,8 +145,8 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, toggleSidebar }) => {
       >
         <div className="flex items-center justify-between mb-2 md:justify-center">
           <ReactRouterDOM.Link to={APP_ROUTES.HOME} className="flex items-center space-x-3" onClick={handleNavItemClick}>
-            <AppLogo size={50} />
-            <span className="text-2xl font-bold">{translate('appName')}</span>
+            {isDisguised ? <i className="fas fa-calculator text-4xl" aria-hidden="true"></i> : <AppLogo size={50} />}
+            <span className="text-2xl font-bold">{appName}</span>
           </ReactRouterDOM.Link>
           <button onClick={toggleSidebar} className="md:hidden text-white p-2 hover:bg-teal-700 rounded-md" aria-label="Close sidebar">
             <i className="fas fa-times text-2xl"></i>
@@ -142,9 +162,9 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, toggleSidebar }) => {
                 onChange={handleLanguageChange}
                 className="w-full p-2.5 text-base bg-teal-700 border border-teal-500 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-white text-white"
             >
-                <option value={Language.EN} className="bg-white text-black">English</option>
-                <option value={Language.HI} className="bg-white text-black">हिन्दी (Hindi)</option>
-                <option value={Language.TA} className="bg-white text-black">தமிழ் (Tamil)</option>
+                {LANGUAGE_OPTIONS.map(option => (
+                  <option key={option.code} value={option.code} className="bg-white text-black">{getLanguagePickerLabel(option.code)}</option>
+                ))}
             </select>
         </div>
         
@@ -152,19 +172,31 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, toggleSidebar }) => {
         {user && (
           <div className="mb-4 p-3 bg-teal-700 rounded-lg text-center">
             <p className="font-semibold text-lg">{user.name}</p>
-            <p className="text-sm text-teal-200">{user.email}</p>
+            <p className="text-sm text-teal-200">{user.email ?? user.phone}</p>
+            {role !== 'learner' && (
+              <span className="inline-block mt-2 px-2 py-0.5 text-xs font-semibold uppercase tracking-wide bg-white text-teal-700 rounded-full">
+                {translate(USER_ROLE_LABEL_KEYS[role])}
+              </span>
+            )}
           </div>
         )}
 
         {/* Navigation Links */}
         <nav className="flex-grow overflow-y-auto space-y-1 pr-1 pb-2" role="navigation">
-          {navLinks.map(link => (
+          {navLinks.filter(link => !link.roles || link.roles.includes(role)).map(({ roles, ...link }) => (
             <NavItem key={link.to} {...link} onClick={handleNavItemClick} />
           ))}
         </nav>
 
-        {/* Logout Button */}
-        <div className="mt-auto">
+        {/* Switch Profile and Logout Buttons */}
+        <div className="mt-auto space-y-2">
+          <button
+            onClick={handleSwitchProfile}
+            className="w-full flex items-center px-4 py-3 text-lg bg-teal-700 hover:bg-teal-800 rounded-md transition-colors duration-150"
+          >
+            <i className="fas fa-users w-6 mr-3"></i>
+            {translate('switchProfile')}
+          </button>
           <button
             onClick={handleLogout}
             className="w-full flex items-center px-4 py-3 text-lg bg-red-500 hover:bg-red-600 rounded-md transition-colors duration-150"
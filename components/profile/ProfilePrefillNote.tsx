@@ -0,0 +1,26 @@
+/**
+ * @file ProfilePrefillNote.tsx
+ * @description A short note under a form that was filled in from the user's profile, with a
+ * link to edit the profile in Settings.
+ */
+
+import React from 'react';
+import * as ReactRouterDOM from 'react-router-dom';
+import { APP_ROUTES } from '../../constants';
+import { useLanguage } from '../../contexts/LanguageContext';
+
+const ProfilePrefillNote: React.FC = () => {
+  const { translate } = useLanguage();
+
+  return (
+    <p className="text-sm text-gray-500 mb-4">
+      <i className="fas fa-user-check mr-2 text-teal-600" aria-hidden="true"></i>
+      {translate('prefilledFromProfile')}{' '}
+      <ReactRouterDOM.Link to={APP_ROUTES.SETTINGS} className="font-semibold text-teal-600 hover:text-teal-700">
+        {translate('editProfile')}
+      </ReactRouterDOM.Link>
+    </p>
+  );
+};
+
+export default ProfilePrefillNote;
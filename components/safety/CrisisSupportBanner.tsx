@@ -0,0 +1,62 @@
+/**
+ * @file CrisisSupportBanner.tsx
+ * @description The urgent banner shown in an AI chat when the user's message looks like
+ * self-harm, abuse or immediate danger. It offers one-tap calls to the helplines that fit
+ * the situation; the conversation itself carries on as normal.
+ */
+
+import React from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { getCrisisHelplines } from '../../services/crisisDetection';
+import { getTelLink } from '../../services/emergencyContacts';
+import { EMERGENCY_CONTACT_ICONS } from '../../data/emergencyContactsData';
+import { getContactName } from '../emergency/EmergencyContactCard';
+import { CrisisCategory, TranslationKey } from '../../types';
+
+// The message shown for each kind of crisis.
+const CRISIS_MESSAGE_KEYS: Record<CrisisCategory, TranslationKey> = {
+  selfHarm: 'crisisSelfHarm',
+  abuse: 'crisisAbuse',
+  immediateDanger: 'crisisImmediateDanger',
+};
+
+// Define the props for the CrisisSupportBanner component.
+interface CrisisSupportBannerProps {
+  category: CrisisCategory;
+  onCall: (helplineNumber: string) => void; // Called as the phone's dialler is opened
+  onDismiss: () => void;
+}
+
+const CrisisSupportBanner: React.FC<CrisisSupportBannerProps> = ({ category, onCall, onDismiss }) => {
+  const { translate } = useLanguage();
+
+  return (
+    <div className="mx-4 mb-4 bg-red-50 border-l-4 border-red-600 rounded-lg shadow p-4" role="alert">
+      <div className="flex items-start gap-3">
+        <i className="fas fa-hands-helping text-red-600 text-2xl mt-1" aria-hidden="true"></i>
+        <div className="flex-grow">
+          <p className="font-semibold text-red-800">{translate('crisisBannerTitle')}</p>
+          <p className="text-sm text-gray-700 mt-1">{translate(CRISIS_MESSAGE_KEYS[category])}</p>
+        </div>
+        <button type="button" onClick={onDismiss} className="text-gray-500 hover:text-gray-700" aria-label={translate('dismiss')}>
+          <i className="fas fa-times" aria-hidden="true"></i>
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-2 mt-3">
+        {getCrisisHelplines(category).map(helpline => (
+          <a
+            key={helpline.id}
+            href={getTelLink(helpline.phoneNumber)}
+            onClick={() => onCall(helpline.phoneNumber)}
+            className="inline-flex items-center px-4 py-2 rounded-lg bg-red-600 hover:bg-red-700 text-white font-semibold text-sm shadow"
+          >
+            <i className={`fas ${EMERGENCY_CONTACT_ICONS[helpline.type]} mr-2`} aria-hidden="true"></i>
+            {translate('callNumber')} {getContactName(helpline, translate)} · {helpline.phoneNumber}
+          </a>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CrisisSupportBanner;
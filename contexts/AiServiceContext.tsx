@@ -0,0 +1,46 @@
+/**
+ * @file AiServiceContext.tsx
+ * @description This file defines the context that shares a single AI service instance
+ * across the application. Screens use the `useAiService` hook instead of constructing
+ * their own Gemini clients, so every AI feature gets the same model, timeouts and retries.
+ */
+
+import React, { createContext, useContext, useMemo, ReactNode } from 'react';
+import { AiService, createAiService } from '../services/aiService';
+
+// Define the shape of the AI service context
+interface AiServiceContextType {
+  aiService: AiService; // The shared AI service
+  isAiConfigured: boolean; // False when the API key is missing and AI features are disabled
+}
+
+// Create the React context with an initial undefined value.
+const AiServiceContext = createContext<AiServiceContextType | undefined>(undefined);
+
+/**
+ * The provider component that makes the AI service available to its children.
+ * The service (and its underlying client) is created only once per app session.
+ * @param {object} props - The component props.
+ * @param {ReactNode} props.children - The child components that will have access to this context.
+ */
+export const AiServiceProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const aiService = useMemo(() => createAiService(), []);
+
+  return (
+    <AiServiceContext.Provider value={{ aiService, isAiConfigured: aiService.isConfigured }}>
+      {children}
+    </AiServiceContext.Provider>
+  );
+};
+
+/**
+ * A custom hook for consuming the AiServiceContext.
+ * @returns {AiServiceContextType} The AI service context values.
+ */
+export const useAiService = (): AiServiceContextType => {
+  const context = useContext(AiServiceContext);
+  if (context === undefined) {
+    throw new Error('useAiService must be used within an AiServiceProvider');
+  }
+  return context;
+};
@@ -3,24 +3,64 @@
  * @description This file defines the authentication context for the application.
  * It provides a way to manage user authentication state (e.g., whether a user is
  * logged in, and who the user is) and share this state across all components.
- * It also handles persisting the user's session to localStorage.
+ * Accounts and sessions are handled by the auth server (see services/authApi.ts); the
+ * session tokens are kept in the encrypted storage so the user stays signed in. Users can sign
+ * in with an email and password, or with a phone number and a one-time code, and can set a
+ * quick login PIN for signing in again on a shared device.
+ * Several accounts can stay signed in on one device, each as a profile (see
+ * services/deviceProfiles.ts) with its own language and PIN. One profile is open at a time;
+ * the others wait in the profile picker.
+ * Every account has a role (learner, volunteer or NGO admin), which decides the screens it can open.
  */
 
-import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
-import { User } from '../types'; // Ensure this path is correct
+import React, { createContext, useState, useContext, useEffect, useRef, ReactNode } from 'react';
+import { AuthSession, DeviceProfile, OtpChallenge, ProfileSummary, User, UserRole } from '../types'; // Ensure this path is correct
+import { secureStorage } from '../services/secureStorage';
+import {
+  AuthApiError, fetchCurrentUser, loginWithPassword, loginWithPinCode, logoutSession, refreshAuthSession, registerAccount,
+  removeQuickLoginPin, requestOtpCode, setAccountRole, setQuickLoginPin, verifyOtpCode,
+} from '../services/authApi';
+import {
+  createDeviceProfile, createProfilePin, isProfilePinCorrect, loadActiveProfileId, loadDeviceProfiles, MAX_PROFILE_PIN_ATTEMPTS,
+  ProfilePinError, storeActiveProfileId, storeDeviceProfiles,
+} from '../services/deviceProfiles';
+import { useLanguage } from './LanguageContext';
+
+const LEGACY_USER_STORAGE_KEY = 'femmoraUser'; // The user of the old, simulated login
 
 // Define the shape of the authentication context
 interface AuthContextType {
   isAuthenticated: boolean; // True if the user is logged in
   user: User | null; // The authenticated user's data, or null if not logged in
-  login: (userData: User) => void; // Function to handle user login
-  logout: () => void; // Function to handle user logout
+  role: UserRole; // The signed-in user's role; 'learner' when signed out
+  login: (email: string, password: string) => Promise<void>; // Signs in; throws an AuthApiError on failure
+  register: (name: string, email: string, password: string) => Promise<void>; // Creates an account and signs in; throws an AuthApiError on failure
+  requestOtp: (phone: string, purpose: 'register' | 'login', name?: string) => Promise<OtpChallenge>; // Sends a one-time code to a phone
+  verifyOtp: (challengeId: string, code: string) => Promise<void>; // Creates the phone account or signs in with the code
+  loginWithPin: (identifier: string, pin: string) => Promise<void>; // Signs in with a phone number or email and the quick login PIN
+  setPin: (pin: string) => Promise<void>; // Sets the quick login PIN of the signed-in user
+  removePin: () => Promise<void>; // Removes the quick login PIN of the signed-in user
+  profiles: ProfileSummary[]; // The profiles of this device, most recently used first
+  openProfile: (userId: string, pin?: string) => Promise<void>; // Opens a profile; throws a ProfilePinError if its PIN is wrong
+  switchProfile: () => void; // Closes the open profile, back to the profile picker
+  removeProfile: (userId: string) => void; // Signs a profile out and removes it from this device
+  logout: () => void; // Signs the open profile out and removes it from this device
+  updateUser: (userData: User) => void; // Updates the signed-in user's details on this device
+  changeUserRole: (identifier: string, role: UserRole) => Promise<User>; // NGO admins only; throws an AuthApiError on failure
   loading: boolean; // True while checking for an existing session
 }
 
 // Create the React context with an initial undefined value.
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+const isUnauthorized = (error: unknown): boolean => error instanceof AuthApiError && error.code === 'UNAUTHORIZED';
+
+const toProfileSummary = (profile: DeviceProfile): ProfileSummary => ({
+  user: profile.session.user,
+  hasPin: profile.pin !== undefined,
+  isLocked: profile.failedPinAttempts >= MAX_PROFILE_PIN_ATTEMPTS,
+});
+
 /**
  * The provider component that makes the authentication context available to its children.
  * It encapsulates all the logic for authentication state management.
@@ -28,51 +68,303 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
  * @param {ReactNode} props.children - The child components that will have access to this context.
  */
 export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false);
-  const [user, setUser] = useState<User | null>(null);
+  const { language, setLanguage } = useLanguage();
+  const [profiles, setProfiles] = useState<DeviceProfile[]>([]);
+  const [activeUserId, setActiveUserId] = useState<string | null>(null);
   const [loading, setLoading] = useState<boolean>(true); // Start in a loading state
+  // The current profiles and open profile, for checks that finish later
+  const profilesRef = useRef<DeviceProfile[]>([]);
+  const activeUserIdRef = useRef<string | null>(null);
+  const previousLanguageRef = useRef(language);
 
-  // This effect runs once when the component mounts to check for a persisted session.
-  useEffect(() => {
-    // Simulate checking for an existing session from localStorage.
-    const storedUser = localStorage.getItem('femmoraUser');
-    if (storedUser) {
+  const findProfile = (userId: string | null) => profilesRef.current.find(profile => profile.session.user.id === userId);
+
+  /**
+   * Sets and persists the profiles and which one is open.
+   * @param {DeviceProfile[]} nextProfiles - The complete list of profiles.
+   * @param {string | null} nextActiveUserId - The user id of the open profile, or null to show the picker.
+   */
+  const saveProfiles = (nextProfiles: DeviceProfile[], nextActiveUserId: string | null) => {
+    profilesRef.current = nextProfiles;
+    activeUserIdRef.current = nextActiveUserId;
+    setProfiles(nextProfiles);
+    setActiveUserId(nextActiveUserId);
+    storeDeviceProfiles(nextProfiles);
+    storeActiveProfileId(nextActiveUserId);
+  };
+
+  /**
+   * Changes one profile, if it is still on this device.
+   * @param {string} userId - The user id of the profile.
+   * @param {(profile: DeviceProfile) => DeviceProfile} change - Returns the changed profile.
+   */
+  const updateProfile = (userId: string, change: (profile: DeviceProfile) => DeviceProfile) => {
+    saveProfiles(profilesRef.current.map(profile => (profile.session.user.id === userId ? change(profile) : profile)), activeUserIdRef.current);
+  };
+
+  /**
+   * Sets the session of a profile, or removes the profile once its session has ended.
+   * @param {string} userId - The user id of the profile.
+   * @param {AuthSession | null} nextSession - The new session, or null if it has ended.
+   */
+  const saveSession = (userId: string, nextSession: AuthSession | null) => {
+    if (nextSession) {
+      updateProfile(userId, profile => ({ ...profile, session: nextSession }));
+    } else {
+      const activeId = activeUserIdRef.current;
+      saveProfiles(profilesRef.current.filter(profile => profile.session.user.id !== userId), activeId === userId ? null : activeId);
+    }
+  };
+
+  /**
+   * Checks a profile's session with the server, refreshing its tokens if the access token has
+   * expired. The profile is only removed if the server rejects the session; while the server
+   * cannot be reached, the user stays signed in so the app keeps working offline.
+   * @param {AuthSession} storedSession - The session of the profile.
+   */
+  const revalidateSession = async (storedSession: AuthSession) => {
+    const userId = storedSession.user.id;
+    const isStillCurrent = () => findProfile(userId)?.session.refreshToken === storedSession.refreshToken;
+    try {
+      const currentUser = await fetchCurrentUser(storedSession.accessToken);
+      if (isStillCurrent()) saveSession(userId, { ...storedSession, user: { ...storedSession.user, ...currentUser } });
+    } catch (error) {
+      if (!isUnauthorized(error)) return;
       try {
-        // If user data is found in localStorage, parse it and set the auth state.
-        const parsedUser: User = JSON.parse(storedUser);
-        setUser(parsedUser);
-        setIsAuthenticated(true);
-      } catch (error) {
-        console.error("Failed to parse stored user data", error);
-        // If parsing fails, the data is corrupt, so remove it.
-        localStorage.removeItem('femmoraUser');
+        const refreshedSession = await refreshAuthSession(storedSession.refreshToken);
+        if (isStillCurrent()) saveSession(userId, { ...refreshedSession, user: { ...storedSession.user, ...refreshedSession.user } });
+      } catch (refreshError) {
+        if (isUnauthorized(refreshError) && isStillCurrent()) saveSession(userId, null);
       }
     }
+  };
+
+  /**
+   * Opens a profile: it moves to the top of the picker, and the app switches to its language.
+   * @param {DeviceProfile} profile - The profile.
+   */
+  const activateProfile = (profile: DeviceProfile) => {
+    const userId = profile.session.user.id;
+    const others = profilesRef.current.filter(otherProfile => otherProfile.session.user.id !== userId);
+    saveProfiles([{ ...profile, failedPinAttempts: 0, lastUsedAt: new Date().toISOString() }, ...others], userId);
+    setLanguage(profile.language);
+  };
+
+  /**
+   * Opens the profile of a newly signed-in session, adding it to this device if it is new.
+   * Signing in fully also unlocks a profile locked by wrong PINs.
+   * @param {AuthSession} newSession - The session.
+   * @param {DeviceProfile['pin']} [pin] - The hashed PIN the user signed in with, if any.
+   */
+  const signIn = (newSession: AuthSession, pin?: DeviceProfile['pin']) => {
+    const existingProfile = findProfile(newSession.user.id);
+    activateProfile(existingProfile
+      // The local PIN follows the quick login PIN, which may have been removed on another device.
+      ? { ...existingProfile, session: newSession, pin: newSession.user.hasPin ? pin ?? existingProfile.pin : undefined }
+      : { ...createDeviceProfile(newSession, language), pin });
+  };
+
+  // Keeps the language of the open profile in step with the language chosen in the app. Only
+  // real changes are saved, so the device's language never overwrites a restored profile's.
+  useEffect(() => {
+    if (previousLanguageRef.current === language) return;
+    previousLanguageRef.current = language;
+    const activeProfile = findProfile(activeUserIdRef.current);
+    if (activeProfile && activeProfile.language !== language) {
+      updateProfile(activeProfile.session.user.id, profile => ({ ...profile, language }));
+    }
+  }, [language]);
+
+  // This effect runs once when the component mounts to restore the profiles of this device.
+  useEffect(() => {
+    // Users of the old, simulated login have no account on the server and must register.
+    secureStorage.removeItem(LEGACY_USER_STORAGE_KEY);
+    const storedProfiles = loadDeviceProfiles(language);
+    profilesRef.current = storedProfiles;
+    setProfiles(storedProfiles);
+    // Reopen the profile that was open last (a lone profile needs no picker), unless it has a
+    // PIN: anyone could reload the page, so the profile picker asks for the PIN first.
+    const lastActiveProfile = storedProfiles.find(profile => profile.session.user.id === loadActiveProfileId())
+      ?? (storedProfiles.length === 1 ? storedProfiles[0] : undefined);
+    if (lastActiveProfile && !lastActiveProfile.pin) {
+      // Open it at once and check its session with the server in the background.
+      activateProfile(lastActiveProfile);
+      revalidateSession(lastActiveProfile.session);
+    }
     // Finished checking, set loading to false.
     setLoading(false);
   }, []); // The empty dependency array ensures this effect runs only once on mount.
 
   /**
    * Handles the login process.
-   * @param {User} userData - The data of the user who is logging in.
+   * @param {string} email - The email of the account.
+   * @param {string} password - The password.
+   * @throws {AuthApiError} If the credentials are wrong or the server cannot be reached.
+   */
+  const login = async (email: string, password: string) => {
+    signIn(await loginWithPassword(email, password));
+  };
+
+  /**
+   * Handles the registration process; the new account is signed in.
+   * @param {string} name - The user's name.
+   * @param {string} email - The email of the account.
+   * @param {string} password - The password.
+   * @throws {AuthApiError} If the email is taken, the input is invalid or the server cannot be reached.
+   */
+  const register = async (name: string, email: string, password: string) => {
+    signIn(await registerAccount(name, email, password));
+  };
+
+  /**
+   * Sends a one-time code to a phone.
+   * @param {string} phone - The phone number as typed.
+   * @param {'register' | 'login'} purpose - Whether the code creates an account or signs in.
+   * @param {string} [name] - The name of the account to create.
+   * @returns {Promise<OtpChallenge>} The challenge to pass to `verifyOtp`.
+   * @throws {AuthApiError} If the number is invalid or taken, or a code was sent too recently.
+   */
+  const requestOtp = (phone: string, purpose: 'register' | 'login', name?: string): Promise<OtpChallenge> =>
+    requestOtpCode(phone, purpose, name);
+
+  /**
+   * Verifies a one-time code, which creates the phone account or signs in.
+   * @throws {AuthApiError} If the code is wrong or has expired.
+   */
+  const verifyOtp = async (challengeId: string, code: string) => {
+    signIn(await verifyOtpCode(challengeId, code));
+  };
+
+  /**
+   * Signs in with the quick login PIN.
+   * @param {string} identifier - The phone number or email of the account.
+   * @param {string} pin - The PIN.
+   * @throws {AuthApiError} If the PIN is wrong, or locked after too many wrong tries.
+   */
+  const loginWithPin = async (identifier: string, pin: string) => {
+    const newSession = await loginWithPinCode(identifier, pin);
+    signIn(newSession, await createProfilePin(pin));
+  };
+
+  /**
+   * Runs a request that needs the access token, refreshing the session first if it has expired.
+   * @param {(accessToken: string) => Promise<T>} sendRequest - The request.
+   * @returns {Promise<T>} The answer.
+   * @throws {AuthApiError} If the request fails; the user is signed out if the session has ended.
+   */
+  const withAccessToken = async <T,>(sendRequest: (accessToken: string) => Promise<T>): Promise<T> => {
+    const currentSession = findProfile(activeUserIdRef.current)?.session;
+    if (!currentSession) throw new AuthApiError('UNAUTHORIZED', 'Not signed in');
+    const userId = currentSession.user.id;
+    try {
+      return await sendRequest(currentSession.accessToken);
+    } catch (error) {
+      if (!isUnauthorized(error)) throw error;
+    }
+    try {
+      const refreshedSession = await refreshAuthSession(currentSession.refreshToken);
+      saveSession(userId, { ...refreshedSession, user: { ...currentSession.user, ...refreshedSession.user } });
+      return await sendRequest(refreshedSession.accessToken);
+    } catch (error) {
+      if (isUnauthorized(error)) saveSession(userId, null);
+      throw error;
+    }
+  };
+
+  /**
+   * Changes the user of the open profile, which may have been closed while a request ran.
+   * @param {string} userId - The user id of the profile.
+   * @param {Partial<DeviceProfile>} changes - Other changes to the profile.
+   * @param {Partial<User>} userChanges - The changes to the user.
+   */
+  const updateProfileUser = (userId: string, changes: Partial<DeviceProfile>, userChanges: Partial<User>) => {
+    updateProfile(userId, profile => ({ ...profile, ...changes, session: { ...profile.session, user: { ...profile.session.user, ...userChanges } } }));
+  };
+
+  /**
+   * Sets the quick login PIN, which also becomes the PIN of the profile on this device.
+   * @param {string} pin - The new PIN.
+   * @throws {AuthApiError} If the PIN is invalid or the server cannot be reached.
+   */
+  const setPin = async (pin: string) => {
+    const userId = activeUserIdRef.current;
+    const updatedUser = await withAccessToken(accessToken => setQuickLoginPin(accessToken, pin));
+    const profilePin = await createProfilePin(pin);
+    if (userId) updateProfileUser(userId, { pin: profilePin, failedPinAttempts: 0 }, updatedUser);
+  };
+
+  /**
+   * Removes the quick login PIN and the PIN of the profile.
+   * @throws {AuthApiError} If the server cannot be reached.
    */
-  const login = (userData: User) => {
-    setUser(userData);
-    setIsAuthenticated(true);
-    // Persist the user's data to localStorage to maintain the session across browser refreshes.
-    localStorage.setItem('femmoraUser', JSON.stringify(userData));
+  const removePin = async () => {
+    const userId = activeUserIdRef.current;
+    const updatedUser = await withAccessToken(removeQuickLoginPin);
+    if (userId) updateProfileUser(userId, { pin: undefined }, updatedUser);
   };
 
   /**
-   * Handles the logout process.
+   * Opens a profile from the profile picker.
+   * @param {string} userId - The user id of the profile.
+   * @param {string} [pin] - The profile's PIN, if it has one.
+   * @throws {ProfilePinError} If the PIN is wrong, or the profile is locked after too many wrong PINs.
+   */
+  const openProfile = async (userId: string, pin = '') => {
+    const profile = findProfile(userId);
+    if (!profile) return;
+    if (!(await isProfilePinCorrect(profile, pin))) {
+      const failedPinAttempts = profile.failedPinAttempts + 1;
+      updateProfile(userId, storedProfile => ({ ...storedProfile, failedPinAttempts }));
+      throw new ProfilePinError(failedPinAttempts >= MAX_PROFILE_PIN_ATTEMPTS ? 'PIN_LOCKED' : 'WRONG_PIN', 'The PIN is wrong');
+    }
+    activateProfile(profile);
+    revalidateSession(profile.session);
+  };
+
+  /**
+   * Closes the open profile without signing it out, so another member of the household can open theirs.
+   */
+  const switchProfile = () => {
+    saveProfiles(profilesRef.current, null);
+  };
+
+  /**
+   * Removes a profile from this device at once, and ends its session on the server in the background.
+   * The profile's data stays on the device and comes back when the user logs in again.
+   * @param {string} userId - The user id of the profile.
+   */
+  const removeProfile = (userId: string) => {
+    const removedProfile = findProfile(userId);
+    if (!removedProfile) return;
+    saveSession(userId, null);
+    logoutSession(removedProfile.session.refreshToken).catch(error => console.error("Failed to end the session on the server", error));
+  };
+
+  /**
+   * Handles the logout process: the open profile is signed out and removed from this device.
    */
   const logout = () => {
-    setUser(null);
-    setIsAuthenticated(false);
-    // Remove the user's data from localStorage to end the session.
-    localStorage.removeItem('femmoraUser');
+    if (activeUserIdRef.current) removeProfile(activeUserIdRef.current);
+  };
+
+  /**
+   * Updates the signed-in user's details on this device.
+   * @param {User} userData - The updated user.
+   */
+  const updateUser = (userData: User) => {
+    if (activeUserIdRef.current) updateProfileUser(activeUserIdRef.current, {}, userData);
   };
 
+  /**
+   * Gives another account a role. Only an NGO admin may do this.
+   * @param {string} identifier - The phone number or email of the account.
+   * @param {UserRole} role - The new role.
+   * @returns {Promise<User>} The account with its new role.
+   * @throws {AuthApiError} If the user is not an NGO admin, the account does not exist or the server cannot be reached.
+   */
+  const changeUserRole = (identifier: string, role: UserRole) =>
+    withAccessToken(accessToken => setAccountRole(accessToken, identifier, role));
+
   // While checking for authentication, display a loading screen to prevent UI flicker.
   if (loading) {
     return (
@@ -82,9 +374,20 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     );
   }
 
+  const activeProfile = profiles.find(profile => profile.session.user.id === activeUserId);
+
   // Provide the authentication state and functions to all child components.
   return (
-    <AuthContext.Provider value={{ isAuthenticated, user, login, logout, loading }}>
+    <AuthContext.Provider
+      value={{
+        isAuthenticated: activeProfile !== undefined,
+        user: activeProfile?.session.user ?? null,
+        role: activeProfile?.session.user.role ?? 'learner',
+        login, register, requestOtp, verifyOtp, loginWithPin, setPin, removePin,
+        profiles: profiles.map(toProfileSummary), openProfile, switchProfile, removeProfile,
+        logout, updateUser, changeUserRole, loading,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
@@ -102,4 +405,4 @@ export const useAuth = (): AuthContextType => {
     throw new Error('useAuth must be used within an AuthProvider');
   }
   return context;
-};
\ No newline at end of file
+};
@@ -0,0 +1,117 @@
+/**
+ * @file BeneficiariesContext.tsx
+ * @description This file defines the context for field-worker mode. A volunteer (or NGO admin)
+ * registers the beneficiaries they work with, who often have no phone of their own, and can
+ * assist one of them at a time: while they do, the Smart Pathway and My Pathways screens
+ * create and show that beneficiary's pathways instead of her own. The list is persisted to the
+ * encrypted storage per volunteer.
+ */
+
+import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import { deleteBeneficiaryData, loadBeneficiaries, storeBeneficiaries } from '../services/beneficiaries';
+import { normalisePhoneNumber } from '../services/emergencyContacts';
+import { Beneficiary } from '../types';
+
+// Define the shape of the beneficiaries context
+interface BeneficiariesContextType {
+  isFieldWorker: boolean; // True if the user's role allows field-worker mode
+  beneficiaries: Beneficiary[]; // In the order they were registered
+  addBeneficiary: (details: Omit<Beneficiary, 'id' | 'createdAt'>) => Beneficiary;
+  removeBeneficiary: (id: string) => void; // Also deletes her pathways
+  assistedBeneficiary: Beneficiary | null; // The beneficiary being assisted, if any
+  startAssisting: (id: string) => void;
+  stopAssisting: () => void;
+}
+
+// Create the React context with an initial undefined value.
+const BeneficiariesContext = createContext<BeneficiariesContextType | undefined>(undefined);
+
+/**
+ * The provider component that makes field-worker mode available to its children.
+ * It must be placed inside the AuthProvider, and above the SavedPathwaysProvider, which
+ * follows the assisted beneficiary.
+ * @param {object} props - The component props.
+ * @param {ReactNode} props.children - The child components that will have access to this context.
+ */
+export const BeneficiariesProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user, role } = useAuth();
+  const isFieldWorker = role === 'volunteer' || role === 'ngo_admin';
+  const volunteerId = user && isFieldWorker ? user.id : null;
+  const [beneficiaries, setBeneficiaries] = useState<Beneficiary[]>([]);
+  const [assistedBeneficiaryId, setAssistedBeneficiaryId] = useState<string | null>(null);
+
+  // Load the beneficiaries of the current volunteer whenever the user or their role changes.
+  // Assisting always ends then, so one user's session never shows a beneficiary of another.
+  useEffect(() => {
+    setBeneficiaries(volunteerId ? loadBeneficiaries(volunteerId) : []);
+    setAssistedBeneficiaryId(null);
+  }, [volunteerId]);
+
+  /**
+   * Updates the list in state and in the encrypted storage.
+   * @param {(beneficiaries: Beneficiary[]) => Beneficiary[]} update - Computes the new list from the current one.
+   */
+  const updateBeneficiaries = (update: (beneficiaries: Beneficiary[]) => Beneficiary[]) => {
+    if (!volunteerId) return;
+    setBeneficiaries(prev => {
+      const next = update(prev);
+      storeBeneficiaries(volunteerId, next);
+      return next;
+    });
+  };
+
+  const addBeneficiary = (details: Omit<Beneficiary, 'id' | 'createdAt'>) => {
+    const beneficiary: Beneficiary = {
+      ...details,
+      id: `beneficiary-${Date.now()}`,
+      name: details.name.trim(),
+      phone: details.phone ? normalisePhoneNumber(details.phone) : undefined,
+      createdAt: new Date().toISOString(),
+    };
+    updateBeneficiaries(prev => [...prev, beneficiary]);
+    return beneficiary;
+  };
+
+  const removeBeneficiary = (id: string) => {
+    if (assistedBeneficiaryId === id) setAssistedBeneficiaryId(null);
+    updateBeneficiaries(prev => prev.filter(beneficiary => beneficiary.id !== id));
+    deleteBeneficiaryData(id);
+  };
+
+  const startAssisting = (id: string) => {
+    if (beneficiaries.some(beneficiary => beneficiary.id === id)) setAssistedBeneficiaryId(id);
+  };
+
+  const stopAssisting = () => {
+    setAssistedBeneficiaryId(null);
+  };
+
+  const assistedBeneficiary = beneficiaries.find(beneficiary => beneficiary.id === assistedBeneficiaryId) ?? null;
+
+  return (
+    <BeneficiariesContext.Provider value={{
+      isFieldWorker,
+      beneficiaries,
+      addBeneficiary,
+      removeBeneficiary,
+      assistedBeneficiary,
+      startAssisting,
+      stopAssisting,
+    }}>
+      {children}
+    </BeneficiariesContext.Provider>
+  );
+};
+
+/**
+ * A custom hook for consuming the BeneficiariesContext.
+ * @returns {BeneficiariesContextType} The beneficiaries context values.
+ */
+export const useBeneficiaries = (): BeneficiariesContextType => {
+  const context = useContext(BeneficiariesContext);
+  if (context === undefined) {
+    throw new Error('useBeneficiaries must be used within a BeneficiariesProvider');
+  }
+  return context;
+};
@@ -0,0 +1,116 @@
+/**
+ * @file ConversationsContext.tsx
+ * @description This file defines the context for the saved AI chat conversations of the
+ * Smart Pathway, Women Awareness ("Caring Partner") and Learn to Use Apps screens.
+ * A conversation is saved once the user sends their first message, and is kept up to date
+ * after every reply, so it can be resumed in a later session. The list is persisted to
+ * the encrypted storage per user, unless the user has turned off saving chat history in the privacy
+ * settings; the chats are then kept in memory only and are gone when the tab is closed.
+ */
+
+import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import { usePrivacy } from './PrivacyContext';
+import { deleteStoredConversations, loadConversations, storeConversations } from '../services/conversationStorage';
+import { ChatMessage, ConversationSetup, SavedConversation } from '../types';
+
+// Define the shape of the conversations context
+interface ConversationsContextType {
+  conversations: SavedConversation[]; // Most recently updated first
+  getConversation: (id: string) => SavedConversation | undefined;
+  findPathwayConversation: (pathwayId: string) => SavedConversation | undefined;
+  saveConversation: (setup: ConversationSetup, messages: ChatMessage[]) => SavedConversation;
+  updateMessages: (id: string, messages: ChatMessage[]) => void;
+  deleteConversation: (id: string) => void;
+  clearConversations: () => void;
+}
+
+// Create the React context with an initial undefined value.
+const ConversationsContext = createContext<ConversationsContextType | undefined>(undefined);
+
+/**
+ * The provider component that makes the saved conversations available to its children.
+ * It must be placed inside the AuthProvider, as the conversations belong to the logged-in user,
+ * and inside the PrivacyProvider.
+ * @param {object} props - The component props.
+ * @param {ReactNode} props.children - The child components that will have access to this context.
+ */
+export const ConversationsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const { privacySettings } = usePrivacy();
+  const [conversations, setConversations] = useState<SavedConversation[]>([]);
+
+  // Load the conversations of the current user whenever the user changes (login, logout).
+  useEffect(() => {
+    setConversations(user && privacySettings.saveChatHistory ? loadConversations(user.id) : []);
+  }, [user]);
+
+  // Effect to delete the stored chats when saving chat history is off. The chats of this session stay in memory.
+  useEffect(() => {
+    if (user && !privacySettings.saveChatHistory) deleteStoredConversations(user.id);
+  }, [user, privacySettings.saveChatHistory]);
+
+  /**
+   * Updates the conversations in state and in the encrypted storage.
+   * @param {(conversations: SavedConversation[]) => SavedConversation[]} update - Computes the new list from the current one.
+   */
+  const updateConversations = (update: (conversations: SavedConversation[]) => SavedConversation[]) => {
+    if (!user) return;
+    setConversations(prev => {
+      const next = update(prev);
+      if (next === prev) return prev;
+      if (privacySettings.saveChatHistory) storeConversations(user.id, next);
+      return next;
+    });
+  };
+
+  const getConversation = (id: string) => conversations.find(conversation => conversation.id === id);
+
+  const findPathwayConversation = (pathwayId: string) =>
+    conversations.find(({ context }) => context.feature === 'smartPathway' && context.pathwayId === pathwayId);
+
+  const saveConversation = (setup: ConversationSetup, messages: ChatMessage[]) => {
+    const now = new Date().toISOString();
+    const conversation: SavedConversation = { ...setup, id: `conversation-${Date.now()}`, createdAt: now, updatedAt: now, messages };
+    updateConversations(prev => [conversation, ...prev]);
+    return conversation;
+  };
+
+  const updateMessages = (id: string, messages: ChatMessage[]) => {
+    updateConversations(prev => {
+      const existing = prev.find(conversation => conversation.id === id);
+      // Re-showing a resumed conversation must not move it to the top of the list.
+      if (!existing || (existing.messages.length === messages.length && existing.messages.every((message, i) => message.text === messages[i].text))) {
+        return prev;
+      }
+      const updated = { ...existing, messages, updatedAt: new Date().toISOString() };
+      return [updated, ...prev.filter(conversation => conversation.id !== id)];
+    });
+  };
+
+  const deleteConversation = (id: string) => {
+    updateConversations(prev => prev.filter(conversation => conversation.id !== id));
+  };
+
+  const clearConversations = () => {
+    updateConversations(() => []);
+  };
+
+  return (
+    <ConversationsContext.Provider value={{ conversations, getConversation, findPathwayConversation, saveConversation, updateMessages, deleteConversation, clearConversations }}>
+      {children}
+    </ConversationsContext.Provider>
+  );
+};
+
+/**
+ * A custom hook for consuming the ConversationsContext.
+ * @returns {ConversationsContextType} The conversations context values.
+ */
+export const useConversations = (): ConversationsContextType => {
+  const context = useContext(ConversationsContext);
+  if (context === undefined) {
+    throw new Error('useConversations must be used within a ConversationsProvider');
+  }
+  return context;
+};
@@ -0,0 +1,101 @@
+/**
+ * @file EmergencyContactsContext.tsx
+ * @description This file defines the context for the user's emergency settings: the trusted
+ * contacts they added (name, relation and phone) and the state whose helplines they see
+ * next to the national ones. The settings are used by the Emergency Contacts screen and the
+ * quick-dial widget, and are persisted to the encrypted storage per user.
+ */
+
+import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import { EMPTY_EMERGENCY_SETTINGS, loadEmergencySettings, normalisePhoneNumber, storeEmergencySettings } from '../services/emergencyContacts';
+import { STATE_HELPLINES } from '../data/emergencyContactsData';
+import { EmergencyContact, EmergencySettings } from '../types';
+
+// Define the shape of the emergency contacts context
+interface EmergencyContactsContextType {
+  trustedContacts: EmergencyContact[]; // In the order they were added
+  helplineState: string | undefined; // The selected state, if any
+  stateHelplines: EmergencyContact[]; // The helplines of the selected state
+  addTrustedContact: (name: string, relation: string, phoneNumber: string) => void;
+  removeTrustedContact: (id: string) => void;
+  setHelplineState: (state: string | undefined) => void;
+}
+
+// Create the React context with an initial undefined value.
+const EmergencyContactsContext = createContext<EmergencyContactsContextType | undefined>(undefined);
+
+/**
+ * The provider component that makes the emergency settings available to its children.
+ * It must be placed inside the AuthProvider, as the trusted contacts belong to the logged-in user.
+ * @param {object} props - The component props.
+ * @param {ReactNode} props.children - The child components that will have access to this context.
+ */
+export const EmergencyContactsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<EmergencySettings>(EMPTY_EMERGENCY_SETTINGS);
+
+  // Load the settings of the current user whenever the user changes (login, logout).
+  useEffect(() => {
+    setSettings(user ? loadEmergencySettings(user.id) : EMPTY_EMERGENCY_SETTINGS);
+  }, [user]);
+
+  /**
+   * Updates the settings in state and in the encrypted storage.
+   * @param {(settings: EmergencySettings) => EmergencySettings} update - Computes the new settings from the current ones.
+   */
+  const updateSettings = (update: (settings: EmergencySettings) => EmergencySettings) => {
+    if (!user) return;
+    setSettings(prev => {
+      const next = update(prev);
+      storeEmergencySettings(user.id, next);
+      return next;
+    });
+  };
+
+  const addTrustedContact = (name: string, relation: string, phoneNumber: string) => {
+    const contact: EmergencyContact = {
+      id: `contact-${Date.now()}`,
+      name: name.trim(),
+      relation: relation.trim() || undefined,
+      phoneNumber: normalisePhoneNumber(phoneNumber),
+      type: 'Trusted Contact',
+    };
+    updateSettings(prev => ({ ...prev, trustedContacts: [...prev.trustedContacts, contact] }));
+  };
+
+  const removeTrustedContact = (id: string) => {
+    updateSettings(prev => ({ ...prev, trustedContacts: prev.trustedContacts.filter(contact => contact.id !== id) }));
+  };
+
+  const setHelplineState = (state: string | undefined) => {
+    updateSettings(prev => ({ ...prev, state }));
+  };
+
+  const stateHelplines = (settings.state && STATE_HELPLINES[settings.state]) || [];
+
+  return (
+    <EmergencyContactsContext.Provider value={{
+      trustedContacts: settings.trustedContacts,
+      helplineState: settings.state,
+      stateHelplines,
+      addTrustedContact,
+      removeTrustedContact,
+      setHelplineState,
+    }}>
+      {children}
+    </EmergencyContactsContext.Provider>
+  );
+};
+
+/**
+ * A custom hook for consuming the EmergencyContactsContext.
+ * @returns {EmergencyContactsContextType} The emergency contacts context values.
+ */
+export const useEmergencyContacts = (): EmergencyContactsContextType => {
+  const context = useContext(EmergencyContactsContext);
+  if (context === undefined) {
+    throw new Error('useEmergencyContacts must be used within an EmergencyContactsProvider');
+  }
+  return context;
+};
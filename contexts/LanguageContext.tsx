@@ -2,19 +2,20 @@
  * @file LanguageContext.tsx
  * @description This file defines the context for managing the application's language.
  * It provides the current language, a function to change the language, and a `translate`
- * function to get the correct UI string for the selected language. The user's language
- * preference is persisted to localStorage.
+ * function to get the correct UI string for the selected language. The strings come from
+ * the per-language catalogs (see services/i18n.ts), which are loaded when the language is
+ * first used. The user's language preference is persisted to localStorage.
  */
 
-import React, { createContext, useState, useContext, ReactNode, useCallback } from 'react';
-import { Language, Translations } from '../types';
-import { UI_TEXT } from '../constants';
+import React, { createContext, useState, useContext, useEffect, ReactNode, useCallback } from 'react';
+import { Language, TranslationKey, TranslationParams } from '../types';
+import { areCatalogsLoaded, loadCatalogs, translateText } from '../services/i18n';
 
 // Define the shape of the language context
 interface LanguageContextType {
   language: Language;
   setLanguage: (language: Language) => void;
-  translate: (key: string, defaultText?: string) => string;
+  translate: (key: TranslationKey, params?: TranslationParams) => string;
 }
 
 // Create the React context for language management
@@ -30,8 +31,26 @@ export const LanguageProvider: React.FC<{ children: ReactNode }> = ({ children }
   // Initialize the language state from localStorage, or default to English.
   const [language, setLanguageState] = useState<Language>(() => {
     const storedLang = localStorage.getItem('femmoraLanguage') as Language;
-    return storedLang || Language.EN;
+    return storedLang && Object.values(Language).includes(storedLang) ? storedLang : Language.EN;
   });
+  // The language whose catalogs were loaded last, or null until the first ones are. Later
+  // switches keep the app on screen and show the fallback strings while a catalog loads.
+  const [loadedLanguage, setLoadedLanguage] = useState<Language | null>(() => (areCatalogsLoaded(language) ? language : null));
+
+  // Effect to load the catalogs of the language whenever it changes.
+  useEffect(() => {
+    if (areCatalogsLoaded(language)) {
+      setLoadedLanguage(language);
+      return;
+    }
+    let isCurrent = true;
+    loadCatalogs(language).then(() => {
+      if (isCurrent) setLoadedLanguage(language);
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [language]);
 
   /**
    * Sets the application language and persists the choice to localStorage.
@@ -43,23 +62,25 @@ export const LanguageProvider: React.FC<{ children: ReactNode }> = ({ children }
   };
 
   /**
-   * Translates a given key into the currently selected language.
-   * It uses the `UI_TEXT` constants object as its translation dictionary.
+   * Translates a given key into the currently selected language, filling in its placeholders.
    * `useCallback` is used for performance optimization, ensuring the function
-   * reference doesn't change unless the language does.
-   * @param {string} key - The key of the string to translate (from UI_TEXT).
-   * @param {string} [defaultText] - An optional fallback text if the key is not found.
-   * @returns {string} The translated string, or the key/defaultText if no translation is found.
+   * reference doesn't change unless the language or its loaded catalogs do (`loadedLanguage`
+   * is listed so the strings update once a catalog arrives).
+   * @param {TranslationKey} key - The key of the string to translate.
+   * @param {TranslationParams} [params] - The values of the string's `{name}` placeholders, and `count` for plurals.
+   * @returns {string} The translated string.
    */
-  const translate = useCallback((key: string, defaultText?: string): string => {
-    const translationsForKey = UI_TEXT[key];
-    if (translationsForKey && translationsForKey[language]) {
-      return translationsForKey[language];
-    }
-    // Fallback to the provided default text or the key itself if no translation is available.
-    return defaultText || key;
-  }, [language]); // This function will only be re-created when the language changes.
+  const translate = useCallback((key: TranslationKey, params?: TranslationParams): string =>
+    translateText(language, key, params), [language, loadedLanguage]);
 
+  // The catalogs are local files, so this only shows for a moment on a slow phone.
+  if (loadedLanguage === null) {
+    return (
+      <div className="flex justify-center items-center h-screen bg-[#FFF1F5]">
+        <p className="text-gray-700">Loading...</p>
+      </div>
+    );
+  }
 
   // Provide the language state and functions to all child components.
   return (
@@ -80,4 +101,4 @@ export const useLanguage = (): LanguageContextType => {
     throw new Error('useLanguage must be used within a LanguageProvider');
   }
   return context;
-};
\ No newline at end of file
+};
@@ -0,0 +1,140 @@
+/**
+ * @file PrivacyContext.tsx
+ * @description This file defines the context for the safety features meant for users who
+ * may be watched while using the app:
+ * - Quick exit: a button in the header, or pressing Escape twice, instantly replaces the app
+ *   with a working calculator and removes the current page from the address bar. Until the
+ *   user returns (by pressing and holding "=" on the calculator), every page of the app,
+ *   including those reached with the browser's Back button, shows the calculator.
+ * - Disguise mode: the browser tab and the header show the app as "Calculator".
+ * - Chat history: the user can choose to never save AI chats on the device.
+ */
+
+import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
+import { useLanguage } from './LanguageContext';
+import { loadPrivacySettings, storePrivacySettings, isQuickExitActive, setQuickExitActive } from '../services/privacySettings';
+import { PrivacySettings } from '../types';
+
+// Two presses of Escape within this time trigger the quick exit.
+const QUICK_EXIT_DOUBLE_PRESS_MS = 600;
+
+// The browser tab icon used while the app is disguised or has been exited.
+const DISGUISE_FAVICON = `data:image/svg+xml,${encodeURIComponent("<svg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 100 100'><text y='.9em' font-size='90'>🧮</text></svg>")}`;
+
+// Define the shape of the privacy context
+interface PrivacyContextType {
+  privacySettings: PrivacySettings;
+  isDisguised: boolean; // True in disguise mode and while the quick exit is active
+  appName: string; // The name to show for the app: the real one, or the disguise
+  isQuickExited: boolean;
+  quickExit: () => void;
+  returnFromQuickExit: () => void;
+  setDisguiseMode: (enabled: boolean) => void;
+  setSaveChatHistory: (enabled: boolean) => void;
+}
+
+// Create the React context with an initial undefined value.
+const PrivacyContext = createContext<PrivacyContextType | undefined>(undefined);
+
+/**
+ * Sets the icon of the browser tab.
+ * @param {string | null} href - The icon, or null to use the site's default icon.
+ */
+const setFavicon = (href: string | null) => {
+  let link = document.querySelector<HTMLLinkElement>('link[rel="icon"]');
+  if (!href) {
+    link?.remove();
+    return;
+  }
+  if (!link) {
+    link = document.createElement('link');
+    link.rel = 'icon';
+    document.head.appendChild(link);
+  }
+  link.href = href;
+};
+
+/**
+ * The provider component that makes the privacy settings and the quick exit available to its children.
+ * It must be placed inside the LanguageProvider, as the disguised name is translated.
+ * @param {object} props - The component props.
+ * @param {ReactNode} props.children - The child components that will have access to this context.
+ */
+export const PrivacyProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { translate } = useLanguage();
+  const [privacySettings, setPrivacySettings] = useState<PrivacySettings>(loadPrivacySettings);
+  const [isQuickExited, setIsQuickExited] = useState<boolean>(isQuickExitActive);
+
+  const isDisguised = privacySettings.disguiseMode || isQuickExited;
+  const appName = isDisguised ? translate('disguiseAppName') : translate('appName');
+
+  // Effect to show the real or the disguised name and icon in the browser tab.
+  useEffect(() => {
+    document.title = appName;
+    setFavicon(isDisguised ? DISGUISE_FAVICON : null);
+  }, [appName, isDisguised]);
+
+  // Effect to trigger the quick exit when Escape is pressed twice in a row.
+  useEffect(() => {
+    if (isQuickExited) return;
+    let lastEscapeAt = 0;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return;
+      if (e.timeStamp - lastEscapeAt < QUICK_EXIT_DOUBLE_PRESS_MS) {
+        quickExit();
+      }
+      lastEscapeAt = e.timeStamp;
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isQuickExited]);
+
+  /**
+   * Replaces the app with the neutral screen. The hash route of the current page is removed
+   * from the address bar and from its history entry, so it cannot be seen or reloaded.
+   */
+  const quickExit = () => {
+    setQuickExitActive(true);
+    window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}`);
+    setIsQuickExited(true);
+  };
+
+  const returnFromQuickExit = () => {
+    setQuickExitActive(false);
+    setIsQuickExited(false);
+  };
+
+  /**
+   * Updates the settings in state and in localStorage.
+   * @param {Partial<PrivacySettings>} changes - The settings to change.
+   */
+  const updateSettings = (changes: Partial<PrivacySettings>) => {
+    setPrivacySettings(prev => {
+      const next = { ...prev, ...changes };
+      storePrivacySettings(next);
+      return next;
+    });
+  };
+
+  const setDisguiseMode = (enabled: boolean) => updateSettings({ disguiseMode: enabled });
+
+  const setSaveChatHistory = (enabled: boolean) => updateSettings({ saveChatHistory: enabled });
+
+  return (
+    <PrivacyContext.Provider value={{ privacySettings, isDisguised, appName, isQuickExited, quickExit, returnFromQuickExit, setDisguiseMode, setSaveChatHistory }}>
+      {children}
+    </PrivacyContext.Provider>
+  );
+};
+
+/**
+ * A custom hook for consuming the PrivacyContext.
+ * @returns {PrivacyContextType} The privacy context values.
+ */
+export const usePrivacy = (): PrivacyContextType => {
+  const context = useContext(PrivacyContext);
+  if (context === undefined) {
+    throw new Error('usePrivacy must be used within a PrivacyProvider');
+  }
+  return context;
+};
@@ -0,0 +1,124 @@
+/**
+ * @file SavedPathwaysContext.tsx
+ * @description This file defines the context for the "My Pathways" library.
+ * Every pathway generated on the Smart Pathway screen is saved here for the logged-in user,
+ * together with the form inputs it came from, so it can be re-opened, renamed, deleted
+ * or compared later. Each pathway also keeps the user's progress through its roadmap and
+ * an optional daily reminder. The library is persisted to the encrypted storage per user.
+ * While a volunteer assists a beneficiary, the library is that beneficiary's instead.
+ */
+
+import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import { useBeneficiaries } from './BeneficiariesContext';
+import { loadSavedPathways, storeSavedPathways } from '../services/pathwayStorage';
+import { GeneratedGuidance, Language, PathwayFormInputs, PathwayProgress, PathwayReminder, SavedPathway } from '../types';
+
+// Define the shape of the saved pathways context
+interface SavedPathwaysContextType {
+  savedPathways: SavedPathway[]; // Newest first
+  getPathway: (id: string) => SavedPathway | undefined;
+  savePathway: (title: string, language: Language, inputs: PathwayFormInputs, guidance: GeneratedGuidance) => SavedPathway;
+  renamePathway: (id: string, title: string) => void;
+  deletePathway: (id: string) => void;
+  updateProgress: (id: string, progress: PathwayProgress) => void;
+  setReminder: (id: string, reminder: PathwayReminder | undefined) => void; // undefined turns the reminder off
+  markReminderShown: (id: string) => void;
+}
+
+// Create the React context with an initial undefined value.
+const SavedPathwaysContext = createContext<SavedPathwaysContextType | undefined>(undefined);
+
+/**
+ * The provider component that makes the saved pathways available to its children.
+ * It must be placed inside the AuthProvider, as the library belongs to the logged-in user,
+ * and inside the BeneficiariesProvider.
+ * @param {object} props - The component props.
+ * @param {ReactNode} props.children - The child components that will have access to this context.
+ */
+export const SavedPathwaysProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const { assistedBeneficiary } = useBeneficiaries();
+  const ownerId = assistedBeneficiary?.id ?? user?.id ?? null; // Whose library is shown
+  const [savedPathways, setSavedPathways] = useState<SavedPathway[]>([]);
+
+  // Load the library of its owner whenever the owner changes (login, logout, assisting a beneficiary).
+  useEffect(() => {
+    setSavedPathways(ownerId ? loadSavedPathways(ownerId) : []);
+  }, [ownerId]);
+
+  /**
+   * Updates the library in state and in the encrypted storage.
+   * @param {(pathways: SavedPathway[]) => SavedPathway[]} update - Computes the new list from the current one.
+   */
+  const updatePathways = (update: (pathways: SavedPathway[]) => SavedPathway[]) => {
+    if (!ownerId) return;
+    setSavedPathways(prev => {
+      const next = update(prev);
+      storeSavedPathways(ownerId, next);
+      return next;
+    });
+  };
+
+  const getPathway = (id: string) => savedPathways.find(pathway => pathway.id === id);
+
+  const savePathway = (title: string, language: Language, inputs: PathwayFormInputs, guidance: GeneratedGuidance) => {
+    const pathway: SavedPathway = {
+      id: `pathway-${Date.now()}`,
+      title,
+      createdAt: new Date().toISOString(),
+      language,
+      inputs,
+      guidance,
+    };
+    updatePathways(pathways => [pathway, ...pathways]);
+    return pathway;
+  };
+
+  const renamePathway = (id: string, title: string) => {
+    updatePathway(id, pathway => ({ ...pathway, title }));
+  };
+
+  const deletePathway = (id: string) => {
+    updatePathways(pathways => pathways.filter(pathway => pathway.id !== id));
+  };
+
+  /**
+   * Applies a change to one pathway of the library.
+   * @param {string} id - The id of the pathway.
+   * @param {(pathway: SavedPathway) => SavedPathway} update - Computes the new pathway from the current one.
+   */
+  const updatePathway = (id: string, update: (pathway: SavedPathway) => SavedPathway) => {
+    updatePathways(pathways => pathways.map(pathway => (pathway.id === id ? update(pathway) : pathway)));
+  };
+
+  const updateProgress = (id: string, progress: PathwayProgress) => {
+    updatePathway(id, pathway => ({ ...pathway, progress }));
+  };
+
+  const setReminder = (id: string, reminder: PathwayReminder | undefined) => {
+    updatePathway(id, pathway => ({ ...pathway, reminder }));
+  };
+
+  const markReminderShown = (id: string) => {
+    updatePathway(id, pathway => (pathway.reminder ? { ...pathway, reminder: { ...pathway.reminder, lastShownAt: new Date().toISOString() } } : pathway));
+  };
+
+  return (
+    <SavedPathwaysContext.Provider value={{ savedPathways, getPathway, savePathway, renamePathway, deletePathway, updateProgress, setReminder, markReminderShown }}>
+      {children}
+    </SavedPathwaysContext.Provider>
+  );
+};
+
+/**
+ * A custom hook for consuming the SavedPathwaysContext.
+ * @returns {SavedPathwaysContextType} The saved pathways context values.
+ */
+export const useSavedPathways = (): SavedPathwaysContextType => {
+  const context = useContext(SavedPathwaysContext);
+  if (context === undefined) {
+    throw new Error('useSavedPathways must be used within a SavedPathwaysProvider');
+  }
+  return context;
+};
@@ -0,0 +1,62 @@
+/**
+ * @file UserProfileContext.tsx
+ * @description This file defines the context for the user's profile: her age, state and
+ * district, education level, occupation and interests. The profile is edited in Settings and
+ * pre-fills the forms of the Smart Pathway, Women Awareness and Learn to Use Apps screens.
+ * It is persisted to the encrypted storage per user.
+ */
+
+import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import { EMPTY_USER_PROFILE, loadUserProfile, storeUserProfile } from '../services/userProfile';
+import { UserProfile } from '../types';
+
+// Define the shape of the user profile context
+interface UserProfileContextType {
+  profile: UserProfile;
+  saveProfile: (profile: UserProfile) => void; // Replaces the whole profile
+}
+
+// Create the React context with an initial undefined value.
+const UserProfileContext = createContext<UserProfileContextType | undefined>(undefined);
+
+/**
+ * The provider component that makes the user's profile available to its children.
+ * It must be placed inside the AuthProvider, as the profile belongs to the logged-in user.
+ * @param {object} props - The component props.
+ * @param {ReactNode} props.children - The child components that will have access to this context.
+ */
+export const UserProfileProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  // Loaded at once, so screens that mount together with the provider can pre-fill their forms from it.
+  const [profile, setProfile] = useState<UserProfile>(() => (user ? loadUserProfile(user.id) : EMPTY_USER_PROFILE));
+
+  // Load the profile of the current user whenever the user changes (login, logout, switching profile).
+  useEffect(() => {
+    setProfile(user ? loadUserProfile(user.id) : EMPTY_USER_PROFILE);
+  }, [user?.id]);
+
+  const saveProfile = (nextProfile: UserProfile) => {
+    if (!user) return;
+    setProfile(nextProfile);
+    storeUserProfile(user.id, nextProfile);
+  };
+
+  return (
+    <UserProfileContext.Provider value={{ profile, saveProfile }}>
+      {children}
+    </UserProfileContext.Provider>
+  );
+};
+
+/**
+ * A custom hook for consuming the UserProfileContext.
+ * @returns {UserProfileContextType} The user profile context values.
+ */
+export const useUserProfile = (): UserProfileContextType => {
+  const context = useContext(UserProfileContext);
+  if (context === undefined) {
+    throw new Error('useUserProfile must be used within a UserProfileProvider');
+  }
+  return context;
+};
@@ -0,0 +1,148 @@
+/**
+ * @file VaultContext.tsx
+ * @description This file defines the context for the encrypted storage of this device (see
+ * secureStorage.ts). Until the vault is unlocked with the device passphrase, the lock screen
+ * is shown instead of the app, so no user data is read or shown. After a period without any
+ * activity the vault locks itself again, and the app with all its decrypted data is unmounted.
+ * While the quick exit is active, the neutral calculator takes the place of the lock screen.
+ */
+
+import React, { createContext, useState, useContext, useEffect, useRef, ReactNode } from 'react';
+import { useLanguage } from './LanguageContext';
+import { usePrivacy } from './PrivacyContext';
+import { isVaultSetUp, isVaultUnlocked, lockVault, resetVault, secureStorage, setUpVault, unlockVault } from '../services/secureStorage';
+import { DecryptionError } from '../services/encryption';
+import LockScreen from '../screens/auth/LockScreen';
+import CalculatorScreen from '../screens/privacy/CalculatorScreen';
+
+const AUTO_LOCK_STORAGE_KEY = 'femmoraAutoLockMinutes';
+
+// The auto-lock timeouts the user can choose from, in minutes; 0 turns auto-lock off.
+export const AUTO_LOCK_OPTIONS = [1, 5, 15, 30, 0];
+const DEFAULT_AUTO_LOCK_MINUTES = 5;
+
+// How often inactivity is checked.
+const AUTO_LOCK_CHECK_INTERVAL_MS = 10000;
+
+// The events that count as activity.
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+
+// Define the shape of the vault context
+interface VaultContextType {
+  lock: () => void;
+  autoLockMinutes: number; // 0 if auto-lock is off
+  setAutoLockMinutes: (minutes: number) => void;
+}
+
+// Create the React context with an initial undefined value.
+const VaultContext = createContext<VaultContextType | undefined>(undefined);
+
+/**
+ * Reads the auto-lock timeout from the (unlocked) storage.
+ * @returns {number} The timeout in minutes.
+ */
+const loadAutoLockMinutes = (): number => {
+  const storedMinutes = secureStorage.getItem(AUTO_LOCK_STORAGE_KEY);
+  return storedMinutes !== null && AUTO_LOCK_OPTIONS.includes(Number(storedMinutes)) ? Number(storedMinutes) : DEFAULT_AUTO_LOCK_MINUTES;
+};
+
+/**
+ * The provider component that shows the lock screen until the vault is unlocked, and the
+ * app after. It must be placed inside the LanguageProvider and PrivacyProvider, and around
+ * every provider that reads stored user data (starting with the AuthProvider).
+ * @param {object} props - The component props.
+ * @param {ReactNode} props.children - The app, rendered only while the vault is unlocked.
+ */
+export const VaultProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { translate } = useLanguage();
+  const { isQuickExited } = usePrivacy();
+  const [isSetUp, setIsSetUp] = useState<boolean>(isVaultSetUp);
+  const [isUnlocked, setIsUnlocked] = useState<boolean>(isVaultUnlocked);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [autoLockMinutes, setAutoLockMinutesState] = useState(DEFAULT_AUTO_LOCK_MINUTES);
+  const lastActivityRef = useRef(Date.now());
+
+  const lock = () => {
+    lockVault();
+    setIsUnlocked(false);
+  };
+
+  // Effect to lock the vault after the chosen time without activity, also when the tab comes back from the background.
+  useEffect(() => {
+    if (!isUnlocked || autoLockMinutes === 0) return;
+    const markActivity = () => { lastActivityRef.current = Date.now(); };
+    const lockIfIdle = () => {
+      if (Date.now() - lastActivityRef.current >= autoLockMinutes * 60000) lock();
+    };
+    markActivity();
+    ACTIVITY_EVENTS.forEach(eventName => window.addEventListener(eventName, markActivity, { passive: true }));
+    document.addEventListener('visibilitychange', lockIfIdle);
+    const intervalId = window.setInterval(lockIfIdle, AUTO_LOCK_CHECK_INTERVAL_MS);
+    return () => {
+      ACTIVITY_EVENTS.forEach(eventName => window.removeEventListener(eventName, markActivity));
+      document.removeEventListener('visibilitychange', lockIfIdle);
+      window.clearInterval(intervalId);
+    };
+  }, [isUnlocked, autoLockMinutes]);
+
+  /**
+   * Sets up or unlocks the vault with the passphrase typed on the lock screen.
+   * @param {string} passphrase - The passphrase.
+   */
+  const handlePassphrase = async (passphrase: string) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      if (isSetUp) {
+        await unlockVault(passphrase);
+      } else {
+        await setUpVault(passphrase);
+        setIsSetUp(true);
+      }
+      setAutoLockMinutesState(loadAutoLockMinutes());
+      setIsUnlocked(true);
+    } catch (unlockError) {
+      if (!(unlockError instanceof DecryptionError)) console.error("Failed to open the vault", unlockError);
+      setError(translate(unlockError instanceof DecryptionError ? 'vaultWrongPassphrase' : 'vaultError'));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleReset = () => {
+    if (!window.confirm(translate('vaultConfirmReset'))) return;
+    resetVault();
+    setIsSetUp(false);
+    setError(null);
+  };
+
+  const setAutoLockMinutes = (minutes: number) => {
+    setAutoLockMinutesState(minutes);
+    secureStorage.setItem(AUTO_LOCK_STORAGE_KEY, String(minutes));
+  };
+
+  if (!isUnlocked) {
+    // A lock screen would give the app away after a quick exit, e.g. once the tab is reloaded.
+    if (isQuickExited) return <CalculatorScreen />;
+    return <LockScreen mode={isSetUp ? 'unlock' : 'create'} onSubmit={handlePassphrase} onReset={handleReset} isBusy={isBusy} error={error} />;
+  }
+
+  return (
+    <VaultContext.Provider value={{ lock, autoLockMinutes, setAutoLockMinutes }}>
+      {children}
+    </VaultContext.Provider>
+  );
+};
+
+/**
+ * A custom hook for consuming the VaultContext.
+ * @returns {VaultContextType} The vault context values.
+ */
+export const useVault = (): VaultContextType => {
+  const context = useContext(VaultContext);
+  if (context === undefined) {
+    throw new Error('useVault must be used within a VaultProvider');
+  }
+  return context;
+};
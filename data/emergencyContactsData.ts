@@ -0,0 +1,57 @@
+import { EmergencyContact } from '../types';
+
+// National helplines, available across India. `nameKey` is the translation key of the
+// name; `name` is the English name.
+export const NATIONAL_HELPLINES: EmergencyContact[] = [
+  { id: 'emergencyHelpline', name: 'Emergency (all services)', nameKey: 'emergencyHelpline', phoneNumber: '112', type: 'Emergency' },
+  { id: 'womenHelpline', name: 'Women Helpline', nameKey: 'womenHelpline', phoneNumber: '1091', type: 'Women Helpline' },
+  { id: 'domesticAbuseHelpline', name: 'Women Helpline (Domestic Abuse)', nameKey: 'domesticAbuseHelpline', phoneNumber: '181', type: 'Women Helpline' },
+  { id: 'policeHelpline', name: 'Police', nameKey: 'policeHelpline', phoneNumber: '100', type: 'Police' },
+  { id: 'ambulanceHelpline', name: 'Ambulance', nameKey: 'ambulanceHelpline', phoneNumber: '102', type: 'Ambulance' },
+  { id: 'childHelpline', name: 'Child Helpline', nameKey: 'childHelpline', phoneNumber: '1098', type: 'Child Helpline' },
+  { id: 'mentalHealthHelpline', name: 'Tele-MANAS (Mental Health)', nameKey: 'mentalHealthHelpline', phoneNumber: '14416', type: 'Mental Health' },
+];
+
+// Extra helplines run by individual states, keyed by the state's name.
+// They are shown in addition to the national helplines, which work in every state.
+export const STATE_HELPLINES: Record<string, EmergencyContact[]> = {
+  'Delhi': [
+    { id: 'delhi-dcw', name: 'Delhi Commission for Women Helpline', phoneNumber: '181', type: 'Women Helpline' },
+  ],
+  'Karnataka': [
+    { id: 'karnataka-women', name: 'Karnataka Women Helpline', phoneNumber: '181', type: 'Women Helpline' },
+  ],
+  'Kerala': [
+    { id: 'kerala-mitra', name: 'Mitra Women Helpline', phoneNumber: '181', type: 'Women Helpline' },
+    { id: 'kerala-pink-police', name: 'Pink Police Patrol', phoneNumber: '1515', type: 'Police' },
+  ],
+  'Maharashtra': [
+    { id: 'maharashtra-women', name: 'Maharashtra Women Helpline', phoneNumber: '181', type: 'Women Helpline' },
+    { id: 'mumbai-police-women', name: 'Mumbai Police Women Helpline', phoneNumber: '103', type: 'Police' },
+  ],
+  'Tamil Nadu': [
+    { id: 'tamilnadu-women', name: 'Tamil Nadu Women Helpline', phoneNumber: '181', type: 'Women Helpline' },
+  ],
+  'Telangana': [
+    { id: 'telangana-women', name: 'Telangana Women Helpline', phoneNumber: '181', type: 'Women Helpline' },
+  ],
+  'Uttar Pradesh': [
+    { id: 'up-power-line', name: 'UP Women Power Line', phoneNumber: '1090', type: 'Police' },
+    { id: 'up-women', name: 'UP Women Helpline', phoneNumber: '181', type: 'Women Helpline' },
+  ],
+  'West Bengal': [
+    { id: 'westbengal-women', name: 'West Bengal Women Helpline', phoneNumber: '181', type: 'Women Helpline' },
+  ],
+};
+
+// The icon shown for each type of contact.
+export const EMERGENCY_CONTACT_ICONS: Record<EmergencyContact['type'], string> = {
+  'Emergency': 'fa-exclamation-triangle',
+  'Police': 'fa-shield-alt',
+  'Ambulance': 'fa-ambulance',
+  'Women Helpline': 'fa-female',
+  'Child Helpline': 'fa-child',
+  'Mental Health': 'fa-heart',
+  'NGO Support': 'fa-hands-helping',
+  'Trusted Contact': 'fa-user-friends',
+};
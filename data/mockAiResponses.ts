@@ -0,0 +1,162 @@
+import { AiFeature } from '../services/aiProvider';
+
+// Canned answers used by the offline mock AI provider (AI_PROVIDER=mock).
+// Each response follows the exact output format (or JSON schema) its screen asks the real
+// model for, so the parsing and rendering code paths are exercised without a network.
+
+const MOCK_PATHWAY_RESPONSE = JSON.stringify({
+  educationalPathway: {
+    steps: [
+      {
+        stepTitle: 'Step 1: 📚 Finish Your Class 12 With Confidence',
+        dos: ['Make a simple weekly timetable and study one subject each evening.', 'Ask your teacher about free coaching classes in your school.'],
+        donts: ["Don't compare yourself with others. Everyone learns at their own speed."],
+        resources: [
+          { name: 'Class 12 Lessons', type: 'Video', url: 'https://www.diksha.gov.in' },
+          { name: 'NCERT Textbooks', type: 'Book/PDF', url: 'https://ncert.nic.in/textbook.php' },
+        ],
+        tip: 'Small steps every day add up to big results. We can do this together!',
+      },
+      {
+        stepTitle: 'Step 2: 💻 Learn Basic Computer Skills',
+        dos: ['Practise typing for 15 minutes every day.'],
+        donts: ["Don't worry if it feels slow at first. Speed comes with practice."],
+        resources: [
+          { name: 'SWAYAM Free Courses', type: 'Website/Platform', url: 'https://www.swayam.gov.in' },
+          { name: 'Digital Literacy Notes', type: 'Notes/Material', url: 'https://www.pmgdisha.in' },
+        ],
+        tip: 'Asking questions is a sign of strength!',
+      },
+    ],
+  },
+  lifeAwarenessModule: {
+    ageGroupFocus: 'For young women (16-20 years)',
+    topics: [
+      {
+        topicTitle: 'Staying Safe Online',
+        guidancePoints: [
+          { point: 'Keep your passwords secret, like the key to your diary.' },
+          { point: 'Never share your photos or address with strangers.', visualCue: 'A cartoon showing a lock on a phone screen' },
+        ],
+      },
+      {
+        topicTitle: 'Taking Care of Your Health',
+        guidancePoints: [
+          { point: 'Eat on time and sleep well, especially during exams.', visualCue: 'A girl drinking water with a plate of fruit nearby' },
+        ],
+        audioTip: 'My dear, your health and safety come first. You are precious.',
+      },
+    ],
+  },
+  schemesAndRights: [
+    {
+      emoji: '👩‍🎓',
+      type: 'Scholarship',
+      name: 'National Scholarship Portal',
+      details: 'Many central and state scholarships for girl students in one place.',
+      howToAccess: 'Apply online on the National Scholarship Portal.',
+      source: 'Ministry of Education',
+      url: 'https://scholarships.gov.in/',
+    },
+    {
+      emoji: '💰',
+      type: 'Scheme',
+      name: 'Beti Bachao Beti Padhao',
+      details: 'Supports the education and safety of girls across India.',
+      howToAccess: 'Ask at your local Anganwadi centre or visit the scheme website.',
+      source: 'Ministry of Women & Child Development',
+      url: 'https://wcd.nic.in/bbbp-schemes',
+    },
+    {
+      emoji: '⚖',
+      type: 'Right',
+      name: 'Right to Free Education',
+      details: 'Every child has the right to free schooling up to 14 years of age.',
+      howToAccess: 'Speak to the head teacher of your nearest government school.',
+    },
+  ],
+  digitalLearningTips: [
+    {
+      app: 'YouTube',
+      howToUse: '1. Find the red icon with a white play button and tap it.\n2. Tap the magnifying glass (🔍) at the top.\n3. Slowly type what you want to learn and tap search.',
+      exampleSearchOrTask: 'Find videos to learn simple English speaking',
+      visualCue: 'Drawing of a finger tapping a search bar',
+      audioTip: "Don't worry if it seems new. We can try these steps one by one.",
+    },
+  ],
+  motivationalSupport: {
+    personalizedEncouragement: 'Studying while helping at home is hard, but your wish to learn is wonderful. We believe in you!',
+    quote: 'A small step every day leads to big changes.',
+    nextStep: 'Watch the first 5 minutes of a Class 12 lesson video today.',
+    reminder: 'You are not alone on this path. Femmora is here to support you. Keep shining!',
+  },
+});
+
+const MOCK_AWARENESS_POINTS_RESPONSE = JSON.stringify([
+  { emoji: '🛡️', awarenessText: 'Your body belongs to you. It is okay to say NO if someone makes you uncomfortable.', imageSuggestion: 'A girl standing confidently with her hand raised to say stop.' },
+  { emoji: '🩸', awarenessText: 'Periods are a normal and healthy part of growing up. Change your pad every 4-6 hours.', imageSuggestion: 'A mother gently talking to her daughter at home.' },
+  { emoji: '📱', awarenessText: 'Never share your password or OTP with anyone, even friends.', imageSuggestion: 'A phone screen with a big lock symbol.' },
+  { emoji: '🥗', awarenessText: 'Eat green vegetables, dal and fruits to stay strong and active.', imageSuggestion: 'A colourful plate with rice, dal, vegetables and a banana.' },
+  { emoji: '🧠', awarenessText: 'Feeling sad or worried sometimes is normal. Talk to someone you trust.', imageSuggestion: 'Two friends sitting together and talking under a tree.' },
+  { emoji: '📞', awarenessText: 'In an emergency, call the Women Helpline 1091 or Police 100.', imageSuggestion: 'A phone showing the number 1091 on the screen.' },
+  { emoji: '🎓', awarenessText: 'Education opens doors. Ask about scholarships for girls at your school.', imageSuggestion: 'A girl in a school uniform holding books and smiling.' },
+  { emoji: '💰', awarenessText: 'Saving even a small amount every week builds your own safety net.', imageSuggestion: 'A small clay piggy bank with coins beside it.' },
+]);
+
+const MOCK_APP_RECOMMENDATIONS_RESPONSE = JSON.stringify([
+  {
+    name: 'Duolingo',
+    usage: 'Use it to practise English daily in a fun way.',
+    howToUseVideoLink: null,
+    howToUseText: '1. Install Duolingo from the Play Store. 2. Choose English. 3. Do one short lesson every day.',
+    officialLink: 'https://www.duolingo.com',
+    benefits: ['Free to use', 'Short, game-like lessons', 'Works with Hindi and other languages'],
+    safetyTips: ["Don't share your password with anyone."],
+  },
+  {
+    name: 'SWAYAM',
+    usage: 'Free online courses from Indian universities and teachers.',
+    howToUseText: '1. Open swayam.gov.in. 2. Search for a subject. 3. Tap "Enroll" and start watching.',
+    officialLink: 'https://www.swayam.gov.in',
+    benefits: ['Government run and free', 'Certificates available', 'Many subjects to choose from'],
+  },
+  {
+    name: 'YouTube',
+    usage: 'Watch free videos to learn cooking, tailoring, English and much more.',
+    howToUseText: '1. Open YouTube. 2. Tap the search icon. 3. Type what you want to learn.',
+    officialLink: 'https://www.youtube.com',
+    benefits: ['Videos in many Indian languages', 'Learn at your own speed'],
+    safetyTips: ['Do not reply to strangers in the comments.'],
+  },
+  {
+    name: 'BHIM UPI',
+    usage: 'Send and receive money safely from your phone.',
+    howToUseText: '1. Install BHIM. 2. Link your bank account with your mobile number. 3. Set a secret UPI PIN.',
+    officialLink: 'https://www.bhimupi.org.in',
+    benefits: ['Quick payments', 'Works with all major banks'],
+    safetyTips: ['Never share your UPI PIN.', 'You never need a PIN to receive money.'],
+  },
+]);
+
+// The response returned for the first, one-off generation of each feature.
+export const MOCK_GENERATE_RESPONSES: Record<AiFeature, string> = {
+  smartPathway: MOCK_PATHWAY_RESPONSE,
+  womenAwareness: MOCK_AWARENESS_POINTS_RESPONSE,
+  learnToUseApps: MOCK_APP_RECOMMENDATIONS_RESPONSE,
+};
+
+// Follow-up chat replies for each feature. The mock cycles through them in order.
+export const MOCK_CHAT_REPLIES: Record<AiFeature, string[]> = {
+  smartPathway: [
+    "That's a great question! 😊 Let's start with Step 1 of your pathway. Try studying for just 30 minutes today, and we can build from there.",
+    "You are doing wonderfully. If the internet is slow, download the NCERT PDFs once and read them offline. We can learn step by step!",
+  ],
+  womenAwareness: [
+    "I hear you, my dear. 🤗 It's completely okay to feel this way. Would you like to tell me a little more about what is on your mind?",
+    "Thank you for sharing this with me. ❤️ Remember, you are strong. If anything worries you about your health, a didi at the health centre can help too.",
+  ],
+  learnToUseApps: [
+    "Sure! 📱 Open the app, look for the search icon (🔍) at the top, and type what you want to learn. Let's try it together.",
+    "Good thinking! Always download apps only from the Play Store, and never share your OTP or PIN with anyone. 🔒",
+  ],
+};
@@ -7,32 +7,62 @@ export const womenLawsData: WomenLaw[] = [
     fullForm: {
       [Language.EN]: "The Protection of Children from Sexual Offences (POCSO) Act, 2012",
       [Language.HI]: "लैंगिक अपराधों से बच्चों का संरक्षण (पॉक्सो) अधिनियम, 2012",
-      [Language.TA]: "குழந்தைகள் பாலியல் குற்றங்களிலிருந்து பாதுகாப்பு (போக்சோ) சட்டம், 2012"
+      [Language.TA]: "குழந்தைகள் பாலியல் குற்றங்களிலிருந்து பாதுகாப்பு (போக்சோ) சட்டம், 2012",
+      [Language.TE]: "లైంగిక నేరాల నుండి పిల్లల రక్షణ (పోక్సో) చట్టం, 2012",
+      [Language.KN]: "ಲೈಂಗಿಕ ಅಪರಾಧಗಳಿಂದ ಮಕ್ಕಳ ರಕ್ಷಣೆ (ಪೋಕ್ಸೋ) ಕಾಯ್ದೆ, 2012",
+      [Language.ML]: "ലൈംഗിക അതിക്രമങ്ങളിൽ നിന്ന് കുട്ടികളെ സംരക്ഷിക്കുന്ന (പോക്സോ) നിയമം, 2012",
+      [Language.BN]: "যৌন অপরাধ থেকে শিশুদের সুরক্ষা (পকসো) আইন, ২০১২",
+      [Language.MR]: "लैंगिक गुन्ह्यांपासून बालकांचे संरक्षण (पॉक्सो) कायदा, 2012"
     },
     applicability: {
       [Language.EN]: "Applies to all children under the age of 18 years in India. It is gender-neutral, meaning it protects both boys and girls.",
       [Language.HI]: "भारत में 18 वर्ष से कम आयु के सभी बच्चों पर लागू होता है। यह लिंग-तटस्थ है, जिसका अर्थ है कि यह लड़कों और लड़कियों दोनों की सुरक्षा करता है।",
-      [Language.TA]: "இந்தியாவில் 18 வயதுக்குட்பட்ட அனைத்து குழந்தைகளுக்கும் பொருந்தும். இது பாலின-நடுநிலையானது, அதாவது இது ஆண் மற்றும் பெண் இருவரையும் பாதுகாக்கிறது."
+      [Language.TA]: "இந்தியாவில் 18 வயதுக்குட்பட்ட அனைத்து குழந்தைகளுக்கும் பொருந்தும். இது பாலின-நடுநிலையானது, அதாவது இது ஆண் மற்றும் பெண் இருவரையும் பாதுகாக்கிறது.",
+      [Language.TE]: "భారతదేశంలో 18 సంవత్సరాల లోపు ఉన్న పిల్లలందరికీ వర్తిస్తుంది. ఇది లింగ భేదం లేనిది, అంటే ఇది అబ్బాయిలు మరియు అమ్మాయిలు ఇద్దరినీ రక్షిస్తుంది.",
+      [Language.KN]: "ಭಾರತದಲ್ಲಿ 18 ವರ್ಷದೊಳಗಿನ ಎಲ್ಲಾ ಮಕ್ಕಳಿಗೆ ಅನ್ವಯಿಸುತ್ತದೆ. ಇದು ಲಿಂಗ-ತಟಸ್ಥವಾಗಿದೆ, ಅಂದರೆ ಇದು ಹುಡುಗರು ಮತ್ತು ಹುಡುಗಿಯರು ಇಬ್ಬರನ್ನೂ ರಕ್ಷಿಸುತ್ತದೆ.",
+      [Language.ML]: "ഇന്ത്യയിലെ 18 വയസ്സിന് താഴെയുള്ള എല്ലാ കുട്ടികൾക്കും ബാധകമാണ്. ഇത് ലിംഗഭേദമില്ലാത്തതാണ്, അതായത് ആൺകുട്ടികളെയും പെൺകുട്ടികളെയും ഒരുപോലെ സംരക്ഷിക്കുന്നു.",
+      [Language.BN]: "ভারতে ১৮ বছরের কম বয়সী সব শিশুর ক্ষেত্রে প্রযোজ্য। এটি লিঙ্গ-নিরপেক্ষ, অর্থাৎ এটি ছেলে ও মেয়ে উভয়কেই সুরক্ষা দেয়।",
+      [Language.MR]: "भारतातील 18 वर्षांखालील सर्व मुलांना लागू होतो. तो लिंग-निरपेक्ष आहे, म्हणजे तो मुले आणि मुली दोघांचेही संरक्षण करतो."
     },
     crimesCovered: {
       [Language.EN]: "Covers various forms of sexual abuse against children, including penetrative sexual assault, aggravated sexual assault, sexual harassment, and pornography.",
       [Language.HI]: "बच्चों के खिलाफ विभिन्न प्रकार के यौन शोषण को शामिल करता है, जिसमें प्रवेश संबंधी यौन हमला, गंभीर यौन हमला, यौन उत्पीड़न और पोर्नोग्राफी शामिल हैं।",
-      [Language.TA]: "ஊடுருவும் பாலியல் தாக்குதல், மோசமான பாலியல் தாக்குதல், பாலியல் துன்புறுத்தல் மற்றும் ஆபாசப் படங்கள் உள்ளிட்ட குழந்தைகளுக்கு எதிரான பல்வேறு வகையான பாலியல் துஷ்பிரயோகங்களை உள்ளடக்கியது."
+      [Language.TA]: "ஊடுருவும் பாலியல் தாக்குதல், மோசமான பாலியல் தாக்குதல், பாலியல் துன்புறுத்தல் மற்றும் ஆபாசப் படங்கள் உள்ளிட்ட குழந்தைகளுக்கு எதிரான பல்வேறு வகையான பாலியல் துஷ்பிரயோகங்களை உள்ளடக்கியது.",
+      [Language.TE]: "పిల్లలపై జరిగే వివిధ రకాల లైంగిక వేధింపులను కవర్ చేస్తుంది, ఇందులో చొచ్చుకుపోయే లైంగిక దాడి, తీవ్రమైన లైంగిక దాడి, లైంగిక వేధింపు మరియు అశ్లీల చిత్రాలు ఉన్నాయి.",
+      [Language.KN]: "ಮಕ್ಕಳ ವಿರುದ್ಧದ ವಿವಿಧ ರೀತಿಯ ಲೈಂಗಿಕ ದೌರ್ಜನ್ಯಗಳನ್ನು ಒಳಗೊಂಡಿದೆ, ಇದರಲ್ಲಿ ಪ್ರವೇಶಿತ ಲೈಂಗಿಕ ಹಲ್ಲೆ, ಗಂಭೀರ ಲೈಂಗಿಕ ಹಲ್ಲೆ, ಲೈಂಗಿಕ ಕಿರುಕುಳ ಮತ್ತು ಅಶ್ಲೀಲ ಚಿತ್ರಗಳು ಸೇರಿವೆ.",
+      [Language.ML]: "കുട്ടികൾക്കെതിരായ വിവിധ തരം ലൈംഗിക അതിക്രമങ്ങൾ ഇതിൽ ഉൾപ്പെടുന്നു, പെനിട്രേറ്റീവ് ലൈംഗിക ആക്രമണം, ഗുരുതരമായ ലൈംഗിക ആക്രമണം, ലൈംഗിക പീഡനം, അശ്ലീല ചിത്രങ്ങൾ എന്നിവ ഉൾപ്പെടെ.",
+      [Language.BN]: "শিশুদের বিরুদ্ধে বিভিন্ন ধরনের যৌন নির্যাতন এর আওতায় পড়ে, যার মধ্যে রয়েছে অনুপ্রবেশমূলক যৌন আক্রমণ, গুরুতর যৌন আক্রমণ, যৌন হয়রানি এবং পর্নোগ্রাফি।",
+      [Language.MR]: "मुलांवरील विविध प्रकारच्या लैंगिक अत्याचारांचा यात समावेश होतो, ज्यात भेदक लैंगिक हल्ला, गंभीर लैंगिक हल्ला, लैंगिक छळ आणि अश्लील साहित्य यांचा समावेश आहे."
     },
     victimRights: {
       [Language.EN]: "Right to protection from discrimination, right to privacy, right to be informed, right to legal aid, right to compensation, child-friendly procedures during investigation and trial.",
       [Language.HI]: "भेदभाव से सुरक्षा का अधिकार, गोपनीयता का अधिकार, सूचित किए जाने का अधिकार, कानूनी सहायता का अधिकार, मुआवजे का अधिकार, जांच और मुकदमे के दौरान बाल-सुलभ प्रक्रियाएं।",
-      [Language.TA]: "பாகுபாட்டிலிருந்து பாதுகாப்பு உரிமை, தனியுரிமைக்கான உரிமை, தகவல் அறியும் உரிமை, சட்ட உதவிக்கான உரிமை, இழப்பீடு பெறுவதற்கான உரிமை, விசாரணை மற்றும் விசாரணையின் போது குழந்தை நட்பு நடைமுறைகள்."
+      [Language.TA]: "பாகுபாட்டிலிருந்து பாதுகாப்பு உரிமை, தனியுரிமைக்கான உரிமை, தகவல் அறியும் உரிமை, சட்ட உதவிக்கான உரிமை, இழப்பீடு பெறுவதற்கான உரிமை, விசாரணை மற்றும் விசாரணையின் போது குழந்தை நட்பு நடைமுறைகள்.",
+      [Language.TE]: "వివక్ష నుండి రక్షణ హక్కు, గోప్యత హక్కు, సమాచారం పొందే హక్కు, న్యాయ సహాయం పొందే హక్కు, పరిహారం పొందే హక్కు, దర్యాప్తు మరియు విచారణ సమయంలో పిల్లలకు అనుకూలమైన విధానాలు.",
+      [Language.KN]: "ತಾರತಮ್ಯದಿಂದ ರಕ್ಷಣೆಯ ಹಕ್ಕು, ಗೌಪ್ಯತೆಯ ಹಕ್ಕು, ಮಾಹಿತಿ ಪಡೆಯುವ ಹಕ್ಕು, ಕಾನೂನು ನೆರವಿನ ಹಕ್ಕು, ಪರಿಹಾರದ ಹಕ್ಕು, ತನಿಖೆ ಮತ್ತು ವಿಚಾರಣೆಯ ಸಮಯದಲ್ಲಿ ಮಕ್ಕಳ ಸ್ನೇಹಿ ಕಾರ್ಯವಿಧಾನಗಳು.",
+      [Language.ML]: "വിവേചനത്തിൽ നിന്നുള്ള സംരക്ഷണത്തിനുള്ള അവകാശം, സ്വകാര്യതയ്ക്കുള്ള അവകാശം, വിവരങ്ങൾ അറിയാനുള്ള അവകാശം, നിയമസഹായത്തിനുള്ള അവകാശം, നഷ്ടപരിഹാരത്തിനുള്ള അവകാശം, അന്വേഷണത്തിലും വിചാരണയിലും കുട്ടികൾക്ക് സൗഹൃദപരമായ നടപടിക്രമങ്ങൾ.",
+      [Language.BN]: "বৈষম্য থেকে সুরক্ষার অধিকার, গোপনীয়তার অধিকার, তথ্য জানার অধিকার, আইনি সহায়তার অধিকার, ক্ষতিপূরণের অধিকার, তদন্ত ও বিচারের সময় শিশু-বান্ধব পদ্ধতি।",
+      [Language.MR]: "भेदभावापासून संरक्षणाचा अधिकार, गोपनीयतेचा अधिकार, माहिती मिळण्याचा अधिकार, कायदेशीर मदतीचा अधिकार, नुकसानभरपाईचा अधिकार, तपास आणि खटल्यादरम्यान बालस्नेही प्रक्रिया."
     },
     punishmentPenalty: {
       [Language.EN]: "Punishments range from rigorous imprisonment for a minimum of 3 years to life imprisonment or even death penalty in aggravated cases, along with fines.",
       [Language.HI]: "सजा कम से कम 3 साल के कठोर कारावास से लेकर आजीवन कारावास या गंभीर मामलों में मृत्युदंड तक हो सकती है, साथ ही जुर्माना भी लगाया जा सकता है।",
-      [Language.TA]: "குறைந்தபட்சம் 3 ஆண்டுகள் கடுமையான சிறைத்தண்டனை முதல் ஆயுள் தண்டனை அல்லது மோசமான வழக்குகளில் மரண தண்டனை வரை தண்டனைகள் விதிக்கப்படும், அத்துடன் அபராதமும் விதிக்கப்படும்."
+      [Language.TA]: "குறைந்தபட்சம் 3 ஆண்டுகள் கடுமையான சிறைத்தண்டனை முதல் ஆயுள் தண்டனை அல்லது மோசமான வழக்குகளில் மரண தண்டனை வரை தண்டனைகள் விதிக்கப்படும், அத்துடன் அபராதமும் விதிக்கப்படும்.",
+      [Language.TE]: "శిక్షలు కనీసం 3 సంవత్సరాల కఠిన కారాగార శిక్ష నుండి జీవిత ఖైదు లేదా తీవ్రమైన కేసుల్లో మరణశిక్ష వరకు ఉంటాయి, దానితో పాటు జరిమానా కూడా విధించబడుతుంది.",
+      [Language.KN]: "ಶಿಕ್ಷೆಗಳು ಕನಿಷ್ಠ 3 ವರ್ಷಗಳ ಕಠಿಣ ಕಾರಾಗೃಹ ವಾಸದಿಂದ ಜೀವಾವಧಿ ಶಿಕ್ಷೆ ಅಥವಾ ಗಂಭೀರ ಪ್ರಕರಣಗಳಲ್ಲಿ ಮರಣದಂಡನೆಯವರೆಗೆ ಇರುತ್ತವೆ, ಜೊತೆಗೆ ದಂಡವನ್ನೂ ವಿಧಿಸಲಾಗುತ್ತದೆ.",
+      [Language.ML]: "കുറഞ്ഞത് 3 വർഷത്തെ കഠിന തടവ് മുതൽ ജീവപര്യന്തം തടവ് അല്ലെങ്കിൽ ഗുരുതരമായ കേസുകളിൽ വധശിക്ഷ വരെയാണ് ശിക്ഷ, ഒപ്പം പിഴയും ചുമത്താം.",
+      [Language.BN]: "শাস্তি ন্যূনতম ৩ বছরের সশ্রম কারাদণ্ড থেকে শুরু করে যাবজ্জীবন কারাদণ্ড, এমনকি গুরুতর ক্ষেত্রে মৃত্যুদণ্ড পর্যন্ত হতে পারে, সঙ্গে জরিমানাও হতে পারে।",
+      [Language.MR]: "शिक्षा किमान 3 वर्षांच्या सक्तमजुरीपासून जन्मठेपेपर्यंत किंवा गंभीर प्रकरणांमध्ये फाशीपर्यंत असू शकते, तसेच दंडही होऊ शकतो."
     },
     realLifeExample: {
       [Language.EN]: "If a person touches a child inappropriately or forces them to watch adult content, it is a crime under POCSO. The child's parents or guardians can report this to the police.",
       [Language.HI]: "यदि कोई व्यक्ति किसी बच्चे को अनुचित तरीके से छूता है या उसे वयस्क सामग्री देखने के लिए मजबूर करता है, तो यह पॉक्सो के तहत अपराध है। बच्चे के माता-पिता या अभिभावक इसकी सूचना पुलिस को दे सकते हैं।",
-      [Language.TA]: "ஒரு நபர் ஒரு குழந்தையை முறையற்ற முறையில் தொட்டால் அல்லது வயது வந்தோருக்கான உள்ளடக்கத்தைப் பார்க்கும்படி கட்டாயப்படுத்தினால், அது போக்சோவின் கீழ் ஒரு குற்றமாகும். குழந்தையின் பெற்றோர் அல்லது பாதுகாவலர்கள் இது குறித்து காவல்துறையில் புகார் அளிக்கலாம்."
+      [Language.TA]: "ஒரு நபர் ஒரு குழந்தையை முறையற்ற முறையில் தொட்டால் அல்லது வயது வந்தோருக்கான உள்ளடக்கத்தைப் பார்க்கும்படி கட்டாயப்படுத்தினால், அது போக்சோவின் கீழ் ஒரு குற்றமாகும். குழந்தையின் பெற்றோர் அல்லது பாதுகாவலர்கள் இது குறித்து காவல்துறையில் புகார் அளிக்கலாம்.",
+      [Language.TE]: "ఎవరైనా ఒక పిల్లవాడిని అనుచితంగా తాకినా లేదా పెద్దలకు సంబంధించిన కంటెంట్ చూడమని బలవంతం చేసినా, అది పోక్సో కింద నేరం. పిల్లల తల్లిదండ్రులు లేదా సంరక్షకులు దీని గురించి పోలీసులకు ఫిర్యాదు చేయవచ్చు.",
+      [Language.KN]: "ಯಾರಾದರೂ ಮಗುವನ್ನು ಅನುಚಿತವಾಗಿ ಮುಟ್ಟಿದರೆ ಅಥವಾ ವಯಸ್ಕರ ವಿಷಯವನ್ನು ನೋಡುವಂತೆ ಒತ್ತಾಯಿಸಿದರೆ, ಅದು ಪೋಕ್ಸೋ ಅಡಿಯಲ್ಲಿ ಅಪರಾಧವಾಗಿದೆ. ಮಗುವಿನ ಪೋಷಕರು ಅಥವಾ ಪಾಲಕರು ಇದನ್ನು ಪೊಲೀಸರಿಗೆ ದೂರು ನೀಡಬಹುದು.",
+      [Language.ML]: "ഒരാൾ ഒരു കുട്ടിയെ അനുചിതമായി സ്പർശിക്കുകയോ മുതിർന്നവർക്കുള്ള ഉള്ളടക്കം കാണാൻ നിർബന്ധിക്കുകയോ ചെയ്താൽ, അത് പോക്സോ പ്രകാരം കുറ്റകൃത്യമാണ്. കുട്ടിയുടെ മാതാപിതാക്കൾക്കോ രക്ഷിതാക്കൾക്കോ ഇത് പോലീസിൽ അറിയിക്കാം.",
+      [Language.BN]: "কোনো ব্যক্তি যদি কোনো শিশুকে অনুচিতভাবে স্পর্শ করে বা প্রাপ্তবয়স্কদের বিষয়বস্তু দেখতে বাধ্য করে, তবে তা পকসো আইনে অপরাধ। শিশুর বাবা-মা বা অভিভাবক এ বিষয়ে পুলিশের কাছে অভিযোগ করতে পারেন।",
+      [Language.MR]: "जर एखाद्या व्यक्तीने मुलाला अयोग्य प्रकारे स्पर्श केला किंवा प्रौढांसाठीचा मजकूर पाहण्यास भाग पाडले, तर तो पॉक्सो अंतर्गत गुन्हा आहे. मुलाचे आई-वडील किंवा पालक याची तक्रार पोलिसांकडे करू शकतात."
     }
   },
   {
@@ -41,32 +71,62 @@ export const womenLawsData: WomenLaw[] = [
     fullForm: {
       [Language.EN]: "The Protection of Women from Domestic Violence Act, 2005",
       [Language.HI]: "घरेलू हिंसा से महिलाओं का संरक्षण अधिनियम, 2005",
-      [Language.TA]: "குடும்ப வன்முறையிலிருந்து பெண்களைப் பாதுகாக்கும் சட்டம், 2005"
+      [Language.TA]: "குடும்ப வன்முறையிலிருந்து பெண்களைப் பாதுகாக்கும் சட்டம், 2005",
+      [Language.TE]: "గృహ హింస నుండి మహిళల రక్షణ చట్టం, 2005",
+      [Language.KN]: "ಕೌಟುಂಬಿಕ ಹಿಂಸೆಯಿಂದ ಮಹಿಳೆಯರ ರಕ್ಷಣಾ ಕಾಯ್ದೆ, 2005",
+      [Language.ML]: "ഗാർഹിക പീഡനത്തിൽ നിന്ന് സ്ത്രീകളെ സംരക്ഷിക്കുന്ന നിയമം, 2005",
+      [Language.BN]: "গার্হস্থ্য হিংসা থেকে নারীদের সুরক্ষা আইন, ২০০৫",
+      [Language.MR]: "कौटुंबिक हिंसाचारापासून महिलांचे संरक्षण कायदा, 2005"
     },
     applicability: {
       [Language.EN]: "Applies to women who are or have been in a domestic relationship (e.g., wife, live-in partner, sister, mother) with the abuser.",
       [Language.HI]: "उन महिलाओं पर लागू होता है जो दुर्व्यवहार करने वाले के साथ घरेलू संबंध में हैं या रही हैं (जैसे, पत्नी, लिव-इन पार्टनर, बहन, माँ)।",
-      [Language.TA]: "துஷ்பிரயோகம் செய்பவருடன் குடும்ப உறவில் (எ.கா., மனைவி, லிவ்-இன் பார்ட்னர், சகோதரி, தாய்) இருக்கும் அல்லது இருந்த பெண்களுக்குப் பொருந்தும்."
+      [Language.TA]: "துஷ்பிரயோகம் செய்பவருடன் குடும்ப உறவில் (எ.கா., மனைவி, லிவ்-இன் பார்ட்னர், சகோதரி, தாய்) இருக்கும் அல்லது இருந்த பெண்களுக்குப் பொருந்தும்.",
+      [Language.TE]: "వేధించే వ్యక్తితో గృహ సంబంధంలో ఉన్న లేదా ఉండిన మహిళలకు (ఉదా., భార్య, సహజీవన భాగస్వామి, సోదరి, తల్లి) వర్తిస్తుంది.",
+      [Language.KN]: "ದೌರ್ಜನ್ಯ ಎಸಗುವವರೊಂದಿಗೆ ಕೌಟುಂಬಿಕ ಸಂಬಂಧದಲ್ಲಿರುವ ಅಥವಾ ಇದ್ದ ಮಹಿಳೆಯರಿಗೆ (ಉದಾ., ಪತ್ನಿ, ಸಹಜೀವನದ ಸಂಗಾತಿ, ಸಹೋದರಿ, ತಾಯಿ) ಅನ್ವಯಿಸುತ್ತದೆ.",
+      [Language.ML]: "പീഡിപ്പിക്കുന്നയാളുമായി ഗാർഹിക ബന്ധത്തിലുള്ളതോ ഉണ്ടായിരുന്നതോ ആയ സ്ത്രീകൾക്ക് (ഉദാ., ഭാര്യ, ലിവ്-ഇൻ പങ്കാളി, സഹോദരി, അമ്മ) ബാധകമാണ്.",
+      [Language.BN]: "যে নারীরা নির্যাতনকারীর সঙ্গে পারিবারিক সম্পর্কে আছেন বা ছিলেন (যেমন, স্ত্রী, লিভ-ইন সঙ্গী, বোন, মা), তাঁদের ক্ষেত্রে প্রযোজ্য।",
+      [Language.MR]: "अत्याचार करणाऱ्या व्यक्तीशी कौटुंबिक नात्यात असलेल्या किंवा पूर्वी असलेल्या महिलांना (उदा., पत्नी, लिव्ह-इन जोडीदार, बहीण, आई) लागू होतो."
     },
     crimesCovered: {
       [Language.EN]: "Covers physical abuse, sexual abuse, verbal and emotional abuse, and economic abuse by family members or partners.",
       [Language.HI]: "परिवार के सदस्यों या भागीदारों द्वारा शारीरिक शोषण, यौन शोषण, मौखिक और भावनात्मक शोषण और आर्थिक शोषण को शामिल करता है।",
-      [Language.TA]: "குடும்ப உறுப்பினர்கள் அல்லது கூட்டாளிகளால் உடல் ரீதியான துஷ்பிரயோகம், பாலியல் துஷ்பிரயோகம், வாய்மொழி மற்றும் உணர்ச்சி ரீதியான துஷ்பிரயோகம் மற்றும் பொருளாதார துஷ்பிரயோகம் ஆகியவற்றை உள்ளடக்கியது."
+      [Language.TA]: "குடும்ப உறுப்பினர்கள் அல்லது கூட்டாளிகளால் உடல் ரீதியான துஷ்பிரயோகம், பாலியல் துஷ்பிரயோகம், வாய்மொழி மற்றும் உணர்ச்சி ரீதியான துஷ்பிரயோகம் மற்றும் பொருளாதார துஷ்பிரயோகம் ஆகியவற்றை உள்ளடக்கியது.",
+      [Language.TE]: "కుటుంబ సభ్యులు లేదా భాగస్వాములు చేసే శారీరక వేధింపులు, లైంగిక వేధింపులు, మాటలతో మరియు మానసిక వేధింపులు, ఆర్థిక వేధింపులను కవర్ చేస్తుంది.",
+      [Language.KN]: "ಕುಟುಂಬದ ಸದಸ್ಯರು ಅಥವಾ ಸಂಗಾತಿಗಳಿಂದ ಆಗುವ ದೈಹಿಕ ದೌರ್ಜನ್ಯ, ಲೈಂಗಿಕ ದೌರ್ಜನ್ಯ, ಮೌಖಿಕ ಮತ್ತು ಭಾವನಾತ್ಮಕ ದೌರ್ಜನ್ಯ ಹಾಗೂ ಆರ್ಥಿಕ ದೌರ್ಜನ್ಯವನ್ನು ಒಳಗೊಂಡಿದೆ.",
+      [Language.ML]: "കുടുംബാംഗങ്ങളോ പങ്കാളികളോ നടത്തുന്ന ശാരീരിക പീഡനം, ലൈംഗിക പീഡനം, വാക്കാലുള്ളതും വൈകാരികവുമായ പീഡനം, സാമ്പത്തിക പീഡനം എന്നിവ ഇതിൽ ഉൾപ്പെടുന്നു.",
+      [Language.BN]: "পরিবারের সদস্য বা সঙ্গীর দ্বারা শারীরিক নির্যাতন, যৌন নির্যাতন, মৌখিক ও মানসিক নির্যাতন এবং আর্থিক নির্যাতন এর আওতায় পড়ে।",
+      [Language.MR]: "कुटुंबातील सदस्य किंवा जोडीदाराकडून होणारा शारीरिक छळ, लैंगिक छळ, शाब्दिक व भावनिक छळ आणि आर्थिक छळ यांचा यात समावेश होतो."
     },
     victimRights: {
       [Language.EN]: "Right to reside in the shared household, right to protection orders, right to monetary relief, right to custody orders for children, right to compensation.",
       [Language.HI]: "साझा घर में रहने का अधिकार, सुरक्षा आदेशों का अधिकार, मौद्रिक राहत का अधिकार, बच्चों के लिए हिरासत आदेशों का अधिकार, मुआवजे का अधिकार।",
-      [Language.TA]: "பகிரப்பட்ட வீட்டில் வசிக்கும் உரிமை, பாதுகாப்பு உத்தரவுகளுக்கான உரிமை, பண நிவாரணம் பெறுவதற்கான உரிமை, குழந்தைகளுக்கான காவல் உத்தரவுகளுக்கான உரிமை, இழப்பீடு பெறுவதற்கான உரிமை."
+      [Language.TA]: "பகிரப்பட்ட வீட்டில் வசிக்கும் உரிமை, பாதுகாப்பு உத்தரவுகளுக்கான உரிமை, பண நிவாரணம் பெறுவதற்கான உரிமை, குழந்தைகளுக்கான காவல் உத்தரவுகளுக்கான உரிமை, இழப்பீடு பெறுவதற்கான உரிமை.",
+      [Language.TE]: "ఉమ్మడి ఇంట్లో నివసించే హక్కు, రక్షణ ఉత్తర్వుల హక్కు, ఆర్థిక ఉపశమనం హక్కు, పిల్లల సంరక్షణ ఉత్తర్వుల హక్కు, పరిహారం పొందే హక్కు.",
+      [Language.KN]: "ಹಂಚಿಕೆಯ ಮನೆಯಲ್ಲಿ ವಾಸಿಸುವ ಹಕ್ಕು, ರಕ್ಷಣಾ ಆದೇಶಗಳ ಹಕ್ಕು, ಆರ್ಥಿಕ ಪರಿಹಾರದ ಹಕ್ಕು, ಮಕ್ಕಳ ಪಾಲನೆಯ ಆದೇಶಗಳ ಹಕ್ಕು, ಪರಿಹಾರದ ಹಕ್ಕು.",
+      [Language.ML]: "പങ്കിട്ട വീട്ടിൽ താമസിക്കാനുള്ള അവകാശം, സംരക്ഷണ ഉത്തരവുകൾക്കുള്ള അവകാശം, സാമ്പത്തിക സഹായത്തിനുള്ള അവകാശം, കുട്ടികളുടെ സംരക്ഷണാവകാശ ഉത്തരവുകൾക്കുള്ള അവകാശം, നഷ്ടപരിഹാരത്തിനുള്ള അവകാശം.",
+      [Language.BN]: "যৌথ বাড়িতে বসবাসের অধিকার, সুরক্ষা আদেশের অধিকার, আর্থিক সহায়তার অধিকার, সন্তানদের হেফাজতের আদেশের অধিকার, ক্ষতিপূরণের অধিকার।",
+      [Language.MR]: "सामायिक घरात राहण्याचा अधिकार, संरक्षण आदेशांचा अधिकार, आर्थिक मदतीचा अधिकार, मुलांच्या ताब्याच्या आदेशांचा अधिकार, नुकसानभरपाईचा अधिकार."
     },
     punishmentPenalty: {
       [Language.EN]: "While the DV Act primarily provides civil remedies (like protection orders, residence orders), breach of a protection order is a criminal offense punishable with imprisonment up to 1 year and/or fine.",
       [Language.HI]: "जबकि डीवी अधिनियम मुख्य रूप से नागरिक उपचार प्रदान करता है (जैसे सुरक्षा आदेश, निवास आदेश), सुरक्षा आदेश का उल्लंघन एक आपराधिक अपराध है जिसमें 1 वर्ष तक की कैद और/या जुर्माना हो सकता है।",
-      [Language.TA]: "டி.வி சட்டம் முதன்மையாக சிவில் தீர்வுகளை (பாதுகாப்பு உத்தரவுகள், வசிப்பிட உத்தரவுகள் போன்றவை) வழங்குகிறது என்றாலும், பாதுகாப்பு உத்தரவை மீறுவது 1 ஆண்டு வரை சிறைத்தண்டனை மற்றும்/அல்லது அபராதத்துடன் கூடிய குற்றவியல் குற்றமாகும்."
+      [Language.TA]: "டி.வி சட்டம் முதன்மையாக சிவில் தீர்வுகளை (பாதுகாப்பு உத்தரவுகள், வசிப்பிட உத்தரவுகள் போன்றவை) வழங்குகிறது என்றாலும், பாதுகாப்பு உத்தரவை மீறுவது 1 ஆண்டு வரை சிறைத்தண்டனை மற்றும்/அல்லது அபராதத்துடன் கூடிய குற்றவியல் குற்றமாகும்.",
+      [Language.TE]: "గృహ హింస చట్టం ప్రధానంగా సివిల్ పరిష్కారాలను (రక్షణ ఉత్తర్వులు, నివాస ఉత్తర్వులు వంటివి) అందిస్తున్నప్పటికీ, రక్షణ ఉత్తర్వును ఉల్లంఘించడం 1 సంవత్సరం వరకు జైలు శిక్ష మరియు/లేదా జరిమానా విధించదగిన క్రిమినల్ నేరం.",
+      [Language.KN]: "ಕೌಟುಂಬಿಕ ಹಿಂಸೆ ಕಾಯ್ದೆಯು ಮುಖ್ಯವಾಗಿ ಸಿವಿಲ್ ಪರಿಹಾರಗಳನ್ನು (ರಕ್ಷಣಾ ಆದೇಶಗಳು, ವಾಸಸ್ಥಳದ ಆದೇಶಗಳಂತಹ) ಒದಗಿಸುತ್ತದೆಯಾದರೂ, ರಕ್ಷಣಾ ಆದೇಶದ ಉಲ್ಲಂಘನೆಯು 1 ವರ್ಷದವರೆಗೆ ಜೈಲು ಶಿಕ್ಷೆ ಮತ್ತು/ಅಥವಾ ದಂಡಕ್ಕೆ ಒಳಪಡುವ ಕ್ರಿಮಿನಲ್ ಅಪರಾಧವಾಗಿದೆ.",
+      [Language.ML]: "ഗാർഹിക പീഡന നിയമം പ്രധാനമായും സിവിൽ പരിഹാരങ്ങളാണ് (സംരക്ഷണ ഉത്തരവുകൾ, താമസ ഉത്തരവുകൾ പോലുള്ളവ) നൽകുന്നതെങ്കിലും, സംരക്ഷണ ഉത്തരവ് ലംഘിക്കുന്നത് 1 വർഷം വരെ തടവും കൂടാതെ/അല്ലെങ്കിൽ പിഴയും ലഭിക്കാവുന്ന ക്രിമിനൽ കുറ്റമാണ്.",
+      [Language.BN]: "গার্হস্থ্য হিংসা আইন মূলত দেওয়ানি প্রতিকার (যেমন সুরক্ষা আদেশ, বসবাসের আদেশ) দেয়, তবে সুরক্ষা আদেশ লঙ্ঘন করা একটি ফৌজদারি অপরাধ, যার শাস্তি ১ বছর পর্যন্ত কারাদণ্ড এবং/অথবা জরিমানা।",
+      [Language.MR]: "कौटुंबिक हिंसाचार कायदा मुख्यतः दिवाणी उपाय (जसे संरक्षण आदेश, निवास आदेश) देतो, तरीही संरक्षण आदेशाचे उल्लंघन हा 1 वर्षापर्यंत तुरुंगवास आणि/किंवा दंडाची शिक्षा असलेला फौजदारी गुन्हा आहे."
     },
     realLifeExample: {
       [Language.EN]: "If a husband regularly hits his wife or prevents her from accessing money for household needs, she can seek help under this Act. She can get a court order to stop the abuse and ensure her safety.",
       [Language.HI]: "यदि कोई पति नियमित रूप से अपनी पत्नी को मारता है या उसे घरेलू जरूरतों के लिए पैसे तक पहुंचने से रोकता है, तो वह इस अधिनियम के तहत मदद मांग सकती है। वह दुर्व्यवहार को रोकने और अपनी सुरक्षा सुनिश्चित करने के लिए अदालत का आदेश प्राप्त कर सकती है।",
-      [Language.TA]: "ஒரு கணவர் தனது மனைவியை தவறாமல் அடித்தால் அல்லது வீட்டுத் தேவைகளுக்கு பணம் கிடைக்காமல் தடுத்தால், அவர் இந்தச் சட்டத்தின் கீழ் உதவி চাইতেலாம். துஷ்பிரயோகத்தை நிறுத்தவும், தனது பாதுகாப்பை உறுதிப்படுத்தவும் அவர் நீதிமன்ற உத்தரவைப் பெறலாம்."
+      [Language.TA]: "ஒரு கணவர் தனது மனைவியை தவறாமல் அடித்தால் அல்லது வீட்டுத் தேவைகளுக்கு பணம் கிடைக்காமல் தடுத்தால், அவர் இந்தச் சட்டத்தின் கீழ் உதவி கோரலாம். துஷ்பிரயோகத்தை நிறுத்தவும், தனது பாதுகாப்பை உறுதிப்படுத்தவும் அவர் நீதிமன்ற உத்தரவைப் பெறலாம்.",
+      [Language.TE]: "భర్త తరచుగా భార్యను కొడుతున్నా లేదా ఇంటి అవసరాలకు డబ్బు అందకుండా అడ్డుకుంటున్నా, ఆమె ఈ చట్టం కింద సహాయం పొందవచ్చు. వేధింపులను ఆపడానికి మరియు తన భద్రతను నిర్ధారించుకోవడానికి ఆమె కోర్టు ఉత్తర్వు పొందవచ్చు.",
+      [Language.KN]: "ಪತಿಯು ಪತ್ನಿಯನ್ನು ಆಗಾಗ್ಗೆ ಹೊಡೆಯುತ್ತಿದ್ದರೆ ಅಥವಾ ಮನೆಯ ಅಗತ್ಯಗಳಿಗೆ ಹಣ ಸಿಗದಂತೆ ತಡೆಯುತ್ತಿದ್ದರೆ, ಆಕೆ ಈ ಕಾಯ್ದೆಯಡಿ ಸಹಾಯ ಪಡೆಯಬಹುದು. ದೌರ್ಜನ್ಯವನ್ನು ನಿಲ್ಲಿಸಲು ಮತ್ತು ತನ್ನ ಸುರಕ್ಷತೆಯನ್ನು ಖಚಿತಪಡಿಸಿಕೊಳ್ಳಲು ಆಕೆ ನ್ಯಾಯಾಲಯದ ಆದೇಶ ಪಡೆಯಬಹುದು.",
+      [Language.ML]: "ഒരു ഭർത്താവ് ഭാര്യയെ പതിവായി അടിക്കുകയോ വീട്ടാവശ്യങ്ങൾക്കുള്ള പണം ലഭിക്കുന്നത് തടയുകയോ ചെയ്താൽ, അവർക്ക് ഈ നിയമപ്രകാരം സഹായം തേടാം. പീഡനം അവസാനിപ്പിക്കാനും സ്വന്തം സുരക്ഷ ഉറപ്പാക്കാനും അവർക്ക് കോടതി ഉത്തരവ് നേടാം.",
+      [Language.BN]: "স্বামী যদি নিয়মিত স্ত্রীকে মারধর করেন বা সংসারের প্রয়োজনে টাকা পেতে বাধা দেন, তবে তিনি এই আইনের অধীনে সাহায্য চাইতে পারেন। নির্যাতন বন্ধ করতে এবং নিজের নিরাপত্তা নিশ্চিত করতে তিনি আদালতের আদেশ পেতে পারেন।",
+      [Language.MR]: "जर पती नियमितपणे पत्नीला मारहाण करत असेल किंवा घरखर्चासाठी पैसे मिळू देत नसेल, तर ती या कायद्याखाली मदत मागू शकते. छळ थांबवण्यासाठी आणि स्वतःची सुरक्षा निश्चित करण्यासाठी ती न्यायालयाचा आदेश मिळवू शकते."
     }
   }
   // Add more laws here following the same structure
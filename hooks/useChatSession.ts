@@ -0,0 +1,202 @@
+/**
+ * @file useChatSession.ts
+ * @description The state and behaviour shared by the follow-up chats of the Smart Pathway,
+ * Women Awareness ("Caring Partner") and Learn to Use Apps screens: the AI chat session,
+ * the visible messages, streaming replies, stopping a reply, retrying a failed one, and
+ * saving the conversation so it can be resumed later. The markup lives in ChatPanel.
+ */
+
+import { useState, useRef, useEffect } from 'react';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useAiService } from '../contexts/AiServiceContext';
+import { useConversations } from '../contexts/ConversationsContext';
+import { useAuth } from '../contexts/AuthContext';
+import { AiChatSession, AiFeature, AiTemperaturePreset, getAiErrorMessageKey } from '../services/aiService';
+import { getResumeHistory } from '../services/conversationStorage';
+import { detectCrisis } from '../services/crisisDetection';
+import { recordSafetyEvent } from '../services/safetyLog';
+import { ChatMessage, ConversationSetup, CrisisCategory, Language, SavedConversation } from '../types';
+
+/**
+ * Options for the `useChatSession` hook.
+ */
+export interface ChatSessionOptions {
+  feature: AiFeature;
+  temperature: AiTemperaturePreset;
+  onConversationSaved?: (id: string) => void; // Called when a new conversation is saved for the first time
+}
+
+/**
+ * The chat state and actions returned by `useChatSession`, passed on to ChatPanel.
+ */
+export interface ChatSession {
+  messages: ChatMessage[];
+  isActive: boolean; // True once a chat has been started and the AI can be reached
+  isLoading: boolean; // True while a reply is being streamed
+  conversationId: string | null; // The saved conversation, once there is one
+  crisisAlert: CrisisCategory | null; // The kind of crisis a message showed, until the banner is dismissed
+  language: Language; // The language of the conversation, which its replies are read aloud in
+  startChat: (setup: ConversationSetup, initialMessages?: ChatMessage[]) => void;
+  resumeChat: (conversation: SavedConversation) => void;
+  resetChat: () => void;
+  sendMessage: (text: string) => void;
+  retryMessage: (errorIndex: number) => void;
+  stopGeneration: () => void;
+  dismissCrisisAlert: () => void;
+  recordHelplineCall: (helplineNumber: string) => void;
+}
+
+/**
+ * Manages one AI follow-up chat. A conversation is saved once the user sends their first
+ * message, and is kept up to date after every reply. Every message is first checked by the
+ * local crisis classifier, which raises `crisisAlert` and writes to the user's safety log.
+ * @param {ChatSessionOptions} options - The feature and temperature of the chat.
+ * @returns {ChatSession} The chat state and actions.
+ */
+export const useChatSession = ({ feature, temperature, onConversationSaved }: ChatSessionOptions): ChatSession => {
+  const { translate, language } = useLanguage();
+  const { aiService, isAiConfigured } = useAiService();
+  const { saveConversation, updateMessages } = useConversations();
+  const { user } = useAuth();
+
+  const [session, setSession] = useState<AiChatSession | null>(null);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [setup, setSetup] = useState<ConversationSetup | null>(null); // How to rebuild the chat when it is saved
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [crisisAlert, setCrisisAlert] = useState<CrisisCategory | null>(null);
+  const replyControllerRef = useRef<AbortController | null>(null); // Cancels the reply being streamed
+
+  // Effect to save the chat once the user has written something, and to keep it up to date after every reply.
+  useEffect(() => {
+    if (isLoading || !setup || !messages.some(message => message.sender === 'user')) return;
+    if (conversationId) {
+      updateMessages(conversationId, messages);
+    } else {
+      const savedConversation = saveConversation(setup, messages);
+      setConversationId(savedConversation.id);
+      onConversationSaved?.(savedConversation.id);
+    }
+  }, [messages, isLoading]);
+
+  /**
+   * Stops the reply being streamed. The text received so far stays in the chat.
+   */
+  const stopGeneration = () => {
+    replyControllerRef.current?.abort();
+    replyControllerRef.current = null;
+    setIsLoading(false);
+  };
+
+  /**
+   * Replaces the current chat (if any).
+   * @param {AiChatSession | null} newSession - The new session, or null if the AI cannot be reached.
+   * @param {ConversationSetup | null} newSetup - How the chat was set up.
+   * @param {ChatMessage[]} newMessages - The messages to show.
+   * @param {string | null} newConversationId - The saved conversation, if the chat is resumed.
+   */
+  const replaceChat = (newSession: AiChatSession | null, newSetup: ConversationSetup | null, newMessages: ChatMessage[], newConversationId: string | null) => {
+    stopGeneration();
+    setSession(newSession);
+    setSetup(newSetup);
+    setMessages(newMessages);
+    setConversationId(newConversationId);
+    setCrisisAlert(null);
+  };
+
+  const startChat = (newSetup: ConversationSetup, initialMessages: ChatMessage[] = []) => {
+    const newSession = isAiConfigured
+      ? aiService.createChat({ feature, systemInstruction: newSetup.systemInstruction, history: newSetup.contextTurns, temperature, language: newSetup.language })
+      : null;
+    replaceChat(newSession, newSetup, initialMessages, null);
+  };
+
+  const resumeChat = (conversation: SavedConversation) => {
+    const newSession = isAiConfigured
+      ? aiService.createChat({ feature, systemInstruction: conversation.systemInstruction, history: getResumeHistory(conversation), temperature, language: conversation.language })
+      : null;
+    replaceChat(newSession, conversation, conversation.messages, conversation.id);
+  };
+
+  const resetChat = () => replaceChat(null, null, [], null);
+
+  /**
+   * Streams the AI's reply to a message: its bubble appears with the first chunk and fills in
+   * as more arrive. A failure is shown as an error message that can be retried.
+   * @param {string} text - The user's message.
+   */
+  const streamReply = async (text: string) => {
+    if (!session) return;
+    const controller = new AbortController();
+    replyControllerRef.current = controller;
+    setIsLoading(true);
+    try {
+      const timestamp = new Date();
+      let aiMessageText = '';
+      for await (const chunk of session.sendMessageStream(text, controller.signal)) {
+        if (controller.signal.aborted) break; // Stopped, or the chat was replaced
+        const isFirstChunk = !aiMessageText;
+        aiMessageText += chunk;
+        const aiMessage: ChatMessage = { sender: 'ai', text: aiMessageText, timestamp };
+        setMessages(prev => isFirstChunk ? [...prev, aiMessage] : [...prev.slice(0, -1), aiMessage]);
+      }
+    } catch (chatApiError: any) {
+      if (!controller.signal.aborted) {
+        const errorMessage: ChatMessage = { sender: 'ai', text: translate(getAiErrorMessageKey(chatApiError)), timestamp: new Date(), isError: true };
+        setMessages(prev => [...prev, errorMessage]);
+      }
+    } finally {
+      if (replyControllerRef.current === controller) {
+        replyControllerRef.current = null;
+        setIsLoading(false);
+      }
+    }
+  };
+
+  const sendMessage = (text: string) => {
+    if (!text.trim() || !session || isLoading) return;
+    // The classifier runs on the device, before the message goes to the model.
+    const crisis = detectCrisis(text);
+    if (crisis) {
+      setCrisisAlert(crisis.category);
+      if (user) recordSafetyEvent(user.id, { type: 'crisisDetected', feature, category: crisis.category });
+    }
+    setMessages(prev => [...prev, { sender: 'user', text, timestamp: new Date() }]);
+    streamReply(text);
+  };
+
+  /**
+   * Sends the question of a failed reply again, replacing the error message.
+   * @param {number} errorIndex - The index of the error message.
+   */
+  const retryMessage = (errorIndex: number) => {
+    if (!session || isLoading || !messages[errorIndex]?.isError) return;
+    const question = messages.slice(0, errorIndex).reverse().find(message => message.sender === 'user');
+    if (!question) return;
+    setMessages(prev => prev.filter((_, index) => index !== errorIndex));
+    streamReply(question.text);
+  };
+
+  const dismissCrisisAlert = () => setCrisisAlert(null);
+
+  const recordHelplineCall = (helplineNumber: string) => {
+    if (user && crisisAlert) recordSafetyEvent(user.id, { type: 'helplineCalled', feature, category: crisisAlert, helplineNumber });
+  };
+
+  return {
+    messages,
+    isActive: session !== null,
+    isLoading,
+    conversationId,
+    crisisAlert,
+    language: setup?.language ?? language,
+    startChat,
+    resumeChat,
+    resetChat,
+    sendMessage,
+    retryMessage,
+    stopGeneration,
+    dismissCrisisAlert,
+    recordHelplineCall,
+  };
+};
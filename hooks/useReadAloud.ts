@@ -0,0 +1,78 @@
+/**
+ * @file useReadAloud.ts
+ * @description The read-aloud state and actions of one text, for ReadAloudControls. The
+ * playback itself lives in services/speech.ts, which reads one text at a time; this hook tells
+ * whether that text is this one, and stops it when its controls leave the screen (e.g. on the
+ * next quiz question, or when the quick exit hides the app).
+ */
+
+import { useEffect, useId, useState, useSyncExternalStore } from 'react';
+import { Language } from '../types';
+import {
+  canSpeakLanguage,
+  getSpeechPlayback,
+  isSpeechSupported,
+  pauseSpeech,
+  resumeSpeech,
+  setSpeechRate,
+  speak,
+  stopSpeech,
+  subscribeToSpeech,
+  SpeechPlayback,
+} from '../services/speech';
+
+/**
+ * The read-aloud state and actions returned by `useReadAloud`.
+ */
+export interface ReadAloud {
+  isSupported: boolean; // False if the browser has no Web Speech API
+  hasVoice: boolean | null; // Whether the device has a voice for the language; null while checking
+  status: SpeechPlayback['status']; // The playback of this text
+  rate: number;
+  play: () => void;
+  pause: () => void;
+  resume: () => void;
+  stop: () => void;
+  setRate: (rate: number) => void;
+}
+
+/**
+ * Reads a text aloud on request.
+ * @param {string} text - The text, as shown on screen.
+ * @param {Language} language - The language of the text, which chooses the voice.
+ * @returns {ReadAloud} The state and actions.
+ */
+export const useReadAloud = (text: string, language: Language): ReadAloud => {
+  const id = useId();
+  const playback = useSyncExternalStore(subscribeToSpeech, getSpeechPlayback);
+  const [hasVoice, setHasVoice] = useState<boolean | null>(null);
+
+  // Effect to check whether the device has a voice for the language.
+  useEffect(() => {
+    let isCurrent = true;
+    setHasVoice(null);
+    canSpeakLanguage(language).then(canSpeak => {
+      if (isCurrent) setHasVoice(canSpeak);
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [language]);
+
+  // Effect to stop reading when the text changes or its controls are removed.
+  useEffect(() => () => stopSpeech(id), [id, text, language]);
+
+  return {
+    isSupported: isSpeechSupported(),
+    hasVoice,
+    status: playback.id === id ? playback.status : 'idle',
+    rate: playback.rate,
+    play: () => {
+      speak(id, text, language);
+    },
+    pause: pauseSpeech,
+    resume: resumeSpeech,
+    stop: () => stopSpeech(id),
+    setRate: setSpeechRate,
+  };
+};
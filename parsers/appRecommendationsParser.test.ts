@@ -0,0 +1,16 @@
+/**
+ * @file appRecommendationsParser.test.ts
+ * @description Checks `parseAppRecommendations` against the recorded Learn to Use Apps responses.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { parseAppRecommendations, RECOMMENDATION_PARSE_ERROR_NAME } from './appRecommendationsParser';
+import { APP_RECOMMENDATION_FIXTURES } from './fixtures/appRecommendationFixtures';
+
+describe('parseAppRecommendations', () => {
+  it.each(APP_RECOMMENDATION_FIXTURES)('$name: $description', ({ response, expected }) => {
+    const recommendations = parseAppRecommendations(response, { idPrefix: 'test' });
+    expect(recommendations.map(recommendation => recommendation.name)).toEqual(expected.names);
+    expect(recommendations.some(recommendation => recommendation.name === RECOMMENDATION_PARSE_ERROR_NAME)).toBe(expected.isParseError ?? false);
+  });
+});
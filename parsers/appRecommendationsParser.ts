@@ -0,0 +1,59 @@
+/**
+ * @file appRecommendationsParser.ts
+ * @description Turns the AI's JSON app recommendations (Learn to Use Apps screen) into
+ * `AppRecommendation` objects. Accepts a list or a single recommendation object, and keeps
+ * the recommendations that arrived before a response was cut off.
+ */
+
+import { AppRecommendation } from '../types';
+import { ParseItemsOptions, readJsonPrefix } from './jsonResponse';
+
+// The name of the placeholder recommendation returned when the response could not be read.
+export const RECOMMENDATION_PARSE_ERROR_NAME = "Error Parsing Recommendation";
+
+const toRecommendation = (item: any, index: number, { idPrefix, includeItemJson }: ParseItemsOptions): AppRecommendation => ({
+  id: item.id || `${idPrefix}-${index}`,
+  name: item.name || 'Unnamed App/Website',
+  usage: item.usage || 'No usage description provided.',
+  howToUseVideoLink: item.howToUseVideoLink ?? undefined,
+  howToUseText: item.howToUseText,
+  officialLink: item.officialLink || '#',
+  benefits: Array.isArray(item.benefits) ? item.benefits : [],
+  safetyTips: Array.isArray(item.safetyTips) ? item.safetyTips : [],
+  rawResponse: includeItemJson ? JSON.stringify(item, null, 2) : undefined,
+});
+
+/**
+ * Parses the AI's app recommendations.
+ * @param {string} responseText - The raw JSON text returned by the AI.
+ * @param {ParseItemsOptions} options - How ids and debug data are generated.
+ * @returns {AppRecommendation[]} The recommendations. If nothing could be read but the text looks
+ * like recommendations, a single `RECOMMENDATION_PARSE_ERROR_NAME` item is returned instead.
+ */
+export const parseAppRecommendations = (responseText: string, options: ParseItemsOptions): AppRecommendation[] => {
+  const response = readJsonPrefix(responseText);
+  if (response?.kind === 'array') {
+    const items = response.entries.map(entry => entry.value).filter(item => typeof item === 'object' && item !== null);
+    if (items.length > 0) {
+      return items.map((item, index) => toRecommendation(item, index, options));
+    }
+  } else if (response?.complete) {
+    // Some answers contain a single recommendation object instead of a list.
+    const item = Object.fromEntries(response.entries.map(entry => [entry.key, entry.value]));
+    if (item.name) {
+      return [toRecommendation(item, 0, options)];
+    }
+  }
+
+  if (responseText.includes('"name":')) {
+    return [{
+      id: `${options.idPrefix}-error`,
+      name: RECOMMENDATION_PARSE_ERROR_NAME,
+      usage: "Could not fully parse the AI response. Displaying raw data if available.",
+      officialLink: "#",
+      benefits: [],
+      rawResponse: responseText,
+    }];
+  }
+  return [];
+};
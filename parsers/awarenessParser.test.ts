@@ -0,0 +1,16 @@
+/**
+ * @file awarenessParser.test.ts
+ * @description Checks `parseAwarenessPoints` against the recorded Women Awareness responses.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { parseAwarenessPoints } from './awarenessParser';
+import { AWARENESS_FIXTURES } from './fixtures/awarenessFixtures';
+
+describe('parseAwarenessPoints', () => {
+  it.each(AWARENESS_FIXTURES)('$name: $description', ({ response, expected }) => {
+    const points = parseAwarenessPoints(response, { idPrefix: 'test' });
+    expect(points.map(point => point.awarenessText)).toEqual(expected.awarenessTexts);
+    expect(points.some(point => point.id === 'test-error')).toBe(expected.isParseError ?? false);
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * @file awarenessParser.ts
+ * @description Turns the AI's JSON list of awareness points (Women Awareness screen) into
+ * `AwarenessPoint` objects. Missing fields get friendly defaults, and the points that arrived
+ * before a response was cut off are still used.
+ */
+
+import { AwarenessPoint } from '../types';
+import { ParseItemsOptions, readJsonPrefix } from './jsonResponse';
+
+const toAwarenessPoint = (item: any, index: number, { idPrefix, includeItemJson }: ParseItemsOptions): AwarenessPoint => ({
+  id: item.id || `${idPrefix}-${index}`,
+  emoji: item.emoji || '💡',
+  awarenessText: item.awarenessText || 'No awareness text provided.',
+  imageSuggestion: item.imageSuggestion || 'No image suggestion provided.',
+  rawResponse: includeItemJson ? JSON.stringify(item, null, 2) : undefined,
+});
+
+/**
+ * Parses the AI's awareness points.
+ * @param {string} responseText - The raw JSON text returned by the AI.
+ * @param {ParseItemsOptions} options - How ids and debug data are generated.
+ * @returns {AwarenessPoint[]} The points. If nothing could be read but the text looks like
+ * awareness points, a single warning point is returned instead; otherwise the list is empty.
+ */
+export const parseAwarenessPoints = (responseText: string, options: ParseItemsOptions): AwarenessPoint[] => {
+  const response = readJsonPrefix(responseText);
+  const items = response?.kind === 'array'
+    ? response.entries.map(entry => entry.value).filter(item => typeof item === 'object' && item !== null)
+    : [];
+  if (items.length > 0) {
+    return items.map((item, index) => toAwarenessPoint(item, index, options));
+  }
+
+  if (responseText.includes('"awarenessText":')) {
+    return [{
+      id: `${options.idPrefix}-error`,
+      emoji: '⚠️',
+      awarenessText: "Error: Could not fully parse the AI's response. Some data might be missing or incorrect.",
+      imageSuggestion: "AI response format was not as expected.",
+      rawResponse: responseText,
+    }];
+  }
+  return [];
+};
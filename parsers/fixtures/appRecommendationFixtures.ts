@@ -0,0 +1,86 @@
+/**
+ * @file appRecommendationFixtures.ts
+ * @description Recorded Learn to Use Apps responses for `parseAppRecommendations`.
+ */
+
+import { ParserFixture } from './parserFixture';
+
+export interface AppRecommendationFixtureExpectation {
+  names: string[]; // The `name` of every recommendation, in order
+  isParseError?: boolean; // True when only the RECOMMENDATION_PARSE_ERROR_NAME item is expected
+}
+
+const GOOD_RESPONSE = `[
+  {
+    "name": "Duolingo",
+    "usage": "Practise English daily in a fun way.",
+    "howToUseText": "1. Install Duolingo. 2. Choose English. 3. Do one lesson a day.",
+    "officialLink": "https://www.duolingo.com",
+    "benefits": ["Free", "Short lessons"],
+    "safetyTips": ["Don't share your password."]
+  },
+  {
+    "name": "BHIM UPI",
+    "usage": "Send and receive money safely.",
+    "officialLink": "https://www.bhimupi.org.in",
+    "benefits": ["Quick payments"],
+    "safetyTips": ["Never share your UPI PIN."]
+  }
+]`;
+
+export const APP_RECOMMENDATION_FIXTURES: ParserFixture<AppRecommendationFixtureExpectation>[] = [
+  {
+    name: 'good',
+    description: 'A complete JSON list of recommendations.',
+    response: GOOD_RESPONSE,
+    expected: { names: ['Duolingo', 'BHIM UPI'] },
+  },
+  {
+    name: 'fenced',
+    description: 'The list is wrapped in a markdown code fence.',
+    response: '```json\n' + GOOD_RESPONSE + '\n```',
+    expected: { names: ['Duolingo', 'BHIM UPI'] },
+  },
+  {
+    name: 'truncated',
+    description: 'The response stopped inside the second recommendation; the first is kept.',
+    response: GOOD_RESPONSE.slice(0, GOOD_RESPONSE.indexOf('"Send and receive')),
+    expected: { names: ['Duolingo'] },
+  },
+  {
+    name: 'single-object',
+    description: 'A single recommendation object instead of a list.',
+    response: '{ "name": "SWAYAM", "usage": "Free online courses.", "officialLink": "https://www.swayam.gov.in", "benefits": ["Certificates"] }',
+    expected: { names: ['SWAYAM'] },
+  },
+  {
+    name: 'mis-ordered',
+    description: 'Fields come in a different order, and optional fields are missing or null.',
+    response: `[
+  { "benefits": ["Videos in many languages"], "officialLink": "https://www.youtube.com", "howToUseVideoLink": null, "usage": "Learn anything with videos.", "name": "YouTube" }
+]`,
+    expected: { names: ['YouTube'] },
+  },
+  {
+    name: 'broken',
+    description: 'The first recommendation is already malformed, so nothing can be recovered.',
+    response: '[{ "name": "Duolingo", "usage": "Practise English" "officialLink": "https://www.duolingo.com" }]',
+    expected: { names: ['Error Parsing Recommendation'], isParseError: true },
+  },
+  {
+    name: 'hindi',
+    description: 'Recommendations written in Hindi (Devanagari).',
+    response: `[
+  { "name": "दीक्षा", "usage": "कक्षा 1 से 12 तक के मुफ़्त पाठ।", "officialLink": "https://diksha.gov.in", "benefits": ["सरकारी और मुफ़्त", "हिंदी में वीडियो"] }
+]`,
+    expected: { names: ['दीक्षा'] },
+  },
+  {
+    name: 'tamil',
+    description: 'Recommendations written in Tamil.',
+    response: `[
+  { "name": "கூகுள் மேப்ஸ்", "usage": "அருகிலுள்ள மருத்துவமனை அல்லது வங்கியைக் கண்டறியுங்கள்.", "officialLink": "https://maps.google.com", "benefits": ["இலவசம்", "தமிழில் வழிகாட்டுதல்"], "safetyTips": ["உங்கள் இருப்பிடத்தை அறியாதவர்களுடன் பகிர வேண்டாம்."] }
+]`,
+    expected: { names: ['கூகுள் மேப்ஸ்'] },
+  },
+];
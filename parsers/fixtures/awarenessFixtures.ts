@@ -0,0 +1,103 @@
+/**
+ * @file awarenessFixtures.ts
+ * @description Recorded Women Awareness responses for `parseAwarenessPoints`.
+ */
+
+import { ParserFixture } from './parserFixture';
+
+export interface AwarenessFixtureExpectation {
+  awarenessTexts: string[]; // The `awarenessText` of every point, in order
+  isParseError?: boolean; // True when only the warning point is expected
+}
+
+const GOOD_RESPONSE = `[
+  { "emoji": "🛡️", "awarenessText": "Your body belongs to you. It is okay to say NO.", "imageSuggestion": "A girl raising her hand to say stop." },
+  { "emoji": "📞", "awarenessText": "In an emergency, call the Women Helpline 1091.", "imageSuggestion": "A phone showing 1091." },
+  { "emoji": "🥗", "awarenessText": "Eat dal, green vegetables and fruits to stay strong.", "imageSuggestion": "A colourful thali." }
+]`;
+
+export const AWARENESS_FIXTURES: ParserFixture<AwarenessFixtureExpectation>[] = [
+  {
+    name: 'good',
+    description: 'A complete JSON list of points.',
+    response: GOOD_RESPONSE,
+    expected: {
+      awarenessTexts: [
+        'Your body belongs to you. It is okay to say NO.',
+        'In an emergency, call the Women Helpline 1091.',
+        'Eat dal, green vegetables and fruits to stay strong.',
+      ],
+    },
+  },
+  {
+    name: 'fenced',
+    description: 'The list is wrapped in a markdown code fence.',
+    response: '```json\n' + GOOD_RESPONSE + '\n```',
+    expected: {
+      awarenessTexts: [
+        'Your body belongs to you. It is okay to say NO.',
+        'In an emergency, call the Women Helpline 1091.',
+        'Eat dal, green vegetables and fruits to stay strong.',
+      ],
+    },
+  },
+  {
+    name: 'truncated',
+    description: 'The response stopped inside the third point; the first two are kept.',
+    response: GOOD_RESPONSE.slice(0, GOOD_RESPONSE.indexOf('"Eat dal')),
+    expected: {
+      awarenessTexts: [
+        'Your body belongs to you. It is okay to say NO.',
+        'In an emergency, call the Women Helpline 1091.',
+      ],
+    },
+  },
+  {
+    name: 'mis-ordered',
+    description: 'Fields come in a different order and one point has no emoji.',
+    response: `[
+  { "imageSuggestion": "A piggy bank with coins.", "awarenessText": "Save a little money every week.", "emoji": "💰" },
+  { "awarenessText": "Feeling sad sometimes is normal. Talk to someone you trust.", "imageSuggestion": "Two friends talking." }
+]`,
+    expected: {
+      awarenessTexts: [
+        'Save a little money every week.',
+        'Feeling sad sometimes is normal. Talk to someone you trust.',
+      ],
+    },
+  },
+  {
+    name: 'broken',
+    description: 'The first point is already malformed, so nothing can be recovered.',
+    response: '[{ "emoji": "🛡️", "awarenessText": "Stay safe" "imageSuggestion": "A shield" }]',
+    expected: { awarenessTexts: ["Error: Could not fully parse the AI's response. Some data might be missing or incorrect."], isParseError: true },
+  },
+  {
+    name: 'hindi',
+    description: 'Points written in Hindi (Devanagari).',
+    response: `[
+  { "emoji": "🩸", "awarenessText": "माहवारी बड़े होने का एक सामान्य और स्वस्थ हिस्सा है।", "imageSuggestion": "माँ अपनी बेटी से प्यार से बात करती हुई।" },
+  { "emoji": "📱", "awarenessText": "अपना ओटीपी किसी के साथ साझा न करें।", "imageSuggestion": "फ़ोन पर ताले का निशान।" }
+]`,
+    expected: {
+      awarenessTexts: [
+        'माहवारी बड़े होने का एक सामान्य और स्वस्थ हिस्सा है।',
+        'अपना ओटीपी किसी के साथ साझा न करें।',
+      ],
+    },
+  },
+  {
+    name: 'tamil',
+    description: 'Points written in Tamil.',
+    response: `[
+  { "emoji": "🎓", "awarenessText": "கல்வி வாய்ப்புகளின் கதவைத் திறக்கிறது.", "imageSuggestion": "புத்தகங்களுடன் சிரிக்கும் ஒரு பெண்." },
+  { "emoji": "🧠", "awarenessText": "கவலையாக இருந்தால் நம்பிக்கையானவரிடம் பேசுங்கள்.", "imageSuggestion": "மரத்தடியில் பேசும் இரண்டு தோழிகள்." }
+]`,
+    expected: {
+      awarenessTexts: [
+        'கல்வி வாய்ப்புகளின் கதவைத் திறக்கிறது.',
+        'கவலையாக இருந்தால் நம்பிக்கையானவரிடம் பேசுங்கள்.',
+      ],
+    },
+  },
+];
@@ -0,0 +1,13 @@
+/**
+ * @file parserFixture.ts
+ * @description The shape of a recorded model output in the parser fixture corpus.
+ * Each fixture pairs a raw response, exactly as the model sent it, with what the
+ * parser is expected to make of it.
+ */
+
+export interface ParserFixture<Expected> {
+  name: string; // e.g. 'truncated'
+  description: string; // What makes this response interesting
+  response: string; // The raw model output
+  expected: Expected;
+}
@@ -0,0 +1,217 @@
+/**
+ * @file pathwayFixtures.ts
+ * @description Recorded Smart Pathway responses for `parsePathwayResponse`.
+ */
+
+import { GuidanceModuleError, GuidanceModuleKey } from '../../types';
+import { ParserFixture } from './parserFixture';
+
+export interface PathwayFixtureExpectation {
+  loadedModules: GuidanceModuleKey[];
+  failedModules: GuidanceModuleError['module'][];
+}
+
+const ALL_MODULES: GuidanceModuleKey[] = ['educationalPathway', 'lifeAwarenessModule', 'schemesAndRights', 'digitalLearningTips', 'motivationalSupport'];
+
+const GOOD_RESPONSE = `{
+  "educationalPathway": {
+    "steps": [
+      {
+        "stepTitle": "Step 1: ✂️ Learn Basic Tailoring",
+        "dos": ["Practise simple stitches on old cloth for 20 minutes a day."],
+        "donts": ["Don't buy an expensive machine yet. A hand machine is enough to start."],
+        "resources": [
+          { "name": "Tailoring for Beginners", "type": "Video", "url": "https://www.youtube.com/results?search_query=tailoring+for+beginners" },
+          { "name": "Skill India Courses", "type": "Website/Platform", "url": "https://www.skillindiadigital.gov.in" }
+        ],
+        "tip": "Every expert was once a beginner. We can learn this together!"
+      }
+    ]
+  },
+  "lifeAwarenessModule": {
+    "ageGroupFocus": "For women (25-40 years)",
+    "topics": [
+      {
+        "topicTitle": "Keeping Your Money Safe",
+        "guidancePoints": [
+          { "point": "Open a bank account in your own name.", "visualCue": "A woman holding her own passbook" }
+        ]
+      }
+    ]
+  },
+  "schemesAndRights": [
+    {
+      "emoji": "💰",
+      "type": "Scheme",
+      "name": "PM Mudra Yojana",
+      "details": "Small loans to start or grow your own business.",
+      "howToAccess": "Ask at your nearest bank branch.",
+      "url": "https://www.mudra.org.in"
+    }
+  ],
+  "digitalLearningTips": [
+    {
+      "app": "YouTube",
+      "howToUse": "1. Tap the red YouTube icon.\\n2. Tap the 🔍 at the top.\\n3. Type 'blouse stitching'.",
+      "exampleSearchOrTask": "Search for 'simple blouse stitching in Hindi'"
+    }
+  ],
+  "motivationalSupport": {
+    "personalizedEncouragement": "Your interest in tailoring can become your own income. We believe in you!",
+    "quote": "Drop by drop, the pot is filled.",
+    "nextStep": "Watch one 10-minute stitching video today.",
+    "reminder": "You are not alone on this path. Femmora is here to support you. Keep shining!"
+  }
+}`;
+
+export const PATHWAY_FIXTURES: ParserFixture<PathwayFixtureExpectation>[] = [
+  {
+    name: 'good',
+    description: 'A complete response that follows the schema.',
+    response: GOOD_RESPONSE,
+    expected: { loadedModules: ALL_MODULES, failedModules: [] },
+  },
+  {
+    name: 'fenced',
+    description: 'The JSON is wrapped in a markdown code fence.',
+    response: '```json\n' + GOOD_RESPONSE + '\n```',
+    expected: { loadedModules: ALL_MODULES, failedModules: [] },
+  },
+  {
+    name: 'truncated',
+    description: 'The connection dropped in the middle of the digital learning module.',
+    response: GOOD_RESPONSE.slice(0, GOOD_RESPONSE.indexOf('"exampleSearchOrTask"')),
+    expected: {
+      loadedModules: ['educationalPathway', 'lifeAwarenessModule', 'schemesAndRights'],
+      failedModules: ['digitalLearningTips', 'motivationalSupport'],
+    },
+  },
+  {
+    name: 'mis-ordered',
+    description: 'The modules arrive in a different order from the schema.',
+    response: `{
+  "motivationalSupport": { "quote": "Small steps lead to big changes.", "nextStep": "Write down one goal today.", "reminder": "Keep shining!" },
+  "schemesAndRights": [{ "type": "Right", "name": "Right to Education", "details": "Free schooling up to 14 years.", "howToAccess": "Visit your nearest government school." }],
+  "educationalPathway": { "steps": [{ "stepTitle": "Step 1: 📚 Join an Open School", "dos": ["Ask about NIOS admission."], "donts": [], "resources": [], "tip": "It is never too late to learn." }] },
+  "digitalLearningTips": [{ "app": "Google", "howToUse": "1. Open Chrome.\\n2. Type your question.", "exampleSearchOrTask": "Search 'NIOS admission'" }],
+  "lifeAwarenessModule": { "ageGroupFocus": "For young women (18-25 years)", "topics": [{ "topicTitle": "Your Health", "guidancePoints": [{ "point": "Sleep for 7-8 hours." }] }] }
+}`,
+    expected: { loadedModules: ALL_MODULES, failedModules: [] },
+  },
+  {
+    name: 'invalid-module',
+    description: 'One module breaks the schema and another is missing; the rest still load.',
+    response: `{
+  "educationalPathway": { "steps": [{ "stepTitle": "Step 1: 💻 Learn Typing", "dos": "Practise every day.", "donts": [], "resources": [], "tip": "" }] },
+  "lifeAwarenessModule": { "ageGroupFocus": "For girls (13-17 years)", "topics": [{ "topicTitle": "Online Safety", "guidancePoints": [{ "point": "Never share your OTP." }] }] },
+  "schemesAndRights": [{ "type": "Scholarship", "name": "National Scholarship Portal", "details": "Scholarships for students.", "howToAccess": "Apply online.", "url": "scholarships.gov.in" }],
+  "digitalLearningTips": [{ "app": "YouTube", "howToUse": "1. Open YouTube.", "exampleSearchOrTask": "Search 'typing practice'" }]
+}`,
+    expected: {
+      loadedModules: ['lifeAwarenessModule', 'schemesAndRights', 'digitalLearningTips'],
+      failedModules: ['educationalPathway', 'motivationalSupport'],
+    },
+  },
+  {
+    name: 'not-json',
+    description: 'The model ignored the schema and answered in prose.',
+    response: 'Namaste! Here is your pathway. 1️⃣ EDUCATIONAL & CAREER PATHWAY ...',
+    expected: { loadedModules: [], failedModules: ['response'] },
+  },
+  {
+    name: 'hindi',
+    description: 'A complete response written in Hindi (Devanagari).',
+    response: `{
+  "educationalPathway": {
+    "steps": [
+      {
+        "stepTitle": "चरण 1: 📚 अपनी 12वीं कक्षा पूरी करें",
+        "dos": ["हर शाम एक विषय पढ़ने का छोटा समय-सारिणी बनाएँ।"],
+        "donts": ["दूसरों से अपनी तुलना न करें। हर कोई अपनी गति से सीखता है।"],
+        "resources": [{ "name": "दीक्षा पाठ", "type": "वीडियो", "url": "https://www.diksha.gov.in" }],
+        "tip": "हर दिन का छोटा कदम बड़ा बदलाव लाता है। हम साथ मिलकर कर सकते हैं!"
+      }
+    ]
+  },
+  "lifeAwarenessModule": {
+    "ageGroupFocus": "युवा लड़कियों के लिए (16-20 वर्ष)",
+    "topics": [
+      {
+        "topicTitle": "ऑनलाइन सुरक्षित रहना",
+        "guidancePoints": [{ "point": "अपना पासवर्ड किसी को न बताएँ।", "visualCue": "फ़ोन की स्क्रीन पर ताले का चित्र" }],
+        "audioTip": "मेरी प्यारी, तुम्हारी सुरक्षा सबसे ज़रूरी है।"
+      }
+    ]
+  },
+  "schemesAndRights": [
+    {
+      "emoji": "👩‍🎓",
+      "type": "छात्रवृत्ति",
+      "name": "राष्ट्रीय छात्रवृत्ति पोर्टल",
+      "details": "लड़कियों के लिए कई छात्रवृत्तियाँ एक ही जगह।",
+      "howToAccess": "पोर्टल पर ऑनलाइन आवेदन करें।",
+      "url": "https://scholarships.gov.in/"
+    }
+  ],
+  "digitalLearningTips": [
+    {
+      "app": "यूट्यूब",
+      "howToUse": "1. लाल यूट्यूब आइकन पर टैप करें।\\n2. ऊपर 🔍 पर टैप करें।",
+      "exampleSearchOrTask": "'अंग्रेज़ी बोलना सीखें' खोजें"
+    }
+  ],
+  "motivationalSupport": {
+    "quote": "बूँद-बूँद से घड़ा भरता है।",
+    "nextStep": "आज एक पाठ का पहला 5 मिनट देखें।",
+    "reminder": "आप इस राह पर अकेली नहीं हैं। फेमोरा आपके साथ है।"
+  }
+}`,
+    expected: { loadedModules: ALL_MODULES, failedModules: [] },
+  },
+  {
+    name: 'tamil',
+    description: 'A complete response written in Tamil, with a code fence.',
+    response: `\`\`\`json
+{
+  "educationalPathway": {
+    "steps": [
+      {
+        "stepTitle": "படி 1: 💻 அடிப்படை கணினி திறன்கள்",
+        "dos": ["தினமும் 15 நிமிடம் தட்டச்சு பயிற்சி செய்யுங்கள்."],
+        "donts": ["முதலில் மெதுவாக இருந்தால் கவலைப்பட வேண்டாம்."],
+        "resources": [{ "name": "ஸ்வயம் இலவச படிப்புகள்", "type": "இணையதளம்", "url": "https://www.swayam.gov.in" }],
+        "tip": "கேள்வி கேட்பது வலிமையின் அடையாளம்!"
+      }
+    ]
+  },
+  "lifeAwarenessModule": {
+    "ageGroupFocus": "இளம் பெண்களுக்கு (18-25 வயது)",
+    "topics": [{ "topicTitle": "உங்கள் ஆரோக்கியம்", "guidancePoints": [{ "point": "நேரத்திற்கு சாப்பிட்டு நன்றாக தூங்குங்கள்." }] }]
+  },
+  "schemesAndRights": [
+    {
+      "emoji": "⚖",
+      "type": "உரிமை",
+      "name": "இலவச கல்வி உரிமை",
+      "details": "14 வயது வரை ஒவ்வொரு குழந்தைக்கும் இலவச கல்வி.",
+      "howToAccess": "அருகிலுள்ள அரசுப் பள்ளியின் தலைமை ஆசிரியரிடம் பேசுங்கள்."
+    }
+  ],
+  "digitalLearningTips": [
+    {
+      "app": "யூடியூப்",
+      "howToUse": "1. சிவப்பு யூடியூப் ஐகானைத் தட்டவும்.\\n2. மேலே உள்ள 🔍 ஐத் தட்டவும்.",
+      "exampleSearchOrTask": "'ஆங்கிலம் பேசக் கற்றுக்கொள்' என்று தேடவும்"
+    }
+  ],
+  "motivationalSupport": {
+    "personalizedEncouragement": "உங்கள் கற்கும் ஆர்வம் அற்புதமானது!",
+    "quote": "சிறு துளி பெரு வெள்ளம்.",
+    "nextStep": "இன்று ஒரு தட்டச்சு பாடத்தை முயற்சிக்கவும்.",
+    "reminder": "நீங்கள் தனியாக இல்லை. ஃபெம்மோரா உங்களுடன் இருக்கிறது."
+  }
+}
+\`\`\``,
+    expected: { loadedModules: ALL_MODULES, failedModules: [] },
+  },
+];
@@ -0,0 +1,16 @@
+/**
+ * @file guidanceParser.test.ts
+ * @description Checks `parsePathwayResponse` against the recorded Smart Pathway responses.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { parsePathwayResponse, PATHWAY_MODULE_KEYS } from './guidanceParser';
+import { PATHWAY_FIXTURES } from './fixtures/pathwayFixtures';
+
+describe('parsePathwayResponse', () => {
+  it.each(PATHWAY_FIXTURES)('$name: $description', ({ response, expected }) => {
+    const guidance = parsePathwayResponse(response);
+    expect(PATHWAY_MODULE_KEYS.filter(key => guidance[key] !== undefined)).toEqual(expected.loadedModules);
+    expect(guidance.moduleErrors?.map(moduleError => moduleError.module)).toEqual(expected.failedModules);
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * @file guidanceParser.ts
+ * @description Turns the AI's JSON Smart Pathway (see `services/pathwaySchema.ts`) into a
+ * `GeneratedGuidance` object. Each module is validated on its own, so one malformed module
+ * does not hide the others and the failure can be reported precisely. Modules that arrived
+ * before a response was cut off are still used.
+ */
+
+import {
+  GeneratedGuidance,
+  GuidanceModuleError,
+  GuidanceModuleKey,
+  PathwayStep,
+  PathwayStepResource,
+  EducationalPathwayModule,
+  LifeAwarenessModule,
+  LifeAwarenessTopic,
+  LifeAwarenessGuidancePoint,
+  SchemeOrRightItem,
+  DigitalLearningTip,
+  MotivationalSupportModule,
+} from '../types';
+import { readJsonPrefix } from './jsonResponse';
+
+// The modules in the order they are generated and shown.
+export const PATHWAY_MODULE_KEYS: GuidanceModuleKey[] = [
+  'educationalPathway',
+  'lifeAwarenessModule',
+  'schemesAndRights',
+  'digitalLearningTips',
+  'motivationalSupport',
+];
+
+// --- Runtime validation ---
+
+/**
+ * Raised while validating a module. The message names the offending field.
+ */
+class PathwayValidationError extends Error {
+  constructor(path: string, problem: string) {
+    super(`${path} ${problem}`);
+    this.name = 'PathwayValidationError';
+  }
+}
+
+const readObject = (value: unknown, path: string): Record<string, unknown> => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new PathwayValidationError(path, 'must be an object');
+  }
+  return value as Record<string, unknown>;
+};
+
+const readText = (value: unknown, path: string): string => {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new PathwayValidationError(path, 'must be non-empty text');
+  }
+  return value.trim();
+};
+
+const readOptionalText = (value: unknown, path: string): string | undefined =>
+  value === undefined || value === null || value === '' ? undefined : readText(value, path);
+
+// Links the app cannot open are dropped rather than failing the whole module.
+const readOptionalUrl = (value: unknown): string | undefined =>
+  typeof value === 'string' && /^https?:\/\/\S+$/i.test(value.trim()) ? value.trim() : undefined;
+
+const readList = <T>(value: unknown, path: string, readItem: (item: unknown, itemPath: string) => T, minItems = 0): T[] => {
+  if (!Array.isArray(value)) {
+    throw new PathwayValidationError(path, 'must be a list');
+  }
+  if (value.length < minItems) {
+    throw new PathwayValidationError(path, `must have at least ${minItems} item(s)`);
+  }
+  return value.map((item, index) => readItem(item, `${path}[${index}]`));
+};
+
+const readEducationalPathway = (value: unknown): EducationalPathwayModule => {
+  const module = readObject(value, 'module');
+  const steps = readList(module.steps, 'steps', (item, path): PathwayStep => {
+    const step = readObject(item, path);
+    return {
+      stepTitle: readText(step.stepTitle, `${path}.stepTitle`),
+      dos: readList(step.dos, `${path}.dos`, readText),
+      donts: readList(step.donts, `${path}.donts`, readText),
+      resources: readList(step.resources ?? [], `${path}.resources`, (resourceItem, resourcePath): PathwayStepResource => {
+        const resource = readObject(resourceItem, resourcePath);
+        return {
+          name: readText(resource.name, `${resourcePath}.name`),
+          type: readOptionalText(resource.type, `${resourcePath}.type`),
+          url: readOptionalUrl(resource.url),
+        };
+      }),
+      tip: readOptionalText(step.tip, `${path}.tip`) ?? '',
+    };
+  }, 1);
+  return { steps };
+};
+
+const readLifeAwarenessModule = (value: unknown): LifeAwarenessModule => {
+  const module = readObject(value, 'module');
+  return {
+    ageGroupFocus: readText(module.ageGroupFocus, 'ageGroupFocus'),
+    topics: readList(module.topics, 'topics', (item, path): LifeAwarenessTopic => {
+      const topic = readObject(item, path);
+      return {
+        topicTitle: readText(topic.topicTitle, `${path}.topicTitle`),
+        guidancePoints: readList(topic.guidancePoints, `${path}.guidancePoints`, (pointItem, pointPath): LifeAwarenessGuidancePoint => {
+          const point = readObject(pointItem, pointPath);
+          return {
+            point: readText(point.point, `${pointPath}.point`),
+            visualCue: readOptionalText(point.visualCue, `${pointPath}.visualCue`),
+          };
+        }, 1),
+        audioTip: readOptionalText(topic.audioTip, `${path}.audioTip`),
+      };
+    }, 1),
+  };
+};
+
+const readSchemesAndRights = (value: unknown): SchemeOrRightItem[] =>
+  readList(value, 'items', (item, path): SchemeOrRightItem => {
+    const scheme = readObject(item, path);
+    return {
+      emoji: readOptionalText(scheme.emoji, `${path}.emoji`),
+      type: readText(scheme.type, `${path}.type`),
+      name: readText(scheme.name, `${path}.name`),
+      details: readText(scheme.details, `${path}.details`),
+      howToAccess: readText(scheme.howToAccess, `${path}.howToAccess`),
+      source: readOptionalText(scheme.source, `${path}.source`),
+      url: readOptionalUrl(scheme.url),
+    };
+  }, 1);
+
+const readDigitalLearningTips = (value: unknown): DigitalLearningTip[] =>
+  readList(value, 'apps', (item, path): DigitalLearningTip => {
+    const tip = readObject(item, path);
+    return {
+      app: readText(tip.app, `${path}.app`),
+      howToUse: readText(tip.howToUse, `${path}.howToUse`),
+      exampleSearchOrTask: readText(tip.exampleSearchOrTask, `${path}.exampleSearchOrTask`),
+      visualCue: readOptionalText(tip.visualCue, `${path}.visualCue`),
+      audioTip: readOptionalText(tip.audioTip, `${path}.audioTip`),
+    };
+  }, 1);
+
+const readMotivationalSupport = (value: unknown): MotivationalSupportModule => {
+  const module = readObject(value, 'module');
+  return {
+    personalizedEncouragement: readOptionalText(module.personalizedEncouragement, 'personalizedEncouragement'),
+    quote: readText(module.quote, 'quote'),
+    nextStep: readText(module.nextStep, 'nextStep'),
+    reminder: readText(module.reminder, 'reminder'),
+  };
+};
+
+// One reader per module. The mapped type keeps each reader paired with the module it produces.
+const MODULE_READERS: { [K in GuidanceModuleKey]-?: (value: unknown) => NonNullable<GeneratedGuidance[K]> } = {
+  educationalPathway: readEducationalPathway,
+  lifeAwarenessModule: readLifeAwarenessModule,
+  schemesAndRights: readSchemesAndRights,
+  digitalLearningTips: readDigitalLearningTips,
+  motivationalSupport: readMotivationalSupport,
+};
+
+/**
+ * Parses the AI's JSON pathway and validates each module on its own.
+ * Modules that are missing or invalid are left out of the result and listed in `moduleErrors`.
+ * The modules may come in any order, and a code fence around the JSON is ignored.
+ * @param {string} text - The raw JSON text returned by the AI.
+ * @returns {GeneratedGuidance} The validated guidance, including the raw response.
+ */
+export const parsePathwayResponse = (text: string): GeneratedGuidance => {
+  const guidance: GeneratedGuidance = { rawResponse: text, moduleErrors: [] };
+  const moduleErrors: GuidanceModuleError[] = guidance.moduleErrors!;
+
+  const response = readJsonPrefix(text);
+  if (!response || response.kind !== 'object') {
+    moduleErrors.push({ module: 'response', reason: 'The response is not a JSON object.' });
+    return guidance;
+  }
+  const modules = new Map(response.entries.map(entry => [entry.key, entry.value]));
+
+  PATHWAY_MODULE_KEYS.forEach(key => {
+    const value = modules.get(key);
+    if (value === undefined || value === null) {
+      moduleErrors.push({
+        module: key,
+        reason: response.complete ? 'The module is missing from the response.' : 'The response was cut off before this module was complete.',
+      });
+      return;
+    }
+    try {
+      (guidance as Record<GuidanceModuleKey, unknown>)[key] = MODULE_READERS[key](value);
+    } catch (e: any) {
+      if (!(e instanceof PathwayValidationError)) throw e;
+      moduleErrors.push({ module: key, reason: e.message });
+    }
+  });
+
+  return guidance;
+};
@@ -0,0 +1,120 @@
+/**
+ * @file jsonResponse.ts
+ * @description Low-level helpers for reading JSON answers from the AI. Models sometimes wrap
+ * their JSON in markdown code fences, and on slow connections an answer can be cut off
+ * part-way. These helpers strip the fences and recover every entry that arrived complete.
+ * Everything here is pure: no React, no network, no globals.
+ */
+
+/**
+ * Options shared by the parsers that turn a JSON list into display items.
+ */
+export interface ParseItemsOptions {
+  idPrefix: string; // Prefix of the generated ids, e.g. a timestamp, so keys differ between requests
+  includeItemJson?: boolean; // Keeps each item's JSON in `rawResponse` for debugging
+}
+
+/**
+ * One complete entry of a JSON object (with its key) or of a JSON array.
+ */
+export interface JsonEntry {
+  key?: string;
+  value: unknown;
+}
+
+/**
+ * The entries that could be read from a (possibly incomplete) JSON response.
+ */
+export interface JsonPrefix {
+  kind: 'object' | 'array';
+  complete: boolean; // False when the response was cut off or broken before its end
+  entries: JsonEntry[];
+}
+
+/**
+ * Removes a surrounding markdown code fence (```json ... ```), including an opening
+ * fence whose closing half never arrived.
+ * @param {string} text - The raw response text.
+ * @returns {string} The text inside the fence, trimmed.
+ */
+export const stripCodeFence = (text: string): string =>
+  text
+    .trim()
+    .replace(/^```(?:json)?\s*\n?/i, '')
+    .replace(/\n?\s*```$/, '')
+    .trim();
+
+const toEntries = (value: unknown): JsonPrefix | null => {
+  if (Array.isArray(value)) {
+    return { kind: 'array', complete: true, entries: value.map(item => ({ value: item })) };
+  }
+  if (typeof value === 'object' && value !== null) {
+    return { kind: 'object', complete: true, entries: Object.entries(value).map(([key, item]) => ({ key, value: item })) };
+  }
+  return null;
+};
+
+/**
+ * Reads the top-level entries of a JSON object or array. If the JSON is incomplete or broken,
+ * every entry that precedes the damage is still returned, and `complete` is false.
+ * @param {string} text - The raw response text, optionally wrapped in a code fence.
+ * @returns {JsonPrefix | null} The entries, or null if the text does not start a JSON object or array.
+ */
+export const readJsonPrefix = (text: string): JsonPrefix | null => {
+  const json = stripCodeFence(text);
+  try {
+    return toEntries(JSON.parse(json));
+  } catch {
+    // Fall through and recover what we can.
+  }
+
+  const start = json.search(/[[{]/);
+  if (start === -1) return null;
+  const kind = json[start] === '[' ? 'array' : 'object';
+  const result: JsonPrefix = { kind, complete: false, entries: [] };
+
+  // Adds the text between two top-level separators as one entry. Returns false if it is not valid JSON.
+  const addEntry = (entryText: string): boolean => {
+    if (!entryText.trim()) return true;
+    try {
+      if (kind === 'array') {
+        result.entries.push({ value: JSON.parse(`[${entryText}]`)[0] });
+      } else {
+        const [key, value] = Object.entries(JSON.parse(`{${entryText}}`))[0];
+        result.entries.push({ key, value });
+      }
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let entryStart = start + 1;
+  for (let i = start; i < json.length; i++) {
+    const char = json[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      depth++;
+    } else if (char === '}' || char === ']') {
+      depth--;
+      if (depth === 0) {
+        result.complete = addEntry(json.slice(entryStart, i));
+        return result;
+      }
+    } else if (char === ',' && depth === 1) {
+      if (!addEntry(json.slice(entryStart, i))) return result;
+      entryStart = i + 1;
+    }
+  }
+  return result;
+};
@@ -1,9 +1,9 @@
 /**
  * @file PlaceholderScreen.tsx
  * @description This file contains components for screens that are either placeholders
- * for future features or display static content like help guides and emergency contacts.
+ * for future features or display static content like help guides.
  * It includes a generic `PlaceholderScreen` component and specific implementations like
- * `EmergencyContactsScreen` and `HelpScreen`.
+ * `HelpScreen`.
  */
 
 import React from 'react';
@@ -11,14 +11,13 @@ import SectionTitle from '../components/common/SectionTitle';
 import Card from '../components/common/Card';
 import { useLanguage } from '../contexts/LanguageContext';
 import Input from '../components/common/Input';
-import Button from '../components/common/Button';
-import { APP_ROUTES, UI_TEXT } from '../constants'; // Added UI_TEXT
+import { APP_ROUTES } from '../constants';
 import * as ReactRouterDOM from 'react-router-dom'; // Added for internal navigation examples
+import { TranslationKey } from '../types';
 
 // Props for the generic placeholder component
 interface PlaceholderScreenProps {
-  titleKey: string;
-  defaultTitle: string;
+  titleKey: TranslationKey;
   children?: React.ReactNode;
   showSearch?: boolean;
 }
@@ -28,17 +27,17 @@ interface PlaceholderScreenProps {
  * or render custom child content.
  * @param {PlaceholderScreenProps} props - The component props.
  */
-const PlaceholderScreen: React.FC<PlaceholderScreenProps> = ({ titleKey, defaultTitle, children, showSearch = false }) => {
+const PlaceholderScreen: React.FC<PlaceholderScreenProps> = ({ titleKey, children, showSearch = false }) => {
   const { translate } = useLanguage();
 
   return (
     <div>
-      <SectionTitle title={translate(titleKey, defaultTitle)} />
+      <SectionTitle title={translate(titleKey)} />
       {showSearch && (
         <div className="mb-6 max-w-lg">
           <Input 
             type="search" 
-            placeholder={translate('searchPlaceholder', 'Type to search...')} 
+            placeholder={translate('searchPlaceholder')} 
             aria-label={translate('search')}
           />
         </div>
@@ -49,10 +48,10 @@ const PlaceholderScreen: React.FC<PlaceholderScreenProps> = ({ titleKey, default
           <div className="text-center py-12">
             <i className="fas fa-tools text-5xl text-gray-400 mb-4"></i>
             <p className="text-xl text-gray-600">
-              {translate(titleKey, defaultTitle)} {translate('featureComingSoon', 'feature is under development.')}
+              {translate(titleKey)} {translate('featureComingSoon')}
             </p>
             <p className="text-gray-500 mt-2">
-              {translate('checkBackLater', 'Please check back later for updates.')}
+              {translate('checkBackLater')}
             </p>
           </div>
         )}
@@ -63,41 +62,6 @@ const PlaceholderScreen: React.FC<PlaceholderScreenProps> = ({ titleKey, default
 
 // --- Specific Screen Implementations ---
 
-/**
- * The screen for displaying a list of emergency contact numbers.
- */
-const EmergencyContactsScreen: React.FC = () => (
-  <PlaceholderScreen titleKey="emergencyContacts" defaultTitle="Emergency Support Contacts">
-    <div className="space-y-4">
-      {[
-        { name: 'Women Helpline', number: '1091', icon: 'fa-female' },
-        { name: 'Police', number: '100', icon: 'fa-shield-alt' },
-        { name: 'Ambulance', number: '102', icon: 'fa-ambulance' },
-        { name: 'Child Helpline', number: '1098', icon: 'fa-child' },
-      ].map(contact => (
-         <Card key={contact.name} className="!bg-red-50 border border-red-200">
-          <div className="flex items-center justify-between">
-            <div>
-              <h3 className="text-xl font-semibold text-red-700 flex items-center">
-                <i className={`fas ${contact.icon} mr-3 text-2xl`}></i>{contact.name}
-              </h3>
-              <p className="text-2xl text-gray-800 font-bold mt-1">{contact.number}</p>
-            </div>
-            {/* The call button is a simulation. */}
-            <Button 
-              onClick={() => alert(`Calling ${contact.name} at ${contact.number} (simulation)`)}
-              size="lg"
-              variant="danger"
-            >
-              <i className="fas fa-phone mr-2"></i> Call
-            </Button>
-          </div>
-        </Card>
-      ))}
-    </div>
-  </PlaceholderScreen>
-);
-
 /**
  * The screen for Help & Support, containing a "How to Use" guide and an FAQ section.
  */
@@ -105,7 +69,7 @@ const HelpScreen: React.FC = () => {
   const { translate } = useLanguage();
 
   // Defines the questions and answer keys for the FAQ section.
-  const faqItems = [
+  const faqItems: { qKey: TranslationKey; aKeys: TranslationKey[] }[] = [
     { qKey: 'faqQ1Title', aKeys: ['faqQ1Answer1', 'faqQ1Answer2', 'faqQ1Answer3'] },
     { qKey: 'faqQ2Title', aKeys: ['faqQ2Answer1', 'faqQ2Answer2', 'faqQ2Answer3', 'faqQ2Answer4'] },
     { qKey: 'faqQ3Title', aKeys: ['faqQ3Answer'] },
@@ -115,62 +79,62 @@ const HelpScreen: React.FC = () => {
   ];
 
   return (
-    <PlaceholderScreen titleKey="helpSupport" defaultTitle="Help & Support">
+    <PlaceholderScreen titleKey="helpSupport">
       <div className="space-y-6">
         {/* "How to Use Femmora" Guide */}
-        <Card title={translate('howToUseFemmoraTitle', "How to Use Femmora App")}>
+        <Card title={translate('howToUseFemmoraTitle')}>
           <p className="text-gray-600 mb-4">
-            {translate('howToUseFemmoraIntro', "Here's a simple guide to help you get started with the Femmora app and make the most of its features:")}
+            {translate('howToUseFemmoraIntro')}
           </p>
           <ol className="list-decimal list-inside space-y-3 text-gray-700">
             <li>
-              <strong>{translate('navigationSidebarTitle', "Finding Your Way (Sidebar Menu)")}:</strong>
+              <strong>{translate('navigationSidebarTitle')}:</strong>
               <ul className="list-disc list-inside pl-5 mt-1 text-sm">
-                <li>{translate('navigationSidebarDesc1', "The app has a main menu, usually on the left side. On smaller phone screens, you might need to tap a button with three lines (☰) to open it.")}</li>
-                <li>{translate('navigationSidebarDesc2', "This menu has links to all parts of the app, like 'Home', 'Smart Pathway', 'Settings', and more.")}</li>
+                <li>{translate('navigationSidebarDesc1')}</li>
+                <li>{translate('navigationSidebarDesc2')}</li>
               </ul>
             </li>
             <li>
-              <strong>{translate('homeScreenTitle', "Home Screen")}:</strong>
+              <strong>{translate('homeScreenTitle')}:</strong>
               <ul className="list-disc list-inside pl-5 mt-1 text-sm">
-                <li>{translate('homeScreenDesc', `Your starting point is the '${translate('home')}' screen. It shows quick links to important features and helpful information.`)}</li>
+                <li>{translate('homeScreenDesc')}</li>
               </ul>
             </li>
             <li>
-              <strong>{translate('usingKeyFeaturesTitle', "Using Key Features")}:</strong>
+              <strong>{translate('usingKeyFeaturesTitle')}:</strong>
               <ul className="list-disc list-inside pl-5 mt-1 text-sm space-y-1">
-                <li><ReactRouterDOM.Link to={APP_ROUTES.SMART_PATHWAY} className="text-teal-600 hover:underline">{translate('smartPathway')}</ReactRouterDOM.Link>: {translate('featureSmartPathwayDesc', "Tap here to get personalized guidance for your education and career. Fill in the form and tap 'Generate Pathway'. You can then chat with an AI mentor about your plan.")}</li>
-                <li><ReactRouterDOM.Link to={APP_ROUTES.WOMEN_AWARENESS} className="text-teal-600 hover:underline">{translate('womenAwareness')}</ReactRouterDOM.Link>: {translate('featureWomenAwarenessDesc', "Get awareness tips based on your age. Enter your age, tap 'Get Awareness Tips', and then you can chat with your Caring Partner, our caring AI guide, about health or personal matters.")}</li>
-                <li><ReactRouterDOM.Link to={APP_ROUTES.WOMEN_LAW_AWARENESS} className="text-teal-600 hover:underline">{translate('womenLawAwarenessTitle')}</ReactRouterDOM.Link>: {translate('featureWomenLawDesc', "Learn about important laws for women in India. Tap to expand and read details in different languages.")}</li>
-                <li><ReactRouterDOM.Link to={APP_ROUTES.LEARN_TO_USE_APPS} className="text-teal-600 hover:underline">{translate('learnToUseApps')}</ReactRouterDOM.Link>: {translate('featureLearnAppsDesc', "Discover helpful apps and websites. Type your goal (like 'learn cooking') and get suggestions. A chat assistant is also available to help you understand the suggestions.")}</li>
-                <li><ReactRouterDOM.Link to={APP_ROUTES.BRAIN_QUIZZES} className="text-teal-600 hover:underline">{translate('brainQuizzes')}</ReactRouterDOM.Link>: {translate('featureBrainQuizzesDesc', "Challenge yourself with fun quizzes and test your knowledge on various topics.")}</li>
-                <li><ReactRouterDOM.Link to={APP_ROUTES.EMERGENCY_CONTACTS} className="text-teal-600 hover:underline">{translate('emergencyContacts')}</ReactRouterDOM.Link>: {translate('featureEmergencyDesc', "Find important phone numbers like Police (100) or Women Helpline (1091).")}</li>
+                <li><ReactRouterDOM.Link to={APP_ROUTES.SMART_PATHWAY} className="text-teal-600 hover:underline">{translate('smartPathway')}</ReactRouterDOM.Link>: {translate('featureSmartPathwayDesc')}</li>
+                <li><ReactRouterDOM.Link to={APP_ROUTES.WOMEN_AWARENESS} className="text-teal-600 hover:underline">{translate('womenAwareness')}</ReactRouterDOM.Link>: {translate('featureWomenAwarenessDesc')}</li>
+                <li><ReactRouterDOM.Link to={APP_ROUTES.WOMEN_LAW_AWARENESS} className="text-teal-600 hover:underline">{translate('womenLawAwarenessTitle')}</ReactRouterDOM.Link>: {translate('featureWomenLawDesc')}</li>
+                <li><ReactRouterDOM.Link to={APP_ROUTES.LEARN_TO_USE_APPS} className="text-teal-600 hover:underline">{translate('learnToUseApps')}</ReactRouterDOM.Link>: {translate('featureLearnAppsDesc')}</li>
+                <li><ReactRouterDOM.Link to={APP_ROUTES.BRAIN_QUIZZES} className="text-teal-600 hover:underline">{translate('brainQuizzes')}</ReactRouterDOM.Link>: {translate('featureBrainQuizzesDesc')}</li>
+                <li><ReactRouterDOM.Link to={APP_ROUTES.EMERGENCY_CONTACTS} className="text-teal-600 hover:underline">{translate('emergencyContacts')}</ReactRouterDOM.Link>: {translate('featureEmergencyDesc')}</li>
               </ul>
             </li>
             <li>
-              <strong>{translate('settingsTitle', "Settings & Language")}:</strong>
+              <strong>{translate('settingsTitle')}:</strong>
               <ul className="list-disc list-inside pl-5 mt-1 text-sm">
-                <li>{translate('settingsLanguageDesc', `You can change the app's language to English, Hindi, or Tamil. Go to '${translate('settings')}' from the menu, or find the language selector directly in the sidebar menu.`)}</li>
-                <li>{translate('settingsNotificationsDesc', `In '${translate('settings')}', you can also manage notification preferences (coming soon).`)}</li>
+                <li>{translate('settingsLanguageDesc')}</li>
+                <li>{translate('settingsNotificationsDesc')}</li>
               </ul>
             </li>
             <li>
-              <strong>{translate('loggingOutTitle', "Logging Out")}:</strong>
+              <strong>{translate('loggingOutTitle')}:</strong>
               <ul className="list-disc list-inside pl-5 mt-1 text-sm">
-                <li>{translate('loggingOutDesc', `To sign out of the app, find the '${translate('logout')}' button, usually at the bottom of the sidebar menu.`)}</li>
+                <li>{translate('loggingOutDesc')}</li>
               </ul>
             </li>
             <li>
-              <strong>{translate('generalTipTitle', "Explore and Ask")}:</strong>
+              <strong>{translate('generalTipTitle')}:</strong>
               <ul className="list-disc list-inside pl-5 mt-1 text-sm">
-                <li>{translate('generalTipDesc', "Don't be afraid to tap on different sections to see what they offer. If you need more help, you can always come back to this 'Help & Support' section or use the chat features within specific modules.")}</li>
+                <li>{translate('generalTipDesc')}</li>
               </ul>
             </li>
           </ol>
         </Card>
 
         {/* Frequently Asked Questions (FAQ) Section */}
-        <Card title={translate('faqTitle', "Frequently Asked Questions (FAQ)")}>
+        <Card title={translate('faqTitle')}>
           <div className="space-y-4">
             {faqItems.map((item, index) => (
               // The <details> HTML element creates a disclosure widget (accordion)
@@ -195,8 +159,8 @@ const HelpScreen: React.FC = () => {
         </Card>
         
         {/* Contact Support Section */}
-        <Card title={translate('contactSupportTitle', "Contact Support")}>
-          <p className="text-gray-600 mb-2">{translate('contactSupportDesc', "If you need further assistance or have specific issues, please contact us:")}</p>
+        <Card title={translate('contactSupportTitle')}>
+          <p className="text-gray-600 mb-2">{translate('contactSupportDesc')}</p>
           <p className="text-gray-700">
             <i className="fas fa-envelope mr-2 text-teal-600"></i> 
             <a href={`mailto:${translate('contactSupportEmail')}`} className="hover:underline">{translate('contactSupportEmail')}</a>
@@ -212,6 +176,5 @@ const HelpScreen: React.FC = () => {
 }
 
 export { 
-    EmergencyContactsScreen,
     HelpScreen
 };
\ No newline at end of file
@@ -9,7 +9,7 @@
 import React from 'react';
 import * as ReactRouterDOM from 'react-router-dom';
 // Button component import removed as it's being replaced for this specific link
-import { APP_ROUTES, APP_NAME, APP_TAGLINE } from '../constants';
+import { APP_ROUTES } from '../constants';
 import { useLanguage } from '../contexts/LanguageContext';
 import AppLogo from '../components/common/AppLogo';
 
@@ -29,10 +29,10 @@ const WelcomeScreen = () => {
       <div className="text-center max-w-lg">
         <AppLogo size={120} className="mx-auto mb-8 text-white" />
         <h1 className="text-5xl font-bold mb-4 drop-shadow-md">
-          {translate('welcomeToFemmora', `Welcome to ${APP_NAME}`)}
+          {translate('welcomeToFemmora')}
         </h1>
         <p className="text-xl mb-12 opacity-90 drop-shadow-sm">
-          {translate('appTagline', APP_TAGLINE)}
+          {translate('appTagline')}
         </p>
         {/* Link to the registration page */}
         <ReactRouterDOM.Link
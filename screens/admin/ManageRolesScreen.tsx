@@ -0,0 +1,79 @@
+/**
+ * @file ManageRolesScreen.tsx
+ * @description The screen where an NGO admin gives accounts their role: a volunteer (field
+ * worker) can register and assist beneficiaries, and an NGO admin can also manage roles.
+ * The account is found by the phone number or email it was registered with.
+ */
+
+import React, { useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { getAuthErrorMessageKey } from '../../services/authApi';
+import { USER_ROLE_LABEL_KEYS } from '../../constants';
+import SectionTitle from '../../components/common/SectionTitle';
+import Card from '../../components/common/Card';
+import Input from '../../components/common/Input';
+import Button from '../../components/common/Button';
+import { UserRole } from '../../types';
+
+// The classes of the select box, matching the Input component.
+const SELECT_CLASS_NAME = "mt-1 block w-full px-4 py-3 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-teal-500 sm:text-base bg-white text-gray-900";
+
+const ManageRolesScreen: React.FC = () => {
+  const { changeUserRole } = useAuth();
+  const { translate } = useLanguage();
+  const [identifier, setIdentifier] = useState('');
+  const [role, setRole] = useState<UserRole>('volunteer');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!identifier.trim()) return;
+    setError('');
+    setMessage('');
+    setIsBusy(true);
+    try {
+      const updatedUser = await changeUserRole(identifier.trim(), role);
+      setMessage(translate('roleChanged', { name: updatedUser.name, role: translate(USER_ROLE_LABEL_KEYS[updatedUser.role ?? 'learner']) }));
+      setIdentifier('');
+    } catch (changeError) {
+      setError(translate(getAuthErrorMessageKey(changeError)));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <SectionTitle title={translate('manageRoles')} subtitle={translate('manageRolesSubtitle')} />
+      <Card>
+        <form onSubmit={handleSubmit}>
+          <Input
+            id="roleAccountIdentifier"
+            label={translate('phoneOrEmail')}
+            type="text"
+            autoComplete="off"
+            value={identifier}
+            onChange={(e) => setIdentifier(e.target.value)}
+            required
+          />
+          <div className="mb-6">
+            <label htmlFor="roleSelect" className="block text-lg font-medium text-gray-700 mb-1">{translate('accountRole')}</label>
+            <select id="roleSelect" value={role} onChange={(e) => setRole(e.target.value as UserRole)} className={SELECT_CLASS_NAME}>
+              {(Object.keys(USER_ROLE_LABEL_KEYS) as UserRole[]).map(roleOption => (
+                <option key={roleOption} value={roleOption}>{translate(USER_ROLE_LABEL_KEYS[roleOption])}</option>
+              ))}
+            </select>
+          </div>
+          {error && <p className="mb-4 text-red-600 bg-red-100 p-3 rounded-md" role="alert">{error}</p>}
+          <Button type="submit" disabled={isBusy} leftIcon={<i className="fas fa-user-shield"></i>}>{translate('saveRole')}</Button>
+        </form>
+        {message && <p className="text-sm text-green-600 mt-3" role="status">{message}</p>}
+      </Card>
+    </div>
+  );
+};
+
+export default ManageRolesScreen;
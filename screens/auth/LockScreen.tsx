@@ -0,0 +1,117 @@
+/**
+ * @file LockScreen.tsx
+ * @description The screen shown when the app is opened, and after it locks itself. The first
+ * time, it asks the user to choose the passphrase that encrypts all data on this device;
+ * after that, it asks for the passphrase to unlock the app.
+ */
+
+import React, { useState } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { usePrivacy } from '../../contexts/PrivacyContext';
+import { LANGUAGE_OPTIONS } from '../../constants';
+import { getLanguagePickerLabel } from '../../services/i18n';
+import { MIN_PASSPHRASE_LENGTH } from '../../services/secureStorage';
+import { Language } from '../../types';
+import AppLogo from '../../components/common/AppLogo';
+import Input from '../../components/common/Input';
+import Button from '../../components/common/Button';
+
+// Define the props for the LockScreen component.
+interface LockScreenProps {
+  mode: 'create' | 'unlock';
+  onSubmit: (passphrase: string) => void;
+  onReset: () => void; // Deletes all data, for a forgotten passphrase
+  isBusy: boolean; // True while the key is being derived
+  error: string | null; // E.g. a wrong passphrase
+}
+
+const LockScreen: React.FC<LockScreenProps> = ({ mode, onSubmit, onReset, isBusy, error }) => {
+  const { language, setLanguage, translate } = useLanguage();
+  const { appName, isDisguised } = usePrivacy();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mode === 'create' && passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setFormError(translate('vaultPassphraseTooShort'));
+      return;
+    }
+    if (mode === 'create' && passphrase !== confirmPassphrase) {
+      setFormError(translate('vaultPassphraseMismatch'));
+      return;
+    }
+    setFormError(null);
+    onSubmit(passphrase);
+    setPassphrase('');
+    setConfirmPassphrase('');
+  };
+
+  const shownError = formError ?? error ?? undefined;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100 p-6">
+      <div className="bg-white p-8 md:p-12 rounded-xl shadow-2xl w-full max-w-md">
+        <div className="text-center mb-6">
+          {isDisguised
+            ? <i className="fas fa-calculator text-6xl text-teal-600 mb-4" aria-hidden="true"></i>
+            : <AppLogo size={80} className="mx-auto mb-4 text-teal-600" />}
+          <h1 className="text-3xl font-bold text-teal-700">{appName}</h1>
+          <p className="text-gray-600 mt-2">{translate(mode === 'create' ? 'vaultCreateHint' : 'vaultUnlockHint')}</p>
+        </div>
+
+        <form onSubmit={handleSubmit}>
+          <Input
+            id="vaultPassphrase"
+            label={translate('vaultPassphrase')}
+            type="password"
+            autoComplete={mode === 'create' ? 'new-password' : 'current-password'}
+            value={passphrase}
+            onChange={e => setPassphrase(e.target.value)}
+            error={mode === 'unlock' ? shownError : undefined}
+            autoFocus
+            required
+          />
+          {mode === 'create' && (
+            <Input
+              id="vaultConfirmPassphrase"
+              label={translate('vaultConfirmPassphrase')}
+              type="password"
+              autoComplete="new-password"
+              value={confirmPassphrase}
+              onChange={e => setConfirmPassphrase(e.target.value)}
+              error={shownError}
+              required
+            />
+          )}
+          <Button type="submit" fullWidth size="lg" disabled={isBusy} leftIcon={<i className={`fas ${isBusy ? 'fa-spinner fa-spin' : mode === 'create' ? 'fa-shield-alt' : 'fa-unlock'}`}></i>}>
+            {translate(mode === 'create' ? 'vaultCreate' : 'vaultUnlock')}
+          </Button>
+        </form>
+
+        {mode === 'create' && <p className="text-sm text-gray-500 mt-4">{translate('vaultCreateNote')}</p>}
+        {mode === 'unlock' && (
+          <button type="button" onClick={onReset} className="block mx-auto mt-6 text-sm text-gray-500 hover:text-red-600 underline">
+            {translate('vaultForgotPassphrase')}
+          </button>
+        )}
+
+        {/* The lock screen comes before Settings, so the language can be changed here too */}
+        <label htmlFor="lockScreenLanguage" className="sr-only">{translate('selectLanguage')}</label>
+        <select
+          id="lockScreenLanguage"
+          value={language}
+          onChange={e => setLanguage(e.target.value as Language)}
+          className="block mx-auto mt-6 p-2 border border-gray-300 rounded-md bg-white text-gray-700 text-sm"
+        >
+          {LANGUAGE_OPTIONS.map(option => (
+            <option key={option.code} value={option.code}>{getLanguagePickerLabel(option.code)}</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+};
+
+export default LockScreen;
@@ -1,8 +1,9 @@
 /**
  * @file LoginScreen.tsx
  * @description This component provides the user login interface.
- * It includes a form for users to enter their email and password.
- * For this demonstration, login is simulated with hardcoded credentials.
+ * Users can log in with their email and password, with their phone number and a
+ * one-time code sent by SMS, or with their quick login PIN. All are checked by the
+ * auth server.
  */
 import React, { useState } from 'react';
 import * as ReactRouterDOM from 'react-router-dom';
@@ -11,35 +12,41 @@ import Input from '../../components/common/Input';
 import { APP_ROUTES } from '../../constants';
 import { useAuth } from '../../contexts/AuthContext';
 import { useLanguage } from '../../contexts/LanguageContext';
+import { getAuthErrorMessageKey } from '../../services/authApi';
 import AppLogo from '../../components/common/AppLogo';
+import AuthMethodTabs, { AuthMethod } from '../../components/auth/AuthMethodTabs';
+import PhoneOtpForm from '../../components/auth/PhoneOtpForm';
+import PinLoginForm from '../../components/auth/PinLoginForm';
 
 const LoginScreen: React.FC = () => {
+  const [method, setMethod] = useState<AuthMethod>('email');
   // State for form fields
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   // State for displaying form errors
   const [error, setError] = useState('');
-  
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
   const navigate = ReactRouterDOM.useNavigate();
-  const { login } = useAuth();
+  const { login, profiles } = useAuth();
   const { translate } = useLanguage();
 
   /**
    * Handles the form submission event.
    * @param {React.FormEvent} e - The form event.
    */
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault(); // Prevent default form submission behavior
     setError(''); // Clear previous errors
-
-    // --- Simulation of login ---
-    // In a real application, this would be an API call to a backend server.
-    // Here, we check against hardcoded credentials for demonstration purposes.
-    if (email === 'user@example.com' && password === 'password') {
-      login({ id: '1', name: 'Demo User', email: 'user@example.com' });
+    setIsSubmitting(true);
+    try {
+      await login(email, password);
       navigate(APP_ROUTES.HOME); // Navigate to home on successful login
-    } else {
-      setError('Invalid email or password. (Hint: user@example.com / password)');
+    } catch (loginError) {
+      setError(translate(getAuthErrorMessageKey(loginError)));
+      setPassword('');
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
@@ -51,32 +58,41 @@ const LoginScreen: React.FC = () => {
           <h2 className="text-3xl font-bold text-teal-700">{translate('login')}</h2>
         </div>
         
+        <AuthMethodTabs methods={['email', 'phone', 'pin']} selected={method} onSelect={setMethod} />
+
+        {method === 'phone' && <PhoneOtpForm purpose="login" onSuccess={() => navigate(APP_ROUTES.HOME)} />}
+        {method === 'pin' && <PinLoginForm onSuccess={() => navigate(APP_ROUTES.HOME)} />}
+
         {/* Display error message if there is one */}
-        {error && <p className="mb-4 text-center text-red-600 bg-red-100 p-3 rounded-md">{error}</p>}
-        
-        <form onSubmit={handleSubmit} className="space-y-6">
-          <Input
-            id="email"
-            label={translate('email')}
-            type="email"
-            value={email}
-            onChange={(e) => setEmail(e.target.value)}
-            required
-            placeholder="your.email@example.com"
-          />
-          <Input
-            id="password"
-            label={translate('password')}
-            type="password"
-            value={password}
-            onChange={(e) => setPassword(e.target.value)}
-            required
-            placeholder="Your password"
-          />
-          <Button type="submit" fullWidth size="lg">
-            {translate('login')}
-          </Button>
-        </form>
+        {method === 'email' && error && <p className="mb-4 text-center text-red-600 bg-red-100 p-3 rounded-md" role="alert">{error}</p>}
+
+        {method === 'email' && (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <Input
+              id="email"
+              label={translate('email')}
+              type="email"
+              autoComplete="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+              placeholder="your.email@example.com"
+            />
+            <Input
+              id="password"
+              label={translate('password')}
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+              placeholder="Your password"
+            />
+            <Button type="submit" fullWidth size="lg" disabled={isSubmitting}>
+              {translate(isSubmitting ? 'signingIn' : 'login')}
+            </Button>
+          </form>
+        )}
         
         {/* Link to the registration screen for new users */}
         <p className="mt-8 text-center text-gray-600 text-lg">
@@ -85,6 +101,14 @@ const LoginScreen: React.FC = () => {
             {translate('register')}
           </ReactRouterDOM.Link>
         </p>
+        {/* On a shared device, the other profiles stay one tap away while a new one is added */}
+        {profiles.length > 0 && (
+          <p className="mt-4 text-center">
+            <ReactRouterDOM.Link to={APP_ROUTES.PROFILES} className="font-semibold text-teal-600 hover:text-teal-700">
+              <i className="fas fa-users mr-2" aria-hidden="true"></i>{translate('backToProfiles')}
+            </ReactRouterDOM.Link>
+          </p>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,159 @@
+/**
+ * @file ProfilePickerScreen.tsx
+ * @description The profile picker of a shared device. It lists everyone who is signed in on
+ * this phone; tapping a profile opens it, after its PIN if it has one. From here another member
+ * of the household can add their own profile, or a profile can be removed from the phone.
+ */
+
+import React, { useState } from 'react';
+import * as ReactRouterDOM from 'react-router-dom';
+import Button from '../../components/common/Button';
+import Input from '../../components/common/Input';
+import AppLogo from '../../components/common/AppLogo';
+import { APP_ROUTES } from '../../constants';
+import { useAuth } from '../../contexts/AuthContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { PIN_LENGTH } from '../../services/authApi';
+import { ProfilePinError } from '../../services/deviceProfiles';
+import { ProfileSummary } from '../../types';
+
+const ProfilePickerScreen: React.FC = () => {
+  const { isAuthenticated, profiles, openProfile, removeProfile } = useAuth();
+  const { translate } = useLanguage();
+  const navigate = ReactRouterDOM.useNavigate();
+  const [selectedUserId, setSelectedUserId] = useState<string | null>(null); // The profile whose PIN is being asked
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  // A profile is already open, or there is none to pick.
+  if (isAuthenticated) return <ReactRouterDOM.Navigate to={APP_ROUTES.HOME} replace />;
+  if (profiles.length === 0) return <ReactRouterDOM.Navigate to={APP_ROUTES.LOGIN} replace />;
+
+  /**
+   * Opens a profile, and shows why if it cannot be opened.
+   * @param {string} userId - The user id of the profile.
+   * @param {string} [profilePin] - The PIN entered, if the profile has one.
+   */
+  const open = async (userId: string, profilePin?: string) => {
+    setError('');
+    setIsBusy(true);
+    try {
+      await openProfile(userId, profilePin);
+      navigate(APP_ROUTES.HOME);
+    } catch (openError) {
+      if (!(openError instanceof ProfilePinError)) throw openError;
+      setError(translate(openError.code === 'PIN_LOCKED' ? 'profileLocked' : 'wrongProfilePin'));
+      setPin('');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSelect = (profile: ProfileSummary) => {
+    setError('');
+    setPin('');
+    if (profile.hasPin) {
+      setSelectedUserId(profile.user.id);
+    } else {
+      open(profile.user.id);
+    }
+  };
+
+  const handlePinSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedUserId) return;
+    if (pin.length !== PIN_LENGTH) {
+      setError(translate('pinMustHaveFourDigits'));
+      return;
+    }
+    open(selectedUserId, pin);
+  };
+
+  const handleRemove = (userId: string) => {
+    if (!window.confirm(translate('confirmRemoveProfile'))) return;
+    if (selectedUserId === userId) setSelectedUserId(null);
+    removeProfile(userId);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100 p-6">
+      <div className="bg-white p-8 md:p-12 rounded-xl shadow-2xl w-full max-w-md">
+        <div className="text-center mb-8">
+          <AppLogo size={80} className="mx-auto mb-4 text-teal-600" />
+          <h2 className="text-3xl font-bold text-teal-700">{translate('chooseProfile')}</h2>
+          <p className="text-gray-600 mt-2">{translate('chooseProfileHint')}</p>
+        </div>
+
+        <ul className="space-y-3 mb-8">
+          {profiles.map(profile => (
+            <li key={profile.user.id} className="border border-gray-200 rounded-lg">
+              <div className="flex items-center">
+                <button
+                  type="button"
+                  onClick={() => handleSelect(profile)}
+                  disabled={isBusy}
+                  className="flex-1 flex items-center p-4 text-left hover:bg-teal-50 rounded-l-lg"
+                >
+                  <span className="w-12 h-12 mr-4 flex items-center justify-center rounded-full bg-teal-600 text-white text-xl font-bold" aria-hidden="true">
+                    {profile.user.name.charAt(0).toUpperCase()}
+                  </span>
+                  <span className="flex-1">
+                    <span className="block font-semibold text-lg text-gray-800">{profile.user.name}</span>
+                    <span className="block text-sm text-gray-500">{profile.user.email ?? profile.user.phone}</span>
+                  </span>
+                  {profile.hasPin && <i className="fas fa-lock text-gray-400" aria-label={translate('profilePin')}></i>}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleRemove(profile.user.id)}
+                  className="p-4 text-gray-400 hover:text-red-600"
+                  aria-label={`${translate('removeProfile')}: ${profile.user.name}`}
+                  title={translate('removeProfile')}
+                >
+                  <i className="fas fa-trash-alt" aria-hidden="true"></i>
+                </button>
+              </div>
+
+              {selectedUserId === profile.user.id && (
+                <div className="px-4 pb-4">
+                  {profile.isLocked ? (
+                    <p className="text-red-600 bg-red-100 p-3 rounded-md" role="alert">{translate('profileLocked')}</p>
+                  ) : (
+                    <form onSubmit={handlePinSubmit}>
+                      <Input
+                        id="profilePin"
+                        label={translate('profilePin')}
+                        type="password"
+                        inputMode="numeric"
+                        autoComplete="off"
+                        maxLength={PIN_LENGTH}
+                        value={pin}
+                        onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+                        error={error || undefined}
+                        autoFocus
+                        required
+                        className="tracking-widest"
+                      />
+                      <Button type="submit" fullWidth disabled={isBusy} leftIcon={<i className="fas fa-unlock"></i>}>
+                        {translate('openProfile')}
+                      </Button>
+                    </form>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        {error && !selectedUserId && <p className="mb-4 text-center text-red-600 bg-red-100 p-3 rounded-md" role="alert">{error}</p>}
+
+        <Button type="button" variant="secondary" fullWidth onClick={() => navigate(APP_ROUTES.LOGIN)} leftIcon={<i className="fas fa-user-plus"></i>}>
+          {translate('addProfile')}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ProfilePickerScreen;
@@ -1,9 +1,9 @@
 /**
  * @file RegistrationScreen.tsx
  * @description This component provides the user registration interface.
- * It includes a form for users to enter their name, email, and password.
- * For this demonstration, registration is simulated and logs the user in
- * immediately upon successful form submission.
+ * Users can register with their name, email and password, or, if they have no email,
+ * with their name and phone number, verified with a one-time code sent by SMS. The
+ * account is created on the auth server, and the user is logged in immediately.
  */
 import React, { useState } from 'react';
 import * as ReactRouterDOM from 'react-router-dom';
@@ -12,48 +12,63 @@ import Input from '../../components/common/Input';
 import { APP_ROUTES } from '../../constants';
 import { useAuth } from '../../contexts/AuthContext';
 import { useLanguage } from '../../contexts/LanguageContext';
+import { AuthApiError, getAuthErrorMessageKey, MIN_PASSWORD_LENGTH } from '../../services/authApi';
 import AppLogo from '../../components/common/AppLogo';
+import AuthMethodTabs, { AuthMethod } from '../../components/auth/AuthMethodTabs';
+import PhoneOtpForm from '../../components/auth/PhoneOtpForm';
 
 const RegistrationScreen: React.FC = () => {
+  const [method, setMethod] = useState<AuthMethod>('email');
   // State for form fields
   const [name, setName] = useState('');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
-  // State for displaying form errors
+  // State for displaying form errors: one for the whole form, and one per field
   const [error, setError] = useState('');
-  
+  const [fieldErrors, setFieldErrors] = useState<{ email?: string; password?: string; confirmPassword?: string }>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
   const navigate = ReactRouterDOM.useNavigate();
-  const { login } = useAuth(); // Using the login function from AuthContext to simulate registration + login
+  const { register } = useAuth();
   const { translate } = useLanguage();
 
   /**
    * Handles the form submission event.
    * @param {React.FormEvent} e - The form event.
    */
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault(); // Prevent default form submission behavior
 
-    // Basic validation
-    if (password !== confirmPassword) {
-      setError("Passwords do not match.");
+    // Clear any previous errors
+    setError('');
+    setFieldErrors({});
+
+    // Basic validation, before asking the server
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setFieldErrors({ password: translate('passwordTooShort') });
       return;
     }
-    if (!name || !email || !password) {
-      setError("Please fill in all fields.");
+    if (password !== confirmPassword) {
+      setFieldErrors({ confirmPassword: translate('passwordsDoNotMatch') });
       return;
     }
 
-    // Clear any previous errors
-    setError('');
-
-    // --- Simulation of registration and login ---
-    // In a real application, this would involve an API call to a backend server.
-    const mockUser = { id: Date.now().toString(), name, email };
-    login(mockUser); // Log the user in with the new mock data.
-    
-    // Navigate to the home screen upon successful registration.
-    navigate(APP_ROUTES.HOME);
+    setIsSubmitting(true);
+    try {
+      await register(name, email, password);
+      // Navigate to the home screen upon successful registration.
+      navigate(APP_ROUTES.HOME);
+    } catch (registerError) {
+      const message = translate(getAuthErrorMessageKey(registerError));
+      if (registerError instanceof AuthApiError && registerError.code === 'EMAIL_TAKEN') {
+        setFieldErrors({ email: message });
+      } else {
+        setError(message);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
   return (
@@ -64,50 +79,63 @@ const RegistrationScreen: React.FC = () => {
           <h2 className="text-3xl font-bold text-teal-700">{translate('register')}</h2>
         </div>
         
+        <AuthMethodTabs methods={['email', 'phone']} selected={method} onSelect={setMethod} />
+
+        {method === 'phone' && <PhoneOtpForm purpose="register" onSuccess={() => navigate(APP_ROUTES.HOME)} />}
+
         {/* Display error message if there is one */}
-        {error && <p className="mb-4 text-center text-red-600 bg-red-100 p-3 rounded-md">{error}</p>}
-        
-        <form onSubmit={handleSubmit} className="space-y-6">
-          <Input
-            id="name"
-            label={translate('name')}
-            type="text"
-            value={name}
-            onChange={(e) => setName(e.target.value)}
-            required
-            placeholder="Your full name"
-          />
-          <Input
-            id="email"
-            label={translate('email')}
-            type="email"
-            value={email}
-            onChange={(e) => setEmail(e.target.value)}
-            required
-            placeholder="your.email@example.com"
-          />
-          <Input
-            id="password"
-            label={translate('password')}
-            type="password"
-            value={password}
-            onChange={(e) => setPassword(e.target.value)}
-            required
-            placeholder="Choose a strong password"
-          />
-          <Input
-            id="confirmPassword"
-            label="Confirm Password"
-            type="password"
-            value={confirmPassword}
-            onChange={(e) => setConfirmPassword(e.target.value)}
-            required
-            placeholder="Re-enter your password"
-          />
-          <Button type="submit" fullWidth size="lg">
-            {translate('register')}
-          </Button>
-        </form>
+        {method === 'email' && error && <p className="mb-4 text-center text-red-600 bg-red-100 p-3 rounded-md" role="alert">{error}</p>}
+
+        {method === 'email' && (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <Input
+              id="name"
+              label={translate('name')}
+              type="text"
+              autoComplete="name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+              placeholder="Your full name"
+            />
+            <Input
+              id="email"
+              label={translate('email')}
+              type="email"
+              autoComplete="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              error={fieldErrors.email}
+              required
+              placeholder="your.email@example.com"
+            />
+            <Input
+              id="password"
+              label={translate('password')}
+              type="password"
+              autoComplete="new-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              error={fieldErrors.password}
+              required
+              placeholder="Choose a strong password"
+            />
+            <Input
+              id="confirmPassword"
+              label={translate('confirmPassword')}
+              type="password"
+              autoComplete="new-password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              error={fieldErrors.confirmPassword}
+              required
+              placeholder="Re-enter your password"
+            />
+            <Button type="submit" fullWidth size="lg" disabled={isSubmitting}>
+              {translate(isSubmitting ? 'creatingAccount' : 'register')}
+            </Button>
+          </form>
+        )}
         
         {/* Link to the login screen for users who already have an account */}
         <p className="mt-8 text-center text-gray-600 text-lg">
@@ -3,24 +3,39 @@
  * @description This screen provides age-specific awareness points for women and girls.
  * It takes the user's age, generates a list of relevant awareness tips using the Gemini AI,
  * and then provides an empathetic chat interface with a "Caring Partner" AI persona
- * for follow-up questions and emotional support.
+ * for follow-up questions and emotional support. Conversations are saved once the user
+ * writes something, and a saved one is resumed with the `?conversation=<id>` query parameter.
  */
 
-import React, { useState, useRef, useEffect } from 'react';
-import { GoogleGenAI, GenerateContentResponse, Chat } from "@google/genai"; // Added Chat
+import React, { useState, useEffect } from 'react';
+import * as ReactRouterDOM from 'react-router-dom';
 import { useLanguage } from '../../contexts/LanguageContext';
-import { Language, AwarenessPoint, ChatMessage } from '../../types'; // Added ChatMessage
+import { useAiService } from '../../contexts/AiServiceContext';
+import { useConversations } from '../../contexts/ConversationsContext';
+import { useUserProfile } from '../../contexts/UserProfileContext';
+import { useChatSession } from '../../hooks/useChatSession';
+import { getAiErrorMessageKey } from '../../services/aiService';
+import { getPromptLanguage, PromptLanguage } from '../../services/aiLanguage';
+import { parseAwarenessPoints } from '../../parsers/awarenessParser';
+import { AwarenessPoint, ConversationSetup } from '../../types';
 import SectionTitle from '../../components/common/SectionTitle';
 import Input from '../../components/common/Input';
 import Button from '../../components/common/Button';
 import Card from '../../components/common/Card';
 import AwarenessPointCard from '../../components/awareness/AwarenessPointCard';
+import ChatPanel from '../../components/chat/ChatPanel';
+import ProfilePrefillNote from '../../components/profile/ProfilePrefillNote';
 
 // The component is exported as a named export to match the import in App.tsx
 const WomenAwarenessScreenComponent: React.FC = () => {
   const { translate, language } = useLanguage();
-  // State for user input
-  const [age, setAge] = useState<string>('');
+  const { aiService, isAiConfigured } = useAiService();
+  const { getConversation, conversations } = useConversations();
+  const [searchParams, setSearchParams] = ReactRouterDOM.useSearchParams();
+  const openConversationId = searchParams.get('conversation'); // The saved conversation to resume, if any
+  const { profile } = useUserProfile();
+  // State for user input, pre-filled with the age from the user's profile
+  const [age, setAge] = useState<string>(() => (profile.age !== undefined ? String(profile.age) : ''));
   // State for AI-generated data
   const [awarenessPoints, setAwarenessPoints] = useState<AwarenessPoint[]>([]);
   // State for loading and errors
@@ -28,83 +43,40 @@ const WomenAwarenessScreenComponent: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [rawAwarenessResponse, setRawAwarenessResponse] = useState<string | null>(null); // To store raw AI response for chat context
 
-  // State for the follow-up chat with "Caring Partner"
-  const [chatSession, setChatSession] = useState<Chat | null>(null);
-  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
-  const [chatInput, setChatInput] = useState('');
-  const [isChatAssistantLoading, setIsChatAssistantLoading] = useState(false);
-  const chatContainerRef = useRef<HTMLDivElement>(null); // To auto-scroll chat
+  // The follow-up chat with "Caring Partner". A new conversation is put in the URL, so a refresh resumes it.
+  const chat = useChatSession({
+    feature: 'womenAwareness',
+    temperature: 'empathetic', // Slightly higher temp for more empathetic chat
+    onConversationSaved: (id) => setSearchParams({ conversation: id }, { replace: true }),
+  });
 
-
-  // --- Gemini AI Initialization ---
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    console.error("API_KEY environment variable is not set. Gemini API calls will fail.");
-  }
-  const ai = new GoogleGenAI({ apiKey: apiKey || "MISSING_API_KEY" });
-
-  // Effect to scroll chat to the bottom when new messages are added.
+  // Effect to resume a saved conversation, showing the awareness points it was about.
   useEffect(() => {
-    if (chatContainerRef.current) {
-      chatContainerRef.current.scrollTop = chatContainerRef.current.scrollHeight;
-    }
-  }, [chatMessages]);
-
-  /**
-   * Parses the raw JSON string from the AI into an array of `AwarenessPoint` objects.
-   * @param {string} responseText - The raw text response from the AI.
-   * @returns {AwarenessPoint[]} An array of parsed awareness points.
-   */
-  const parseAwarenessPoints = (responseText: string): AwarenessPoint[] => {
-    try {
-      let jsonStr = responseText.trim();
-      // Remove markdown fences (```json ... ```) if they exist.
-      const fenceRegex = /^```(?:json)?\s*\n?(.*?)\n?\s*```$/s;
-      const match = jsonStr.match(fenceRegex);
-      if (match && match[1]) {
-        jsonStr = match[1].trim();
-      }
-      
-      const parsedData = JSON.parse(jsonStr);
-
-      if (Array.isArray(parsedData)) {
-        return parsedData.map((item: any, index: number) => ({
-          id: item.id || `${Date.now()}-${index}`,
-          emoji: item.emoji || '💡',
-          awarenessText: item.awarenessText || 'No awareness text provided.',
-          imageSuggestion: item.imageSuggestion || 'No image suggestion provided.',
-          rawResponse: process.env.NODE_ENV === 'development' ? JSON.stringify(item, null, 2) : undefined
-        }));
-      }
-      console.warn('Parsed awareness data is not an array:', parsedData);
-      return [];
-    } catch (e) {
-      console.error('Failed to parse JSON response for awareness points:', e, "\nRaw Text:", responseText);
-       if (responseText.includes('"awarenessText":')) { 
-         return [{
-             id: `${Date.now()}-error`,
-             emoji: '⚠️',
-             awarenessText: "Error: Could not fully parse the AI's response. Some data might be missing or incorrect.",
-             imageSuggestion: "AI response format was not as expected.",
-             rawResponse: responseText
-         }];
-      }
-      return [];
+    if (!openConversationId || openConversationId === chat.conversationId) return;
+    const savedConversation = getConversation(openConversationId);
+    if (!savedConversation || savedConversation.context.feature !== 'womenAwareness') {
+      if (conversations.length > 0) setError(translate('conversationNotFound'));
+      return;
     }
-  };
+    const { context } = savedConversation;
+    setAge(String(context.age));
+    setAwarenessPoints(context.awarenessPoints);
+    setError(null);
+    chat.resumeChat(savedConversation);
+  }, [openConversationId, conversations]);
 
   /**
    * Generates the system instruction for the "Jagriti AI" persona, which generates the initial awareness points.
    * This prompt defines the AI's task, output format (JSON), and detailed guidelines for different age groups.
    * @param {number} userAge - The age of the user.
-   * @param {string} currentLanguage - The user's selected language.
+   * @param {PromptLanguage} currentLanguage - The user's selected language, as the prompts describe it.
    * @returns {string} The system instruction prompt for generating awareness points.
    */
-  const getSystemInstructionForAwareness = (userAge: number, currentLanguage: string): string => `
+  const getSystemInstructionForAwareness = (userAge: number, currentLanguage: PromptLanguage): string => `
 You are "Jagriti AI," an empathetic and knowledgeable AI assistant for the Femmora app, dedicated to generating awareness content for women and girls in India. Your responses must be culturally sensitive, easy to understand (even for low literacy users), and empowering.
 
 The user's age is ${userAge}.
-The user's preferred language is ${currentLanguage}. ALL text you generate, including all string values within the JSON, MUST be in ${currentLanguage}.
+The user's preferred language is ${currentLanguage.name}. ALL text you generate, including all string values within the JSON, MUST be in ${currentLanguage.name}. ${currentLanguage.instruction}
 
 Based on the user's age, generate a list of at least 20 distinct awareness points. Each awareness point must be relevant to the user's age group (see detailed age group guidelines below) and MUST be structured as a JSON object with the following three keys:
 1.  "emoji": (string) A single, relevant Unicode emoji that visually represents the awareness point.
@@ -123,7 +95,7 @@ Detailed Age Group Guidelines:
 - Age 35-70 (Mid-life to Early Old Age): Preventive healthcare (screenings), menopause, mental wellness, financial security for retirement, social connections, bone health.
 - Age 70-100 (Senior Citizens): Geriatric care, fall prevention, mobility, nutrition, chronic health issues, social engagement, elder abuse awareness, senior citizen schemes.
 
-Example of one object in the JSON array (content MUST be in ${currentLanguage}):
+Example of one object in the JSON array (content MUST be in ${currentLanguage.name}):
 {
   "emoji": "🛡️",
   "awarenessText": "Your body is special and private. No one should touch you in a way that makes you feel uncomfortable or scared.",
@@ -136,15 +108,15 @@ Remember to generate at least 20 points.
  * Generates the system instruction for the "Caring Partner" AI persona for the follow-up chat.
  * This prompt defines the AI's empathetic, supportive role and provides context from the initial response.
  * @param {number} userAge - The age of the user.
- * @param {string} currentLanguage - The user's selected language.
+ * @param {PromptLanguage} currentLanguage - The user's selected language, as the prompts describe it.
  * @param {string | null} initialAwarenessJSON - The raw JSON response from the first AI call, for context.
  * @returns {string} The system instruction prompt for the chat assistant.
  */
-const getSystemInstructionForChat = (userAge: number, currentLanguage: string, initialAwarenessJSON: string | null): string => `
+const getSystemInstructionForChat = (userAge: number, currentLanguage: PromptLanguage, initialAwarenessJSON: string | null): string => `
 You are "Caring Partner", a deeply caring, wise, and highly empathetic AI companion within the Femmora app. Your role is that of a very close and trusted female family member – like a loving mother, an understanding elder sister, or a supportive aunt ("Amma," "Didi," "Akka," "Mausi" - use the most appropriate term for the language or a general warm tone).
 
 The user is female, and her age is ${userAge}.
-Her preferred language is ${currentLanguage}. You MUST respond entirely in this language using very simple terms.
+Her preferred language is ${currentLanguage.name}. You MUST respond entirely in this language using very simple terms. ${currentLanguage.instruction}
 ${initialAwarenessJSON ? `She has just received some general awareness points related to her age (this was your previous JSON output to her containing these points: ${initialAwarenessJSON}).` : "She has requested to chat for support."}
 
 Your primary goal is to listen with immense empathy, provide emotional comfort, and offer gentle, supportive guidance on any health concerns or personal problems she shares. You are here to help her feel understood, validated, and emotionally "healed."
@@ -152,7 +124,7 @@ Your primary goal is to listen with immense empathy, provide emotional comfort,
 Core Instructions:
 1.  **Persona & Tone:**
     *   Always be extremely gentle, patient, kind, warm, and non-judgmental.
-    *   Use affectionate and respectful terms common in Indian families, suitable for ${currentLanguage} (e.g., "my dear," "beta," "kanna," "sweetheart," or equivalent loving terms).
+    *   Use affectionate and respectful terms common in Indian families, suitable for ${currentLanguage.name} (e.g., "my dear," "beta," "kanna," "sweetheart," or equivalent loving terms).
     *   Your language MUST be very simple, like talking to a beloved family member who might have low literacy. Avoid complex words or jargon.
     *   Use emojis appropriately to convey warmth, care, and understanding (e.g., 🤗, ❤️, 🙏, 😊, 🌸).
 
@@ -196,74 +168,63 @@ Remember: Your purpose is to be a source of comfort, understanding, and gentle g
     e.preventDefault();
     const ageNum = parseInt(age);
     if (isNaN(ageNum) || ageNum < 0 || ageNum > 120) {
-      setError(translate('Please enter a valid age (0-120).'));
+      setError(translate('invalidAge'));
       return;
     }
 
     setIsLoading(true);
     setError(null);
     setAwarenessPoints([]);
-    setChatSession(null); // Reset chat on new request
-    setChatMessages([]);   // Clear previous chat
+    chat.resetChat(); // Reset chat on new request
+    if (openConversationId) setSearchParams({}, { replace: true }); // The screen no longer shows the resumed conversation
     setRawAwarenessResponse(null);
 
-    if (!apiKey || apiKey === "MISSING_API_KEY") {
-        setError(translate('aiError') + " (API Key is missing)");
+    if (!isAiConfigured) {
+        setError(translate('aiErrorMissingApiKey'));
         setIsLoading(false);
         return;
     }
     
-    const preferredLanguageString = language === Language.HI ? 'Hindi' : (language === Language.TA ? 'Tamil' : 'English (Simple)');
-    const systemInstructionForPoints = getSystemInstructionForAwareness(ageNum, preferredLanguageString);
-    const userPrompt = `User's age: ${ageNum}. Preferred language for response content: ${preferredLanguageString}. Generate awareness points.`;
+    const promptLanguage = getPromptLanguage(language);
+    const systemInstructionForPoints = getSystemInstructionForAwareness(ageNum, promptLanguage);
+    const userPrompt = `User's age: ${ageNum}. Preferred language for response content: ${promptLanguage.name}. Generate awareness points.`;
 
     try {
-      const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-preview-04-17',
+      const responseText = await aiService.generateText({
+        feature: 'womenAwareness',
         contents: userPrompt,
-        config: {
-          systemInstruction: systemInstructionForPoints,
-          responseMimeType: "application/json",
-          temperature: 0.6,
-        }
+        systemInstruction: systemInstructionForPoints,
+        responseMimeType: "application/json",
+        temperature: 'friendly',
+        language,
       });
-      
-      const responseText = response.text;
       setRawAwarenessResponse(responseText); // Store raw response for chat context
 
-      if (responseText) {
-        console.log("Raw AI Response (Women Awareness):", responseText);
-        const parsedPoints = parseAwarenessPoints(responseText);
-        if (parsedPoints.length > 0) {
-          setAwarenessPoints(parsedPoints);
-          // Initialize chat session after getting points
-          const systemInstructionForChatAssistant = getSystemInstructionForChat(ageNum, preferredLanguageString, responseText);
-          const newChat = ai.chats.create({
-            model: 'gemini-2.5-flash-preview-04-17',
-            history: [ // History includes context of the awareness points provided
-              { role: 'user', parts: [{ text: `My age is ${ageNum}. You just provided awareness points for me (response was: ${responseText}).`}] },
-              { role: 'model', parts: [{ text: translate('awarenessChatInitialMessage') }]} // AI introduces itself
-            ],
-            config: {
-              systemInstruction: systemInstructionForChatAssistant,
-              temperature: 0.7, // Slightly higher temp for more empathetic chat
-            }
-          });
-          setChatSession(newChat);
-          setChatMessages([{ sender: 'ai', text: translate('awarenessChatInitialMessage'), timestamp: new Date() }]);
-        } else {
-          setError(translate('noAwarenessTipsFound'));
-          if (process.env.NODE_ENV === 'development' && responseText) {
-             setAwarenessPoints([{ id: 'debug-raw', emoji: '⚠️', awarenessText: 'Failed to parse. Raw response below.', imageSuggestion: 'Check console', rawResponse: responseText}]);
-          }
-        }
+      console.log("Raw AI Response (Women Awareness):", responseText);
+      const parsedPoints = parseAwarenessPoints(responseText, { idPrefix: `${Date.now()}`, includeItemJson: process.env.NODE_ENV === 'development' });
+      if (parsedPoints.length > 0) {
+        setAwarenessPoints(parsedPoints);
+        // Initialize chat session after getting points
+        const setup: ConversationSetup = {
+          title: `${translate('awarenessPointsForAge')} ${ageNum}`,
+          language,
+          systemInstruction: getSystemInstructionForChat(ageNum, promptLanguage, responseText),
+          contextTurns: [ // History includes context of the awareness points provided
+            { role: 'user', text: `My age is ${ageNum}. You just provided awareness points for me (response was: ${responseText}).` },
+            { role: 'model', text: translate('awarenessChatInitialMessage') } // AI introduces itself
+          ],
+          context: { feature: 'womenAwareness', age: ageNum, awarenessPoints: parsedPoints },
+        };
+        // The introduction is already the last turn of the history, so it is not replayed on resume.
+        chat.startChat(setup, [{ sender: 'ai', text: translate('awarenessChatInitialMessage'), timestamp: new Date(), isIntro: true }]);
       } else {
         setError(translate('noAwarenessTipsFound'));
-        console.warn("AI response text is empty for women awareness.");
+        if (process.env.NODE_ENV === 'development') {
+           setAwarenessPoints([{ id: 'debug-raw', emoji: '⚠️', awarenessText: 'Failed to parse. Raw response below.', imageSuggestion: 'Check console', rawResponse: responseText}]);
+        }
       }
     } catch (apiError: any) {
-      console.error("Gemini API error (Women Awareness):", apiError);
-      setError(`${translate('aiError')} ${apiError.message ? `(${apiError.message})` : ''}`);
+      setError(translate(getAiErrorMessageKey(apiError)));
       if (process.env.NODE_ENV === 'development' && apiError.message) {
         setAwarenessPoints([{ id: 'debug-apierror', emoji: '🔥', awarenessText: `API Error: ${apiError.message}`, imageSuggestion: 'API call failed.', rawResponse: `Error: ${apiError.toString()}`}]);
       }
@@ -272,41 +233,6 @@ Remember: Your purpose is to be a source of comfort, understanding, and gentle g
     }
   };
 
-  /**
-   * Handles submitting a message in the "Caring Partner" chat.
-   * @param {React.FormEvent} e - The form submission event.
-   */
-  const handleChatSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!chatInput.trim() || !chatSession || isChatAssistantLoading) return;
-
-    const userMessage: ChatMessage = { sender: 'user', text: chatInput, timestamp: new Date() };
-    setChatMessages(prev => [...prev, userMessage]);
-    const currentChatInput = chatInput;
-    setChatInput('');
-    setIsChatAssistantLoading(true);
-
-    try {
-      const response = await chatSession.sendMessage({message: currentChatInput});
-      const aiMessageText = response.text;
-
-      if (aiMessageText) {
-        const aiMessage: ChatMessage = { sender: 'ai', text: aiMessageText, timestamp: new Date() };
-        setChatMessages(prev => [...prev, aiMessage]);
-      } else {
-        const aiMessage: ChatMessage = { sender: 'ai', text: translate('aiError') + " (Empty response from Caring Partner)", timestamp: new Date() };
-        setChatMessages(prev => [...prev, aiMessage]);
-      }
-    } catch (chatApiError: any) {
-      console.error("Gemini Chat API error (Caring Partner):", chatApiError);
-      const errorMessage: ChatMessage = { sender: 'ai', text: `${translate('aiError')} (Caring Partner had trouble responding: ${chatApiError.message || 'Unknown chat error'})`, timestamp: new Date() };
-      setChatMessages(prev => [...prev, errorMessage]);
-    } finally {
-      setIsChatAssistantLoading(false);
-    }
-  };
-
-
   return (
     <div className="max-w-4xl mx-auto">
       <SectionTitle 
@@ -316,6 +242,7 @@ Remember: Your purpose is to be a source of comfort, understanding, and gentle g
 
       {/* --- Main Form for Age Input --- */}
       <Card className="mb-8 p-6 shadow-xl bg-pink-50">
+        {profile.age !== undefined && !openConversationId && <ProfilePrefillNote />}
         <form onSubmit={handleSubmitAwareness} className="space-y-4">
           <Input
             id="ageInput"
@@ -333,8 +260,8 @@ Remember: Your purpose is to be a source of comfort, understanding, and gentle g
           <p id="age-description" className="text-sm text-gray-500">
             Enter an age to get relevant awareness information.
           </p>
-          <Button type="submit" disabled={isLoading || !apiKey || apiKey === "MISSING_API_KEY"} fullWidth size="lg" className="bg-pink-600 hover:bg-pink-700 focus:ring-pink-500">
-            {isLoading && !isChatAssistantLoading ? (
+          <Button type="submit" disabled={isLoading || !isAiConfigured} fullWidth size="lg" className="bg-pink-600 hover:bg-pink-700 focus:ring-pink-500">
+            {isLoading ? (
               <>
                 <i className="fas fa-spinner fa-spin mr-2"></i>
                 {translate('generatingAwarenessTips')}
@@ -346,7 +273,7 @@ Remember: Your purpose is to be a source of comfort, understanding, and gentle g
               </>
             )}
           </Button>
-          {(!apiKey || apiKey === "MISSING_API_KEY") && <p role="alert" className="text-red-500 text-sm text-center mt-2">API Key is missing. Awareness tips generation is disabled.</p>}
+          {!isAiConfigured && <p role="alert" className="text-red-500 text-sm text-center mt-2">{translate('aiErrorMissingApiKey')}</p>}
         </form>
       </Card>
 
@@ -378,7 +305,7 @@ Remember: Your purpose is to be a source of comfort, understanding, and gentle g
           </div>
         </div>
       )}
-       {!isLoading && !error && awarenessPoints.length === 0 && age !== '' && !chatSession && (
+       {!isLoading && !error && awarenessPoints.length === 0 && age !== '' && chat.messages.length === 0 && (
          <Card className="p-6 text-center mb-8">
             <i className="fas fa-info-circle text-3xl text-gray-400 mb-3"></i>
             <p className="text-gray-600">{translate('noAwarenessTipsFound')}</p>
@@ -386,64 +313,16 @@ Remember: Your purpose is to be a source of comfort, understanding, and gentle g
        )}
 
       {/* --- Chat Assistant Section --- */}
-      {chatSession && (
-        <Card className="mt-10 pt-6 shadow-xl bg-rose-50 border border-rose-200">
-           <h2 className="text-2xl font-semibold text-rose-700 mb-1 px-6">{translate('awarenessChatTitle')}</h2>
-           <p className="text-sm text-rose-600 mb-4 px-6">{translate('awarenessChatSubtitle')}</p>
-          <div 
-            ref={chatContainerRef} 
-            className="h-96 overflow-y-auto mb-4 p-4 border-t border-b border-rose-200 bg-white space-y-3"
-            aria-live="polite"
-            role="log"
-          >
-            {chatMessages.map((msg, index) => (
-              <div key={index} className={`flex ${msg.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
-                <div 
-                    className={`max-w-lg lg:max-w-xl px-4 py-2 rounded-xl shadow-md ${
-                        msg.sender === 'user' ? 'bg-rose-500 text-white' : 'bg-rose-100 text-rose-800'
-                    }`}
-                >
-                  <p className="whitespace-pre-wrap text-sm">{msg.text}</p>
-                  {msg.timestamp && (
-                    <p className={`text-xs mt-1 ${msg.sender === 'user' ? 'text-rose-100 text-right' : 'text-rose-400 text-left'}`}>
-                      {msg.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                    </p>
-                  )}
-                </div>
-              </div>
-            ))}
-            {isChatAssistantLoading && (
-              <div className="flex justify-start">
-                <div className="max-w-xs p-3 rounded-lg shadow bg-rose-100 text-rose-800">
-                  <i className="fas fa-spinner fa-spin mr-2 text-rose-500"></i>
-                  <span className="text-sm">{translate('aiTyping')}</span>
-                </div>
-              </div>
-            )}
-          </div>
-          <form onSubmit={handleChatSubmit} className="flex gap-3 p-4 pt-0">
-            <Input
-              type="text"
-              value={chatInput}
-              onChange={(e) => setChatInput(e.target.value)}
-              placeholder={translate('awarenessChatPlaceholder')}
-              className="flex-grow !mb-0 text-sm"
-              wrapperClassName="flex-grow !mb-0"
-              disabled={isChatAssistantLoading || isLoading || !apiKey || apiKey === "MISSING_API_KEY"}
-              aria-label={translate('awarenessChatPlaceholder')}
-            />
-            <Button 
-                type="submit" 
-                disabled={isChatAssistantLoading || isLoading || !chatInput.trim() || !apiKey || apiKey === "MISSING_API_KEY"}
-                aria-label={translate('send')}
-                className="px-4 bg-rose-600 hover:bg-rose-700 focus:ring-rose-500"
-            >
-              <i className="fas fa-paper-plane"></i>
-              <span className="sr-only">{translate('send')}</span>
-            </Button>
-          </form>
-           {(!apiKey || apiKey === "MISSING_API_KEY") && <p role="alert" className="text-red-500 text-xs text-center pb-2 px-4">API Key is missing. Chat assistant is disabled.</p>}
-        </Card>
+      {chat.messages.length > 0 && (
+        <ChatPanel
+          chat={chat}
+          theme="rose"
+          title={translate('awarenessChatTitle')}
+          subtitle={translate('awarenessChatSubtitle')}
+          placeholder={translate('awarenessChatPlaceholder')}
+          suggestions={[translate('awarenessSuggestion1'), translate('awarenessSuggestion2'), translate('awarenessSuggestion3')]}
+          disabled={isLoading}
+        />
       )}
     </div>
   );
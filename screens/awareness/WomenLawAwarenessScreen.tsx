@@ -1,29 +1,34 @@
 
 import React, { useState } from 'react';
+import * as ReactRouterDOM from 'react-router-dom';
 import { useLanguage } from '../../contexts/LanguageContext';
-import { WomenLaw, Language } from '../../types';
+import { WomenLaw, Language, TranslationKey } from '../../types';
 import { womenLawsData } from '../../data/womenLawsData';
+import { APP_ROUTES, LANGUAGE_OPTIONS } from '../../constants';
 import SectionTitle from '../../components/common/SectionTitle';
 import Card from '../../components/common/Card';
 import Button from '../../components/common/Button';
+import ReadAloudControls from '../../components/common/ReadAloudControls';
 
-const LawDetailSection: React.FC<{ titleKey: string; content: WomenLaw['fullForm'] }> = ({ titleKey, content }) => {
+const LawDetailSection: React.FC<{ titleKey: TranslationKey; content: WomenLaw['fullForm'] }> = ({ titleKey, content }) => {
   const { translate, language } = useLanguage();
+  // The text in the user's language, and in English too, since the law itself is in English.
+  const languageName = LANGUAGE_OPTIONS.find(option => option.code === language)?.nativeName;
   return (
     <div className="mb-4">
       <h4 className="text-lg font-semibold text-teal-700 mb-2">{translate(titleKey)}</h4>
       <div className="pl-4 space-y-3">
+        {language !== Language.EN && (
+          <div>
+            <strong className="text-gray-600">{languageName}:</strong>
+            <p className="text-gray-700 text-sm whitespace-pre-line">{content[language]}</p>
+            <ReadAloudControls text={content[language]} language={language} className="mt-1" />
+          </div>
+        )}
         <div>
           <strong className="text-gray-600">{translate('inEnglish')}:</strong>
           <p className="text-gray-700 text-sm whitespace-pre-line">{content[Language.EN]}</p>
-        </div>
-        <div>
-          <strong className="text-gray-600">{translate('inHindi')}:</strong>
-          <p className="text-gray-700 text-sm whitespace-pre-line">{content[Language.HI]}</p>
-        </div>
-        <div>
-          <strong className="text-gray-600">{translate('inTamil')}:</strong>
-          <p className="text-gray-700 text-sm whitespace-pre-line">{content[Language.TA]}</p>
+          <ReadAloudControls text={content[Language.EN]} language={Language.EN} className="mt-1" />
         </div>
       </div>
     </div>
@@ -66,7 +71,7 @@ const WomenLawAwarenessScreen: React.FC = () => {
                 aria-controls={`law-details-${law.id}`}
               >
                 <h3 className="text-xl font-semibold text-teal-700">
-                  {translate(law.lawNameKey, law.lawNameKey.replace('lawName', ''))}
+                  {translate(law.lawNameKey)}
                 </h3>
                 <i 
                     className={`fas ${expandedLawId === law.id ? 'fa-chevron-up' : 'fa-chevron-down'} text-teal-600 transition-transform duration-300`}
@@ -82,6 +87,13 @@ const WomenLawAwarenessScreen: React.FC = () => {
                   <LawDetailSection titleKey="lawVictimRights" content={law.victimRights} />
                   <LawDetailSection titleKey="lawPunishmentPenalty" content={law.punishmentPenalty} />
                   <LawDetailSection titleKey="lawRealLifeExample" content={law.realLifeExample} />
+                  {/* Evidence helps when using these rights, so point to the journal */}
+                  <ReactRouterDOM.Link
+                    to={APP_ROUTES.INCIDENT_JOURNAL}
+                    className="flex items-center mt-4 p-3 rounded-lg bg-teal-50 border border-teal-200 text-teal-800 hover:bg-teal-100"
+                  >
+                    <i className="fas fa-book mr-3 text-xl" aria-hidden="true"></i>{translate('journalLawCallout')}
+                  </ReactRouterDOM.Link>
                 </div>
               )}
             </Card>
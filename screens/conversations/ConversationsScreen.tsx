@@ -0,0 +1,104 @@
+/**
+ * @file ConversationsScreen.tsx
+ * @description This screen lists the user's saved AI chat conversations from the Smart Pathway,
+ * Women Awareness ("Caring Partner") and Learn to Use Apps screens. A conversation can be
+ * resumed on the screen it came from, deleted, or all of them can be cleared at once.
+ */
+
+import React from 'react';
+import * as ReactRouterDOM from 'react-router-dom';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useConversations } from '../../contexts/ConversationsContext';
+import SectionTitle from '../../components/common/SectionTitle';
+import Card from '../../components/common/Card';
+import Button from '../../components/common/Button';
+import { APP_ROUTES } from '../../constants';
+import { ConversationContext, SavedConversation, TranslationKey } from '../../types';
+
+// The label and icon of each AI feature a conversation can come from.
+const FEATURE_DETAILS: Record<ConversationContext['feature'], { labelKey: TranslationKey; icon: string }> = {
+  smartPathway: { labelKey: 'smartPathway', icon: 'fa-route' },
+  womenAwareness: { labelKey: 'awarenessChatTitle', icon: 'fa-venus' },
+  learnToUseApps: { labelKey: 'learnToUseApps', icon: 'fa-mobile-alt' },
+};
+
+/**
+ * Returns the link that resumes a conversation on the screen it came from.
+ * Pathway conversations are resumed by re-opening their pathway.
+ * @param {SavedConversation} conversation - The saved conversation.
+ * @returns {string} The route, with its query string.
+ */
+const getResumeLink = ({ id, context }: SavedConversation): string => {
+  switch (context.feature) {
+    case 'smartPathway':
+      return `${APP_ROUTES.SMART_PATHWAY}?pathway=${encodeURIComponent(context.pathwayId)}`;
+    case 'womenAwareness':
+      return `${APP_ROUTES.WOMEN_AWARENESS}?conversation=${encodeURIComponent(id)}`;
+    case 'learnToUseApps':
+      return `${APP_ROUTES.LEARN_TO_USE_APPS}?conversation=${encodeURIComponent(id)}`;
+  }
+};
+
+const ConversationsScreen: React.FC = () => {
+  const { translate } = useLanguage();
+  const { conversations, deleteConversation, clearConversations } = useConversations();
+
+  const handleDelete = (id: string) => {
+    if (window.confirm(translate('confirmDeleteConversation'))) deleteConversation(id);
+  };
+
+  const handleClearAll = () => {
+    if (window.confirm(translate('confirmClearConversations'))) clearConversations();
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <SectionTitle title={translate('myConversations')} subtitle={translate('myConversationsSubtitle')} />
+
+      {conversations.length === 0 ? (
+        <Card className="text-center">
+          <i className="fas fa-comments text-4xl text-gray-300 mb-3" aria-hidden="true"></i>
+          <p className="text-gray-600">{translate('noConversations')}</p>
+        </Card>
+      ) : (
+        <>
+          <div className="flex justify-end mb-4">
+            <Button variant="danger" size="sm" onClick={handleClearAll} leftIcon={<i className="fas fa-trash-alt"></i>}>
+              {translate('clearAllConversations')}
+            </Button>
+          </div>
+
+          {/* --- List of Conversations (most recent first) --- */}
+          <div className="space-y-4">
+            {conversations.map(conversation => {
+              const feature = FEATURE_DETAILS[conversation.context.feature];
+              const lastMessage = conversation.messages[conversation.messages.length - 1];
+              return (
+                <Card key={conversation.id}>
+                  <p className="text-sm font-medium text-teal-600 mb-1">
+                    <i className={`fas ${feature.icon} mr-2`} aria-hidden="true"></i>{translate(feature.labelKey)}
+                  </p>
+                  <h3 className="text-xl font-semibold text-gray-800">{conversation.title}</h3>
+                  <p className="text-sm text-gray-500 mt-1">
+                    {translate('lastMessageOn')}: {new Date(conversation.updatedAt).toLocaleString()} · {conversation.messages.length} {translate('messages')}
+                  </p>
+                  {lastMessage && <p className="text-gray-700 mt-2 line-clamp-2">{lastMessage.text}</p>}
+                  <div className="flex flex-wrap gap-2 mt-4">
+                    <Button as={ReactRouterDOM.Link} to={getResumeLink(conversation)} size="sm" leftIcon={<i className="fas fa-comment-dots"></i>}>
+                      {translate('resumeConversation')}
+                    </Button>
+                    <Button size="sm" variant="danger" onClick={() => handleDelete(conversation.id)} leftIcon={<i className="fas fa-trash"></i>}>
+                      {translate('deleteConversation')}
+                    </Button>
+                  </div>
+                </Card>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ConversationsScreen;
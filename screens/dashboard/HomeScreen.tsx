@@ -2,7 +2,8 @@
  * @file HomeScreen.tsx
  * @description The main dashboard screen for authenticated users.
  * It serves as the landing page after login, displaying a personalized welcome
- * message, quick links to key features, and other informational cards.
+ * message, a "continue where you left off" card for the latest unfinished pathway,
+ * quick links to key features, and other informational cards.
  */
 
 import React from 'react';
@@ -10,14 +11,18 @@ import * as ReactRouterDOM from 'react-router-dom';
 import { APP_ROUTES } from '../../constants';
 import { useLanguage } from '../../contexts/LanguageContext';
 import { useAuth } from '../../contexts/AuthContext';
+import { useSavedPathways } from '../../contexts/SavedPathwaysContext';
+import { getCompletionPercent, getNextStepIndex, getPathwayToContinue } from '../../services/pathwayProgress';
 import Card from '../../components/common/Card';
 import SectionTitle from '../../components/common/SectionTitle';
+import { ProgressBar } from '../../components/guidance/PathwayProgressCard';
+import { SavedPathway, TranslationKey } from '../../types';
 
 // Define the props for the QuickLinkItem component.
 interface QuickLinkItemProps {
   to: string;
   icon: string;
-  labelKey: string;
+  labelKey: TranslationKey;
   bgColor: string; // e.g., 'bg-teal-500'
 }
 
@@ -37,9 +42,35 @@ const QuickLinkItem: React.FC<QuickLinkItemProps> = ({ to, icon, labelKey, bgCol
   );
 }
 
+/**
+ * A card that takes the user back to the pathway they were last working on.
+ * @param {object} props - The component props.
+ * @param {SavedPathway} props.pathway - The pathway to continue.
+ */
+const ContinuePathwayCard: React.FC<{ pathway: SavedPathway }> = ({ pathway }) => {
+  const { translate } = useLanguage();
+  const percent = getCompletionPercent(pathway);
+  const nextStep = pathway.guidance.educationalPathway?.steps[getNextStepIndex(pathway)];
+  return (
+    <Card title={translate('continueWhereLeftOff')} className="!bg-teal-50">
+      <h3 className="text-xl font-semibold text-gray-800 mb-2">{pathway.title}</h3>
+      <div className="flex items-center gap-3 mb-3">
+        <ProgressBar percent={percent} />
+        <span className="text-sm font-semibold text-teal-700 whitespace-nowrap">{percent}% {translate('completed')}</span>
+      </div>
+      {nextStep && <p className="text-gray-600 mb-4"><strong>{translate('upNext')}:</strong> {nextStep.stepTitle}</p>}
+      <ReactRouterDOM.Link to={`${APP_ROUTES.SMART_PATHWAY}?pathway=${encodeURIComponent(pathway.id)}`} className="text-teal-600 hover:text-teal-700 font-semibold">
+        {translate('continuePathway')} <i className="fas fa-arrow-right text-xs ml-1"></i>
+      </ReactRouterDOM.Link>
+    </Card>
+  );
+};
+
 const HomeScreen: React.FC = () => {
   const { translate } = useLanguage();
   const { user } = useAuth();
+  const { savedPathways } = useSavedPathways();
+  const pathwayToContinue = getPathwayToContinue(savedPathways);
 
   // An array defining the quick links to be displayed on the dashboard.
   const quickLinks: QuickLinkItemProps[] = [
@@ -53,10 +84,13 @@ const HomeScreen: React.FC = () => {
     <div className="space-y-8">
       {/* Personalized welcome message for the user. */}
       <SectionTitle 
-        title={`${translate('welcomeToFemmora').split(' ')[0]} ${user?.name?.split(' ')[0] || 'User'}!`} 
+        title={translate('welcomeUser', { name: user?.name?.split(' ')[0] || 'User' })} 
         subtitle={translate('appTagline')} 
       />
 
+      {/* The unfinished pathway the user worked on most recently, if any. */}
+      {pathwayToContinue && <ContinuePathwayCard pathway={pathwayToContinue} />}
+
       {/* Grid of quick links to major features. */}
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
         {quickLinks.map(link => (
@@ -3,125 +3,77 @@
  * @description This screen helps users discover digital apps and websites based on their goals.
  * It uses the Gemini AI to generate recommendations in a structured JSON format and then
  * provides a chat interface for users to ask follow-up questions about the recommendations.
+ * Conversations are saved once the user asks something, and a saved one is resumed with
+ * the `?conversation=<id>` query parameter.
  */
 
-import React, { useState, useRef, useEffect } from 'react';
-import { GoogleGenAI, GenerateContentResponse, Chat } from "@google/genai";
+import React, { useState, useEffect } from 'react';
+import * as ReactRouterDOM from 'react-router-dom';
 import { useLanguage } from '../../contexts/LanguageContext';
-import { Language, AppRecommendation, ChatMessage } from '../../types';
+import { useAiService } from '../../contexts/AiServiceContext';
+import { useConversations } from '../../contexts/ConversationsContext';
+import { useUserProfile } from '../../contexts/UserProfileContext';
+import { useChatSession } from '../../hooks/useChatSession';
+import { getAiErrorMessageKey } from '../../services/aiService';
+import { getPromptLanguage, PromptLanguage } from '../../services/aiLanguage';
+import { parseAppRecommendations, RECOMMENDATION_PARSE_ERROR_NAME } from '../../parsers/appRecommendationsParser';
+import { AppRecommendation, ConversationSetup } from '../../types';
 import SectionTitle from '../../components/common/SectionTitle';
 import Input from '../../components/common/Input';
 import Button from '../../components/common/Button';
 import Card from '../../components/common/Card';
 import AppRecommendationCard from '../../components/digitalLearning/AppRecommendationCard';
+import ChatPanel from '../../components/chat/ChatPanel';
+import ProfilePrefillNote from '../../components/profile/ProfilePrefillNote';
 
 const LearnToUseAppsScreen: React.FC = () => {
   const { translate, language } = useLanguage();
-  // State for the user's goal input
-  const [goal, setGoal] = useState('');
+  const { aiService, isAiConfigured } = useAiService();
+  const { getConversation, conversations } = useConversations();
+  const [searchParams, setSearchParams] = ReactRouterDOM.useSearchParams();
+  const openConversationId = searchParams.get('conversation'); // The saved conversation to resume, if any
+  const { profile } = useUserProfile();
+  // State for the user's goal input, pre-filled with the interests from the user's profile
+  const [goal, setGoal] = useState(() => profile.interests.join(', '));
   // State for the AI-generated recommendations
   const [recommendations, setRecommendations] = useState<AppRecommendation[]>([]);
   // State for loading and error handling during recommendation generation
   const [isLoadingRecommendations, setIsLoadingRecommendations] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // State for the follow-up chat
-  const [chatSession, setChatSession] = useState<Chat | null>(null);
-  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
-  const [chatInput, setChatInput] = useState('');
-  const [isChatAssistantLoading, setIsChatAssistantLoading] = useState(false);
-  const chatContainerRef = useRef<HTMLDivElement>(null); // To auto-scroll chat window
+  // The follow-up chat. A new conversation is put in the URL, so a refresh resumes it.
+  const chat = useChatSession({
+    feature: 'learnToUseApps',
+    temperature: 'friendly',
+    onConversationSaved: (id) => setSearchParams({ conversation: id }, { replace: true }),
+  });
 
-  // --- Gemini AI Initialization ---
-  const apiKey = process.env.API_KEY;
-   if (!apiKey) {
-    console.error("API_KEY environment variable is not set. Gemini API calls will fail.");
-  }
-  const ai = new GoogleGenAI({ apiKey: apiKey || "MISSING_API_KEY" });
-
-  // Effect to scroll chat to the bottom on new messages
+  // Effect to resume a saved conversation, showing the recommendations it was about.
   useEffect(() => {
-    if (chatContainerRef.current) {
-      chatContainerRef.current.scrollTop = chatContainerRef.current.scrollHeight;
-    }
-  }, [chatMessages]);
-
-  /**
-   * Parses the raw text response from the Gemini API into an array of `AppRecommendation` objects.
-   * It handles responses that might be wrapped in JSON markdown fences.
-   * @param {string} responseText - The raw string response from the AI.
-   * @returns {AppRecommendation[]} An array of parsed recommendations.
-   */
-  const parseRecommendations = (responseText: string): AppRecommendation[] => {
-    try {
-      let jsonStr = responseText.trim();
-      // Remove markdown fences (```json ... ```) if they exist.
-      const fenceRegex = /^```(?:json)?\s*\n?(.*?)\n?\s*```$/s;
-      const match = jsonStr.match(fenceRegex);
-      if (match && match[1]) {
-        jsonStr = match[1].trim();
-      }
-      
-      const parsedData = JSON.parse(jsonStr);
-
-      // Ensure the parsed data is an array and map it to our AppRecommendation type.
-      if (Array.isArray(parsedData)) {
-        return parsedData.map((item: any, index: number) => ({
-          id: item.id || `${Date.now()}-${index}`,
-          name: item.name || 'Unnamed App/Website',
-          usage: item.usage || 'No usage description provided.',
-          howToUseVideoLink: item.howToUseVideoLink,
-          howToUseText: item.howToUseText,
-          officialLink: item.officialLink || '#',
-          benefits: Array.isArray(item.benefits) ? item.benefits : [],
-          safetyTips: Array.isArray(item.safetyTips) ? item.safetyTips : [],
-          rawResponse: process.env.NODE_ENV === 'development' ? JSON.stringify(item, null, 2) : undefined
-        }));
-      }
-      // Handle cases where a single object is returned instead of an array.
-      if (typeof parsedData === 'object' && parsedData !== null && parsedData.name) {
-         return [{
-          id: parsedData.id || `${Date.now()}-0`,
-          name: parsedData.name,
-          usage: parsedData.usage || 'No usage description provided.',
-          howToUseVideoLink: parsedData.howToUseVideoLink,
-          howToUseText: parsedData.howToUseText,
-          officialLink: parsedData.officialLink || '#',
-          benefits: Array.isArray(parsedData.benefits) ? parsedData.benefits : [],
-          safetyTips: Array.isArray(parsedData.safetyTips) ? parsedData.safetyTips : [],
-          rawResponse: process.env.NODE_ENV === 'development' ? JSON.stringify(parsedData, null, 2) : undefined
-        }];
-      }
-      console.warn('Parsed data is not an array or a single valid object:', parsedData);
-      return [];
-    } catch (e: any) {
-      console.error('Failed to parse JSON response:\n' + e.message + '\n\nRaw Text:\n' + responseText);
-      // If parsing fails but the text contains expected fields, show a partial error.
-      if (responseText.includes('"name":')) {
-         return [{
-             id: `${Date.now()}-error`,
-             name: "Error Parsing Recommendation",
-             usage: "Could not fully parse the AI response. Displaying raw data if available.",
-             officialLink: "#",
-             benefits: [],
-             rawResponse: responseText
-         }];
-      }
-      return [];
+    if (!openConversationId || openConversationId === chat.conversationId) return;
+    const savedConversation = getConversation(openConversationId);
+    if (!savedConversation || savedConversation.context.feature !== 'learnToUseApps') {
+      if (conversations.length > 0) setError(translate('conversationNotFound'));
+      return;
     }
-  };
+    const { context } = savedConversation;
+    setGoal(context.goal);
+    setRecommendations(context.recommendations);
+    setError(null);
+    chat.resumeChat(savedConversation);
+  }, [openConversationId, conversations]);
 
   /**
    * Generates the system instruction for the AI to get app recommendations.
    * This prompt defines the AI's persona, task, and the required JSON output format.
    * @param {string} currentGoal - The user's stated goal.
-   * @param {string} currentLanguage - The user's selected language.
+   * @param {PromptLanguage} currentLanguage - The user's selected language, as the prompts describe it.
    * @returns {string} The system instruction prompt.
    */
-  const getSystemInstructionForRecommendations = (currentGoal: string, currentLanguage: string) => `
+  const getSystemInstructionForRecommendations = (currentGoal: string, currentLanguage: PromptLanguage) => `
 You are an intelligent digital assistant for the Femmora app. Your mission is to help underprivileged women and girls in India (ages 5-60) explore the internet, apps, and platforms for learning, working, growing, and staying safe. You guide them based on their stated interest or goal.
 Assume a beginner level of digital literacy for the user. Explain things very simply.
-The user's preferred language is ${currentLanguage}. ALL text you generate, including all string values within the JSON, MUST be in ${currentLanguage}.
+The user's preferred language is ${currentLanguage.name}. ALL text you generate, including all string values within the JSON, MUST be in ${currentLanguage.name}. ${currentLanguage.instruction}
 
 The user's current goal/interest is: "${currentGoal}".
 
@@ -133,7 +85,7 @@ If the user's goal is vague (e.g., "I don't know," "anything," "help me," or emp
 5. Build confidence
 
 OUTPUT FORMAT:
-For EACH app/website recommendation, you MUST provide the information in a VALID JSON format. Output a JSON array of recommendation objects. Each object in the array MUST have these exact keys with values in ${currentLanguage}:
+For EACH app/website recommendation, you MUST provide the information in a VALID JSON format. Output a JSON array of recommendation objects. Each object in the array MUST have these exact keys with values in ${currentLanguage.name}:
 - "name": (string) The official name of the app or website.
 - "usage": (string) A simple, one-sentence description of what it is used for.
 - "howToUseVideoLink": (string, optional) A publicly accessible YouTube video URL showing how to use the app/website. Prioritize providing this. If not available or not applicable, omit this key or set to null.
@@ -142,7 +94,7 @@ For EACH app/website recommendation, you MUST provide the information in a VALID
 - "benefits": (array of strings) 2-4 key benefits in simple bullet points.
 - "safetyTips": (array of strings, optional) 1-2 crucial safety tips if relevant (e.g., for social media, financial apps).
 
-EXAMPLE OF ONE OBJECT IN THE JSON ARRAY (Content must be in ${currentLanguage}):
+EXAMPLE OF ONE OBJECT IN THE JSON ARRAY (Content must be in ${currentLanguage.name}):
 {
   "name": "Duolingo",
   "usage": "Use it to practice English daily in a fun way.",
@@ -157,7 +109,7 @@ IMPORTANT INSTRUCTIONS:
 - Generate 4 to 6 relevant app/website recommendations based on the user's goal (or the trending topics if the goal is vague).
 - Prioritize safe, verified, and free or very low-cost apps/websites.
 - Keep all descriptions, benefits, and tips extremely simple, clear, and easy to understand, suitable for users with low literacy or who are first-time app users.
-- ALL string values within the JSON output must be in ${currentLanguage}.
+- ALL string values within the JSON output must be in ${currentLanguage.name}.
 - Only output the JSON array. Do NOT include any text before or after the JSON array. Do NOT use markdown code fences (like \`\`\`json).
 - If the array contains multiple objects, ensure they are separated by a comma (,) ONLY. No other text or characters should be between the closing brace '}' of one object and the comma, or between the comma and the opening brace '{' of the next object. The entire response must be a single, valid JSON array.
 `;
@@ -166,13 +118,13 @@ IMPORTANT INSTRUCTIONS:
  * Generates the system instruction for the follow-up chat assistant.
  * This prompt gives the AI context about the recommendations it just provided.
  * @param {string} currentGoal - The user's original goal.
- * @param {string} currentLanguage - The user's selected language.
+ * @param {PromptLanguage} currentLanguage - The user's selected language, as the prompts describe it.
  * @param {string} appRecsString - The raw JSON string of recommendations previously sent.
  * @returns {string} The system instruction prompt for the chat.
  */
-const getSystemInstructionForChat = (currentGoal: string, currentLanguage: string, appRecsString: string) => `
+const getSystemInstructionForChat = (currentGoal: string, currentLanguage: PromptLanguage, appRecsString: string) => `
 You are a very friendly, patient, and helpful intelligent digital assistant for the Femmora app. Your role is to act like a kind digital guide or an elder sister.
-The user's preferred language is ${currentLanguage}. You MUST respond entirely in this language.
+The user's preferred language is ${currentLanguage.name}. You MUST respond entirely in this language. ${currentLanguage.instruction}
 The user initially asked for help with the goal: "${currentGoal}".
 You have already provided the following app/website recommendations (this was your previous JSON response):
 ${appRecsString}
@@ -209,70 +161,59 @@ Now, the user has follow-up questions. Your tasks are:
     setIsLoadingRecommendations(true);
     setError(null);
     setRecommendations([]);
-    setChatSession(null); // Reset chat session on new search
-    setChatMessages([]);   // Clear previous chat messages
+    chat.resetChat(); // Reset chat session on new search
+    if (openConversationId) setSearchParams({}, { replace: true }); // The screen no longer shows the resumed conversation
 
-    if (!apiKey || apiKey === "MISSING_API_KEY") {
-        setError(translate('aiError') + " (API Key is missing)");
+    if (!isAiConfigured) {
+        setError(translate('aiErrorMissingApiKey'));
         setIsLoadingRecommendations(false);
         return;
     }
     
-    const preferredLanguageString = language === Language.HI ? 'Hindi' : (language === Language.TA ? 'Tamil' : 'English (Simple)');
-    const systemInstructionForRecs = getSystemInstructionForRecommendations(goal, preferredLanguageString);
+    const promptLanguage = getPromptLanguage(language);
+    const systemInstructionForRecs = getSystemInstructionForRecommendations(goal, promptLanguage);
 
     try {
-      const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-preview-04-17',
-        contents: `User goal: "${goal}". Preferred language for response content: ${preferredLanguageString}.`,
-        config: {
-          systemInstruction: systemInstructionForRecs,
-          responseMimeType: "application/json",
-          temperature: 0.5,
-        }
+      const responseText = await aiService.generateText({
+        feature: 'learnToUseApps',
+        contents: `User goal: "${goal}". Preferred language for response content: ${promptLanguage.name}.`,
+        systemInstruction: systemInstructionForRecs,
+        responseMimeType: "application/json",
+        temperature: 'balanced',
+        language,
       });
-      
-      const responseText = response.text;
-      if (responseText) {
-        console.log("Raw AI Response (Recommendations):", responseText);
-        const parsedRecs = parseRecommendations(responseText);
-        if (parsedRecs.length > 0 && !(parsedRecs.length === 1 && parsedRecs[0].name === "Error Parsing Recommendation")) {
-          setRecommendations(parsedRecs);
-          // Initialize chat session after getting recommendations
-          const systemInstructionForChatAssistant = getSystemInstructionForChat(goal, preferredLanguageString, responseText);
-          const newChat = ai.chats.create({
-            model: 'gemini-2.5-flash-preview-04-17',
-            history: [
-              { role: 'user', parts: [{ text: `My goal is: "${goal}". Please give me app recommendations.` }] },
-              { role: 'model', parts: [{ text: responseText }] } // Provide context of the recommendations
-            ],
-            config: {
-              systemInstruction: systemInstructionForChatAssistant,
-              temperature: 0.6,
-            }
-          });
-          setChatSession(newChat);
-          // Add an initial message to chat UI
-           setChatMessages([{ sender: 'ai', text: translate('appRecommendations') + ". " + translate('askFollowUpQuestions'), timestamp: new Date() }]);
 
-        } else {
-           if (parsedRecs.length === 1 && parsedRecs[0].name === "Error Parsing Recommendation") {
-              setError(translate('aiError') + " (Could not parse AI response)");
-           } else {
-             setError(translate('noSuggestionsFound'));
-           }
-          // For debugging, show raw response if parsing fails in dev environment
-          if (process.env.NODE_ENV === 'development' && responseText && !(parsedRecs.length === 1 && parsedRecs[0].name === "Error Parsing Recommendation")) {
-             setRecommendations([{ id: 'debug-raw', name: 'Debug Info', usage: 'Failed to parse or no valid recommendations. Raw response below.', officialLink:'#', benefits: [], rawResponse: responseText}]);
-          }
-        }
+      console.log("Raw AI Response (Recommendations):", responseText);
+      const parsedRecs = parseAppRecommendations(responseText, { idPrefix: `${Date.now()}`, includeItemJson: process.env.NODE_ENV === 'development' });
+      if (parsedRecs.length > 0 && !(parsedRecs.length === 1 && parsedRecs[0].name === RECOMMENDATION_PARSE_ERROR_NAME)) {
+        setRecommendations(parsedRecs);
+        // Initialize chat session after getting recommendations
+        const setup: ConversationSetup = {
+          title: goal,
+          language,
+          systemInstruction: getSystemInstructionForChat(goal, promptLanguage, responseText),
+          contextTurns: [
+            { role: 'user', text: `My goal is: "${goal}". Please give me app recommendations.` },
+            { role: 'model', text: responseText } // Provide context of the recommendations
+          ],
+          context: { feature: 'learnToUseApps', goal, recommendations: parsedRecs },
+        };
+        // Add an initial message to chat UI (shown only, the AI never saw it)
+        chat.startChat(setup, [{ sender: 'ai', text: translate('appRecommendations') + ". " + translate('askFollowUpQuestions'), timestamp: new Date(), isIntro: true }]);
+
       } else {
-        setError(translate('noSuggestionsFound'));
-        console.warn("AI response text is empty for recommendations.");
+         if (parsedRecs.length === 1 && parsedRecs[0].name === RECOMMENDATION_PARSE_ERROR_NAME) {
+            setError(translate('aiError') + " (Could not parse AI response)");
+         } else {
+           setError(translate('noSuggestionsFound'));
+         }
+        // For debugging, show raw response if parsing fails in dev environment
+        if (process.env.NODE_ENV === 'development' && !(parsedRecs.length === 1 && parsedRecs[0].name === RECOMMENDATION_PARSE_ERROR_NAME)) {
+           setRecommendations([{ id: 'debug-raw', name: 'Debug Info', usage: 'Failed to parse or no valid recommendations. Raw response below.', officialLink:'#', benefits: [], rawResponse: responseText}]);
+        }
       }
     } catch (apiError: any) {
-      console.error("Gemini API error (Recommendations):", apiError);
-      setError(`${translate('aiError')} ${apiError.message ? `(${apiError.message})` : ''}`);
+      setError(translate(getAiErrorMessageKey(apiError)));
        if (process.env.NODE_ENV === 'development' && apiError.message) {
           setRecommendations([{ id: 'debug-apierror', name: 'API Error', usage: apiError.message, officialLink:'#', benefits: []}]);
        }
@@ -281,41 +222,6 @@ Now, the user has follow-up questions. Your tasks are:
     }
   };
 
-  /**
-   * Handles the submission of a message in the follow-up chat.
-   * @param {React.FormEvent} e - The form submission event.
-   */
-  const handleChatSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!chatInput.trim() || !chatSession || isChatAssistantLoading) return;
-
-    const userMessage: ChatMessage = { sender: 'user', text: chatInput, timestamp: new Date() };
-    setChatMessages(prev => [...prev, userMessage]);
-    const currentChatInput = chatInput;
-    setChatInput('');
-    setIsChatAssistantLoading(true);
-
-    try {
-      const response = await chatSession.sendMessage({message: currentChatInput});
-      const aiMessageText = response.text;
-
-      if (aiMessageText) {
-        const aiMessage: ChatMessage = { sender: 'ai', text: aiMessageText, timestamp: new Date() };
-        setChatMessages(prev => [...prev, aiMessage]);
-      } else {
-        const aiMessage: ChatMessage = { sender: 'ai', text: translate('aiError') + " (Empty response)", timestamp: new Date() };
-        setChatMessages(prev => [...prev, aiMessage]);
-      }
-    } catch (chatApiError: any) {
-      console.error("Gemini Chat API error:", chatApiError);
-      const errorMessage: ChatMessage = { sender: 'ai', text: `${translate('aiError')} (${chatApiError.message || 'Unknown chat error'})`, timestamp: new Date() };
-      setChatMessages(prev => [...prev, errorMessage]);
-    } finally {
-      setIsChatAssistantLoading(false);
-    }
-  };
-
-
   return (
     <div className="max-w-4xl mx-auto">
       <SectionTitle 
@@ -325,6 +231,7 @@ Now, the user has follow-up questions. Your tasks are:
 
       {/* --- Main Form for User Goal --- */}
       <Card className="mb-8 p-6 shadow-xl">
+        {profile.interests.length > 0 && !openConversationId && <ProfilePrefillNote />}
         <form onSubmit={handleRecommendationSubmit} className="space-y-4">
           <Input
             id="goalInput"
@@ -338,7 +245,7 @@ Now, the user has follow-up questions. Your tasks are:
           <p id="goal-description" className="text-sm text-gray-500">
             Tell us what you want to achieve or learn online.
           </p>
-          <Button type="submit" disabled={isLoadingRecommendations || !apiKey || apiKey === "MISSING_API_KEY"} fullWidth size="lg">
+          <Button type="submit" disabled={isLoadingRecommendations || !isAiConfigured} fullWidth size="lg">
             {isLoadingRecommendations ? (
               <>
                 <i className="fas fa-spinner fa-spin mr-2"></i>
@@ -351,7 +258,7 @@ Now, the user has follow-up questions. Your tasks are:
               </>
             )}
           </Button>
-          {(!apiKey || apiKey === "MISSING_API_KEY") && <p role="alert" className="text-red-500 text-sm text-center mt-2">API Key is missing. Suggestions are disabled.</p>}
+          {!isAiConfigured && <p role="alert" className="text-red-500 text-sm text-center mt-2">{translate('aiErrorMissingApiKey')}</p>}
         </form>
       </Card>
 
@@ -381,7 +288,7 @@ Now, the user has follow-up questions. Your tasks are:
           </div>
         </div>
       )}
-       {!isLoadingRecommendations && !error && recommendations.length === 0 && goal !== '' && !chatMessages.find(m => m.sender ==='ai' && m.text.startsWith(translate('appRecommendations'))) && ( // Check if initial AI message already shown
+       {!isLoadingRecommendations && !error && recommendations.length === 0 && goal !== '' && !chat.messages.find(m => m.sender ==='ai' && m.text.startsWith(translate('appRecommendations'))) && ( // Check if initial AI message already shown
          <Card className="p-6 text-center">
             <i className="fas fa-info-circle text-3xl text-gray-400 mb-3"></i>
             <p className="text-gray-600">{translate('noSuggestionsFound')}</p>
@@ -389,63 +296,15 @@ Now, the user has follow-up questions. Your tasks are:
        )}
 
       {/* --- Chat Assistant Section --- */}
-      {chatSession && recommendations.length > 0 && !(recommendations.length === 1 && recommendations[0].name === "Error Parsing Recommendation") && (
-        <Card className="mt-10 pt-6 shadow-xl">
-           <h2 className="text-2xl font-semibold text-teal-700 mb-1 px-6">{translate('chatWithAssistant')}</h2>
-           <p className="text-sm text-gray-500 mb-4 px-6">{translate('askAboutApps')}</p>
-          <div 
-            ref={chatContainerRef} 
-            className="h-80 overflow-y-auto mb-4 p-4 border-t border-b border-gray-200 bg-gray-50 space-y-3"
-            aria-live="polite"
-          >
-            {chatMessages.map((msg, index) => (
-              <div key={index} className={`flex ${msg.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
-                <div 
-                    className={`max-w-lg lg:max-w-xl px-4 py-2 rounded-xl shadow-md ${
-                        msg.sender === 'user' ? 'bg-teal-500 text-white' : 'bg-white text-gray-800 border border-gray-200'
-                    }`}
-                >
-                  <p className="whitespace-pre-wrap text-sm">{msg.text}</p>
-                  {msg.timestamp && (
-                    <p className={`text-xs mt-1 ${msg.sender === 'user' ? 'text-teal-100 text-right' : 'text-gray-400 text-left'}`}>
-                      {msg.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                    </p>
-                  )}
-                </div>
-              </div>
-            ))}
-            {isChatAssistantLoading && (
-              <div className="flex justify-start">
-                <div className="max-w-xs p-3 rounded-lg shadow bg-white text-gray-800 border border-gray-200">
-                  <i className="fas fa-spinner fa-spin mr-2 text-teal-500"></i>
-                  <span className="text-sm">{translate('aiTyping')}</span>
-                </div>
-              </div>
-            )}
-          </div>
-          <form onSubmit={handleChatSubmit} className="flex gap-3 p-4 pt-0">
-            <Input
-              type="text"
-              value={chatInput}
-              onChange={(e) => setChatInput(e.target.value)}
-              placeholder={translate('typeYourQuestion')}
-              className="flex-grow !mb-0 text-sm"
-              wrapperClassName="flex-grow !mb-0"
-              disabled={isChatAssistantLoading || !apiKey || apiKey === "MISSING_API_KEY"}
-              aria-label={translate('typeYourQuestion')}
-            />
-            <Button 
-                type="submit" 
-                disabled={isChatAssistantLoading || !chatInput.trim() || !apiKey || apiKey === "MISSING_API_KEY"}
-                aria-label={translate('send')}
-                className="px-4"
-            >
-              <i className="fas fa-paper-plane"></i>
-              <span className="sr-only">{translate('send')}</span>
-            </Button>
-          </form>
-           {(!apiKey || apiKey === "MISSING_API_KEY") && <p role="alert" className="text-red-500 text-xs text-center pb-2 px-4">API Key is missing. Chat assistant is disabled.</p>}
-        </Card>
+      {chat.messages.length > 0 && recommendations.length > 0 && !(recommendations.length === 1 && recommendations[0].name === "Error Parsing Recommendation") && (
+        <ChatPanel
+          chat={chat}
+          title={translate('chatWithAssistant')}
+          subtitle={translate('askAboutApps')}
+          placeholder={translate('typeYourQuestion')}
+          suggestions={[translate('appsSuggestion1'), translate('appsSuggestion2'), translate('appsSuggestion3')]}
+          disabled={isLoadingRecommendations}
+        />
       )}
     </div>
   );
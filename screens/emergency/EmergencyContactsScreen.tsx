@@ -0,0 +1,207 @@
+/**
+ * @file EmergencyContactsScreen.tsx
+ * @description This screen lists the numbers to call in an emergency: the national helplines,
+ * the extra helplines of the user's state, and the user's own trusted contacts, which can be
+ * added (name, relation and phone) and removed here. Every number is called through a `tel:`
+ * link, which opens the phone's dialler. The SOS alerts the user sent and their safety log
+ * (crisis signs found in chat messages, and the helplines called from the chat) are listed at the end.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { useEmergencyContacts } from '../../contexts/EmergencyContactsContext';
+import { isValidPhoneNumber } from '../../services/emergencyContacts';
+import { loadSafetyLog } from '../../services/safetyLog';
+import { loadSosIncidents } from '../../services/sosIncidentLog';
+import { getMapLink } from '../../services/sosAlert';
+import { AiFeature } from '../../services/aiService';
+import { NATIONAL_HELPLINES, STATE_HELPLINES } from '../../data/emergencyContactsData';
+import SectionTitle from '../../components/common/SectionTitle';
+import Card from '../../components/common/Card';
+import Input from '../../components/common/Input';
+import Button from '../../components/common/Button';
+import EmergencyContactCard from '../../components/emergency/EmergencyContactCard';
+import { CrisisCategory, TranslationKey } from '../../types';
+
+// The label of each crisis category in the safety log.
+const CRISIS_CATEGORY_KEYS: Record<CrisisCategory, TranslationKey> = {
+  immediateDanger: 'crisisCategoryImmediateDanger',
+  selfHarm: 'crisisCategorySelfHarm',
+  abuse: 'crisisCategoryAbuse',
+};
+
+// The label of each chat a safety log entry can come from.
+const FEATURE_KEYS: Record<AiFeature, TranslationKey> = {
+  smartPathway: 'smartPathway',
+  womenAwareness: 'awarenessChatTitle',
+  learnToUseApps: 'learnToUseApps',
+};
+
+const EmergencyContactsScreen: React.FC = () => {
+  const { translate } = useLanguage();
+  const { user } = useAuth();
+  const sosIncidents = useMemo(() => (user ? loadSosIncidents(user.id) : []), [user]);
+  const safetyLog = useMemo(() => (user ? loadSafetyLog(user.id) : []), [user]);
+  const { trustedContacts, helplineState, stateHelplines, addTrustedContact, removeTrustedContact, setHelplineState } = useEmergencyContacts();
+  // State for the "add a trusted contact" form
+  const [name, setName] = useState('');
+  const [relation, setRelation] = useState('');
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [phoneError, setPhoneError] = useState<string | null>(null);
+
+  const handleAddContact = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    if (!isValidPhoneNumber(phoneNumber)) {
+      setPhoneError(translate('invalidPhoneNumber'));
+      return;
+    }
+    addTrustedContact(name, relation, phoneNumber);
+    setName('');
+    setRelation('');
+    setPhoneNumber('');
+    setPhoneError(null);
+  };
+
+  const handleRemoveContact = (id: string) => {
+    if (window.confirm(translate('confirmRemoveContact'))) removeTrustedContact(id);
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <SectionTitle title={translate('emergencyContacts')} subtitle={translate('emergencyContactsSubtitle')} />
+
+      {/* --- Trusted Contacts --- */}
+      <section className="mb-10" aria-labelledby="trusted-contacts-title">
+        <h2 id="trusted-contacts-title" className="text-2xl font-semibold text-gray-800 mb-1">{translate('trustedContacts')}</h2>
+        <p className="text-gray-600 mb-4">{translate('trustedContactsSubtitle')}</p>
+        <div className="space-y-4">
+          {trustedContacts.length === 0 && (
+            <Card className="text-center">
+              <i className="fas fa-user-friends text-4xl text-gray-300 mb-3" aria-hidden="true"></i>
+              <p className="text-gray-600">{translate('noTrustedContacts')}</p>
+            </Card>
+          )}
+          {trustedContacts.map(contact => (
+            <EmergencyContactCard key={contact.id} contact={contact} onRemove={() => handleRemoveContact(contact.id)} />
+          ))}
+          <Card>
+            <h3 className="text-lg font-semibold text-teal-700 mb-4">{translate('addTrustedContact')}</h3>
+            <form onSubmit={handleAddContact} className="grid grid-cols-1 sm:grid-cols-3 gap-x-4">
+              <Input id="contactName" label={translate('contactName')} value={name} onChange={e => setName(e.target.value)} required />
+              <Input id="contactRelation" label={translate('contactRelation')} value={relation} onChange={e => setRelation(e.target.value)} placeholder={translate('contactRelationPlaceholder')} />
+              <Input
+                id="contactPhone"
+                label={translate('contactPhone')}
+                type="tel"
+                inputMode="tel"
+                value={phoneNumber}
+                onChange={e => { setPhoneNumber(e.target.value); setPhoneError(null); }}
+                error={phoneError ?? undefined}
+                required
+              />
+              <div className="sm:col-span-3">
+                <Button type="submit" leftIcon={<i className="fas fa-user-plus"></i>}>{translate('addTrustedContact')}</Button>
+              </div>
+            </form>
+          </Card>
+        </div>
+      </section>
+
+      {/* --- National Helplines --- */}
+      <section className="mb-10" aria-labelledby="national-helplines-title">
+        <h2 id="national-helplines-title" className="text-2xl font-semibold text-gray-800 mb-4">{translate('nationalHelplines')}</h2>
+        <div className="space-y-4">
+          {NATIONAL_HELPLINES.map(contact => (
+            <EmergencyContactCard key={contact.id} contact={contact} />
+          ))}
+        </div>
+      </section>
+
+      {/* --- State Helplines --- */}
+      <section aria-labelledby="state-helplines-title">
+        <h2 id="state-helplines-title" className="text-2xl font-semibold text-gray-800 mb-4">{translate('stateHelplines')}</h2>
+        <label htmlFor="helplineState" className="block text-sm font-medium text-gray-700 mb-1">{translate('selectYourState')}</label>
+        <select
+          id="helplineState"
+          value={helplineState ?? ''}
+          onChange={(e) => setHelplineState(e.target.value || undefined)}
+          className="w-full sm:w-80 p-3 mb-4 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-teal-500 bg-white text-gray-800"
+        >
+          <option value="">{translate('noStateSelected')}</option>
+          {Object.keys(STATE_HELPLINES).map(state => (
+            <option key={state} value={state}>{state}</option>
+          ))}
+        </select>
+        <div className="space-y-4">
+          {stateHelplines.map(contact => (
+            <EmergencyContactCard key={contact.id} contact={contact} />
+          ))}
+        </div>
+        <p className="text-sm text-gray-500 mt-4">{translate('stateHelplinesNote')}</p>
+      </section>
+
+      {/* --- SOS Alerts --- */}
+      <section className="mt-10" aria-labelledby="sos-incidents-title">
+        <h2 id="sos-incidents-title" className="text-2xl font-semibold text-gray-800 mb-1">{translate('sosIncidents')}</h2>
+        <p className="text-gray-600 mb-4">{translate('sosIncidentsSubtitle')}</p>
+        {sosIncidents.length === 0 ? (
+          <p className="text-sm text-gray-500">{translate('noSosIncidents')}</p>
+        ) : (
+          <Card>
+            <ul className="divide-y divide-gray-100">
+              {sosIncidents.map(incident => (
+                <li key={incident.id} className="py-2">
+                  <p className="text-gray-800">
+                    <i className="fas fa-exclamation-circle text-red-600 mr-2" aria-hidden="true"></i>
+                    {new Date(incident.triggeredAt).toLocaleString()}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {translate('sosIncidentContacts', { count: incident.contactsAlerted })} ·{' '}
+                    {incident.location ? (
+                      <a href={getMapLink(incident.location)} target="_blank" rel="noopener noreferrer" className="text-teal-700 hover:underline">
+                        {translate('sosIncidentOnMap')}
+                      </a>
+                    ) : (
+                      translate('sosIncidentNoLocation')
+                    )}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          </Card>
+        )}
+      </section>
+
+      {/* --- Safety Log --- */}
+      <section className="mt-10" aria-labelledby="safety-log-title">
+        <h2 id="safety-log-title" className="text-2xl font-semibold text-gray-800 mb-1">{translate('safetyLog')}</h2>
+        <p className="text-gray-600 mb-4">{translate('safetyLogSubtitle')}</p>
+        {safetyLog.length === 0 ? (
+          <p className="text-sm text-gray-500">{translate('noSafetyLogEntries')}</p>
+        ) : (
+          <Card>
+            <ul className="divide-y divide-gray-100">
+              {safetyLog.map(entry => (
+                <li key={entry.id} className="py-2">
+                  <p className="text-gray-800">
+                    <i className={`fas ${entry.type === 'helplineCalled' ? 'fa-phone-alt' : 'fa-exclamation-triangle'} text-teal-600 mr-2`} aria-hidden="true"></i>
+                    {entry.type === 'helplineCalled'
+                      ? translate('safetyLogHelplineCalled', { number: entry.helplineNumber ?? '' })
+                      : translate('safetyLogCrisisDetected')}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(entry.timestamp).toLocaleString()} · {translate(CRISIS_CATEGORY_KEYS[entry.category])} · {translate(FEATURE_KEYS[entry.feature])}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          </Card>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default EmergencyContactsScreen;
@@ -0,0 +1,163 @@
+/**
+ * @file BeneficiariesScreen.tsx
+ * @description The field-worker screen of volunteers and NGO admins. Here they register the
+ * women they help (name, and optionally age, village and phone), see how far each one has come
+ * with her saved pathways, and start assisting one of them: the Smart Pathway and My Pathways
+ * screens then work on that beneficiary's pathways until assisting is stopped.
+ */
+
+import React, { useState } from 'react';
+import * as ReactRouterDOM from 'react-router-dom';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useBeneficiaries } from '../../contexts/BeneficiariesContext';
+import { isValidPhoneNumber } from '../../services/emergencyContacts';
+import { isValidProfileAge, MAX_PROFILE_AGE, MIN_PROFILE_AGE } from '../../services/userProfile';
+import { loadSavedPathways } from '../../services/pathwayStorage';
+import { getCompletionPercent } from '../../services/pathwayProgress';
+import { APP_ROUTES } from '../../constants';
+import SectionTitle from '../../components/common/SectionTitle';
+import Card from '../../components/common/Card';
+import Input from '../../components/common/Input';
+import Button from '../../components/common/Button';
+import { Beneficiary } from '../../types';
+
+/**
+ * Sums up the saved pathways of a beneficiary.
+ * @param {Beneficiary} beneficiary - The beneficiary.
+ * @returns {{ pathwayCount: number; averagePercent: number }} How many pathways she has, and their average completion.
+ */
+const getPathwaySummary = (beneficiary: Beneficiary) => {
+  const pathways = loadSavedPathways(beneficiary.id);
+  const totalPercent = pathways.reduce((sum, pathway) => sum + getCompletionPercent(pathway), 0);
+  return { pathwayCount: pathways.length, averagePercent: pathways.length > 0 ? Math.round(totalPercent / pathways.length) : 0 };
+};
+
+const BeneficiariesScreen: React.FC = () => {
+  const { translate } = useLanguage();
+  const { beneficiaries, addBeneficiary, removeBeneficiary, assistedBeneficiary, startAssisting } = useBeneficiaries();
+  const navigate = ReactRouterDOM.useNavigate();
+  // State for the "register a beneficiary" form
+  const [name, setName] = useState('');
+  const [age, setAge] = useState('');
+  const [village, setVillage] = useState('');
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [ageError, setAgeError] = useState<string | null>(null);
+  const [phoneError, setPhoneError] = useState<string | null>(null);
+
+  const handleRegister = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    const isAgeValid = isValidProfileAge(age);
+    const isPhoneValid = !phoneNumber.trim() || isValidPhoneNumber(phoneNumber);
+    setAgeError(isAgeValid ? null : translate('invalidProfileAge'));
+    setPhoneError(isPhoneValid ? null : translate('invalidPhoneNumber'));
+    if (!isAgeValid || !isPhoneValid) return;
+    addBeneficiary({
+      name,
+      age: age.trim() ? Number(age) : undefined,
+      village: village.trim() || undefined,
+      phone: phoneNumber.trim() || undefined,
+    });
+    setName('');
+    setAge('');
+    setVillage('');
+    setPhoneNumber('');
+  };
+
+  const handleAssist = (id: string) => {
+    startAssisting(id);
+    navigate(APP_ROUTES.SMART_PATHWAY);
+  };
+
+  const handleRemove = (id: string) => {
+    if (window.confirm(translate('confirmRemoveBeneficiary'))) removeBeneficiary(id);
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <SectionTitle title={translate('beneficiaries')} subtitle={translate('beneficiariesSubtitle')} />
+
+      <section className="mb-10" aria-labelledby="beneficiary-list-title">
+        <h2 id="beneficiary-list-title" className="text-2xl font-semibold text-gray-800 mb-4">{translate('myBeneficiaries')}</h2>
+        <div className="space-y-4">
+          {beneficiaries.length === 0 && (
+            <Card className="text-center">
+              <i className="fas fa-hands-helping text-4xl text-gray-300 mb-3" aria-hidden="true"></i>
+              <p className="text-gray-600">{translate('noBeneficiaries')}</p>
+            </Card>
+          )}
+          {beneficiaries.map(beneficiary => {
+            const { pathwayCount, averagePercent } = getPathwaySummary(beneficiary);
+            const isAssisted = assistedBeneficiary?.id === beneficiary.id;
+            return (
+              <Card key={beneficiary.id} className={isAssisted ? 'ring-2 ring-indigo-400' : ''}>
+                <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+                  <div className="flex-grow">
+                    <h3 className="text-xl font-semibold text-teal-700">{beneficiary.name}</h3>
+                    <p className="text-gray-600">
+                      {[
+                        beneficiary.age !== undefined ? `${translate('age')}: ${beneficiary.age}` : null,
+                        beneficiary.village,
+                        beneficiary.phone,
+                      ].filter(Boolean).join(' · ')}
+                    </p>
+                    <p className="text-sm text-gray-500 mt-1">
+                      {translate('savedPathwaysCount', { count: pathwayCount })}
+                      {pathwayCount > 0 && <> · {translate('averageProgress', { percent: averagePercent })}</>}
+                    </p>
+                    {pathwayCount > 0 && (
+                      <div className="w-full bg-gray-200 rounded-full h-2 mt-2" role="progressbar" aria-valuenow={averagePercent} aria-valuemin={0} aria-valuemax={100}>
+                        <div className="bg-teal-600 h-2 rounded-full" style={{ width: `${averagePercent}%` }}></div>
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button size="sm" onClick={() => handleAssist(beneficiary.id)} disabled={isAssisted} leftIcon={<i className="fas fa-hands-helping"></i>}>
+                      {translate(isAssisted ? 'assisting' : 'assist')}
+                    </Button>
+                    <Button size="sm" variant="danger" onClick={() => handleRemove(beneficiary.id)} aria-label={`${translate('removeBeneficiary')}: ${beneficiary.name}`}>
+                      <i className="fas fa-trash-alt" aria-hidden="true"></i>
+                    </Button>
+                  </div>
+                </div>
+              </Card>
+            );
+          })}
+        </div>
+      </section>
+
+      <Card>
+        <h3 className="text-lg font-semibold text-teal-700 mb-4">{translate('registerBeneficiary')}</h3>
+        <form onSubmit={handleRegister} className="grid grid-cols-1 sm:grid-cols-2 gap-x-4">
+          <Input id="beneficiaryName" label={translate('name')} value={name} onChange={e => setName(e.target.value)} required />
+          <Input
+            id="beneficiaryAge"
+            label={translate('age')}
+            type="number"
+            inputMode="numeric"
+            min={MIN_PROFILE_AGE}
+            max={MAX_PROFILE_AGE}
+            value={age}
+            onChange={e => { setAge(e.target.value); setAgeError(null); }}
+            error={ageError ?? undefined}
+          />
+          <Input id="beneficiaryVillage" label={translate('villageOrTown')} value={village} onChange={e => setVillage(e.target.value)} />
+          <Input
+            id="beneficiaryPhone"
+            label={translate('phoneOptional')}
+            type="tel"
+            inputMode="tel"
+            value={phoneNumber}
+            onChange={e => { setPhoneNumber(e.target.value); setPhoneError(null); }}
+            error={phoneError ?? undefined}
+          />
+          <div className="sm:col-span-2">
+            <Button type="submit" leftIcon={<i className="fas fa-user-plus"></i>}>{translate('registerBeneficiary')}</Button>
+          </div>
+        </form>
+      </Card>
+    </div>
+  );
+};
+
+export default BeneficiariesScreen;
@@ -3,18 +3,22 @@
  * @description A fun and interactive quiz game screen.
  * It presents users with batches of multiple-choice questions from various categories.
  * The component manages the quiz state, tracks the user's score, and uses
- * localStorage to ensure that users don't see the same questions repeatedly
- * until all unique questions have been attempted.
+ * the encrypted storage to ensure that users don't see the same questions repeatedly
+ * until all unique questions have been attempted. Each question and its answers can be read aloud;
+ * the questions are in English.
  */
 import React, { useState, useEffect, useCallback } from 'react';
 import { useLanguage } from '../../contexts/LanguageContext';
-import { QuizQuestion, QuizAnswerOption } from '../../types';
+import { useAuth } from '../../contexts/AuthContext';
+import { secureStorage } from '../../services/secureStorage';
+import { Language, QuizQuestion, QuizAnswerOption } from '../../types';
 import SectionTitle from '../../components/common/SectionTitle';
 import Button from '../../components/common/Button';
 import Card from '../../components/common/Card';
+import ReadAloudControls from '../../components/common/ReadAloudControls';
 
-// Key for storing seen question IDs in localStorage.
-const SEEN_QUESTIONS_STORAGE_KEY = 'femmoraSeenQuizQuestions';
+// Key for storing seen question IDs in the encrypted storage. Every user has their own progress.
+const seenQuestionsStorageKey = (userId: string) => `femmoraSeenQuizQuestions_${userId}`;
 // Number of questions to present in each quiz batch.
 const QUESTIONS_PER_BATCH = 5;
 
@@ -154,6 +158,8 @@ const allMockQuestions: QuizQuestion[] = [
 
 const BrainQuizzesScreen: React.FC = () => {
   const { translate } = useLanguage();
+  const { user } = useAuth();
+  const seenQuestionsKey = seenQuestionsStorageKey(user?.id ?? '');
   const [quizState, setQuizState] = useState<'idle' | 'active' | 'finished'>('idle');
   const [currentQuestions, setCurrentQuestions] = useState<QuizQuestion[]>([]);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
@@ -164,12 +170,12 @@ const BrainQuizzesScreen: React.FC = () => {
   const getUnseenQuestions = useCallback((): QuizQuestion[] => {
     let seenIds: string[] = [];
     try {
-      const stored = localStorage.getItem(SEEN_QUESTIONS_STORAGE_KEY);
+      const stored = secureStorage.getItem(seenQuestionsKey);
       if (stored) {
         seenIds = JSON.parse(stored);
       }
     } catch (e) {
-      console.error("Failed to parse seen questions from localStorage", e);
+      console.error("Failed to parse seen questions from storage", e);
       seenIds = [];
     }
 
@@ -177,11 +183,11 @@ const BrainQuizzesScreen: React.FC = () => {
     
     if (unseen.length < QUESTIONS_PER_BATCH) {
       // Not enough unseen questions, reset the seen list.
-      localStorage.removeItem(SEEN_QUESTIONS_STORAGE_KEY);
+      secureStorage.removeItem(seenQuestionsKey);
       return allMockQuestions;
     }
     return unseen;
-  }, []);
+  }, [seenQuestionsKey]);
 
   const startNewQuiz = useCallback(() => {
     const unseenQuestions = getUnseenQuestions();
@@ -214,13 +220,13 @@ const BrainQuizzesScreen: React.FC = () => {
   };
 
   const handleNextQuestion = () => {
-    // Add the current question to the seen list in localStorage
-    const seenIdsStr = localStorage.getItem(SEEN_QUESTIONS_STORAGE_KEY);
+    // Add the current question to the seen list in storage
+    const seenIdsStr = secureStorage.getItem(seenQuestionsKey);
     const seenIds = seenIdsStr ? JSON.parse(seenIdsStr) : [];
     const currentQuestionId = currentQuestions[currentQuestionIndex].id;
     if (!seenIds.includes(currentQuestionId)) {
       seenIds.push(currentQuestionId);
-      localStorage.setItem(SEEN_QUESTIONS_STORAGE_KEY, JSON.stringify(seenIds));
+      secureStorage.setItem(seenQuestionsKey, JSON.stringify(seenIds));
     }
 
     if (currentQuestionIndex < currentQuestions.length - 1) {
@@ -276,7 +282,13 @@ const BrainQuizzesScreen: React.FC = () => {
               <span className="font-semibold">{currentQuestion.category}</span>
               <span className="font-semibold">{translate('question')} {currentQuestionIndex + 1} {translate('of')} {currentQuestions.length}</span>
           </div>
-          <h3 className="text-2xl font-bold text-gray-800 mb-6 min-h-[6rem] flex items-center">{currentQuestion.questionText}</h3>
+          <h3 className="text-2xl font-bold text-gray-800 mb-3 min-h-[6rem] flex items-center">{currentQuestion.questionText}</h3>
+          <ReadAloudControls
+            key={currentQuestion.id}
+            text={[currentQuestion.questionText, ...currentQuestion.options.map(option => option.text)].join('\n')}
+            language={Language.EN}
+            className="mb-6"
+          />
           
           <div className="space-y-4 mb-6">
               {currentQuestion.options.map((option, index) => (
@@ -0,0 +1,124 @@
+/**
+ * @file ComparePathwaysScreen.tsx
+ * @description This screen shows two saved pathways side by side: first the details the user
+ * entered for each, then every guidance module of the two pathways next to each other.
+ * The pathways are chosen on the "My Pathways" screen and passed as `?a=<id>&b=<id>`.
+ */
+
+import React from 'react';
+import * as ReactRouterDOM from 'react-router-dom';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useSavedPathways } from '../../contexts/SavedPathwaysContext';
+import { PATHWAY_MODULE_KEYS } from '../../parsers/guidanceParser';
+import SectionTitle from '../../components/common/SectionTitle';
+import Card from '../../components/common/Card';
+import PathwayModuleView from '../../components/guidance/PathwayModuleView';
+import { APP_ROUTES, GUIDANCE_CATEGORIES } from '../../constants';
+import { PathwayFormInputs, SavedPathway, TranslationKey } from '../../types';
+
+// The form inputs shown in the comparison table, with the labels used on the Smart Pathway form.
+const INPUT_ROWS: { field: keyof PathwayFormInputs; labelKey: TranslationKey }[] = [
+  { field: 'category', labelKey: 'selectCategory' },
+  { field: 'educationLevel', labelKey: 'currentEducationLevel' },
+  { field: 'careerGoal', labelKey: 'careerGoal' },
+  { field: 'challenges', labelKey: 'challengesFaced' },
+  { field: 'skills', labelKey: 'skillsKnown' },
+  { field: 'interests', labelKey: 'interestsHobbies' },
+];
+
+/**
+ * The main component for comparing two saved pathways.
+ */
+const ComparePathwaysScreen: React.FC = () => {
+  const { translate } = useLanguage();
+  const { getPathway } = useSavedPathways();
+  const [searchParams] = ReactRouterDOM.useSearchParams();
+
+  const pathwayA = getPathway(searchParams.get('a') ?? '');
+  const pathwayB = getPathway(searchParams.get('b') ?? '');
+
+  const backLink = (
+    <ReactRouterDOM.Link to={APP_ROUTES.MY_PATHWAYS} className="text-teal-600 hover:text-teal-800 font-medium">
+      <i className="fas fa-arrow-left mr-2" aria-hidden="true"></i>{translate('backToMyPathways')}
+    </ReactRouterDOM.Link>
+  );
+
+  if (!pathwayA || !pathwayB) {
+    return (
+      <div className="max-w-4xl mx-auto">
+        <SectionTitle title={translate('comparePathways')} />
+        <Card className="bg-red-50 border-l-4 border-red-500 mb-6">
+          <p className="text-red-700 font-semibold">{translate('pathwayNotFound')}</p>
+        </Card>
+        {backLink}
+      </div>
+    );
+  }
+
+  /**
+   * Returns the value of one form input for display, translating the category id.
+   * @param {SavedPathway} pathway - The saved pathway.
+   * @param {keyof PathwayFormInputs} field - The form input.
+   * @returns {string} The display value, or '—' if it was left empty.
+   */
+  const formatInput = (pathway: SavedPathway, field: keyof PathwayFormInputs): string => {
+    const value = pathway.inputs[field];
+    if (field === 'category') {
+      const categoryObj = GUIDANCE_CATEGORIES.find(c => c.id === value);
+      return categoryObj ? translate(categoryObj.labelKey) : value;
+    }
+    return value.trim() || '—';
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      <SectionTitle title={translate('comparePathways')} />
+      <div className="mb-6">{backLink}</div>
+
+      {/* --- The Details Each Pathway Was Generated From --- */}
+      <Card title={translate('compareInputs')} className="mb-8">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className="py-2 pr-4"></th>
+                <th className="py-2 pr-4 text-teal-700">{pathwayA.title}</th>
+                <th className="py-2 text-teal-700">{pathwayB.title}</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="border-b border-gray-100">
+                <th scope="row" className="py-2 pr-4 font-medium text-gray-700">{translate('createdOn')}</th>
+                <td className="py-2 pr-4 text-gray-600">{new Date(pathwayA.createdAt).toLocaleString()}</td>
+                <td className="py-2 text-gray-600">{new Date(pathwayB.createdAt).toLocaleString()}</td>
+              </tr>
+              {INPUT_ROWS.map(({ field, labelKey }) => (
+                <tr key={field} className="border-b border-gray-100">
+                  <th scope="row" className="py-2 pr-4 font-medium text-gray-700">{translate(labelKey)}</th>
+                  <td className="py-2 pr-4 text-gray-600">{formatInput(pathwayA, field)}</td>
+                  <td className="py-2 text-gray-600">{formatInput(pathwayB, field)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      {/* --- The Modules of Both Pathways, Side by Side --- */}
+      <div className="space-y-8">
+        {PATHWAY_MODULE_KEYS.map(moduleKey => (
+          <div key={moduleKey} className="grid md:grid-cols-2 gap-6 items-start">
+            {[pathwayA, pathwayB].map(pathway => (
+              <div key={pathway.id} className="space-y-4 min-w-0">
+                <p className="text-sm font-semibold text-gray-500">{pathway.title}</p>
+                <PathwayModuleView guidance={pathway.guidance} module={moduleKey} language={pathway.language} />
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ComparePathwaysScreen;
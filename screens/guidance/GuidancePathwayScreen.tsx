@@ -4,289 +4,72 @@
  * It takes user inputs about their category, goals, and challenges, then uses the
  * Gemini AI to generate a comprehensive, multi-module guidance plan. It also
  * features a follow-up chat with the AI to discuss the generated pathway.
+ * Every generated pathway is saved to "My Pathways"; a saved pathway is re-opened
+ * here with the `?pathway=<id>` query parameter, together with its saved follow-up chat.
  */
 
 import React, { useState, useEffect, useRef } from 'react';
-import { GoogleGenAI, GenerateContentResponse, Chat } from "@google/genai"; // Added Chat
+import * as ReactRouterDOM from 'react-router-dom';
 import { useLanguage } from '../../contexts/LanguageContext';
+import { useAiService } from '../../contexts/AiServiceContext';
+import { useSavedPathways } from '../../contexts/SavedPathwaysContext';
+import { useConversations } from '../../contexts/ConversationsContext';
+import { useUserProfile } from '../../contexts/UserProfileContext';
+import { useChatSession } from '../../hooks/useChatSession';
+import { getAiErrorMessageKey } from '../../services/aiService';
+import { PATHWAY_RESPONSE_SCHEMA } from '../../services/pathwaySchema';
+import { PATHWAY_MODULE_KEYS, parsePathwayResponse } from '../../parsers/guidanceParser';
 import SectionTitle from '../../components/common/SectionTitle';
 import Card from '../../components/common/Card';
 import Input from '../../components/common/Input';
 import Button from '../../components/common/Button';
-import { GUIDANCE_CATEGORIES, UI_TEXT } from '../../constants';
+import PathwayModuleView, { PATHWAY_MODULE_TITLE_KEYS } from '../../components/guidance/PathwayModuleView';
+import PathwayProgressCard from '../../components/guidance/PathwayProgressCard';
+import ChatPanel from '../../components/chat/ChatPanel';
+import ProfilePrefillNote from '../../components/profile/ProfilePrefillNote';
+import { EMPTY_PROGRESS, toggleResource, toggleStep } from '../../services/pathwayProgress';
+import { getEducationLevel, getSuggestedGuidanceCategory } from '../../services/userProfile';
+import { translateText } from '../../services/i18n';
+import { getPromptLanguage } from '../../services/aiLanguage';
+import { APP_ROUTES, GUIDANCE_CATEGORIES } from '../../constants';
 import { 
   Language,
   GeneratedGuidance,
-  PathwayStep,
-  PathwayStepResource,
-  EducationalPathwayModule,
-  LifeAwarenessModule,
-  LifeAwarenessTopic,
-  LifeAwarenessGuidancePoint,
-  SchemeOrRightItem,
-  DigitalLearningTip,
-  MotivationalSupportModule,
-  ChatMessage // Added ChatMessage
+  PathwayFormInputs,
+  SavedPathway,
+  ConversationSetup
 } from '../../types'; 
 
 const GuidancePathwayScreen: React.FC = () => {
   const { translate, language } = useLanguage();
-  // State for user inputs in the form
-  const [category, setCategory] = useState<string>(GUIDANCE_CATEGORIES[0].id);
-  const [educationLevel, setEducationLevel] = useState('');
+  const { aiService, isAiConfigured } = useAiService();
+  const { savedPathways, getPathway, savePathway, updateProgress } = useSavedPathways();
+  const { findPathwayConversation } = useConversations();
+  const [searchParams, setSearchParams] = ReactRouterDOM.useSearchParams();
+  const openPathwayId = searchParams.get('pathway'); // The saved pathway to re-open, if any
+  const { profile } = useUserProfile();
+  const profileEducationLevel = getEducationLevel(profile);
+  const isPrefilledFromProfile = profileEducationLevel !== undefined || profile.interests.length > 0;
+  // State for user inputs in the form, pre-filled from the user's profile
+  const [category, setCategory] = useState<string>(() => getSuggestedGuidanceCategory(profile));
+  const [educationLevel, setEducationLevel] = useState(() => (profileEducationLevel ? translate(profileEducationLevel.labelKey) : ''));
   const [careerGoal, setCareerGoal] = useState('');
   const [challenges, setChallenges] = useState('');
   const [skills, setSkills] = useState('');
-  const [interests, setInterests] = useState('');
+  const [interests, setInterests] = useState(() => profile.interests.join(', '));
 
   // State for API interaction and data display
   const [isLoading, setIsLoading] = useState(false);
+  const generationControllerRef = useRef<AbortController | null>(null); // Stops the pathway being streamed
   const [error, setError] = useState<string | null>(null);
   const [generatedGuidance, setGeneratedGuidance] = useState<GeneratedGuidance | null>(null);
+  const [currentPathwayId, setCurrentPathwayId] = useState<string | null>(null); // The saved pathway being shown
 
-  // State for the follow-up chat functionality
-  const [chat, setChat] = useState<Chat | null>(null);
-  const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
-  const [chatInput, setChatInput] = useState('');
-  const [isChatLoading, setIsChatLoading] = useState(false);
-  const chatHistoryRef = useRef<HTMLDivElement>(null); // To auto-scroll chat
-
-
-  // --- Gemini AI Initialization ---
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    console.error("API_KEY environment variable is not set. Gemini API calls will fail.");
-  }
-  const ai = new GoogleGenAI({ apiKey: apiKey || "MISSING_API_KEY" });
-
-  // Effect to scroll the chat window to the bottom when new messages are added
-  useEffect(() => {
-    if (chatHistoryRef.current) {
-      chatHistoryRef.current.scrollTop = chatHistoryRef.current.scrollHeight;
-    }
-  }, [chatHistory]);
-
-  /**
-   * Extracts the first URL found in a given string.
-   * @param {string} text - The text to search for a URL.
-   * @returns {string | undefined} The found URL or undefined.
-   */
-  const extractUrl = (text: string): string | undefined => {
-    const urlRegex = /(https?:\/\/[^\s()]+)/g;
-    const match = text.match(urlRegex);
-    return match ? match[0] : undefined;
-  };
-  
-  /**
-   * Parses the raw text response from the Gemini API into a structured `GeneratedGuidance` object.
-   * This function is crucial for converting the AI's multi-module text output into a displayable format.
-   * It splits the response by a custom separator ("--- END OF MODULE ---") and then parses each section
-   * using regular expressions and string manipulation.
-   * @param {string} text - The raw text response from the AI.
-   * @returns {GeneratedGuidance} The parsed, structured guidance object.
-   */
-  const parseGeneratedGuidanceText = (text: string): GeneratedGuidance => {
-    console.log("Starting to parse generated guidance text.");
-    const guidance: GeneratedGuidance = { rawResponse: text }; 
-    const moduleSeparator = "--- END OF MODULE ---";
-    const modulesText = text.split(moduleSeparator);
-
-    // Module 1: Educational Pathway
-    try {
-      if (modulesText[0]) {
-        console.log("Parsing Module 1: Educational Pathway");
-        const pathwayModule: EducationalPathwayModule = { steps: [] };
-        // Split the module content into individual steps based on "---" separator
-        const stepsRaw = modulesText[0].replace(/1️⃣\s*EDUCATIONAL\s*&\s*CAREER\s*PATHWAY.*?(\r\n|\r|\n)/i, '').split("---").map(s => s.trim()).filter(s => s);
-        stepsRaw.forEach(stepRaw => {
-          const step: PathwayStep = { stepTitle: '', dos: [], donts: [], resources: [], tip: '' };
-          const lines = stepRaw.split(/\r\n|\r|\n/).map(l => l.trim()).filter(l => l);
-          let resourcesStrAccumulator = "";
-          lines.forEach(line => {
-            if (line.match(/^Step \d+\s*[:\-]?\s*.*/i)) step.stepTitle = line;
-            else if (line.match(/^DO\s*[:\-]?\s*/i)) step.dos.push(line.replace(/^DO\s*[:\-]?\s*/i, '').trim());
-            else if (line.match(/^DON'T\s*[:\-]?\s*/i)) step.donts.push(line.replace(/^DON'T\s*[:\-]?\s*/i, '').trim());
-            else if (line.match(/^(?:Resources\s*[:\-]?\s*|🎥|📘|📓|🌐)/i)) {
-                resourcesStrAccumulator += line.replace(/^(?:Resources\s*[:\-]?\s*)/i, '').trim() + "\n";
-            }
-            else if (line.match(/^Tip\s*[:\-]?\s*/i)) step.tip = line.replace(/^Tip\s*[:\-]?\s*/i, '').trim();
-          });
-          
-          // Parse the accumulated resources string
-          if (resourcesStrAccumulator) {
-            const resItems = resourcesStrAccumulator.trim().split(/\s*,\s*(?![^\[]*\]\([^\)]*\))|\s*\n\s*(?=(?:🎥|📘|📓|🌐))/g);
-            resItems.forEach(resItemStr => {
-              if (!resItemStr.trim()) return;
-              let name = resItemStr.trim();
-              let type: string | undefined = undefined;
-              let url: string | undefined = undefined;
-              const markdownLinkMatch = name.match(/\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/);
-              if (markdownLinkMatch) {
-                name = markdownLinkMatch[1].trim();
-                url = markdownLinkMatch[2].trim();
-              }
-              const typeMatchExplicit = name.match(/\(Type:\s*([^)]+)\)/i);
-              if (typeMatchExplicit) {
-                type = typeMatchExplicit[1].trim();
-                name = name.replace(/\(Type:\s*[^)]+\)/i, '').trim();
-              } else if (resItemStr.startsWith('🎥')) type = 'Video';
-              else if (resItemStr.startsWith('📘')) type = 'Book/PDF';
-              else if (resItemStr.startsWith('📓')) type = 'Notes/Material';
-              else if (resItemStr.startsWith('🌐')) type = 'Website/Platform';
-              name = name.replace(/^(?:🎥|📘|📓|🌐)\s*/, '').trim();
-              if (!url) {
-                  const urlMatchExplicit = resItemStr.match(/URL:\s*(https?:\/\/[^\s)]+)/i);
-                  if (urlMatchExplicit) {
-                      url = urlMatchExplicit[1].trim();
-                      name = name.replace(/URL:\s*https?:\/\/[^\s)]+/i, '').trim();
-                  } else {
-                      const potentialUrl = extractUrl(name);
-                      if(potentialUrl && name.startsWith(potentialUrl)) {
-                          url = potentialUrl;
-                          name = name.replace(potentialUrl, '').trim() || potentialUrl;
-                      }
-                  }
-              }
-              name = name.replace(/→\s*$/, '').trim();
-              if (name) {
-                step.resources.push({ name, type, url });
-              }
-            });
-          }
-          if (step.stepTitle) pathwayModule.steps.push(step);
-        });
-        if(pathwayModule.steps.length > 0) guidance.educationalPathway = pathwayModule;
-      }
-    } catch (e: any) {
-      console.error("Error parsing Educational Pathway:", e.message, modulesText[0]);
-    }
-
-    // Module 2 (was 3): Life Awareness & Safety Module
-    try {
-      if (modulesText[1]) { 
-        console.log("Parsing Module 2 (was 3): Life Awareness & Safety");
-        const lifeAwarenessRaw = modulesText[1].replace(/2️⃣\s*LIFE\s*AWARENESS\s*&\s*SAFETY\s*MODULE.*?(\r\n|\r|\n)/i, '').trim(); 
-        const module: LifeAwarenessModule = { ageGroupFocus: '', topics: [] };
-        const ageGroupMatch = lifeAwarenessRaw.match(/^Age Group Focus\s*[:\-]?\s*(.*)/i);
-        if (ageGroupMatch) module.ageGroupFocus = ageGroupMatch[1].trim();
-        const topicsRaw = lifeAwarenessRaw.split(/Key Topic\s*[:\-]?\s*/i).slice(1);
-        topicsRaw.forEach(topicStr => {
-            const topic: LifeAwarenessTopic = { topicTitle: '', guidancePoints: [] };
-            const lines = topicStr.split(/\r\n|\r|\n/).map(l => l.trim()).filter(l => l);
-            if (lines.length > 0) {
-                topic.topicTitle = lines[0]; 
-                let currentGuidancePoint: LifeAwarenessGuidancePoint | null = null;
-                lines.slice(1).forEach(line => {
-                    if (line.match(/^Guidance Point\s*[:\-]?\s*/i)) {
-                        currentGuidancePoint = { point: line.replace(/^Guidance Point\s*[:\-]?\s*/i, "").trim() };
-                        topic.guidancePoints.push(currentGuidancePoint);
-                    } else if (line.match(/^Visual Cue\s*[:\-]?\s*/i) && currentGuidancePoint) {
-                        currentGuidancePoint.visualCue = line.replace(/^Visual Cue\s*[:\-]?\s*/i, "").trim();
-                    } else if (line.match(/^\(Audio Tip\s*[:\-]?\s*/i)) { 
-                        topic.audioTip = line.replace(/^\(Audio Tip\s*[:\-]?\s*/i, "").replace(")", "").trim();
-                    }
-                });
-            }
-            if(topic.topicTitle) module.topics.push(topic);
-        });
-        if(module.ageGroupFocus || module.topics.length > 0) guidance.lifeAwarenessModule = module;
-      }
-    } catch (e: any) {
-      console.error("Error parsing Life Awareness:", e.message, modulesText[1]); 
-    }
-
-    // Module 3 (was 4): Scholarships, Government Schemes & Women's Rights
-    try {
-      if (modulesText[2]) { 
-        console.log("Parsing Module 3 (was 4): Schemes & Rights");
-        const schemesModule: SchemeOrRightItem[] = [];
-        const itemsRaw = modulesText[2].replace(/3️⃣\s*SCHOLARSHIPS,\s*GOVERNMENT\s*SCHEMES\s*&\s*WOMEN'S\s*RIGHTS.*?(\r\n|\r|\n)/i, '').split(/\r\n|\r|\n(?=(?:👩‍🎓|💰|⚖))/).map(s => s.trim()).filter(s => s); 
-        itemsRaw.forEach(itemStr => {
-            const match = itemStr.match(/^(👩‍🎓|💰|⚖)\s*(Scholarship|Scheme|Right)\s*[:\-]?\s*(.*)/i);
-            if (match) {
-                const item: SchemeOrRightItem = {
-                    emoji: match[1],
-                    type: match[2],
-                    name: match[3].trim(),
-                    details: '',
-                    howToAccess: '',
-                };
-                const detailMatch = itemStr.match(/Details\s*[:\-]?\s*([^(\r\n|\r|\n)]*)/i);
-                if (detailMatch) item.details = detailMatch[1].trim();
-                const accessMatch = itemStr.match(/How to Access\s*[:\-]?\s*([^(\r\n|\r|\n)]*)/i);
-                if (accessMatch) {
-                   item.howToAccess = accessMatch[1].trim();
-                   item.url = extractUrl(item.howToAccess);
-                }
-                const sourceMatch = itemStr.match(/Source\s*[:\-]?\s*([^(\r\n|\r|\n)]*)/i);
-                if (sourceMatch) {
-                  item.source = sourceMatch[1].trim();
-                  if(!item.url) item.url = extractUrl(item.source);
-                }
-                schemesModule.push(item);
-            }
-        });
-        if(schemesModule.length > 0) guidance.schemesAndRights = schemesModule;
-      }
-    } catch (e: any) {
-      console.error("Error parsing Schemes & Rights:", e.message, modulesText[2]); 
-    }
-    
-    // Module 4 (was 5): Digital Learning & App Usage Training
-    try {
-      if (modulesText[3]) { 
-        console.log("Parsing Module 4 (was 5): Digital Learning");
-        const digitalLearningModule: DigitalLearningTip[] = [];
-        const appsRaw = modulesText[3].replace(/4️⃣\s*DIGITAL\s*LEARNING\s*&\s*APP\s*USAGE\s*TRAINING.*?(\r\n|\r|\n)/i, '').split(/App\s*[:\-]?\s*/i).slice(1).map(s => s.trim()).filter(s => s); 
-        appsRaw.forEach(appStr => {
-            const lines = appStr.split(/\r\n|\r|\n/).map(l => l.trim()).filter(l => l);
-            if (lines.length === 0) return;
-            const appName = lines[0];
-            const tip: DigitalLearningTip = { app: appName, howToUse: '', exampleSearchOrTask: ''};
-            let howToUseStartIndex = lines.findIndex(l => l.match(/^How to Use\s*[:\-]?\s*/i));
-            if (howToUseStartIndex !== -1) {
-                let howToUseEndIndex = lines.slice(howToUseStartIndex + 1).findIndex(l => l.match(/^(Example Search\/Task|Visual Cue|\(Audio Tip)\s*[:\-]?\s*/i));
-                if (howToUseEndIndex === -1) howToUseEndIndex = lines.length - (howToUseStartIndex + 1); else howToUseEndIndex += howToUseStartIndex +1;
-                tip.howToUse = lines.slice(howToUseStartIndex, howToUseEndIndex + 1).join('\n').replace(/^How to Use\s*[:\-]?\s*/i, "").trim();
-            }
-            const exampleSearchLine = lines.find(l => l.match(/^Example Search\/Task\s*[:\-]?\s*/i));
-            if (exampleSearchLine) tip.exampleSearchOrTask = exampleSearchLine.replace(/^Example Search\/Task\s*[:\-]?\s*/i, "").trim();
-            const visualCueLine = lines.find(l => l.match(/^Visual Cue\s*[:\-]?\s*/i));
-            if (visualCueLine) tip.visualCue = visualCueLine.replace(/^Visual Cue\s*[:\-]?\s*/i, "").trim();
-            const audioTipLine = lines.find(l => l.match(/^\(Audio Tip\s*[:\-]?\s*/i));
-            if (audioTipLine) tip.audioTip = audioTipLine.replace(/^\(Audio Tip\s*[:\-]?\s*/i, "").replace(")", "").trim();
-            
-            // Ensure How to Use and Example Task are not empty before pushing
-            if (tip.howToUse.trim() !== "" && tip.exampleSearchOrTask.trim() !== "") {
-              digitalLearningModule.push(tip);
-            }
-        });
-        if(digitalLearningModule.length > 0) guidance.digitalLearningTips = digitalLearningModule;
-      }
-    } catch (e: any) {
-      console.error("Error parsing Digital Learning:", e.message, modulesText[3]); 
-    }
-
-    // Module 5 (was 6): Motivational Support + Next Step
-    try {
-      if (modulesText[4]) { 
-        console.log("Parsing Module 5 (was 6): Motivational Support");
-        const motivationalModule: MotivationalSupportModule = { personalizedEncouragement: '', quote: '', nextStep: '', reminder: ''};
-        const lines = modulesText[4].replace(/5️⃣\s*MOTIVATIONAL\s*SUPPORT\s*\+\s*NEXT\s*STEP.*?(\r\n|\r|\n)/i, '').split(/\r\n|\r|\n/).map(l => l.trim()).filter(l => l); 
-        lines.forEach(line => {
-            if (line.match(/^🌟 Personalized Encouragement\s*[:\-]?\s*/i)) motivationalModule.personalizedEncouragement = line.replace(/^🌟 Personalized Encouragement\s*[:\-]?\s*/i, '').trim().replace(/^"|"$/g, '');
-            else if (line.match(/^🌟 Motivational Quote\s*[:\-]?\s*/i)) motivationalModule.quote = line.replace(/^🌟 Motivational Quote\s*[:\-]?\s*/i, '').trim().replace(/^"|"$/g, '');
-            else if (line.match(/^✅ Your Next Step\s*[:\-]?\s*/i)) motivationalModule.nextStep = line.replace(/^✅ Your Next Step\s*[:\-]?\s*/i, '').trim();
-            else if (line.match(/^🔁 Remember\s*[:\-]?\s*/i)) motivationalModule.reminder = line.replace(/^🔁 Remember\s*[:\-]?\s*/i, '').trim().replace(/^"|"$/g, '');
-        });
-         if(motivationalModule.personalizedEncouragement || motivationalModule.quote || motivationalModule.nextStep) guidance.motivationalSupport = motivationalModule;
-      }
-    } catch(e: any) {
-      console.error("Error parsing Motivational Support:", e.message, modulesText[4]); 
-    }
-    console.log("Finished parsing. Generated guidance object:", JSON.parse(JSON.stringify(guidance)));
-    return guidance;
-  };
+  // The follow-up chat about the pathway on screen
+  const chat = useChatSession({
+    feature: 'smartPathway',
+    temperature: 'balanced', // Slightly higher temp for more conversational chat
+  });
 
   /**
    * System instruction for the Gemini AI. This is a crucial part of prompt engineering.
@@ -296,84 +79,160 @@ const GuidancePathwayScreen: React.FC = () => {
    */
   const systemInstruction = `
 You are Femmora AI, an extremely intelligent, empathetic, patient, and highly supportive AI assistant. Your primary role is to act as a role-model mentor or a knowledgeable elder sister. You provide comprehensive, actionable guidance to females aged 4 to 60 in India, focusing on rural and underprivileged users.
-Your guidance MUST be empowering, culturally sensitive, practical, and in the user's selected language (or simple English if English is chosen). Use "we" language frequently (e.g., "Let's explore...", "We can look into this together...", "We are strong!") to foster a sense of partnership and encouragement.
+Your guidance MUST be empowering, culturally sensitive, practical, and in the user's 'Preferred Language', written the way the user details describe it. Use "we" language frequently (e.g., "Let's explore...", "We can look into this together...", "We are strong!") to foster a sense of partnership and encouragement.
 Acknowledge potential difficulties (like limited internet, financial stress, family pressure if mentioned by user) and offer reassurance and practical, low-cost/free solutions. Your tone should be exceptionally friendly, respectful, caring, and patient. Use emojis appropriately to make content engaging and easy to understand. Break down complex information into very small, simple steps.
 
 Output Modules (for initial pathway generation):
-Strictly generate all the following 5 modules in order. Each module's content MUST be followed by "--- END OF MODULE ---". Modules must not be nested.
-
-1️⃣ EDUCATIONAL & CAREER PATHWAY (Your Foundational Roadmap)
-   - This module is the user's initial step-by-step roadmap.
-   - For each step in the pathway:
-     Step [Number]: [Emoji relevant to step] [Clear Step Title/Action]
-       DO: [Simple, actionable advice 1. Be very specific and easy to follow.]
-       DO: [Simple, actionable advice 2 (optional)]
-       DON'T: [Thing to avoid 1. Explain gently why.]
-       DON'T: [Thing to avoid 2 (optional)]
-       Resources: [Provide 2-4 resources using the emoji prefixes below. Each resource should have Name (Type: e.g., Video, Book PDF, Notes, Website - URL: MUST include a valid, publicly accessible URL. If a specific URL is unknown, provide a general official portal URL like 'https://www.swayam.gov.in', 'https://www.diksha.gov.in', 'https://epathshala.nic.in' or a descriptive placeholder like 'https://example.gov.in/search?q=[Resource+Name]' and CLEARLY STATE it's a general/placeholder link. Explain what the resource is for in simple terms.)]
-         🎥 [Video Name (Type: Video - URL: ...)]
-         📘 [Book Name (Type: Book with free PDF - URL: ...)]
-         📓 [Notes/Material Name (Type: Downloadable Notes - URL: ...)]
-         🌐 [Website/Platform Name (Type: Useful Website - URL: ...)]
-       Tip: [Short motivational or practical life skill tip. Be very encouraging! e.g., "Remember, asking questions is a sign of strength! We can learn anything step-by-step."]
-     --- (Use three hyphens as a separator ONLY BETWEEN steps within this module)
+Answer with a single JSON object that follows the provided response schema. It has exactly these 5 modules, in this order. Write every text value in the user's preferred language; keep the JSON keys in English.
+
+1. "educationalPathway" (Your Foundational Roadmap)
+   - This module is the user's initial step-by-step roadmap, given as a list of "steps".
+   - For each step:
+     "stepTitle": "Step [Number]: [Emoji relevant to step] [Clear Step Title/Action]"
+     "dos": [Simple, actionable advice. Be very specific and easy to follow. 1-2 items.]
+     "donts": [Things to avoid. Explain gently why. 1-2 items.]
+     "resources": [2-4 resources. Each has a "name", a "type" (Video, Book/PDF, Notes/Material or Website/Platform) and a "url". The url MUST be a valid, publicly accessible URL. If a specific URL is unknown, use a general official portal like 'https://www.swayam.gov.in', 'https://www.diksha.gov.in' or 'https://epathshala.nic.in', and say in the name that it is a general portal.]
+     "tip": [Short motivational or practical life skill tip. Be very encouraging! e.g., "Remember, asking questions is a sign of strength! We can learn anything step-by-step."]
    - If user has no specific goal, suggest 2-3 suitable career paths relevant to their age and education level, and build the pathway towards one of them.
---- END OF MODULE ---
 
-2️⃣ LIFE AWARENESS & SAFETY MODULE
+2. "lifeAwarenessModule" (Life Awareness & Safety)
    - Provide visual and emotional guidance tailored to the user's age group. Keep explanations extremely simple and respectful.
-   - Structure:
-     Age Group Focus: [e.g., For young girls (13-17 years)]
-     Key Topic: [e.g., Staying Safe Online]
-       Guidance Point: [Simple, empathetic advice 1. e.g., "Think of your password like a secret key to your diary, don't share it with anyone except your trusted elders."]
-       Guidance Point: [Simple, empathetic advice 2]
-       Visual Cue: [Suggest an easy-to-understand visual, e.g., "Illustration of a girl happily using a computer with a parent nearby", "A cartoon showing a lock on a phone screen"]
-     Key Topic: [e.g., Understanding Good Touch and Bad Touch (for younger users if appropriate, otherwise focus on consent for older users)]
-       Guidance Point: [Simple, empathetic advice. e.g., "Your body is your own. It's okay to say NO if someone makes you feel uncomfortable."]
-       Visual Cue: [Suggest visual. e.g., "Drawing of a child confidently saying 'No'"]
-   - Include an audio tip if helpful: (Audio Tip: My dear, let's talk about this gently. Remember you are precious.)
---- END OF MODULE ---
-
-3️⃣ SCHOLARSHIPS, GOVERNMENT SCHEMES & WOMEN'S RIGHTS
+   - "ageGroupFocus": [e.g., For young girls (13-17 years)]
+   - "topics": a list of topics, each with:
+     "topicTitle": [e.g., Staying Safe Online, or Understanding Good Touch and Bad Touch for younger users / consent for older users]
+     "guidancePoints": a list of { "point": [Simple, empathetic advice. e.g., "Think of your password like a secret key to your diary, don't share it with anyone except your trusted elders."], "visualCue": [An easy-to-understand visual, e.g., "A cartoon showing a lock on a phone screen"] }
+     "audioTip": [Optional. e.g., "My dear, let's talk about this gently. Remember you are precious."]
+
+3. "schemesAndRights" (Scholarships, Government Schemes & Women's Rights)
    - List 2-4 highly relevant items for India, based on user's category. Focus on widely accessible and impactful schemes/rights.
-   - Format for each item:
-     [Emoji: 👩‍🎓/💰/⚖] [Type: Scholarship/Scheme/Right]: [Name of item]
-       Details: [Brief description of benefit in very simple terms. Mention eligibility if it's easy to explain.]
-       How to Access: [Provide official URL for application/information if available and well-known (e.g., National Scholarship Portal, a major state portal). If direct link is complex or unknown, give general advice like 'Ask a teacher or at the local Panchayat office about this scheme' OR 'Search for "[Scheme Name]" on the official India government website (india.gov.in).'. Clearly state if a link is a general portal. Example URL: https://scholarships.gov.in/]
-       Source: [Official website/source if available with URL. Example: Ministry of Women & Child Development website.]
---- END OF MODULE ---
-
-4️⃣ DIGITAL LEARNING & APP USAGE TRAINING (Using a Smartphone for Learning)
-   - Teach how to use common mobile apps for education. Focus on extreme simplicity. Provide for 1-2 common apps like YouTube or Web Browser.
-   - For EACH App entry, you MUST provide detailed, non-empty "How to Use" and "Example Search/Task". If you cannot provide these for an app concept, OMIT that App entry.
-   - Format for each app:
-     App: [e.g., YouTube]
-       How to Use: [MUST BE NON-EMPTY. Provide very simple, numbered, step-by-step instructions. e.g., 1. Find the YouTube icon (it's red with a white play button). Tap it. 2. Look for the magnifying glass (🔍) at the top. Tap it. 3. Slowly type what you want to learn, like "learn English". 4. Tap the search button. We can do this together, slowly!]
-       Example Search/Task: [MUST BE NON-EMPTY. e.g., "Find videos to learn simple English speaking on YouTube", "How to search for 'anganwadi services' using Google search on your phone"]
-       Visual Cue: [Suggest a very simple visual, e.g., "Screenshot of YouTube app icon", "Drawing of a finger tapping a search bar"]
-   - (Audio Tip: Don't worry if it seems new. We can try these steps one by one. You are very capable!)
---- END OF MODULE ---
-
-5️⃣ MOTIVATIONAL SUPPORT + YOUR NEXT STEP
-   - Format:
-     🌟 Personalized Encouragement: [Offer a brief, personalized word of encouragement based on the user's input, particularly their challenges or interests. E.g., "I understand that [challenge mentioned by user, e.g., 'studying with family duties'] can be hard, but your desire to learn [interest mentioned by user, e.g., 'tailoring'] is wonderful! You are strong and we believe in you."]
-     🌟 Motivational Quote: "[Inspiring, simple quote relevant to their situation and culture. e.g., 'A small step every day leads to big changes.' or a local proverb if appropriate]"
-     ✅ Your Next Step: "[One very clear, small, actionable suggestion to do right now or very soon. e.g., 'Let's try to watch the first 5 minutes of the English learning video we found.' or 'How about we try to write down one thing you learned today?']"
-     🔁 Remember: "You are not alone on this path. Femmora is here to support you. You can always come back for more guidance. Keep shining!"
---- END OF MODULE ---
+   - For each item:
+     "emoji": 👩‍🎓, 💰 or ⚖
+     "type": Scholarship, Scheme or Right
+     "name": [Name of item]
+     "details": [Brief description of benefit in very simple terms. Mention eligibility if it's easy to explain.]
+     "howToAccess": [How to apply or get it. If the process is complex or unknown, give general advice like 'Ask a teacher or at the local Panchayat office about this scheme'.]
+     "source": [Optional. The official source, e.g., Ministry of Women & Child Development.]
+     "url": [Optional. The official URL for application/information if well-known, e.g., https://scholarships.gov.in/. Omit it rather than guessing.]
+
+4. "digitalLearningTips" (Using a Smartphone for Learning)
+   - Teach how to use common mobile apps for education. Focus on extreme simplicity. Provide 1-2 common apps like YouTube or a Web Browser.
+   - For each app:
+     "app": [e.g., YouTube]
+     "howToUse": [MUST BE NON-EMPTY. Very simple, numbered, step-by-step instructions, one step per line. e.g., "1. Find the YouTube icon (it's red with a white play button). Tap it.\\n2. Look for the magnifying glass (🔍) at the top. Tap it."]
+     "exampleSearchOrTask": [MUST BE NON-EMPTY. e.g., "Find videos to learn simple English speaking on YouTube"]
+     "visualCue": [e.g., "Drawing of a finger tapping a search bar"]
+     "audioTip": [Optional. e.g., "Don't worry if it seems new. We can try these steps one by one. You are very capable!"]
+   - If you cannot provide "howToUse" and "exampleSearchOrTask" for an app, leave that app out.
+
+5. "motivationalSupport" (Motivational Support + Your Next Step)
+   "personalizedEncouragement": [A brief, personalized word of encouragement based on the user's input, particularly their challenges or interests. E.g., "I understand that studying with family duties can be hard, but your desire to learn tailoring is wonderful! You are strong and we believe in you."]
+   "quote": [Inspiring, simple quote relevant to their situation and culture, without surrounding quotation marks. e.g., A small step every day leads to big changes.]
+   "nextStep": [One very clear, small, actionable suggestion to do right now or very soon. e.g., Let's try to watch the first 5 minutes of the English learning video we found.]
+   "reminder": "You are not alone on this path. Femmora is here to support you. You can always come back for more guidance. Keep shining!"
 
 AI Behavior:
 - If user input is minimal, provide general, encouraging guidance for the selected category, still following the 5-module structure for initial pathway generation.
-- For follow-up chat, maintain the same persona and context. Respond conversationally to questions about the generated pathway.
+- For follow-up chat, maintain the same persona and context. Respond conversationally, in plain text (never JSON), to questions about the generated pathway.
 - If user mentions internet issues, prioritize suggesting offline accessible resources or learning methods.
-- Language: Strictly use the user's 'Preferred Language' (Hindi or simple English). Do not use Thanglish or complex vocabulary.
+- Language: Strictly use the user's 'Preferred Language', in its own script and register as described in the user details. Do not use mixed languages like Hinglish or Thanglish, or complex vocabulary.
 - Tone: Exceptionally friendly, respectful, caring, patient, like a big sister or a very kind teacher. Use empowering and positive language consistently.
-- Ensure all 5 modules are generated with the "--- END OF MODULE ---" separator for the initial pathway.
+- Ensure all 5 modules are present in the JSON for the initial pathway.
 `;
 
+  /**
+   * Returns the display name of a guidance category in the given language.
+   * @param {string} categoryId - The id of a GUIDANCE_CATEGORIES entry.
+   * @param {Language} categoryLanguage - The language of the name.
+   * @returns {string} The category name.
+   */
+  const getCategoryName = (categoryId: string, categoryLanguage: Language): string => {
+    const selectedCategoryObj = GUIDANCE_CATEGORIES.find(c => c.id === categoryId);
+    return selectedCategoryObj ? translateText(categoryLanguage, selectedCategoryObj.labelKey) : categoryId;
+  };
+
+  /**
+   * Builds the user prompt for a pathway from the form inputs. Re-opened pathways rebuild
+   * the same prompt, so their follow-up chat starts from the original request.
+   * @param {PathwayFormInputs} inputs - The form inputs.
+   * @param {Language} promptLanguage - The language the pathway is generated in.
+   * @returns {string} The prompt.
+   */
+  const buildPathwayPrompt = (inputs: PathwayFormInputs, promptLanguage: Language): string => {
+    const preferredLanguage = getPromptLanguage(promptLanguage);
+    return `
+User Details for Initial Pathway Generation:
+Category: ${getCategoryName(inputs.category, promptLanguage)}
+Current Education/Class: ${inputs.educationLevel || 'Not specified'}
+Preferred Language: ${preferredLanguage.name}. ${preferredLanguage.instruction}
+Dream / Goal: ${inputs.careerGoal || 'Not specified'}
+Challenges or Barriers: ${inputs.challenges || 'Not specified'}
+Skills Known: ${inputs.skills || 'Not specified'}
+Interests/Hobbies: ${inputs.interests || 'Not specified'}
+
+Please generate the personalized 5-module guidance pathway as JSON, based on these details and the system instructions provided.
+Make sure to provide URLs or valid placeholder URLs for resources and schemes as instructed.
+Adopt a very supportive, encouraging, and mentor-like tone throughout the response, using simple language suitable for users with limited literacy.
+`;
+  };
+
+  /**
+   * Starts the follow-up chat for a pathway. The history includes the initial user request
+   * and the AI's full pathway response to provide context for follow-up questions.
+   * If the pathway already has a saved conversation, it is resumed with its messages.
+   * @param {SavedPathway} pathway - The saved pathway.
+   * @param {string} pathwayPrompt - The prompt the pathway was generated from.
+   * @param {string} guidanceText - The AI's raw pathway response.
+   */
+  const startPathwayChat = (pathway: SavedPathway, pathwayPrompt: string, guidanceText: string) => {
+    const setup: ConversationSetup = {
+      title: pathway.title,
+      language: pathway.language,
+      systemInstruction: systemInstruction, // Use the same system instruction for a consistent persona
+      contextTurns: [
+        { role: 'user', text: pathwayPrompt },
+        { role: 'model', text: guidanceText }
+      ],
+      context: { feature: 'smartPathway', pathwayId: pathway.id },
+    };
+    const savedConversation = findPathwayConversation(pathway.id);
+    if (savedConversation) {
+      chat.resumeChat(savedConversation);
+    } else {
+      chat.startChat(setup);
+    }
+  };
+
+  // Effect to stop the pathway being generated when the user leaves the screen.
+  useEffect(() => () => generationControllerRef.current?.abort(), []);
+
+  // Effect to re-open a saved pathway from "My Pathways", restoring its form inputs and chat context.
+  useEffect(() => {
+    if (!openPathwayId || openPathwayId === currentPathwayId) return;
+    const savedPathway = getPathway(openPathwayId);
+    if (!savedPathway) {
+      if (savedPathways.length > 0) setError(translate('pathwayNotFound'));
+      return;
+    }
+    const { inputs } = savedPathway;
+    setCategory(inputs.category);
+    setEducationLevel(inputs.educationLevel);
+    setCareerGoal(inputs.careerGoal);
+    setChallenges(inputs.challenges);
+    setSkills(inputs.skills);
+    setInterests(inputs.interests);
+    setError(null);
+    setGeneratedGuidance(savedPathway.guidance);
+    setCurrentPathwayId(savedPathway.id);
+    if (isAiConfigured && savedPathway.guidance.rawResponse) {
+      startPathwayChat(savedPathway, buildPathwayPrompt(inputs, savedPathway.language), savedPathway.guidance.rawResponse);
+    } else {
+      chat.resetChat();
+    }
+  }, [openPathwayId, savedPathways]);
+
   /**
    * Handles the submission of the main guidance form.
-   * It constructs the prompt, sends it to the Gemini API, and processes the response.
+   * It constructs the prompt, streams the response from the Gemini API, and shows each module as it arrives.
    * @param {React.FormEvent} e - The form submission event.
    */
   const handleSubmit = async (e: React.FormEvent) => {
@@ -381,164 +240,100 @@ AI Behavior:
     setIsLoading(true);
     setError(null);
     setGeneratedGuidance(null);
-    setChat(null); // Reset chat on new pathway generation
-    setChatHistory([]); // Clear previous chat history
-
-    console.log("Submitting guidance request with API Key:", apiKey ? "Exists" : "MISSING");
+    chat.resetChat(); // Reset chat on new pathway generation
+    setCurrentPathwayId(null);
+    if (openPathwayId) setSearchParams({}, { replace: true }); // The screen no longer shows the re-opened pathway
 
-    if (!apiKey || apiKey === "MISSING_API_KEY") {
-        setError(translate('pathwayError', "API Key is missing. Cannot generate pathway."));
+    if (!isAiConfigured) {
+        setError(translate('aiErrorMissingApiKey'));
         setIsLoading(false);
-        console.error("API Key is missing.");
         return;
     }
 
     // Construct a user-friendly prompt from the form data.
-    const selectedCategoryObj = GUIDANCE_CATEGORIES.find(c => c.id === category);
-    const categoryName = selectedCategoryObj ? UI_TEXT[selectedCategoryObj.labelKey]?.[language] || selectedCategoryObj.id : category;
-    const preferredLanguageString = language === Language.HI ? 'Hindi' : 'English (Simple)';
-
-    const userContentForPathway = `
-User Details for Initial Pathway Generation:
-Category: ${categoryName}
-Current Education/Class: ${educationLevel || 'Not specified'}
-Preferred Language: ${preferredLanguageString}
-Dream / Goal: ${careerGoal || 'Not specified'}
-Challenges or Barriers: ${challenges || 'Not specified'}
-Skills Known: ${skills || 'Not specified'}
-Interests/Hobbies: ${interests || 'Not specified'}
-
-Please generate the personalized 5-module guidance pathway based on these details and the system instructions provided.
-Ensure "--- END OF MODULE ---" is present after each of the 5 modules.
-Make sure to provide URLs or valid placeholder URLs for resources and schemes as instructed.
-Adopt a very supportive, encouraging, and mentor-like tone throughout the response, using simple language suitable for users with limited literacy.
-`;
+    const inputs: PathwayFormInputs = { category, educationLevel, careerGoal, challenges, skills, interests };
+    const userContentForPathway = buildPathwayPrompt(inputs, language);
 
+    const controller = new AbortController();
+    generationControllerRef.current = controller;
     try {
       console.log("Sending request to Gemini API for initial pathway...");
-      const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-preview-04-17', 
+      const stream = aiService.streamText({
+        feature: 'smartPathway',
         contents: userContentForPathway,
-        config: {
-          systemInstruction: systemInstruction,
-          temperature: 0.4, 
-        }
+        systemInstruction: systemInstruction,
+        temperature: 'precise',
+        responseMimeType: 'application/json',
+        responseSchema: PATHWAY_RESPONSE_SCHEMA,
+        language,
+        signal: controller.signal,
       });
-      
-      const guidanceText = response.text;
-      
-      if (guidanceText) {
-        console.log("Raw AI Response Text (Initial Pathway):", guidanceText);
-        const parsedData = parseGeneratedGuidanceText(guidanceText);
-        const hasContent = parsedData.educationalPathway?.steps?.length ||
-                           parsedData.lifeAwarenessModule?.topics?.length ||
-                           parsedData.schemesAndRights?.length ||
-                           parsedData.digitalLearningTips?.length ||
-                           (parsedData.motivationalSupport?.quote || parsedData.motivationalSupport?.nextStep);
-
-        if (hasContent) {
-          setGeneratedGuidance(parsedData);
-          // Initialize a new chat session after successful pathway generation.
-          // The history includes the initial user request and the AI's full pathway response
-          // to provide context for follow-up questions.
-          const newChatSession = ai.chats.create({
-            model: 'gemini-2.5-flash-preview-04-17',
-            history: [
-              { role: 'user', parts: [{ text: userContentForPathway }] },
-              { role: 'model', parts: [{ text: guidanceText }] }
-            ],
-            config: {
-              systemInstruction: systemInstruction, // Use the same system instruction for a consistent persona
-              temperature: 0.5, // Slightly higher temp for more conversational chat
-            }
-          });
-          setChat(newChatSession);
-          // Optional: Add a system message to chat history UI if desired
-          // setChatHistory([{ sender: 'ai', text: "Your pathway is ready! Feel free to ask any questions below.", timestamp: new Date() }]);
-        } else {
-          console.warn("Parsing resulted in empty or incomplete guidance. Raw text was:", guidanceText);
-          setError(translate('pathwayError') + " (Could not understand the generated plan. Please try again or rephrase your input.)");
-           setGeneratedGuidance({ rawResponse: guidanceText + "\n\n[Debug: Parsing resulted in empty or incomplete content based on structured checks.]"});
+
+      // The pathway is streamed. Each time another module has arrived complete, it is shown
+      // straight away; validation errors are only reported once the whole response is in.
+      let guidanceText = '';
+      let shownModuleCount = 0;
+      for await (const chunk of stream) {
+        guidanceText += chunk;
+        const partialData = parsePathwayResponse(guidanceText);
+        const completedModuleCount = PATHWAY_MODULE_KEYS.filter(key => partialData[key]).length;
+        if (completedModuleCount > shownModuleCount) {
+          shownModuleCount = completedModuleCount;
+          setGeneratedGuidance({ ...partialData, moduleErrors: undefined, rawResponse: undefined });
         }
+      }
+
+      // A pathway stopped by leaving the screen is not saved.
+      if (controller.signal.aborted) return;
+      // Every module is validated on its own; the ones that failed are listed in `moduleErrors`.
+      const parsedData = parsePathwayResponse(guidanceText);
+      if (parsedData.moduleErrors?.length) {
+        console.warn("Some pathway modules failed validation:", parsedData.moduleErrors);
+      }
+      const hasContent = parsedData.educationalPathway ||
+                         parsedData.lifeAwarenessModule ||
+                         parsedData.schemesAndRights ||
+                         parsedData.digitalLearningTips ||
+                         parsedData.motivationalSupport;
+
+      if (hasContent) {
+        setGeneratedGuidance(parsedData);
+        // Save the pathway to "My Pathways" and point the URL at it, so a refresh re-opens it.
+        const savedPathway = savePathway(careerGoal.trim() || getCategoryName(category, language), language, inputs, parsedData);
+        setCurrentPathwayId(savedPathway.id);
+        setSearchParams({ pathway: savedPathway.id }, { replace: true });
+        // Initialize a new chat session after successful pathway generation.
+        startPathwayChat(savedPathway, userContentForPathway, guidanceText);
       } else {
-        console.warn("Gemini API returned no text in the response for initial pathway.");
-        setError(translate('pathwayError') + " (No response text from AI. Check console for details.)");
-        setGeneratedGuidance({ rawResponse: "API returned no text for initial pathway. Full response logged to console." });
+        console.warn("No pathway module passed validation");
+        setError(`${translate('pathwayError')} ${translate('pathwayInvalidResponse')}`);
+        setGeneratedGuidance(parsedData);
       }
     } catch (apiError: any) {
-      console.error("Gemini API error (Initial Pathway):", apiError);
-      setError(`${translate('pathwayError')} Details: ${apiError.message || 'Unknown error'}`);
-      setGeneratedGuidance({ rawResponse: `API Error (Initial Pathway): ${apiError.message || 'Unknown error'}. Check console for details.` });
+      if (controller.signal.aborted) return;
+      // Modules that were already streamed in stay on screen above the error.
+      setError(`${translate('pathwayError')} ${translate(getAiErrorMessageKey(apiError))}`);
     } finally {
       setIsLoading(false);
       console.log("Finished processing initial pathway request.");
     }
   };
 
-  /**
-   * Handles the submission of a message in the follow-up chat.
-   * @param {React.FormEvent} e - The form submission event.
-   */
-  const handleChatSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!chatInput.trim() || !chat || isChatLoading) return;
-
-    const userMessage: ChatMessage = { sender: 'user', text: chatInput, timestamp: new Date() };
-    setChatHistory(prev => [...prev, userMessage]);
-    const currentChatInput = chatInput;
-    setChatInput('');
-    setIsChatLoading(true);
-
-    try {
-      console.log("Sending chat message to Gemini API:", currentChatInput);
-      const response = await chat.sendMessage({message: currentChatInput});
-      const aiMessageText = response.text;
-      
-      if (aiMessageText) {
-        console.log("Raw AI Chat Response Text:", aiMessageText);
-        const aiMessage: ChatMessage = { sender: 'ai', text: aiMessageText, timestamp: new Date() };
-        setChatHistory(prev => [...prev, aiMessage]);
-      } else {
-        console.warn("Gemini Chat API returned no text in the response.");
-        const aiMessage: ChatMessage = { sender: 'ai', text: "I'm sorry, I couldn't process that. Could you try asking in a different way?", timestamp: new Date() };
-        setChatHistory(prev => [...prev, aiMessage]);
-      }
-    } catch (chatApiError: any) {
-      console.error("Gemini Chat API error:", chatApiError);
-      const errorMessage: ChatMessage = { sender: 'ai', text: `Sorry, I encountered an error: ${chatApiError.message || 'Unknown chat error'}. Please try again.`, timestamp: new Date() };
-      setChatHistory(prev => [...prev, errorMessage]);
-    } finally {
-      setIsChatLoading(false);
-      console.log("Finished processing chat message.");
-    }
-  };
-  
-  /**
-   * Renders a single resource item within a pathway step, making it a clickable link if a URL exists.
-   * @param {PathwayStepResource} resource - The resource to render.
-   * @returns {JSX.Element} The rendered resource element.
-   */
-  const renderPathwayStepResource = (resource: PathwayStepResource) => {
-    let resourceDisplay = resource.name;
-    if (resource.type) {
-        resourceDisplay = `${resource.name} (${resource.type})`;
-    }
-    if (resource.url) {
-      return (
-        <a href={resource.url} target="_blank" rel="noopener noreferrer" className="text-teal-600 hover:text-teal-700 underline">
-          {resourceDisplay} <i className="fas fa-external-link-alt text-xs"></i>
-        </a>
-      );
-    }
-    return <span className="text-gray-700">{resourceDisplay}</span>;
-  };
+  // The saved copy of the pathway on screen, which holds its progress and reminder.
+  const currentPathway = currentPathwayId ? getPathway(currentPathwayId) : undefined;
 
   return (
     <div className="max-w-4xl mx-auto">
-      <SectionTitle title={translate('smartPathway')} subtitle="Get personalized steps for your educational and professional journey." />
+      <SectionTitle title={translate('smartPathway')} subtitle={translate('smartPathwaySubtitle')} />
+      <div className="flex justify-end mb-4">
+        <ReactRouterDOM.Link to={APP_ROUTES.MY_PATHWAYS} className="text-teal-600 hover:text-teal-800 font-medium">
+          <i className="fas fa-folder-open mr-2" aria-hidden="true"></i>{translate('myPathways')}
+        </ReactRouterDOM.Link>
+      </div>
 
       {/* --- Main Form for User Input --- */}
       <Card className="mb-8">
+        {isPrefilledFromProfile && !currentPathwayId && <ProfilePrefillNote />}
         <form onSubmit={handleSubmit} className="space-y-6">
           <div>
             <label htmlFor="category" className="block text-lg font-medium text-gray-700 mb-1">{translate('selectCategory')}</label>
@@ -550,25 +345,25 @@ Adopt a very supportive, encouraging, and mentor-like tone throughout the respon
               aria-describedby="category-description"
             >
               {GUIDANCE_CATEGORIES.map(cat => (
-                <option key={cat.id} value={cat.id} className="bg-white text-gray-800">{translate(cat.labelKey, cat.id.replace(/_/g, ' '))}</option>
+                <option key={cat.id} value={cat.id} className="bg-white text-gray-800">{translate(cat.labelKey)}</option>
               ))}
             </select>
-            <p id="category-description" className="text-sm text-gray-500 mt-1">Select the category that best describes you.</p>
+            <p id="category-description" className="text-sm text-gray-500 mt-1">{translate('selectCategoryHint')}</p>
           </div>
-          <Input label={translate('currentEducationLevel')} id="educationLevel" value={educationLevel} onChange={e => setEducationLevel(e.target.value)} placeholder="E.g., Class 10, 2nd Year B.Sc." />
-          <Input label={translate('careerGoal')} id="careerGoal" value={careerGoal} onChange={e => setCareerGoal(e.target.value)} placeholder="E.g., Teacher, Software Engineer, Entrepreneur" />
-          <Input label={translate('challengesFaced')} id="challenges" value={challenges} onChange={e => setChallenges(e.target.value)} placeholder="E.g., Limited internet, need financial aid" />
-          <Input label={translate('skillsKnown')} id="skills" value={skills} onChange={e => setSkills(e.target.value)} placeholder="E.g., Hindi, English, Basic MS Office" />
-          <Input label={translate('interestsHobbies')} id="interests" value={interests} onChange={e => setInterests(e.target.value)} placeholder="E.g., Reading, Cooking, Coding" />
-          <Button type="submit" disabled={isLoading || !apiKey || apiKey === "MISSING_API_KEY"} fullWidth size="lg" aria-live="polite">
-            {isLoading && !isChatLoading ? translate('generatingPathway') : translate('generatePathway')}
+          <Input label={translate('currentEducationLevel')} id="educationLevel" value={educationLevel} onChange={e => setEducationLevel(e.target.value)} placeholder={translate('pathwayEducationLevelPlaceholder')} />
+          <Input label={translate('careerGoal')} id="careerGoal" value={careerGoal} onChange={e => setCareerGoal(e.target.value)} placeholder={translate('pathwayCareerGoalPlaceholder')} />
+          <Input label={translate('challengesFaced')} id="challenges" value={challenges} onChange={e => setChallenges(e.target.value)} placeholder={translate('pathwayChallengesPlaceholder')} />
+          <Input label={translate('skillsKnown')} id="skills" value={skills} onChange={e => setSkills(e.target.value)} placeholder={translate('pathwaySkillsPlaceholder')} />
+          <Input label={translate('interestsHobbies')} id="interests" value={interests} onChange={e => setInterests(e.target.value)} placeholder={translate('pathwayInterestsPlaceholder')} />
+          <Button type="submit" disabled={isLoading || !isAiConfigured} fullWidth size="lg" aria-live="polite">
+            {isLoading ? translate('generatingPathway') : translate('generatePathway')}
           </Button>
-           {(!apiKey || apiKey === "MISSING_API_KEY") && <p role="alert" className="text-red-500 text-sm text-center mt-2">API Key is missing. Pathway generation is disabled.</p>}
+           {!isAiConfigured && <p role="alert" className="text-red-500 text-sm text-center mt-2">{translate('aiErrorMissingApiKey')}</p>}
         </form>
       </Card>
 
       {/* --- Loading and Error States --- */}
-      {isLoading && !isChatLoading && (
+      {isLoading && (
         <div role="status" className="text-center py-8">
           <i className="fas fa-spinner fa-spin text-4xl text-teal-600" aria-hidden="true"></i>
           <p className="mt-2 text-lg text-gray-600">{translate('generatingPathway')}</p>
@@ -584,143 +379,53 @@ Adopt a very supportive, encouraging, and mentor-like tone throughout the respon
       {/* --- Display Generated Guidance --- */}
       {generatedGuidance && (
         <div className="space-y-8 mt-10">
-          {/* Render Educational Pathway */}
-          {generatedGuidance.educationalPathway && generatedGuidance.educationalPathway.steps.length > 0 && (
-            <Card>
-              <h2 className="text-2xl font-semibold text-teal-700 mb-4">1️⃣ Educational & Career Pathway</h2>
-              <div className="space-y-6">
-                {generatedGuidance.educationalPathway.steps.map((step, index) => (
-                  <Card key={index} className="border border-teal-200 shadow-md">
-                    <h3 className="text-xl font-semibold text-teal-700 mb-3">{step.stepTitle || `${translate('step')} ${index + 1}`}</h3>
-                    {step.dos.length > 0 && (<div className="mb-2"><h4 className="text-md font-medium text-green-700"><i className="fas fa-check-circle mr-2" aria-hidden="true"></i>{translate('dos')}</h4><ul className="list-disc list-inside text-gray-700 pl-4">{step.dos.map((item, i) => <li key={i}>{item}</li>)}</ul></div>)}
-                    {step.donts.length > 0 && (<div className="mb-2"><h4 className="text-md font-medium text-red-700"><i className="fas fa-times-circle mr-2" aria-hidden="true"></i>{translate('donts')}</h4><ul className="list-disc list-inside text-gray-700 pl-4">{step.donts.map((item, i) => <li key={i}>{item}</li>)}</ul></div>)}
-                    {step.resources.length > 0 && (<div className="mb-2"><h4 className="text-md font-medium text-blue-700"><i className="fas fa-book-reader mr-2" aria-hidden="true"></i>{translate('resources')}</h4><ul className="list-disc list-inside text-gray-700 pl-4">{step.resources.map((item, i) => <li key={i}>{renderPathwayStepResource(item)}</li>)}</ul></div>)}
-                    {step.tip && (<div><h4 className="text-md font-medium text-amber-700"><i className="fas fa-lightbulb mr-2" aria-hidden="true"></i>{translate('tip')}</h4><p className="text-gray-700 italic pl-4">{step.tip}</p></div>)}
-                  </Card>
-                ))}
-              </div>
-            </Card>
+          {currentPathwayId && (
+            <p className="text-green-700 font-medium" role="status">
+              <i className="fas fa-check-circle mr-2" aria-hidden="true"></i>{translate('pathwaySaved')}{' '}
+              <ReactRouterDOM.Link to={APP_ROUTES.MY_PATHWAYS} className="text-teal-600 hover:text-teal-800 underline">{translate('myPathways')}</ReactRouterDOM.Link>
+            </p>
           )}
-          {/* Render Life Awareness Module */}
-          {generatedGuidance.lifeAwarenessModule && (generatedGuidance.lifeAwarenessModule.ageGroupFocus || generatedGuidance.lifeAwarenessModule.topics.length > 0) && (
-            <Card>
-                <h2 className="text-2xl font-semibold text-teal-700 mb-4">2️⃣ Life Awareness & Safety</h2>
-                {generatedGuidance.lifeAwarenessModule.ageGroupFocus && <p className="text-lg text-gray-700 mb-3"><strong>Focus:</strong> {generatedGuidance.lifeAwarenessModule.ageGroupFocus}</p>}
-                <div className="space-y-6">
-                    {generatedGuidance.lifeAwarenessModule.topics.map((topic,idx) => (
-                        <Card key={idx} className="border border-gray-200 shadow-sm">
-                            <h4 className="text-xl font-medium text-teal-600 mb-2">{topic.topicTitle}</h4>
-                            {topic.guidancePoints.map((gp, gpIdx) => (
-                                <div key={gpIdx} className="mb-3 pb-3 border-b border-gray-100 last:border-b-0">
-                                    <p className="text-gray-700 flex items-start">
-                                      <i className="fas fa-lightbulb text-yellow-500 mr-2 mt-1 flex-shrink-0" aria-hidden="true"></i>
-                                      <span>{gp.point}</span>
-                                    </p>
-                                    {gp.visualCue && (
-                                      <div className="mt-2 pl-6">
-                                        {/* Removed img tag that used picsum.photos */}
-                                        <p className="text-xs text-gray-500 italic mt-1 p-2 bg-gray-50 rounded text-center">Visual suggestion: {gp.visualCue}</p>
-                                      </div>
-                                    )}
-                                </div>
-                            ))}
-                            {topic.audioTip && <p className="text-sm text-blue-500 mt-2 pl-2 italic"><i className="fas fa-volume-up mr-1" aria-hidden="true"></i> {topic.audioTip}</p>}
-                        </Card>
-                    ))}
-                </div>
-            </Card>
-          )}
-          {/* Render Schemes and Rights */}
-          {generatedGuidance.schemesAndRights && generatedGuidance.schemesAndRights.length > 0 && (
-            <Card>
-              <h2 className="text-2xl font-semibold text-teal-700 mb-4">3️⃣ Scholarships, Schemes & Rights</h2>
-               <ul className="space-y-4">
-                {generatedGuidance.schemesAndRights.map((item, index) => (
-                  <li key={index} className="p-3 border rounded-md">
-                    <h4 className="text-xl font-medium text-teal-600 mb-1">{item.emoji} {item.type}: {item.name}</h4>
-                    <p className="text-gray-700 mb-1"><strong>Details:</strong> {item.details}</p>
-                    <p className="text-gray-700">
-                        <strong>How to Access:</strong> {item.url ? <a href={item.url} target="_blank" rel="noopener noreferrer" className="text-teal-600 hover:underline">{item.howToAccess.replace(item.url, '').trim() || item.howToAccess} <i className="fas fa-external-link-alt text-xs" aria-hidden="true"></i></a> : item.howToAccess}
-                    </p>
-                    {item.source && <p className="text-sm text-gray-500"><strong>Source:</strong> {extractUrl(item.source) ? <a href={extractUrl(item.source)!} target="_blank" rel="noopener noreferrer" className="text-teal-600 hover:underline">{item.source.replace(extractUrl(item.source)!, '').trim() || item.source} <i className="fas fa-external-link-alt text-xs" aria-hidden="true"></i></a> : item.source}</p>}
+          {/* Modules that were missing or malformed are reported instead of silently hidden */}
+          {generatedGuidance.moduleErrors && generatedGuidance.moduleErrors.length > 0 && (
+            <Card className="bg-amber-50 border-l-4 border-amber-500 p-4" role="status">
+              <h3 className="text-lg font-semibold text-amber-700 mb-2"><i className="fas fa-exclamation-triangle mr-2" aria-hidden="true"></i>{translate('pathwayModulesFailed')}</h3>
+              <ul className="list-disc list-inside text-amber-800 space-y-1">
+                {generatedGuidance.moduleErrors.map((moduleError, index) => (
+                  <li key={index}>
+                    <strong>{translate(PATHWAY_MODULE_TITLE_KEYS[moduleError.module])}:</strong> <span className="text-sm">{moduleError.reason}</span>
                   </li>
                 ))}
               </ul>
             </Card>
           )}
-          {/* Render Digital Learning Tips */}
-        {generatedGuidance.digitalLearningTips && generatedGuidance.digitalLearningTips.length > 0 && (
-            <Card>
-                <h2 className="text-2xl font-semibold text-teal-700 mb-4">4️⃣ Digital Learning Tips</h2>
-                <div className="space-y-4">
-                    {generatedGuidance.digitalLearningTips.map((tip, index) =>(
-                        <div key={index} className="p-3 border rounded-md">
-                            <h4 className="text-xl font-medium text-teal-600">App: {tip.app}</h4>
-                            {tip.howToUse.split('\n').map((line, lineIdx) => (
-                              <p key={lineIdx} className="text-gray-700 my-1">{lineIdx === 0 ? <strong>How to Use: </strong> : null}{line.replace(/^How to Use\s*[:\-]?\s*/i, "")}</p>
-                            ))}
-                            <p className="text-gray-700"><strong>Example Task:</strong> "{tip.exampleSearchOrTask}"</p>
-                            {tip.visualCue && <p className="text-sm text-gray-500 italic mt-1">(Visual idea: {tip.visualCue})</p>}
-                            {tip.audioTip && <p className="text-sm text-blue-500 mt-1 italic"><i className="fas fa-volume-up mr-1" aria-hidden="true"></i> {tip.audioTip}</p>}
-                        </div>
-                    ))}
-                </div>
-            </Card>
-          )}
-          {/* Render Motivational Support */}
-          {generatedGuidance.motivationalSupport && (generatedGuidance.motivationalSupport.personalizedEncouragement || generatedGuidance.motivationalSupport.quote || generatedGuidance.motivationalSupport.nextStep) && (
-             <Card className="bg-teal-50 border-l-4 border-teal-500">
-                <h2 className="text-2xl font-semibold text-teal-700 mb-4">5️⃣ Motivational Support</h2>
-                {generatedGuidance.motivationalSupport.personalizedEncouragement && <p className="text-lg text-teal-800 mb-3">🌟 {generatedGuidance.motivationalSupport.personalizedEncouragement}</p>}
-                {generatedGuidance.motivationalSupport.quote && <p className="text-lg italic text-teal-800 mb-3">🌟 "{generatedGuidance.motivationalSupport.quote}"</p>}
-                {generatedGuidance.motivationalSupport.nextStep && <p className="text-lg text-gray-700 mb-2">✅ <strong>Your Next Step:</strong> {generatedGuidance.motivationalSupport.nextStep}</p>}
-                {generatedGuidance.motivationalSupport.reminder && <p className="text-md text-gray-600">🔁 {generatedGuidance.motivationalSupport.reminder}</p>}
-            </Card>
-          )}
-          
+          {currentPathway && <PathwayProgressCard key={currentPathway.id} pathway={currentPathway} />}
+          {PATHWAY_MODULE_KEYS.map(moduleKey => (
+            <PathwayModuleView
+              key={moduleKey}
+              guidance={generatedGuidance}
+              module={moduleKey}
+              progress={currentPathway?.progress}
+              onToggleStep={currentPathway && (stepIndex => updateProgress(currentPathway.id, toggleStep(currentPathway.progress ?? EMPTY_PROGRESS, stepIndex)))}
+              onToggleResource={currentPathway && (resourceKey => updateProgress(currentPathway.id, toggleResource(currentPathway.progress ?? EMPTY_PROGRESS, resourceKey)))}
+              language={currentPathway?.language}
+            />
+          ))}
           {/* --- Chat Section --- */}
-          {chat && (
-            <Card className="mt-8">
-              <h2 className="text-2xl font-semibold text-teal-700 mb-4">Talk to Femmora AI</h2>
-              <div ref={chatHistoryRef} className="h-96 overflow-y-auto mb-4 p-4 border border-gray-200 rounded-lg bg-gray-50 space-y-4">
-                {chatHistory.map((msg, index) => (
-                  <div key={index} className={`flex ${msg.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
-                    <div className={`max-w-xl p-3 rounded-xl shadow ${msg.sender === 'user' ? 'bg-teal-500 text-white' : 'bg-white text-gray-800'}`}>
-                      <p className="whitespace-pre-wrap">{msg.text}</p>
-                      {msg.timestamp && <p className={`text-xs mt-1 ${msg.sender === 'user' ? 'text-teal-100' : 'text-gray-400'}`}>{msg.timestamp.toLocaleTimeString()}</p>}
-                    </div>
-                  </div>
-                ))}
-                {isChatLoading && (
-                  <div className="flex justify-start">
-                    <div className="max-w-xl p-3 rounded-lg shadow bg-white text-gray-800">
-                      <i className="fas fa-spinner fa-spin mr-2"></i> AI is typing...
-                    </div>
-                  </div>
-                )}
-              </div>
-              <form onSubmit={handleChatSubmit} className="flex gap-2">
-                <Input
-                  type="text"
-                  value={chatInput}
-                  onChange={(e) => setChatInput(e.target.value)}
-                  placeholder="Ask a follow-up question..."
-                  className="flex-grow !mb-0" // Override default margin bottom from Input component
-                  wrapperClassName="flex-grow !mb-0"
-                  disabled={isChatLoading || !apiKey || apiKey === "MISSING_API_KEY"}
-                />
-                <Button type="submit" disabled={isChatLoading || !chatInput.trim() || !apiKey || apiKey === "MISSING_API_KEY"}>
-                  <i className="fas fa-paper-plane mr-2"></i> Send
-                </Button>
-              </form>
-            </Card>
+          {chat.isActive && (
+            <ChatPanel
+              chat={chat}
+              title={translate('pathwayChatTitle')}
+              placeholder={translate('pathwayChatPlaceholder')}
+              suggestions={[translate('pathwaySuggestion1'), translate('pathwaySuggestion2'), translate('pathwaySuggestion3')]}
+              disabled={isLoading}
+            />
           )}
 
-          {/* --- Debugging Information Section (visible if parsing fails) --- */}
-          {generatedGuidance.rawResponse && generatedGuidance.rawResponse.includes("[Debug: Parsing resulted in empty or incomplete content based on structured checks.]") && (
+          {/* --- Debugging Information Section (visible if no module could be used) --- */}
+          {generatedGuidance.rawResponse && !chat.isActive && !currentPathwayId && (
             <Card className="mt-6 border-amber-500 bg-amber-50">
-              <h3 className="text-lg font-semibold text-amber-700">Debugging Information:</h3>
-              <p className="text-sm text-amber-600 mb-2">The AI responded, but the application couldn't fully understand the structure of the plan. The raw response from the AI is shown below for technical review.</p>
+              <h3 className="text-lg font-semibold text-amber-700">{translate('pathwayDebugTitle')}:</h3>
+              <p className="text-sm text-amber-600 mb-2">{translate('pathwayDebugDescription')}</p>
               <pre className="whitespace-pre-wrap text-xs bg-gray-100 p-2 rounded mt-2 max-h-96 overflow-y-auto">{generatedGuidance.rawResponse}</pre>
             </Card>
           )}
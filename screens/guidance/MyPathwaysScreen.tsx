@@ -0,0 +1,179 @@
+/**
+ * @file MyPathwaysScreen.tsx
+ * @description This screen lists every Smart Pathway the user has generated ("My Pathways").
+ * From here a pathway can be re-opened on the Smart Pathway screen (with its form inputs and
+ * follow-up chat restored), renamed, deleted, or selected for a side-by-side comparison.
+ * Each pathway shows how much of its roadmap the user has completed.
+ */
+
+import React, { useState } from 'react';
+import * as ReactRouterDOM from 'react-router-dom';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useSavedPathways } from '../../contexts/SavedPathwaysContext';
+import { useConversations } from '../../contexts/ConversationsContext';
+import SectionTitle from '../../components/common/SectionTitle';
+import Card from '../../components/common/Card';
+import Input from '../../components/common/Input';
+import Button from '../../components/common/Button';
+import { ProgressBar } from '../../components/guidance/PathwayProgressCard';
+import { getCompletionPercent } from '../../services/pathwayProgress';
+import { APP_ROUTES, GUIDANCE_CATEGORIES } from '../../constants';
+import { SavedPathway } from '../../types';
+
+/**
+ * The main component for the "My Pathways" library.
+ */
+const MyPathwaysScreen: React.FC = () => {
+  const { translate } = useLanguage();
+  const { savedPathways, renamePathway, deletePathway } = useSavedPathways();
+  const { findPathwayConversation, deleteConversation } = useConversations();
+  const navigate = ReactRouterDOM.useNavigate();
+
+  const [selectedIds, setSelectedIds] = useState<string[]>([]); // Up to two pathways chosen for comparison
+  const [editingId, setEditingId] = useState<string | null>(null); // The pathway being renamed
+  const [editingTitle, setEditingTitle] = useState('');
+
+  /**
+   * Returns the translated name of the category a pathway was generated for.
+   * @param {SavedPathway} pathway - The saved pathway.
+   * @returns {string} The category name.
+   */
+  const getCategoryLabel = (pathway: SavedPathway): string => {
+    const categoryObj = GUIDANCE_CATEGORIES.find(c => c.id === pathway.inputs.category);
+    return categoryObj ? translate(categoryObj.labelKey) : pathway.inputs.category;
+  };
+
+  /**
+   * Selects or unselects a pathway for comparison. Selecting a third pathway
+   * replaces the one that was selected first.
+   * @param {string} id - The id of the pathway.
+   */
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      if (prev.includes(id)) return prev.filter(selectedId => selectedId !== id);
+      return [...prev, id].slice(-2);
+    });
+  };
+
+  const startRename = (pathway: SavedPathway) => {
+    setEditingId(pathway.id);
+    setEditingTitle(pathway.title);
+  };
+
+  const handleRenameSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingId && editingTitle.trim()) {
+      renamePathway(editingId, editingTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (id: string) => {
+    if (!window.confirm(translate('confirmDeletePathway'))) return;
+    deletePathway(id);
+    // The follow-up chat of the pathway cannot be resumed without it.
+    const conversation = findPathwayConversation(id);
+    if (conversation) deleteConversation(conversation.id);
+    setSelectedIds(prev => prev.filter(selectedId => selectedId !== id));
+  };
+
+  const handleCompare = () => {
+    const [a, b] = selectedIds;
+    navigate(`${APP_ROUTES.COMPARE_PATHWAYS}?a=${encodeURIComponent(a)}&b=${encodeURIComponent(b)}`);
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <SectionTitle title={translate('myPathways')} subtitle={translate('myPathwaysSubtitle')} />
+
+      {savedPathways.length === 0 ? (
+        <Card className="text-center">
+          <p className="text-gray-600 mb-4">{translate('noSavedPathways')}</p>
+          <Button as={ReactRouterDOM.Link} to={APP_ROUTES.SMART_PATHWAY} leftIcon={<i className="fas fa-route"></i>}>
+            {translate('createPathway')}
+          </Button>
+        </Card>
+      ) : (
+        <>
+          {/* --- Comparison Bar --- */}
+          {savedPathways.length > 1 && (
+            <Card className="mb-6 bg-teal-50">
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                <p className="text-teal-800">{translate('compareSelectTwo')}</p>
+                <Button onClick={handleCompare} disabled={selectedIds.length !== 2} leftIcon={<i className="fas fa-columns"></i>}>
+                  {translate('comparePathways')}
+                </Button>
+              </div>
+            </Card>
+          )}
+
+          {/* --- List of Saved Pathways (newest first) --- */}
+          <div className="space-y-4">
+            {savedPathways.map(pathway => (
+              <Card key={pathway.id}>
+                <div className="flex items-start gap-4">
+                  {savedPathways.length > 1 && (
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(pathway.id)}
+                      onChange={() => toggleSelected(pathway.id)}
+                      className="mt-2 h-5 w-5 text-teal-600 border-gray-300 rounded focus:ring-teal-500"
+                      aria-label={`${translate('comparePathways')}: ${pathway.title}`}
+                    />
+                  )}
+                  <div className="flex-grow">
+                    {editingId === pathway.id ? (
+                      <form onSubmit={handleRenameSubmit} className="flex flex-col sm:flex-row gap-2">
+                        <Input
+                          id={`rename-${pathway.id}`}
+                          aria-label={translate('pathwayTitleLabel')}
+                          value={editingTitle}
+                          onChange={(e) => setEditingTitle(e.target.value)}
+                          wrapperClassName="flex-grow !mb-0"
+                          className="!mt-0"
+                          autoFocus
+                        />
+                        <Button type="submit" size="sm" disabled={!editingTitle.trim()}>{translate('save')}</Button>
+                        <Button type="button" size="sm" variant="secondary" onClick={() => setEditingId(null)}>{translate('cancel')}</Button>
+                      </form>
+                    ) : (
+                      <h3 className="text-xl font-semibold text-teal-700">{pathway.title}</h3>
+                    )}
+                    <p className="text-sm text-gray-500 mt-1">
+                      {translate('createdOn')}: {new Date(pathway.createdAt).toLocaleString()} · {getCategoryLabel(pathway)}
+                    </p>
+                    <div className="flex items-center gap-3 mt-3">
+                      <ProgressBar percent={getCompletionPercent(pathway)} />
+                      <span className="text-sm font-semibold text-teal-700 whitespace-nowrap">{getCompletionPercent(pathway)}% {translate('completed')}</span>
+                    </div>
+                    {pathway.guidance.motivationalSupport?.nextStep && (
+                      <p className="text-gray-700 mt-2"><strong>➡️</strong> {pathway.guidance.motivationalSupport.nextStep}</p>
+                    )}
+                    <div className="flex flex-wrap gap-2 mt-4">
+                      <Button
+                        as={ReactRouterDOM.Link}
+                        to={`${APP_ROUTES.SMART_PATHWAY}?pathway=${encodeURIComponent(pathway.id)}`}
+                        size="sm"
+                        leftIcon={<i className="fas fa-folder-open"></i>}
+                      >
+                        {translate('openPathway')}
+                      </Button>
+                      <Button size="sm" variant="secondary" onClick={() => startRename(pathway)} leftIcon={<i className="fas fa-pen"></i>}>
+                        {translate('renamePathway')}
+                      </Button>
+                      <Button size="sm" variant="danger" onClick={() => handleDelete(pathway.id)} leftIcon={<i className="fas fa-trash"></i>}>
+                        {translate('deletePathway')}
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              </Card>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MyPathwaysScreen;
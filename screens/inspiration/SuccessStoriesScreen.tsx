@@ -9,10 +9,8 @@ import { useLanguage } from '../../contexts/LanguageContext';
 const SuccessStoriesScreen: React.FC = () => {
   const { translate } = useLanguage();
 
-  // Placeholder: The 'motivationalStories' key might not exist in UI_TEXT yet.
-  // If it doesn't, it will fall back to "Motivational Stories".
-  // This route APP_ROUTES.MOTIVATIONAL_STORIES was also marked as removed.
-  const title = translate('motivationalStories', 'Success Stories'); 
+  // Placeholder: This route APP_ROUTES.MOTIVATIONAL_STORIES was also marked as removed.
+  const title = translate('motivationalStories'); 
 
   return (
     <div className="max-w-4xl mx-auto">
@@ -24,10 +22,10 @@ const SuccessStoriesScreen: React.FC = () => {
         <div className="text-center py-12">
           <i className="fas fa-star text-5xl text-amber-400 dark:text-amber-500 mb-4" aria-hidden="true"></i>
           <p className="text-xl text-gray-600 dark:text-gray-300">
-            {title} {translate('featureComingSoon', 'feature is under development.')}
+            {title} {translate('featureComingSoon')}
           </p>
           <p className="text-gray-500 dark:text-gray-400 mt-2">
-            {translate('checkBackLater', 'Please check back later for updates.')}
+            {translate('checkBackLater')}
           </p>
           {/* 
           // Example of how you might map through actual stories:
@@ -0,0 +1,202 @@
+/**
+ * @file IncidentJournalScreen.tsx
+ * @description The private incident journal, where the user can record incidents of abuse or
+ * harassment as evidence: the date, time and place, what happened, witnesses and photos.
+ * The journal is protected by its own PIN and encrypted on the device; it is locked again as
+ * soon as the user leaves this screen. The entries can be exported as a dated report to print
+ * or save as a PDF for a Protection Officer, the police or a lawyer.
+ */
+
+import React, { useState } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { createJournal, deleteJournal, hasJournal, JournalKey, sortIncidentEntries, storeJournalEntries, unlockJournal } from '../../services/incidentJournal';
+import { buildJournalReportHtml } from '../../services/journalReport';
+import { DecryptionError } from '../../services/encryption';
+import { IncidentEntry } from '../../types';
+import SectionTitle from '../../components/common/SectionTitle';
+import Card from '../../components/common/Card';
+import Button from '../../components/common/Button';
+import JournalPinForm from '../../components/journal/JournalPinForm';
+import IncidentEntryForm, { IncidentEntryFields } from '../../components/journal/IncidentEntryForm';
+import IncidentEntryCard from '../../components/journal/IncidentEntryCard';
+
+const IncidentJournalScreen: React.FC = () => {
+  const { translate, language } = useLanguage();
+  const { user } = useAuth();
+  const [journalExists, setJournalExists] = useState(() => (user ? hasJournal(user.id) : false));
+  const [journalKey, setJournalKey] = useState<JournalKey | null>(null); // Set while the journal is unlocked
+  const [entries, setEntries] = useState<IncidentEntry[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editingEntry, setEditingEntry] = useState<IncidentEntry | 'new' | null>(null);
+
+  if (!user) return null;
+
+  const handleCreate = async (pin: string) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      setJournalKey(await createJournal(user.id, pin));
+      setEntries([]);
+      setJournalExists(true);
+    } catch (createError) {
+      console.error("Failed to create the incident journal", createError);
+      setError(translate('journalSaveError'));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleUnlock = async (pin: string) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const unlocked = await unlockJournal(user.id, pin);
+      setJournalKey(unlocked.journalKey);
+      setEntries(sortIncidentEntries(unlocked.entries));
+    } catch (unlockError) {
+      if (!(unlockError instanceof DecryptionError)) console.error("Failed to unlock the incident journal", unlockError);
+      setError(translate(unlockError instanceof DecryptionError ? 'journalWrongPin' : 'journalSaveError'));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleForgotPin = () => {
+    if (!window.confirm(translate('journalConfirmReset'))) return;
+    deleteJournal(user.id);
+    setJournalExists(false);
+    setError(null);
+  };
+
+  const handleLock = () => {
+    setJournalKey(null);
+    setEntries([]);
+    setEditingEntry(null);
+    setError(null);
+  };
+
+  /**
+   * Encrypts and stores the new list of entries, keeping the old one if that fails (e.g. storage is full).
+   * @param {IncidentEntry[]} nextEntries - The complete new list.
+   * @returns {Promise<boolean>} True if the entries were saved.
+   */
+  const saveEntries = async (nextEntries: IncidentEntry[]): Promise<boolean> => {
+    if (!journalKey) return false;
+    setIsBusy(true);
+    setError(null);
+    try {
+      await storeJournalEntries(user.id, journalKey, nextEntries);
+      setEntries(sortIncidentEntries(nextEntries));
+      return true;
+    } catch (saveError) {
+      console.error("Failed to save the incident journal", saveError);
+      setError(translate('journalSaveError'));
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSaveEntry = async (fields: IncidentEntryFields) => {
+    const now = new Date().toISOString();
+    const nextEntries = editingEntry && editingEntry !== 'new'
+      ? entries.map(entry => (entry.id === editingEntry.id ? { ...entry, ...fields, updatedAt: now } : entry))
+      : [{ ...fields, id: `incident-${Date.now()}`, createdAt: now, updatedAt: now }, ...entries];
+    if (await saveEntries(nextEntries)) setEditingEntry(null);
+  };
+
+  const handleDeleteEntry = (id: string) => {
+    if (window.confirm(translate('journalConfirmDelete'))) saveEntries(entries.filter(entry => entry.id !== id));
+  };
+
+  /**
+   * Opens the report of all entries, oldest first, in a new window with the print dialog.
+   */
+  const handleExport = () => {
+    const html = buildJournalReportHtml(
+      [...entries].reverse(),
+      {
+        title: translate('journalReportTitle'),
+        preparedBy: translate('journalReportPreparedBy'),
+        generatedOn: translate('journalReportGeneratedOn'),
+        entry: translate('journalReportEntry'),
+        date: translate('journalDate'),
+        time: translate('journalTime'),
+        place: translate('journalPlace'),
+        description: translate('journalDescription'),
+        witnesses: translate('journalWitnesses'),
+        photos: translate('journalPhotos'),
+        declaration: translate('journalReportDeclaration'),
+        signature: translate('journalReportSignature'),
+      },
+      user.name,
+      `${language}-IN`
+    );
+    const reportWindow = window.open('', '_blank');
+    if (!reportWindow) {
+      setError(translate('journalPopupBlocked'));
+      return;
+    }
+    reportWindow.document.write(html);
+    reportWindow.document.close();
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      <SectionTitle title={translate('incidentJournal')} subtitle={translate('incidentJournalSubtitle')} />
+
+      {!journalKey ? (
+        <>
+          <JournalPinForm
+            key={journalExists ? 'unlock' : 'create'}
+            mode={journalExists ? 'unlock' : 'create'}
+            onSubmit={journalExists ? handleUnlock : handleCreate}
+            isBusy={isBusy}
+            error={error}
+            onForgotPin={handleForgotPin}
+          />
+          <p className="text-sm text-gray-500 text-center mt-4 max-w-md mx-auto">{translate('journalPrivacyNote')}</p>
+        </>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-3 mb-6">
+            {editingEntry === null && (
+              <Button onClick={() => setEditingEntry('new')} leftIcon={<i className="fas fa-plus"></i>}>{translate('journalNewEntry')}</Button>
+            )}
+            <Button variant="secondary" onClick={handleExport} disabled={entries.length === 0} leftIcon={<i className="fas fa-file-pdf"></i>}>{translate('journalExport')}</Button>
+            <Button variant="secondary" onClick={handleLock} leftIcon={<i className="fas fa-lock"></i>}>{translate('journalLock')}</Button>
+          </div>
+
+          {error && <p className="bg-red-50 border-l-4 border-red-500 p-3 text-sm text-red-700 mb-6" role="alert">{error}</p>}
+
+          {editingEntry !== null && (
+            <IncidentEntryForm
+              key={editingEntry === 'new' ? 'new' : editingEntry.id}
+              initialEntry={editingEntry === 'new' ? undefined : editingEntry}
+              onSave={handleSaveEntry}
+              onCancel={() => setEditingEntry(null)}
+              isSaving={isBusy}
+            />
+          )}
+
+          {entries.length === 0 && editingEntry === null ? (
+            <Card className="text-center">
+              <i className="fas fa-book text-4xl text-gray-300 mb-3" aria-hidden="true"></i>
+              <p className="text-gray-600">{translate('journalEmpty')}</p>
+            </Card>
+          ) : (
+            <div className="space-y-4">
+              {entries.map(entry => (
+                <IncidentEntryCard key={entry.id} entry={entry} onEdit={() => setEditingEntry(entry)} onDelete={() => handleDeleteEntry(entry.id)} />
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default IncidentJournalScreen;
@@ -0,0 +1,155 @@
+/**
+ * @file CalculatorScreen.tsx
+ * @description The neutral screen shown after a quick exit: a plain, working calculator with
+ * nothing on it that points to the app. Pressing and holding "=" returns to the app.
+ * It is also shown while the storage is locked (see VaultContext.tsx), outside the router, so
+ * it changes the address itself instead of using the router's navigation.
+ */
+
+import React, { useState, useRef } from 'react';
+import { usePrivacy } from '../../contexts/PrivacyContext';
+import { APP_ROUTES } from '../../constants';
+
+// How long "=" must be held to return to the app.
+const RETURN_HOLD_MS = 1500;
+
+// The most digits the display shows.
+const MAX_DIGITS = 15;
+
+type Operator = '+' | '−' | '×' | '÷';
+
+/**
+ * Applies an operator to two numbers.
+ * @param {number} left - The first number.
+ * @param {number} right - The second number.
+ * @param {Operator} operator - The operator.
+ * @returns {number} The result (Infinity or NaN when dividing by zero).
+ */
+const calculate = (left: number, right: number, operator: Operator): number => {
+  switch (operator) {
+    case '+': return left + right;
+    case '−': return left - right;
+    case '×': return left * right;
+    case '÷': return left / right;
+  }
+};
+
+/**
+ * Formats a result for the display, hiding floating point noise such as 0.1 + 0.2 = 0.30000000000000004.
+ * @param {number} value - The result.
+ * @returns {string} The text to display.
+ */
+const formatResult = (value: number): string =>
+  Number.isFinite(value) ? String(parseFloat(value.toPrecision(12))) : 'Error';
+
+const CalculatorScreen: React.FC = () => {
+  const { returnFromQuickExit } = usePrivacy();
+  const [display, setDisplay] = useState('0');
+  const [storedValue, setStoredValue] = useState<number | null>(null);
+  const [operator, setOperator] = useState<Operator | null>(null);
+  const [isWaitingForOperand, setIsWaitingForOperand] = useState(false);
+  const holdTimerRef = useRef<number | null>(null);
+
+  const inputDigit = (digit: string) => {
+    if (isWaitingForOperand || display === 'Error') {
+      setDisplay(digit);
+      setIsWaitingForOperand(false);
+    } else if (display.length < MAX_DIGITS) {
+      setDisplay(display === '0' ? digit : display + digit);
+    }
+  };
+
+  const inputDot = () => {
+    if (isWaitingForOperand || display === 'Error') {
+      setDisplay('0.');
+      setIsWaitingForOperand(false);
+    } else if (!display.includes('.')) {
+      setDisplay(display + '.');
+    }
+  };
+
+  const chooseOperator = (nextOperator: Operator) => {
+    const value = parseFloat(display);
+    if (storedValue !== null && operator && !isWaitingForOperand) {
+      const result = calculate(storedValue, value, operator);
+      setDisplay(formatResult(result));
+      setStoredValue(result);
+    } else {
+      setStoredValue(value);
+    }
+    setOperator(nextOperator);
+    setIsWaitingForOperand(true);
+  };
+
+  const showResult = () => {
+    if (storedValue === null || !operator) return;
+    setDisplay(formatResult(calculate(storedValue, parseFloat(display), operator)));
+    setStoredValue(null);
+    setOperator(null);
+    setIsWaitingForOperand(true);
+  };
+
+  const clear = () => {
+    setDisplay('0');
+    setStoredValue(null);
+    setOperator(null);
+    setIsWaitingForOperand(false);
+  };
+
+  // Holding "=" is the hidden way back to the app.
+  const startHold = () => {
+    holdTimerRef.current = window.setTimeout(() => {
+      window.location.replace(`#${APP_ROUTES.HOME}`);
+      returnFromQuickExit();
+    }, RETURN_HOLD_MS);
+  };
+
+  const cancelHold = () => {
+    if (holdTimerRef.current !== null) window.clearTimeout(holdTimerRef.current);
+    holdTimerRef.current = null;
+  };
+
+  const keyClass = 'h-16 rounded-xl text-2xl font-medium shadow-sm active:scale-95 transition-transform';
+  const digitKey = (digit: string) => (
+    <button key={digit} type="button" onClick={() => inputDigit(digit)} className={`${keyClass} bg-white text-gray-800 hover:bg-gray-50`}>{digit}</button>
+  );
+  const operatorKey = (op: Operator) => (
+    <button key={op} type="button" onClick={() => chooseOperator(op)} className={`${keyClass} ${operator === op && isWaitingForOperand ? 'bg-orange-300' : 'bg-orange-100'} text-orange-700 hover:bg-orange-200`}>{op}</button>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex items-center justify-center p-4">
+      <div className="w-full max-w-xs">
+        <h1 className="text-lg font-semibold text-gray-600 mb-3">Calculator</h1>
+        <output className="block bg-gray-800 text-white text-right text-4xl font-light rounded-xl px-4 py-6 mb-4 overflow-hidden" aria-live="polite">
+          {display}
+        </output>
+        <div className="grid grid-cols-4 gap-3">
+          <button type="button" onClick={clear} className={`${keyClass} col-span-3 bg-gray-300 text-gray-800 hover:bg-gray-400`}>AC</button>
+          {operatorKey('÷')}
+          {['7', '8', '9'].map(digitKey)}
+          {operatorKey('×')}
+          {['4', '5', '6'].map(digitKey)}
+          {operatorKey('−')}
+          {['1', '2', '3'].map(digitKey)}
+          {operatorKey('+')}
+          {digitKey('0')}
+          <button type="button" onClick={inputDot} className={`${keyClass} bg-white text-gray-800 hover:bg-gray-50`}>.</button>
+          <button
+            type="button"
+            onClick={showResult}
+            onPointerDown={startHold}
+            onPointerUp={cancelHold}
+            onPointerLeave={cancelHold}
+            onContextMenu={e => e.preventDefault()}
+            className={`${keyClass} col-span-2 bg-orange-500 text-white hover:bg-orange-600`}
+          >
+            =
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CalculatorScreen;
@@ -1,56 +1,83 @@
+/**
+ * @file ProfileScreen.tsx
+ * @description The user's profile, shown at the top of the Settings screen. The user tells
+ * about herself once here (age, state and district, education level, occupation, interests and
+ * preferred language), and the Smart Pathway, Women Awareness and Learn to Use Apps screens
+ * pre-fill their forms from it instead of asking again every time.
+ */
 
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
 import { useLanguage } from '../../contexts/LanguageContext';
+import { useUserProfile } from '../../contexts/UserProfileContext';
+import { EDUCATION_LEVELS, INDIAN_STATES, LANGUAGE_OPTIONS } from '../../constants';
+import { getLanguagePickerLabel } from '../../services/i18n';
+import { isValidProfileAge, MAX_PROFILE_AGE, MIN_PROFILE_AGE, parseInterests } from '../../services/userProfile';
 import Button from '../../components/common/Button';
 import Input from '../../components/common/Input';
 import Card from '../../components/common/Card';
-import SectionTitle from '../../components/common/SectionTitle';
-import { User } from '../../types';
+import { Language, UserProfile } from '../../types';
+
+// The classes of the select boxes, matching the Input component.
+const SELECT_CLASS_NAME = "mt-1 block w-full px-4 py-3 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-teal-500 sm:text-base bg-white text-gray-900";
 
 const ProfileScreen: React.FC = () => {
-  const { user, login: updateUserAuth } = useAuth(); // login also updates user in context
-  const { translate } = useLanguage();
-  
+  const { user, updateUser: updateUserAuth } = useAuth();
+  const { language, setLanguage, translate } = useLanguage();
+  const { profile, saveProfile } = useUserProfile();
+
   const [name, setName] = useState(user?.name || '');
-  const [email, setEmail] = useState(user?.email || '');
-  const [profilePicture, setProfilePicture] = useState<File | null>(null);
-  const [profilePictureUrl, setProfilePictureUrl] = useState(user?.profilePictureUrl || 'https://picsum.photos/200'); // Placeholder
-  const [isEditing, setIsEditing] = useState(false);
+  const [age, setAge] = useState('');
+  const [state, setState] = useState('');
+  const [district, setDistrict] = useState('');
+  const [educationLevel, setEducationLevel] = useState('');
+  const [occupation, setOccupation] = useState('');
+  const [interests, setInterests] = useState('');
+  const [preferredLanguage, setPreferredLanguage] = useState<Language>(language);
+  const [ageError, setAgeError] = useState('');
   const [message, setMessage] = useState('');
 
+  // Fill the form from the saved profile, and again whenever it changes.
   useEffect(() => {
-    if (user) {
-      setName(user.name);
-      setEmail(user.email);
-      setProfilePictureUrl(user.profilePictureUrl || 'https://picsum.photos/200');
-    }
+    setAge(profile.age !== undefined ? String(profile.age) : '');
+    setState(profile.state ?? '');
+    setDistrict(profile.district ?? '');
+    setEducationLevel(profile.educationLevel ?? '');
+    setOccupation(profile.occupation ?? '');
+    setInterests(profile.interests.join(', '));
+  }, [profile]);
+
+  useEffect(() => {
+    if (user) setName(user.name);
   }, [user]);
 
-  const handlePictureChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      setProfilePicture(file);
-      setProfilePictureUrl(URL.createObjectURL(file)); // Preview image
-    }
-  };
+  // The language can also be changed from the sidebar.
+  useEffect(() => {
+    setPreferredLanguage(language);
+  }, [language]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!user) return;
+    setMessage('');
+    if (!isValidProfileAge(age)) {
+      setAgeError(translate('invalidProfileAge'));
+      return;
+    }
+    setAgeError('');
 
-    // Simulate update
-    const updatedUserData: User = {
-      ...user,
-      name,
-      email,
-      profilePictureUrl: profilePicture ? profilePictureUrl : user.profilePictureUrl // Keep old if no new one
+    const updatedProfile: UserProfile = {
+      age: age.trim() ? Number(age) : undefined,
+      state: state || undefined,
+      district: district.trim() || undefined,
+      educationLevel: educationLevel || undefined,
+      occupation: occupation.trim() || undefined,
+      interests: parseInterests(interests),
     };
-    
-    updateUserAuth(updatedUserData); // This will update context and localStorage
-    setMessage('Profile updated successfully!');
-    setIsEditing(false);
-    setTimeout(() => setMessage(''), 3000);
+    saveProfile(updatedProfile);
+    if (name.trim() && name.trim() !== user.name) updateUserAuth({ ...user, name: name.trim() });
+    setLanguage(preferredLanguage);
+    setMessage(translate('profileSaved'));
   };
 
   if (!user) {
@@ -58,97 +85,92 @@ const ProfileScreen: React.FC = () => {
   }
 
   return (
-    <div className="max-w-4xl mx-auto">
-      <SectionTitle title={translate('profile')} />
-      {message && <div className="mb-4 p-3 bg-green-100 text-green-700 rounded-md">{message}</div>}
-      
-      <Card>
-        <div className="flex flex-col md:flex-row items-center md:items-start space-y-6 md:space-y-0 md:space-x-8">
-          <div className="flex-shrink-0">
-            <img 
-              src={profilePictureUrl} 
-              alt="Profile" 
-              className="w-40 h-40 rounded-full object-cover shadow-lg"
-            />
-            {isEditing && (
-              <div className="mt-4">
-                <label htmlFor="profilePictureInput" className="cursor-pointer bg-teal-500 text-white px-4 py-2 rounded-lg hover:bg-teal-600 text-sm block text-center">
-                  Change Photo
-                </label>
-                <input 
-                  type="file" 
-                  id="profilePictureInput" 
-                  accept="image/*" 
-                  onChange={handlePictureChange} 
-                  className="hidden"
-                />
-              </div>
-            )}
-          </div>
+    <Card className="mb-8" id="profile">
+      <h3 className="text-xl font-semibold text-gray-700 mb-1">{translate('myProfile')}</h3>
+      <p className="text-sm text-gray-500 mb-4">{translate('myProfileHint')}</p>
 
-          <div className="flex-grow">
-            {!isEditing ? (
-              <div className="space-y-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-500">{translate('name')}</label>
-                  <p className="text-xl text-gray-800">{user.name}</p>
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-500">{translate('email')}</label>
-                  <p className="text-xl text-gray-800">{user.email}</p>
-                </div>
-                {/* Add more profile fields here */}
-                <Button onClick={() => setIsEditing(true)} className="mt-4">Edit Profile</Button>
-              </div>
-            ) : (
-              <form onSubmit={handleSubmit} className="space-y-6">
-                <Input
-                  id="name"
-                  label={translate('name')}
-                  type="text"
-                  value={name}
-                  onChange={(e) => setName(e.target.value)}
-                  required
-                />
-                <Input
-                  id="email"
-                  label={translate('email')}
-                  type="email"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  required
-                />
-                {/* Add more editable fields */}
-                <div className="flex space-x-4 mt-6">
-                  <Button type="submit">{translate('save')}</Button>
-                  <Button type="button" variant="secondary" onClick={() => { setIsEditing(false); setMessage(''); }}>
-                    {translate('cancel')}
-                  </Button>
-                </div>
-              </form>
-            )}
+      <form onSubmit={handleSubmit}>
+        <Input
+          id="profileName"
+          label={translate('name')}
+          type="text"
+          autoComplete="name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          required
+        />
+        <p className="mb-4 text-gray-600">
+          <span className="block text-sm font-medium text-gray-500">{translate(user.email ? 'email' : 'phoneNumber')}</span>
+          {user.email ?? user.phone}
+        </p>
+        <Input
+          id="profileAge"
+          label={translate('age')}
+          type="number"
+          inputMode="numeric"
+          min={MIN_PROFILE_AGE}
+          max={MAX_PROFILE_AGE}
+          value={age}
+          onChange={(e) => setAge(e.target.value)}
+          error={ageError || undefined}
+          placeholder={translate('ageInputPlaceholder')}
+        />
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4">
+          <div className="mb-4">
+            <label htmlFor="profileState" className="block text-lg font-medium text-gray-700 mb-1">{translate('selectYourState')}</label>
+            <select id="profileState" value={state} onChange={(e) => setState(e.target.value)} className={SELECT_CLASS_NAME}>
+              <option value="">{translate('noStateSelected')}</option>
+              {INDIAN_STATES.map(stateName => (
+                <option key={stateName} value={stateName}>{stateName}</option>
+              ))}
+            </select>
           </div>
+          <Input
+            id="profileDistrict"
+            label={translate('district')}
+            type="text"
+            value={district}
+            onChange={(e) => setDistrict(e.target.value)}
+          />
         </div>
-      </Card>
-
-      {/* Placeholder for Document Upload section removed
-      <div className="mt-8">
-        <Card title={translate('uploadDocument')}>
-            <p className="text-gray-600 mb-4">Upload important documents like certificates, ID proofs, etc. (Max 5MB per file)</p>
-            <Input 
-              type="file" 
-              id="documentUpload" 
-              label="Select Document" 
-              className="text-lg"
-              // Add onChange handler to manage uploaded files
-            />
-            <Button className="mt-2">Upload</Button>
-            <p className="mt-2 text-sm text-gray-500">Supported formats: PDF, JPG, PNG.</p>
-        </Card>
-      </div>
-      */}
-    </div>
+        <div className="mb-4">
+          <label htmlFor="profileEducationLevel" className="block text-lg font-medium text-gray-700 mb-1">{translate('educationLevel')}</label>
+          <select id="profileEducationLevel" value={educationLevel} onChange={(e) => setEducationLevel(e.target.value)} className={SELECT_CLASS_NAME}>
+            <option value="">{translate('notSpecified')}</option>
+            {EDUCATION_LEVELS.map(level => (
+              <option key={level.id} value={level.id}>{translate(level.labelKey)}</option>
+            ))}
+          </select>
+        </div>
+        <Input
+          id="profileOccupation"
+          label={translate('occupation')}
+          type="text"
+          value={occupation}
+          onChange={(e) => setOccupation(e.target.value)}
+          placeholder={translate('occupationPlaceholder')}
+        />
+        <Input
+          id="profileInterests"
+          label={translate('interests')}
+          type="text"
+          value={interests}
+          onChange={(e) => setInterests(e.target.value)}
+          placeholder={translate('interestsPlaceholder')}
+        />
+        <div className="mb-6">
+          <label htmlFor="profileLanguage" className="block text-lg font-medium text-gray-700 mb-1">{translate('preferredLanguage')}</label>
+          <select id="profileLanguage" value={preferredLanguage} onChange={(e) => setPreferredLanguage(e.target.value as Language)} className={SELECT_CLASS_NAME}>
+            {LANGUAGE_OPTIONS.map(option => (
+              <option key={option.code} value={option.code}>{getLanguagePickerLabel(option.code)}</option>
+            ))}
+          </select>
+        </div>
+        <Button type="submit" leftIcon={<i className="fas fa-save"></i>}>{translate('saveProfile')}</Button>
+      </form>
+      {message && <p className="text-sm text-green-600 mt-3" role="status">{message}</p>}
+    </Card>
   );
 };
 
-export default ProfileScreen;
\ No newline at end of file
+export default ProfileScreen;
@@ -1,85 +1,143 @@
 /**
  * @file SettingsScreen.tsx
  * @description This screen allows users to configure application settings,
- * such as changing the display language and enabling or disabling push notifications.
- * Settings are persisted to localStorage.
+ * such as their profile (see ProfileScreen.tsx) and preferred language, enabling or disabling push notifications, the quick
+ * login PIN, and the privacy settings (disguise mode and saving chat history). Settings are persisted to the encrypted storage,
+ * except the privacy settings, which are needed before it is unlocked.
  */
 import React, { useState } from 'react';
 import { useLanguage } from '../../contexts/LanguageContext';
-import { Language } from '../../types';
+import { useAuth } from '../../contexts/AuthContext';
+import { usePrivacy } from '../../contexts/PrivacyContext';
+import { AUTO_LOCK_OPTIONS, useVault } from '../../contexts/VaultContext';
+import { secureStorage } from '../../services/secureStorage';
 import Card from '../../components/common/Card';
 import SectionTitle from '../../components/common/SectionTitle';
+import Button from '../../components/common/Button';
+import QuickLoginPinSettings from '../../components/auth/QuickLoginPinSettings';
+import ProfileScreen from '../profile/ProfileScreen';
+
+// Define the props for the ToggleSwitch component.
+interface ToggleSwitchProps {
+  id: string;
+  checked: boolean;
+  onChange: () => void;
+}
+
+/**
+ * A stylish toggle switch for an on/off setting.
+ */
+const ToggleSwitch: React.FC<ToggleSwitchProps> = ({ id, checked, onChange }) => (
+  <label htmlFor={id} className="flex items-center cursor-pointer">
+    <div className="relative">
+      <input 
+        type="checkbox" 
+        id={id} 
+        className="sr-only peer" // `peer` class allows styling sibling elements based on state
+        checked={checked}
+        onChange={onChange}
+      />
+      <div className="block bg-gray-300 peer-checked:bg-teal-500 w-14 h-8 rounded-full transition"></div>
+      <div className="dot absolute left-1 top-1 bg-white w-6 h-6 rounded-full transition-transform peer-checked:transform peer-checked:translate-x-6"></div>
+    </div>
+  </label>
+);
 
 const SettingsScreen: React.FC = () => {
-  const { language, setLanguage, translate } = useLanguage();
+  const { translate } = useLanguage();
+  const { privacySettings, setDisguiseMode, setSaveChatHistory } = usePrivacy();
+  const { lock, autoLockMinutes, setAutoLockMinutes } = useVault();
+  const { user } = useAuth();
+  // Every profile on the device has its own notification setting.
+  const notificationsStorageKey = `femmoraNotifications_${user?.id ?? ''}`;
   
-  // State for the notification toggle, initialized from localStorage.
+  // State for the notification toggle, initialized from storage.
   const [notificationsEnabled, setNotificationsEnabled] = useState(
-    // Check localStorage for a previously saved setting. Default to false if not found.
-    localStorage.getItem('femmoraNotifications') === 'true'
+    // Check storage for a previously saved setting. Default to false if not found.
+    secureStorage.getItem(notificationsStorageKey) === 'true'
   );
 
   /**
-   * Handles changes to the language selection dropdown.
-   * @param {React.ChangeEvent<HTMLSelectElement>} e - The change event from the select element.
-   */
-  const handleLanguageChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    setLanguage(e.target.value as Language);
-  };
-
-  /**
-   * Toggles the notification setting and saves it to localStorage.
+   * Toggles the notification setting and saves it to storage.
    */
   const handleNotificationToggle = () => {
     const newSetting = !notificationsEnabled;
     setNotificationsEnabled(newSetting);
-    localStorage.setItem('femmoraNotifications', String(newSetting));
+    secureStorage.setItem(notificationsStorageKey, String(newSetting));
     // This alert is a simulation. A real app would register/unregister a service worker.
     alert(`Push notifications ${newSetting ? 'enabled' : 'disabled'}. (This is a simulation)`);
   };
 
+  /**
+   * Turns saving chat history on or off. Turning it off deletes the saved chats, so it is confirmed first.
+   */
+  const handleSaveChatHistoryToggle = () => {
+    if (privacySettings.saveChatHistory && !window.confirm(translate('confirmStopSavingChats'))) return;
+    setSaveChatHistory(!privacySettings.saveChatHistory);
+  };
+
   return (
     <div className="max-w-2xl mx-auto">
       <SectionTitle title={translate('settings')} />
 
-      {/* Language Selection Card */}
-      <Card className="mb-8">
-        <h3 className="text-xl font-semibold text-gray-700 mb-4">{translate('language')}</h3>
-        <select
-          value={language}
-          onChange={handleLanguageChange}
-          className="w-full p-3 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-teal-500 bg-white text-gray-800"
-        >
-          <option value={Language.EN}>English</option>
-          <option value={Language.HI}>हिन्दी (Hindi)</option>
-          <option value={Language.TA}>தமிழ் (Tamil)</option>
-        </select>
-      </Card>
+      {/* Profile Card, which also holds the preferred language */}
+      <ProfileScreen />
 
       {/* Notification Settings Card */}
       <Card className="mb-8">
         <h3 className="text-xl font-semibold text-gray-700 mb-4">{translate('notifications')}</h3>
         <div className="flex items-center justify-between">
           <span className="text-lg text-gray-600">{translate('enablePushNotifications')}</span>
-          {/* A stylish toggle switch for the notification setting */}
-          <label htmlFor="notificationToggle" className="flex items-center cursor-pointer">
-            <div className="relative">
-              <input 
-                type="checkbox" 
-                id="notificationToggle" 
-                className="sr-only peer" // `peer` class allows styling sibling elements based on state
-                checked={notificationsEnabled}
-                onChange={handleNotificationToggle}
-              />
-              <div className="block bg-gray-300 peer-checked:bg-teal-500 w-14 h-8 rounded-full transition"></div>
-              <div className="dot absolute left-1 top-1 bg-white w-6 h-6 rounded-full transition-transform peer-checked:transform peer-checked:translate-x-6"></div>
-            </div>
-          </label>
+          <ToggleSwitch id="notificationToggle" checked={notificationsEnabled} onChange={handleNotificationToggle} />
         </div>
         {/* Informational text based on the toggle's state */}
         {notificationsEnabled && <p className="text-sm text-green-600 mt-2">You will receive updates and opportunities.</p> }
         {!notificationsEnabled && <p className="text-sm text-gray-500 mt-2">You might miss important updates.</p> }
       </Card>
+
+      {/* App Lock Card */}
+      <Card className="mb-8">
+        <h3 className="text-xl font-semibold text-gray-700 mb-1">{translate('appLock')}</h3>
+        <p className="text-sm text-gray-500 mb-4">{translate('appLockHint')}</p>
+        <label htmlFor="autoLockMinutes" className="block text-lg text-gray-600 mb-1">{translate('autoLockAfter')}</label>
+        <select
+          id="autoLockMinutes"
+          value={autoLockMinutes}
+          onChange={e => setAutoLockMinutes(Number(e.target.value))}
+          className="w-full p-3 mb-4 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-teal-500 bg-white text-gray-800"
+        >
+          {AUTO_LOCK_OPTIONS.map(minutes => (
+            <option key={minutes} value={minutes}>{minutes === 0 ? translate('autoLockNever') : `${minutes} ${translate('minutes')}`}</option>
+          ))}
+        </select>
+        <Button variant="secondary" onClick={lock} leftIcon={<i className="fas fa-lock"></i>}>{translate('lockNow')}</Button>
+      </Card>
+
+      {/* Quick Login PIN Card */}
+      <QuickLoginPinSettings />
+
+      {/* Privacy and Safety Card */}
+      <Card className="mb-8">
+        <h3 className="text-xl font-semibold text-gray-700 mb-4">{translate('privacyAndSafety')}</h3>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <span className="text-lg text-gray-600">{translate('disguiseMode')}</span>
+            <p className="text-sm text-gray-500">{translate('disguiseModeHint')}</p>
+          </div>
+          <ToggleSwitch id="disguiseModeToggle" checked={privacySettings.disguiseMode} onChange={() => setDisguiseMode(!privacySettings.disguiseMode)} />
+        </div>
+        <div className="flex items-center justify-between gap-4 mt-6">
+          <div>
+            <span className="text-lg text-gray-600">{translate('saveChatHistory')}</span>
+            <p className="text-sm text-gray-500">{translate('saveChatHistoryHint')}</p>
+          </div>
+          <ToggleSwitch id="saveChatHistoryToggle" checked={privacySettings.saveChatHistory} onChange={handleSaveChatHistoryToggle} />
+        </div>
+        <div className="mt-6 bg-teal-50 border-l-4 border-teal-500 p-3 text-sm text-gray-700">
+          <p className="font-semibold text-teal-800"><i className="fas fa-eye-slash mr-2" aria-hidden="true"></i>{translate('quickExit')}</p>
+          <p className="mt-1">{translate('quickExitHelp')}</p>
+        </div>
+      </Card>
     </div>
   );
 };
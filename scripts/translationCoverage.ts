@@ -0,0 +1,228 @@
+/**
+ * @file translationCoverage.ts
+ * @description Reports how well the translation catalogs cover the app (`npm run i18n:coverage`).
+ * It scans the app's sources for translation keys and checks them against the catalog of
+ * every language, listing:
+ * - keys passed to `translate` that en.json does not have;
+ * - strings missing from a catalog, which are shown from the language's fallbacks instead;
+ * - strings that are the same as in English, which were usually copied and never translated;
+ * - keys that no source uses, and keys of a catalog that en.json no longer has;
+ * - text written into the JSX of a component instead of a catalog, which is never translated
+ *   (see services/hardCodedText.ts).
+ * A key counts as used if it appears as a string literal anywhere in the sources, so the keys
+ * kept in tables (e.g. `labelKey: 'home'`) are found too.
+ *
+ * Pass `--json` for a machine-readable report. The script fails if a key or a string is
+ * missing; unused and identical strings and hard-coded text are only reported.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { LANGUAGE_FALLBACKS } from '../constants';
+import { findHardCodedText } from '../services/hardCodedText';
+import { Language } from '../types';
+
+type CatalogEntry = string | Record<string, string>;
+type Catalog = Record<string, CatalogEntry>;
+
+interface UnknownKey {
+  key: string;
+  location: string; // The file and line of the `translate` call, e.g. "screens/HelpScreen.tsx:12"
+}
+
+interface HardCodedTextLocation {
+  text: string;
+  location: string; // The file and line of the text
+}
+
+interface LanguageCoverage {
+  language: Language;
+  translatedCount: number;
+  missing: { key: string; shownFrom: Language }[]; // With the language the string is shown in instead
+  identical: string[];
+  stale: string[]; // Keys en.json no longer has
+}
+
+interface CoverageReport {
+  keyCount: number;
+  unknownKeys: UnknownKey[];
+  unusedKeys: string[];
+  hardCodedText: HardCodedTextLocation[];
+  languages: LanguageCoverage[];
+}
+
+const ROOT_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const LOCALES_DIR = path.join(ROOT_DIR, 'locales');
+// The directories that are not part of the app's UI (components/dev holds the development tools).
+const SKIPPED_DIRS = new Set(['node_modules', 'dist', 'locales', 'server', 'scripts', 'dev', '.git']);
+// A string literal in single or double quotes. Template literals are read as code, so the
+// `translate` calls inside them are found.
+const STRING_LITERAL = /(['"])((?:\\.|(?!\1)[^\\\n])*)\1/g;
+// The start of a translate call: `translate(key, ...)` or `translateText(language, key, ...)`.
+const TRANSLATE_CALL = /\btranslate(Text)?\(/g;
+// A key literal in the key argument of a call: the whole argument, or a branch of a ternary or `??`.
+const KEY_LITERAL = /(?:^|[?:]|\|\|)\s*(['"])([^'"]+)\1/g;
+
+/**
+ * Lists the TypeScript sources of the app.
+ * @param {string} dir - The directory to look in.
+ * @returns {string[]} The paths of the `.ts` and `.tsx` files under it.
+ */
+const listSources = (dir: string): string[] =>
+  fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) return SKIPPED_DIRS.has(entry.name) ? [] : listSources(entryPath);
+    return /\.tsx?$/.test(entry.name) ? [entryPath] : [];
+  });
+
+/**
+ * Reads the catalog of a language.
+ * @param {Language} language - The language.
+ * @returns {Catalog} Its strings, by key.
+ */
+const readCatalog = (language: Language): Catalog =>
+  JSON.parse(fs.readFileSync(path.join(LOCALES_DIR, `${language}.json`), 'utf8'));
+
+/**
+ * Splits the arguments of a call, starting right after its opening parenthesis. What is inside
+ * brackets within an argument is left out, so only its top level is kept: `KEYS[role ?? 'learner']`
+ * becomes `KEYS`.
+ * @param {string} source - The source file.
+ * @param {number} start - The index after the parenthesis.
+ * @returns {string[]} The top-level text of each argument.
+ */
+const readCallArguments = (source: string, start: number): string[] => {
+  const args: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = '';
+  for (let index = start; index < source.length; index++) {
+    const char = source[index];
+    if (quote) {
+      if (char === '\\') {
+        if (depth === 0) current += char + source[index + 1];
+        index++;
+        continue;
+      }
+      if (char === quote) quote = null;
+    } else if (char === '\'' || char === '"' || char === '`') {
+      quote = char;
+    } else if ('([{'.includes(char)) {
+      depth++;
+      continue;
+    } else if (')]}'.includes(char)) {
+      if (depth === 0) break;
+      depth--;
+      continue;
+    } else if (char === ',' && depth === 0) {
+      args.push(current.trim());
+      current = '';
+      continue;
+    }
+    if (depth === 0) current += char;
+  }
+  return [...args, current.trim()];
+};
+
+/**
+ * Scans a source file for the keys it uses.
+ * @param {string} source - The source file.
+ * @returns {{ literals: Set<string>; callKeys: { key: string; line: number }[] }} Every string
+ * literal in it, and the literal keys passed to `translate` with their line.
+ */
+const scanSource = (source: string): { literals: Set<string>; callKeys: { key: string; line: number }[] } => {
+  const literals = new Set([...source.matchAll(STRING_LITERAL)].map(match => match[2]));
+  const callKeys = [...source.matchAll(TRANSLATE_CALL)].flatMap(match => {
+    const args = readCallArguments(source, match.index + match[0].length);
+    const keyArgument = args[match[1] ? 1 : 0] ?? '';
+    const line = source.slice(0, match.index).split('\n').length;
+    return [...keyArgument.matchAll(KEY_LITERAL)].map(keyMatch => ({ key: keyMatch[2], line }));
+  });
+  return { literals, callKeys };
+};
+
+/**
+ * Checks whether a string has text to translate, leaving its placeholders out.
+ * @param {CatalogEntry} entry - The string, or its plural forms.
+ * @returns {boolean} False for strings such as "{count}/{total}", which read the same in every language.
+ */
+const hasText = (entry: CatalogEntry): boolean =>
+  /\p{L}/u.test((typeof entry === 'string' ? entry : Object.values(entry).join(' ')).replace(/\{\w+\}/g, ''));
+
+/**
+ * Builds the coverage report of every language.
+ * @returns {CoverageReport} The report.
+ */
+const buildReport = (): CoverageReport => {
+  const catalogs = Object.fromEntries(Object.values(Language).map(language => [language, readCatalog(language)])) as Record<Language, Catalog>;
+  const english = catalogs[Language.EN];
+  const keys = Object.keys(english);
+
+  const usedLiterals = new Set<string>();
+  const unknownKeys: UnknownKey[] = [];
+  const hardCodedText: HardCodedTextLocation[] = [];
+  for (const file of listSources(ROOT_DIR)) {
+    const source = fs.readFileSync(file, 'utf8');
+    const { literals, callKeys } = scanSource(source);
+    literals.forEach(literal => usedLiterals.add(literal));
+    callKeys.forEach(({ key }) => usedLiterals.add(key));
+    callKeys
+      .filter(({ key }) => !(key in english))
+      .forEach(({ key, line }) => unknownKeys.push({ key, location: `${path.relative(ROOT_DIR, file)}:${line}` }));
+    if (file.endsWith('.tsx')) {
+      findHardCodedText(source).forEach(({ text, line }) => hardCodedText.push({ text, location: `${path.relative(ROOT_DIR, file)}:${line}` }));
+    }
+  }
+
+  const languages = Object.values(Language).filter(language => language !== Language.EN).map((language): LanguageCoverage => {
+    const catalog = catalogs[language];
+    const chain = [...LANGUAGE_FALLBACKS[language], Language.EN];
+    const missing = keys
+      .filter(key => !(key in catalog))
+      .map(key => ({ key, shownFrom: chain.find(chainLanguage => key in catalogs[chainLanguage])! }));
+    const identical = keys.filter(key => key in catalog && hasText(english[key]) && JSON.stringify(catalog[key]) === JSON.stringify(english[key]));
+    const stale = Object.keys(catalog).filter(key => !(key in english));
+    return { language, translatedCount: keys.length - missing.length - identical.length, missing, identical, stale };
+  });
+
+  return {
+    keyCount: keys.length,
+    unknownKeys,
+    unusedKeys: keys.filter(key => !usedLiterals.has(key)),
+    hardCodedText,
+    languages,
+  };
+};
+
+/**
+ * Prints a report for people to read.
+ * @param {CoverageReport} report - The report.
+ */
+const printReport = (report: CoverageReport) => {
+  const list = (items: string[]) => (items.length > 0 ? items.join(', ') : 'none');
+  console.log(`Translation coverage: ${report.keyCount} strings in en.json\n`);
+  console.log(`Keys passed to translate that en.json does not have: ${report.unknownKeys.length === 0 ? 'none' : ''}`);
+  report.unknownKeys.forEach(({ key, location }) => console.log(`  ${key} (${location})`));
+  console.log(`Keys no source uses: ${list(report.unusedKeys)}`);
+  console.log(`Text written into the JSX instead of a catalog: ${report.hardCodedText.length === 0 ? 'none' : ''}`);
+  report.hardCodedText.forEach(({ text, location }) => console.log(`  "${text}" (${location})`));
+  console.log('');
+  for (const coverage of report.languages) {
+    const percent = ((coverage.translatedCount / report.keyCount) * 100).toFixed(1);
+    console.log(`${coverage.language}: ${coverage.translatedCount}/${report.keyCount} translated (${percent}%)`);
+    console.log(`  Missing: ${list(coverage.missing.map(({ key, shownFrom }) => `${key} (shown in ${shownFrom})`))}`);
+    console.log(`  Same as English: ${list(coverage.identical)}`);
+    if (coverage.stale.length > 0) console.log(`  Not in en.json: ${list(coverage.stale)}`);
+  }
+};
+
+const report = buildReport();
+if (process.argv.includes('--json')) {
+  console.log(JSON.stringify(report, null, 2));
+} else {
+  printReport(report);
+}
+if (report.unknownKeys.length > 0 || report.languages.some(coverage => coverage.missing.length > 0)) {
+  process.exitCode = 1;
+}
@@ -0,0 +1,267 @@
+/**
+ * @file authRoutes.test.ts
+ * @description Runs the auth API over HTTP against a throwaway in-memory database: accounts
+ * with a password, sessions and their tokens, one-time codes and the quick login PIN. The
+ * codes are caught by a test provider instead of being sent, and the clock is moved forward
+ * with Vitest's fake `Date` to reach the expiry times.
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AUTH_ROUTE_PREFIX, createAuthHandler } from './authRoutes';
+import { AuthDatabase, openDatabase } from './database';
+import { OtpProvider } from './otp';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const PRIYA = { name: 'Priya', email: 'priya@example.com', password: 'correct horse' };
+const PHONE = '+919876543210';
+
+/**
+ * The answer of a call, with its parsed JSON body.
+ */
+interface ApiResponse {
+  status: number;
+  body: any;
+}
+
+describe('auth API', () => {
+  let db: AuthDatabase;
+  let server: http.Server;
+  let baseUrl: string;
+  let sentCodes: Map<string, string>; // The last code sent to each phone
+
+  /**
+   * Calls a route of the API.
+   * @param {string} method - The HTTP method.
+   * @param {string} route - The route, without the `/api/auth` prefix.
+   * @param {object} body - The JSON body, if any.
+   * @param {string} accessToken - The access token to send, if any.
+   * @returns {Promise<ApiResponse>} The status and body of the answer.
+   */
+  const call = async (method: string, route: string, body?: object, accessToken?: string): Promise<ApiResponse> => {
+    const response = await fetch(`${baseUrl}${AUTH_ROUTE_PREFIX}${route}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', ...(accessToken && { Authorization: `Bearer ${accessToken}` }) },
+      body: body && JSON.stringify(body),
+    });
+    const text = await response.text();
+    return { status: response.status, body: text ? JSON.parse(text) : null };
+  };
+
+  const moveClock = (ms: number) => vi.setSystemTime(Date.now() + ms);
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    db = openDatabase(':memory:');
+    sentCodes = new Map();
+    const otpProvider: OtpProvider = { name: 'console', sendCode: async (phone, code) => void sentCodes.set(phone, code) };
+    server = http.createServer(createAuthHandler(db, otpProvider));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    db.close();
+    vi.useRealTimers();
+  });
+
+  describe('accounts with a password and their sessions', () => {
+    it('registers, logs in, refreshes and logs out', async () => {
+      const registered = await call('POST', '/register', PRIYA);
+      expect(registered.status).toBe(201);
+      expect(registered.body.user).toMatchObject({ name: 'Priya', email: 'priya@example.com', hasPin: false, role: 'learner' });
+
+      const loggedIn = await call('POST', '/login', { email: 'Priya@Example.com', password: PRIYA.password });
+      expect(loggedIn.status).toBe(200);
+      expect(loggedIn.body.user.id).toBe(registered.body.user.id);
+      expect((await call('GET', '/me', undefined, loggedIn.body.accessToken)).body.user.id).toBe(registered.body.user.id);
+
+      const refreshed = await call('POST', '/refresh', { refreshToken: loggedIn.body.refreshToken });
+      expect(refreshed.status).toBe(200);
+      expect(refreshed.body.accessToken).not.toBe(loggedIn.body.accessToken);
+      expect((await call('GET', '/me', undefined, refreshed.body.accessToken)).status).toBe(200);
+
+      expect((await call('POST', '/logout', { refreshToken: refreshed.body.refreshToken })).status).toBe(204);
+      expect((await call('GET', '/me', undefined, refreshed.body.accessToken)).status).toBe(401);
+      expect((await call('POST', '/refresh', { refreshToken: refreshed.body.refreshToken })).status).toBe(401);
+      // The session of the registration is still open.
+      expect((await call('GET', '/me', undefined, registered.body.accessToken)).status).toBe(200);
+    });
+
+    it('refuses a taken email, a wrong password and an unknown account alike', async () => {
+      await call('POST', '/register', PRIYA);
+      expect((await call('POST', '/register', { ...PRIYA, email: 'PRIYA@example.com' })).body.error.code).toBe('EMAIL_TAKEN');
+
+      const wrongPassword = await call('POST', '/login', { email: PRIYA.email, password: 'wrong password' });
+      const unknownAccount = await call('POST', '/login', { email: 'nobody@example.com', password: PRIYA.password });
+      expect(wrongPassword).toEqual(unknownAccount);
+      expect(wrongPassword.status).toBe(401);
+    });
+
+    it('rotates the refresh token, so an old one works only once', async () => {
+      const { body: session } = await call('POST', '/register', PRIYA);
+      const refreshed = await call('POST', '/refresh', { refreshToken: session.refreshToken });
+      expect(refreshed.status).toBe(200);
+
+      expect((await call('POST', '/refresh', { refreshToken: session.refreshToken })).status).toBe(401);
+      expect((await call('GET', '/me', undefined, session.accessToken)).status).toBe(401);
+      expect((await call('POST', '/refresh', { refreshToken: refreshed.body.refreshToken })).status).toBe(200);
+    });
+
+    it('expires the access token after 15 minutes and the refresh token after 30 days', async () => {
+      const { body: session } = await call('POST', '/register', PRIYA);
+
+      moveClock(15 * MINUTE_MS + 1000);
+      expect((await call('GET', '/me', undefined, session.accessToken)).status).toBe(401);
+      const refreshed = await call('POST', '/refresh', { refreshToken: session.refreshToken });
+      expect(refreshed.status).toBe(200);
+
+      moveClock(30 * DAY_MS + 1000);
+      expect((await call('POST', '/refresh', { refreshToken: refreshed.body.refreshToken })).status).toBe(401);
+    });
+
+    it('needs an access token for the signed-in routes', async () => {
+      expect((await call('GET', '/me')).status).toBe(401);
+      expect((await call('POST', '/pin', { pin: '1234' }, 'not-a-token')).status).toBe(401);
+    });
+  });
+
+  describe('one-time codes', () => {
+    const requestCode = (purpose: 'register' | 'login') => call('POST', '/otp/request', { phone: '98765 43210', purpose, name: 'Lakshmi' });
+
+    it('registers with a phone number and logs in with a new code', async () => {
+      const requested = await requestCode('register');
+      expect(requested.status).toBe(202);
+      const registered = await call('POST', '/otp/verify', { challengeId: requested.body.challengeId, code: sentCodes.get(PHONE) });
+      expect(registered.status).toBe(200);
+      expect(registered.body.user).toMatchObject({ name: 'Lakshmi', phone: PHONE });
+
+      moveClock(MINUTE_MS + 1000);
+      const loginCode = await requestCode('login');
+      const loggedIn = await call('POST', '/otp/verify', { challengeId: loginCode.body.challengeId, code: sentCodes.get(PHONE) });
+      expect(loggedIn.body.user.id).toBe(registered.body.user.id);
+    });
+
+    it('does not send a login code to a number without an account', async () => {
+      const requested = await requestCode('login');
+      expect(requested.status).toBe(202);
+      expect(sentCodes.size).toBe(0);
+    });
+
+    it('answers a registration for a taken number like any other, without sending a code', async () => {
+      await call('POST', '/otp/verify', { challengeId: (await requestCode('register')).body.challengeId, code: sentCodes.get(PHONE) });
+      sentCodes.clear();
+
+      moveClock(MINUTE_MS + 1000);
+      const requested = await requestCode('register');
+      expect(requested.status).toBe(202);
+      expect(Object.keys(requested.body)).toEqual(['challengeId', 'expiresAt']);
+      expect(sentCodes.size).toBe(0);
+    });
+
+    it('reports a number registered since its code was sent only after the right code', async () => {
+      const { body: first } = await requestCode('register');
+      const code = sentCodes.get(PHONE)!;
+      db.prepare(`INSERT INTO users (id, name, phone, created_at) VALUES ('user-1', 'Meena', ?, ?)`).run(PHONE, new Date().toISOString());
+
+      const wrongCode = code === '000000' ? '111111' : '000000';
+      expect((await call('POST', '/otp/verify', { challengeId: first.challengeId, code: wrongCode })).body.error.code).toBe('INVALID_CODE');
+      expect((await call('POST', '/otp/verify', { challengeId: first.challengeId, code })).body.error.code).toBe('PHONE_TAKEN');
+    });
+
+    it('accepts a code only once', async () => {
+      const { body: challenge } = await requestCode('register');
+      const code = sentCodes.get(PHONE);
+      expect((await call('POST', '/otp/verify', { challengeId: challenge.challengeId, code })).status).toBe(200);
+      expect((await call('POST', '/otp/verify', { challengeId: challenge.challengeId, code })).status).toBe(401);
+    });
+
+    it('expires a code after 10 minutes', async () => {
+      const { body: challenge } = await requestCode('register');
+      moveClock(10 * MINUTE_MS + 1000);
+      const verified = await call('POST', '/otp/verify', { challengeId: challenge.challengeId, code: sentCodes.get(PHONE) });
+      expect(verified.body.error.code).toBe('INVALID_CODE');
+    });
+
+    it('accepts the right code after four wrong ones, but not after five', async () => {
+      const verifyAfterWrongCodes = async (wrongCodes: number) => {
+        const { body: challenge } = await requestCode('login');
+        const code = sentCodes.get(PHONE)!;
+        const wrongCode = code === '000000' ? '111111' : '000000';
+        for (let i = 0; i < wrongCodes; i++) {
+          expect((await call('POST', '/otp/verify', { challengeId: challenge.challengeId, code: wrongCode })).status).toBe(401);
+        }
+        return call('POST', '/otp/verify', { challengeId: challenge.challengeId, code });
+      };
+
+      await call('POST', '/otp/verify', { challengeId: (await requestCode('register')).body.challengeId, code: sentCodes.get(PHONE) });
+      moveClock(MINUTE_MS + 1000);
+      expect((await verifyAfterWrongCodes(4)).status).toBe(200);
+      moveClock(MINUTE_MS + 1000);
+      expect((await verifyAfterWrongCodes(5)).status).toBe(401);
+    });
+
+    it('sends a new code at most once a minute, and the new code replaces the old one', async () => {
+      const first = await requestCode('register');
+      const firstCode = sentCodes.get(PHONE);
+      expect((await requestCode('register')).body.error.code).toBe('TOO_MANY_REQUESTS');
+
+      moveClock(MINUTE_MS + 1000);
+      const second = await requestCode('register');
+      expect(second.status).toBe(202);
+      expect((await call('POST', '/otp/verify', { challengeId: first.body.challengeId, code: firstCode })).status).toBe(401);
+      expect((await call('POST', '/otp/verify', { challengeId: second.body.challengeId, code: sentCodes.get(PHONE) })).status).toBe(200);
+    });
+
+    it('refuses a phone number that is not valid', async () => {
+      expect((await call('POST', '/otp/request', { phone: '12345', purpose: 'login' })).body.error.code).toBe('INVALID_PHONE');
+    });
+  });
+
+  describe('quick login PIN', () => {
+    const setUpPin = async () => {
+      const { body: session } = await call('POST', '/register', PRIYA);
+      const pinSet = await call('POST', '/pin', { pin: '2468' }, session.accessToken);
+      expect(pinSet.body.user.hasPin).toBe(true);
+    };
+
+    const loginWithPin = (pin: string) => call('POST', '/pin/login', { identifier: PRIYA.email, pin });
+
+    it('logs in with the PIN, and not once it is removed', async () => {
+      await setUpPin();
+      const loggedIn = await loginWithPin('2468');
+      expect(loggedIn.status).toBe(200);
+
+      expect((await call('DELETE', '/pin', undefined, loggedIn.body.accessToken)).body.user.hasPin).toBe(false);
+      expect((await loginWithPin('2468')).status).toBe(401);
+    });
+
+    it('locks the PIN after five wrong ones, until the next full login', async () => {
+      await setUpPin();
+      for (let i = 0; i < 5; i++) {
+        expect((await loginWithPin('1357')).body.error.code).toBe('INVALID_CREDENTIALS');
+      }
+      expect((await loginWithPin('2468')).body.error.code).toBe('PIN_LOCKED');
+
+      expect((await call('POST', '/login', { email: PRIYA.email, password: PRIYA.password })).status).toBe(200);
+      expect((await loginWithPin('2468')).status).toBe(200);
+    });
+
+    it('forgives the wrong PINs before a right one', async () => {
+      await setUpPin();
+      for (let i = 0; i < 4; i++) await loginWithPin('1357');
+      expect((await loginWithPin('2468')).status).toBe(200);
+      for (let i = 0; i < 4; i++) await loginWithPin('1357');
+      expect((await loginWithPin('2468')).status).toBe(200);
+    });
+
+    it('refuses a PIN that is not four digits', async () => {
+      const { body: session } = await call('POST', '/register', PRIYA);
+      expect((await call('POST', '/pin', { pin: '12ab' }, session.accessToken)).body.error.code).toBe('INVALID_INPUT');
+    });
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * @file authRoutes.ts
+ * @description The routes of the auth API, all under `/api/auth`:
+ * - `POST /register` `{ name, email, password }` creates an account and signs it in.
+ * - `POST /login` `{ email, password }` signs in.
+ * - `POST /otp/request` `{ phone, purpose: 'register' | 'login', name? }` sends a one-time
+ *   code to a phone and answers `{ challengeId, expiresAt }`.
+ * - `POST /otp/verify` `{ challengeId, code }` creates the account or signs in. A number that
+ *   already has an account is only reported (PHONE_TAKEN) here, after a right code.
+ * - `POST /pin/login` `{ identifier, pin }` signs in with the phone number or email and the
+ *   quick login PIN.
+ * - `POST /refresh` `{ refreshToken }` exchanges a refresh token for new tokens.
+ * - `POST /logout` `{ refreshToken }` ends the session.
+ * - `GET /me` returns the signed-in user.
+ * - `POST /pin` `{ pin }` sets the quick login PIN and `DELETE /pin` removes it; both return the user.
+ * - `POST /users/role` `{ identifier, role }` changes the role of the account with that phone
+ *   number or email, and returns it. Only NGO admins may, and not for their own account.
+ * Register, login, verify and refresh answer with an `AuthSession`. The last four routes
+ * need `Authorization: Bearer <accessToken>`.
+ */
+
+import { randomUUID } from 'crypto';
+import { IncomingMessage, ServerResponse } from 'http';
+import { AuthDatabase, UserRow } from './database';
+import { HttpError, readBearerToken, readJsonBody, sendJson } from './http';
+import { createOtpChallenge, normalizePhoneNumber, OtpProvider, verifyOtpChallenge } from './otp';
+import { hashPassword, MIN_PASSWORD_LENGTH, verifyPassword } from './passwords';
+import { findUserByIdentifier, isUserRole } from './roles';
+import { createSession, deleteSession, findUserByAccessToken, refreshSession, SessionTokens } from './sessions';
+import { AuthSession, User } from '../types';
+
+export const AUTH_ROUTE_PREFIX = '/api/auth';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_NAME_LENGTH = 100;
+const MAX_EMAIL_LENGTH = 254;
+const MAX_PASSWORD_LENGTH = 200;
+const PIN_PATTERN = /^\d{4}$/;
+const MAX_PIN_ATTEMPTS = 5; // After this many wrong PINs, the PIN is locked until the next full login
+
+const toUser = (row: UserRow): User => ({
+  id: row.id,
+  name: row.name,
+  ...(row.email !== null && { email: row.email }),
+  ...(row.phone !== null && { phone: row.phone }),
+  hasPin: row.pin_hash !== null,
+  role: row.role,
+});
+
+const toAuthSession = (row: UserRow, tokens: SessionTokens): AuthSession => ({ user: toUser(row), ...tokens });
+
+/**
+ * Reads a string field of a request body.
+ * @param {Record<string, unknown>} body - The parsed body.
+ * @param {string} field - The name of the field.
+ * @returns {string} The value.
+ * @throws {HttpError} If the field is missing or not a string.
+ */
+const readString = (body: Record<string, unknown>, field: string): string => {
+  const value = body[field];
+  if (typeof value !== 'string' || value.length === 0) throw new HttpError(400, 'INVALID_INPUT', `"${field}" is required`);
+  return value;
+};
+
+const readName = (body: Record<string, unknown>): string => {
+  const name = readString(body, 'name').trim();
+  if (!name || name.length > MAX_NAME_LENGTH) throw new HttpError(400, 'INVALID_INPUT', 'The name is not valid');
+  return name;
+};
+
+const readEmail = (body: Record<string, unknown>): string => {
+  const email = readString(body, 'email').trim().toLowerCase();
+  if (email.length > MAX_EMAIL_LENGTH || !EMAIL_PATTERN.test(email)) throw new HttpError(400, 'INVALID_INPUT', 'The email address is not valid');
+  return email;
+};
+
+const readPhone = (body: Record<string, unknown>): string => {
+  const phone = normalizePhoneNumber(readString(body, 'phone'));
+  if (!phone) throw new HttpError(400, 'INVALID_PHONE', 'The phone number is not valid');
+  return phone;
+};
+
+const findUserByPhone = (db: AuthDatabase, phone: string): UserRow | null =>
+  (db.prepare('SELECT * FROM users WHERE phone = ?').get(phone) as UserRow | undefined) ?? null;
+
+/**
+ * Signs a user in after a full login (password or one-time code), which also unlocks their PIN.
+ * @returns {AuthSession} The new session.
+ */
+const startSession = (db: AuthDatabase, row: UserRow): AuthSession => {
+  db.prepare('UPDATE users SET pin_failed_attempts = 0 WHERE id = ?').run(row.id);
+  return toAuthSession({ ...row, pin_failed_attempts: 0 }, createSession(db, row.id));
+};
+
+// The hash used by `verifyAgainstNothing`.
+let unknownUserPasswordHash: Promise<string> | null = null;
+
+/**
+ * Checks a password against a hash that does not exist (unknown account, no PIN set), so that
+ * the answer takes as long as for a wrong password and does not reveal which accounts exist.
+ */
+const verifyAgainstNothing = async (password: string) => {
+  unknownUserPasswordHash ??= hashPassword(randomUUID());
+  await verifyPassword(password, await unknownUserPasswordHash);
+};
+
+/**
+ * Creates an account.
+ * @returns {UserRow | null} The new account, or null if its email or phone number is taken.
+ */
+const insertUser = (db: AuthDatabase, fields: Pick<UserRow, 'name' | 'email' | 'phone' | 'password_hash'>): UserRow | null => {
+  const row: UserRow = { id: randomUUID(), ...fields, pin_hash: null, pin_failed_attempts: 0, role: 'learner', created_at: new Date().toISOString() };
+  try {
+    db.prepare(
+      `INSERT INTO users (id, name, email, phone, password_hash, pin_hash, pin_failed_attempts, role, created_at)
+       VALUES (@id, @name, @email, @phone, @password_hash, @pin_hash, @pin_failed_attempts, @role, @created_at)`
+    ).run(row);
+    return row;
+  } catch (error) {
+    if ((error as { code?: string }).code === 'SQLITE_CONSTRAINT_UNIQUE') return null;
+    throw error;
+  }
+};
+
+const register = async (db: AuthDatabase, body: Record<string, unknown>): Promise<AuthSession> => {
+  const name = readName(body);
+  const email = readEmail(body);
+  const password = readString(body, 'password');
+  if (password.length < MIN_PASSWORD_LENGTH || password.length > MAX_PASSWORD_LENGTH) {
+    throw new HttpError(400, 'INVALID_INPUT', `The password must have ${MIN_PASSWORD_LENGTH} to ${MAX_PASSWORD_LENGTH} characters`);
+  }
+
+  const row = insertUser(db, { name, email, phone: null, password_hash: await hashPassword(password) });
+  if (!row) throw new HttpError(409, 'EMAIL_TAKEN', 'An account with this email already exists');
+  return startSession(db, row);
+};
+
+const login = async (db: AuthDatabase, body: Record<string, unknown>): Promise<AuthSession> => {
+  const email = readEmail(body);
+  const password = readString(body, 'password');
+  const row = db.prepare('SELECT * FROM users WHERE email = ?').get(email) as UserRow | undefined;
+  if (!row?.password_hash) {
+    await verifyAgainstNothing(password);
+    throw new HttpError(401, 'INVALID_CREDENTIALS', 'The email or password is wrong');
+  }
+  if (!(await verifyPassword(password, row.password_hash))) throw new HttpError(401, 'INVALID_CREDENTIALS', 'The email or password is wrong');
+  return startSession(db, row);
+};
+
+const requestOtp = async (db: AuthDatabase, otpProvider: OtpProvider, body: Record<string, unknown>) => {
+  const phone = readPhone(body);
+  const purpose = body.purpose;
+  // So that the answer does not reveal which numbers have an account, no code is sent to a
+  // number that cannot use it (taken for 'register', unknown for 'login'), but the answer is the same.
+  if (purpose === 'register') {
+    const name = readName(body);
+    return createOtpChallenge(db, findUserByPhone(db, phone) ? null : otpProvider, { phone, purpose, name });
+  }
+  if (purpose === 'login') {
+    return createOtpChallenge(db, findUserByPhone(db, phone) ? otpProvider : null, { phone, purpose, name: null });
+  }
+  throw new HttpError(400, 'INVALID_INPUT', '"purpose" must be "register" or "login"');
+};
+
+const verifyOtp = (db: AuthDatabase, body: Record<string, unknown>): AuthSession => {
+  const challenge = verifyOtpChallenge(db, readString(body, 'challengeId'), readString(body, 'code'));
+  if (challenge.purpose === 'register') {
+    // The number may have been registered since the code was sent.
+    const row = insertUser(db, { name: challenge.name ?? '', email: null, phone: challenge.phone, password_hash: null });
+    if (!row) throw new HttpError(409, 'PHONE_TAKEN', 'An account with this phone number already exists');
+    return startSession(db, row);
+  }
+  const row = findUserByPhone(db, challenge.phone);
+  if (!row) throw new HttpError(401, 'INVALID_CODE', 'The code is wrong or has expired');
+  return startSession(db, row);
+};
+
+const loginWithPin = async (db: AuthDatabase, body: Record<string, unknown>): Promise<AuthSession> => {
+  const pin = readString(body, 'pin');
+  const row = findUserByIdentifier(db, readString(body, 'identifier'));
+  if (!row?.pin_hash) {
+    await verifyAgainstNothing(pin);
+    throw new HttpError(401, 'INVALID_CREDENTIALS', 'The phone number, email or PIN is wrong');
+  }
+  // The attempt is counted before the PIN is checked, in one statement, so requests sent in
+  // parallel cannot all pass the limit while the (slow) hash of the first one is computed.
+  const reservation = db
+    .prepare('UPDATE users SET pin_failed_attempts = pin_failed_attempts + 1 WHERE id = ? AND pin_failed_attempts < ?')
+    .run(row.id, MAX_PIN_ATTEMPTS);
+  if (reservation.changes === 0) {
+    throw new HttpError(423, 'PIN_LOCKED', 'Too many wrong PINs; log in with a code or password to unlock the PIN');
+  }
+  if (!(await verifyPassword(pin, row.pin_hash))) {
+    throw new HttpError(401, 'INVALID_CREDENTIALS', 'The phone number, email or PIN is wrong');
+  }
+  db.prepare('UPDATE users SET pin_failed_attempts = 0 WHERE id = ?').run(row.id);
+  return toAuthSession({ ...row, pin_failed_attempts: 0 }, createSession(db, row.id));
+};
+
+const refresh = (db: AuthDatabase, body: Record<string, unknown>): AuthSession => {
+  const refreshed = refreshSession(db, readString(body, 'refreshToken'));
+  if (!refreshed) throw new HttpError(401, 'UNAUTHORIZED', 'The session has expired');
+  const row = db.prepare('SELECT * FROM users WHERE id = ?').get(refreshed.userId) as UserRow;
+  return toAuthSession(row, refreshed.tokens);
+};
+
+/**
+ * Finds the signed-in user of a request.
+ * @returns {UserRow} The user.
+ * @throws {HttpError} If the access token is missing, unknown or expired.
+ */
+const requireUser = (db: AuthDatabase, request: IncomingMessage): UserRow => {
+  const accessToken = readBearerToken(request);
+  const row = accessToken ? findUserByAccessToken(db, accessToken) : null;
+  if (!row) throw new HttpError(401, 'UNAUTHORIZED', 'The access token is missing, unknown or expired');
+  return row;
+};
+
+const setPin = async (db: AuthDatabase, request: IncomingMessage): Promise<{ user: User }> => {
+  const row = requireUser(db, request);
+  const pin = readString(await readJsonBody(request), 'pin');
+  if (!PIN_PATTERN.test(pin)) throw new HttpError(400, 'INVALID_INPUT', 'The PIN must have 4 digits');
+  const pinHash = await hashPassword(pin);
+  db.prepare('UPDATE users SET pin_hash = ?, pin_failed_attempts = 0 WHERE id = ?').run(pinHash, row.id);
+  return { user: toUser({ ...row, pin_hash: pinHash }) };
+};
+
+const removePin = (db: AuthDatabase, request: IncomingMessage): { user: User } => {
+  const row = requireUser(db, request);
+  db.prepare('UPDATE users SET pin_hash = NULL, pin_failed_attempts = 0 WHERE id = ?').run(row.id);
+  return { user: toUser({ ...row, pin_hash: null }) };
+};
+
+const setRole = async (db: AuthDatabase, request: IncomingMessage): Promise<{ user: User }> => {
+  const admin = requireUser(db, request);
+  if (admin.role !== 'ngo_admin') throw new HttpError(403, 'FORBIDDEN', 'Only NGO admins can change roles');
+  const body = await readJsonBody(request);
+  const role = body.role;
+  if (!isUserRole(role)) throw new HttpError(400, 'INVALID_INPUT', '"role" must be "learner", "volunteer" or "ngo_admin"');
+  const row = findUserByIdentifier(db, readString(body, 'identifier'));
+  if (!row) throw new HttpError(404, 'USER_NOT_FOUND', 'No account has this phone number or email');
+  // An admin who demoted themselves by mistake could not undo it.
+  if (row.id === admin.id) throw new HttpError(400, 'INVALID_INPUT', 'Admins cannot change their own role');
+  db.prepare('UPDATE users SET role = ? WHERE id = ?').run(role, row.id);
+  return { user: toUser({ ...row, role }) };
+};
+
+/**
+ * Creates the request handler of the auth API.
+ * @param {AuthDatabase} db - The database.
+ * @param {OtpProvider} otpProvider - The provider one-time codes are sent with.
+ * @returns A handler for Node's `http` server. Errors are answered as `{ error: { code, message } }`.
+ */
+export const createAuthHandler = (db: AuthDatabase, otpProvider: OtpProvider) => async (request: IncomingMessage, response: ServerResponse) => {
+  const route = `${request.method} ${new URL(request.url ?? '/', 'http://localhost').pathname}`;
+  try {
+    switch (route) {
+      case `POST ${AUTH_ROUTE_PREFIX}/register`:
+        sendJson(response, 201, await register(db, await readJsonBody(request)));
+        break;
+      case `POST ${AUTH_ROUTE_PREFIX}/login`:
+        sendJson(response, 200, await login(db, await readJsonBody(request)));
+        break;
+      case `POST ${AUTH_ROUTE_PREFIX}/otp/request`:
+        sendJson(response, 202, await requestOtp(db, otpProvider, await readJsonBody(request)));
+        break;
+      case `POST ${AUTH_ROUTE_PREFIX}/otp/verify`:
+        sendJson(response, 200, verifyOtp(db, await readJsonBody(request)));
+        break;
+      case `POST ${AUTH_ROUTE_PREFIX}/pin/login`:
+        sendJson(response, 200, await loginWithPin(db, await readJsonBody(request)));
+        break;
+      case `POST ${AUTH_ROUTE_PREFIX}/refresh`:
+        sendJson(response, 200, refresh(db, await readJsonBody(request)));
+        break;
+      case `POST ${AUTH_ROUTE_PREFIX}/logout`:
+        deleteSession(db, readString(await readJsonBody(request), 'refreshToken'));
+        sendJson(response, 204);
+        break;
+      case `GET ${AUTH_ROUTE_PREFIX}/me`:
+        sendJson(response, 200, { user: toUser(requireUser(db, request)) });
+        break;
+      case `POST ${AUTH_ROUTE_PREFIX}/pin`:
+        sendJson(response, 200, await setPin(db, request));
+        break;
+      case `DELETE ${AUTH_ROUTE_PREFIX}/pin`:
+        sendJson(response, 200, removePin(db, request));
+        break;
+      case `POST ${AUTH_ROUTE_PREFIX}/users/role`:
+        sendJson(response, 200, await setRole(db, request));
+        break;
+      default:
+        throw new HttpError(404, 'NOT_FOUND', `No route for ${route}`);
+    }
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendJson(response, error.status, { error: { code: error.code, message: error.message } });
+    } else {
+      console.error(`Failed to handle ${route}`, error);
+      sendJson(response, 500, { error: { code: 'SERVER', message: 'Something went wrong on the server' } });
+    }
+  }
+};
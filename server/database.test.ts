@@ -0,0 +1,76 @@
+/**
+ * @file database.test.ts
+ * @description Checks that `openDatabase` brings a database made by an older version of the
+ * server up to date without losing its accounts or sessions.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { openDatabase, UserRow } from './database';
+
+const LATEST_VERSION = 3;
+
+describe('openDatabase', () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'femmora-auth-'));
+    filePath = path.join(directory, 'auth.db');
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('creates a new database at the latest version', () => {
+    const db = openDatabase(':memory:');
+    expect(db.pragma('user_version', { simple: true })).toBe(LATEST_VERSION);
+    db.close();
+  });
+
+  it('migrates the accounts and sessions of a version 1 database', () => {
+    // The schema of the first version, with one account signed in.
+    const oldDb = new Database(filePath);
+    oldDb.exec(`
+      CREATE TABLE users (id TEXT PRIMARY KEY, name TEXT NOT NULL, email TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        password_hash TEXT NOT NULL, created_at TEXT NOT NULL);
+      CREATE TABLE sessions (id TEXT PRIMARY KEY, user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        access_token_hash TEXT NOT NULL UNIQUE, access_expires_at TEXT NOT NULL, refresh_token_hash TEXT NOT NULL UNIQUE,
+        refresh_expires_at TEXT NOT NULL, created_at TEXT NOT NULL);
+      INSERT INTO users VALUES ('user-1', 'Priya', 'priya@example.com', 'scrypt$hash', '2025-01-01T00:00:00.000Z');
+      INSERT INTO sessions VALUES ('session-1', 'user-1', 'access', '2025-01-01T00:15:00.000Z', 'refresh',
+        '2025-01-31T00:00:00.000Z', '2025-01-01T00:00:00.000Z');
+      PRAGMA user_version = 1;
+    `);
+    oldDb.close();
+
+    const db = openDatabase(filePath);
+    expect(db.pragma('user_version', { simple: true })).toBe(LATEST_VERSION);
+    expect(db.prepare('SELECT * FROM users').all()).toEqual<UserRow[]>([{
+      id: 'user-1',
+      name: 'Priya',
+      email: 'priya@example.com',
+      phone: null,
+      password_hash: 'scrypt$hash',
+      pin_hash: null,
+      pin_failed_attempts: 0,
+      role: 'learner',
+      created_at: '2025-01-01T00:00:00.000Z',
+    }]);
+    // Rebuilding the users table must not have deleted the sessions that refer to it.
+    expect(db.prepare('SELECT id FROM sessions').all()).toEqual([{ id: 'session-1' }]);
+    expect(db.pragma('foreign_keys', { simple: true })).toBe(1);
+    db.close();
+  });
+
+  it('applies nothing again to an up-to-date database', () => {
+    openDatabase(filePath).close();
+    const db = openDatabase(filePath);
+    expect(db.pragma('user_version', { simple: true })).toBe(LATEST_VERSION);
+    db.close();
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * @file database.ts
+ * @description Opens the auth server's SQLite database and brings its tables up to date. It
+ * holds the accounts (with hashed passwords and PINs only, and their roles), the sessions (with hashed tokens
+ * only) and the pending one-time codes sent to phones (with hashed codes only).
+ *
+ * The schema changes are applied in order as numbered migrations; the number of the last
+ * one applied is kept in SQLite's `user_version`.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { UserRole } from '../types';
+
+export type AuthDatabase = Database.Database;
+
+/**
+ * An account as stored in the `users` table.
+ */
+export interface UserRow {
+  id: string;
+  name: string;
+  email: string | null; // Every account has an email, a phone number or both
+  phone: string | null; // In E.164 form, e.g. +919876543210
+  password_hash: string | null; // Null for accounts that sign in with one-time codes
+  pin_hash: string | null; // The optional quick login PIN
+  pin_failed_attempts: number;
+  role: UserRole;
+  created_at: string;
+}
+
+/**
+ * A session as stored in the `sessions` table.
+ */
+export interface SessionRow {
+  id: string;
+  user_id: string;
+  access_token_hash: string;
+  access_expires_at: string;
+  refresh_token_hash: string;
+  refresh_expires_at: string;
+  created_at: string;
+}
+
+/**
+ * A one-time code sent to a phone, as stored in the `otp_challenges` table.
+ */
+export interface OtpChallengeRow {
+  id: string;
+  phone: string;
+  purpose: 'register' | 'login';
+  name: string | null; // The name of the account to create, for 'register'
+  code_hash: string;
+  attempts: number;
+  expires_at: string;
+  created_at: string;
+}
+
+const MIGRATIONS = [
+  // 1: Accounts with an email and password, and sessions.
+  `CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    email TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    password_hash TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS sessions (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    access_token_hash TEXT NOT NULL UNIQUE,
+    access_expires_at TEXT NOT NULL,
+    refresh_token_hash TEXT NOT NULL UNIQUE,
+    refresh_expires_at TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS sessions_user_id ON sessions(user_id);`,
+
+  // 2: Accounts with a phone number instead of (or as well as) an email, the quick login
+  // PIN, and the one-time codes sent to phones.
+  `CREATE TABLE users_new (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    email TEXT UNIQUE COLLATE NOCASE,
+    phone TEXT UNIQUE,
+    password_hash TEXT,
+    pin_hash TEXT,
+    pin_failed_attempts INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL,
+    CHECK (email IS NOT NULL OR phone IS NOT NULL)
+  );
+  INSERT INTO users_new (id, name, email, password_hash, created_at) SELECT id, name, email, password_hash, created_at FROM users;
+  DROP TABLE users;
+  ALTER TABLE users_new RENAME TO users;
+
+  CREATE TABLE otp_challenges (
+    id TEXT PRIMARY KEY,
+    phone TEXT NOT NULL,
+    purpose TEXT NOT NULL,
+    name TEXT,
+    code_hash TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    expires_at TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX otp_challenges_phone ON otp_challenges(phone);`,
+
+  // 3: The role of each account; existing accounts become learners.
+  `ALTER TABLE users ADD COLUMN role TEXT NOT NULL DEFAULT 'learner' CHECK (role IN ('learner', 'volunteer', 'ngo_admin'));`,
+];
+
+/**
+ * Opens (and if needed creates) the database.
+ * @param {string} filePath - The database file, or ':memory:' for a throwaway database.
+ * @returns {AuthDatabase} The open database.
+ */
+export const openDatabase = (filePath: string): AuthDatabase => {
+  if (filePath !== ':memory:') fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const db = new Database(filePath);
+  db.pragma('journal_mode = WAL');
+  // Foreign keys are turned off while migrating, so rebuilding a table does not delete the rows that refer to it.
+  db.pragma('foreign_keys = OFF');
+  const appliedMigrations = db.pragma('user_version', { simple: true }) as number;
+  MIGRATIONS.slice(appliedMigrations).forEach((migration, index) => {
+    db.transaction(() => {
+      db.exec(migration);
+      db.pragma(`user_version = ${appliedMigrations + index + 1}`);
+    })();
+  });
+  db.pragma('foreign_keys = ON');
+  return db;
+};
@@ -0,0 +1,77 @@
+/**
+ * @file http.ts
+ * @description Small helpers for the auth server's JSON API on top of Node's `http` module:
+ * reading a JSON request body, sending a JSON response, and the typed error every route
+ * throws so that failures reach the app as `{ error: { code, message } }`.
+ */
+
+import { IncomingMessage, ServerResponse } from 'http';
+import { AuthErrorCode } from '../types';
+
+// Request bodies are only ever a few fields, so anything larger is refused.
+const MAX_BODY_BYTES = 10 * 1024;
+
+/**
+ * The error thrown by the routes. It is sent to the app with its status and code.
+ */
+export class HttpError extends Error {
+  status: number;
+  code: AuthErrorCode;
+
+  constructor(status: number, code: AuthErrorCode, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+/**
+ * Reads and parses the JSON body of a request.
+ * @param {IncomingMessage} request - The request.
+ * @returns {Promise<Record<string, unknown>>} The parsed object.
+ * @throws {HttpError} If the body is too large or is not a JSON object.
+ */
+export const readJsonBody = async (request: IncomingMessage): Promise<Record<string, unknown>> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'INVALID_INPUT', 'The request body is too large');
+    chunks.push(chunk);
+  }
+  try {
+    const body = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) throw new Error('Not an object');
+    return body;
+  } catch {
+    throw new HttpError(400, 'INVALID_INPUT', 'The request body must be a JSON object');
+  }
+};
+
+/**
+ * Sends a JSON response.
+ * @param {ServerResponse} response - The response.
+ * @param {number} status - The HTTP status.
+ * @param {unknown} body - The value to send; nothing is sent for 204.
+ */
+export const sendJson = (response: ServerResponse, status: number, body?: unknown) => {
+  response.statusCode = status;
+  response.setHeader('Cache-Control', 'no-store');
+  if (body === undefined) {
+    response.end();
+    return;
+  }
+  response.setHeader('Content-Type', 'application/json; charset=utf-8');
+  response.end(JSON.stringify(body));
+};
+
+/**
+ * Reads the bearer token of a request.
+ * @param {IncomingMessage} request - The request.
+ * @returns {string | null} The token, or null if there is none.
+ */
+export const readBearerToken = (request: IncomingMessage): string | null => {
+  const match = /^Bearer (\S+)$/.exec(request.headers.authorization ?? '');
+  return match ? match[1] : null;
+};
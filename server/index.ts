@@ -0,0 +1,60 @@
+/**
+ * @file index.ts
+ * @description The entry point of the local auth server (`npm run server`). It serves the auth
+ * API (see authRoutes.ts) over HTTP and keeps its data in a SQLite file.
+ *
+ * Settings, read from the environment:
+ * - `AUTH_PORT`: the port to listen on (default 3001). The Vite dev server forwards `/api` here.
+ * - `AUTH_DB_PATH`: the SQLite file (default `server/data/femmora-auth.db`).
+ * - `OTP_PROVIDER`: how one-time codes are sent to phones (default `console`, which prints them
+ *   in the log; see otp.ts).
+ * - `AUTH_ALLOWED_ORIGINS`: comma-separated origins allowed to call the API from the browser
+ *   directly, for when the app is not served through the Vite dev server.
+ * - `AUTH_ADMINS`: comma-separated emails or phone numbers of accounts to make NGO admins
+ *   (see roles.ts). They must be registered first.
+ */
+
+import http from 'http';
+import { openDatabase } from './database';
+import { createAuthHandler } from './authRoutes';
+import { createOtpProvider } from './otp';
+import { grantAdminRole } from './roles';
+
+const port = Number(process.env.AUTH_PORT ?? 3001);
+const dbPath = process.env.AUTH_DB_PATH ?? 'server/data/femmora-auth.db';
+const allowedOrigins = (process.env.AUTH_ALLOWED_ORIGINS ?? '').split(',').map(origin => origin.trim()).filter(Boolean);
+const adminIdentifiers = (process.env.AUTH_ADMINS ?? '').split(',').map(identifier => identifier.trim()).filter(Boolean);
+
+const db = openDatabase(dbPath);
+const unknownAdmins = grantAdminRole(db, adminIdentifiers);
+if (unknownAdmins.length > 0) console.warn(`No account yet for these AUTH_ADMINS, so they are not admins: ${unknownAdmins.join(', ')}`);
+const handleAuthRequest = createAuthHandler(db, createOtpProvider());
+
+const server = http.createServer((request, response) => {
+  const origin = request.headers.origin;
+  if (origin && allowedOrigins.includes(origin)) {
+    response.setHeader('Access-Control-Allow-Origin', origin);
+    response.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+    response.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE');
+    response.setHeader('Vary', 'Origin');
+  }
+  if (request.method === 'OPTIONS') {
+    response.statusCode = 204;
+    response.end();
+    return;
+  }
+  handleAuthRequest(request, response);
+});
+
+server.listen(port, () => {
+  console.log(`Femmora auth server listening on http://localhost:${port} (database: ${dbPath})`);
+});
+
+// Close the database cleanly when the server is stopped.
+const shutDown = () => {
+  server.close();
+  db.close();
+  process.exit(0);
+};
+process.on('SIGINT', shutDown);
+process.on('SIGTERM', shutDown);
@@ -0,0 +1,126 @@
+/**
+ * @file otp.ts
+ * @description One-time codes for signing up and logging in with a phone number. A code is
+ * six random digits, sent through the OTP provider chosen with the `OTP_PROVIDER` environment
+ * variable, and is valid for a few minutes and a few attempts. Only a hash of it is stored.
+ *
+ * The only provider so far is `console`, a stand-in for development that prints the codes in
+ * the server log instead of sending an SMS. A real SMS gateway is added by implementing
+ * `OtpProvider` and selecting it in `createOtpProvider`.
+ */
+
+import { createHash, randomInt, randomUUID, timingSafeEqual } from 'crypto';
+import { AuthDatabase, OtpChallengeRow } from './database';
+import { HttpError } from './http';
+import { OtpChallenge } from '../types';
+
+const CODE_LIFETIME_MS = 10 * 60 * 1000; // 10 minutes
+const RESEND_INTERVAL_MS = 60 * 1000; // A new code can be asked for once a minute
+const MAX_CODE_ATTEMPTS = 5;
+
+/**
+ * The interface implemented by every way of delivering codes.
+ */
+export interface OtpProvider {
+  name: OtpProviderName;
+  sendCode: (phone: string, code: string) => Promise<void>;
+}
+
+export type OtpProviderName = 'console';
+
+/**
+ * The development stand-in: codes are printed in the server log.
+ * @returns {OtpProvider} The provider.
+ */
+const createConsoleOtpProvider = (): OtpProvider => ({
+  name: 'console',
+  sendCode: async (phone, code) => {
+    console.info(`[OTP] The code for ${phone} is ${code}`);
+  },
+});
+
+/**
+ * Creates the provider selected by the `OTP_PROVIDER` environment variable.
+ * @param {string | undefined} providerName - The provider to use. Defaults to `process.env.OTP_PROVIDER`.
+ * @returns {OtpProvider} The selected provider.
+ * @throws {Error} If the provider is unknown, so that codes are never silently not sent.
+ */
+export const createOtpProvider = (providerName: string | undefined = process.env.OTP_PROVIDER): OtpProvider => {
+  if (!providerName || providerName === 'console') {
+    console.warn("Using the console OTP provider. Codes are printed in this log and not sent by SMS.");
+    return createConsoleOtpProvider();
+  }
+  throw new Error(`Unknown OTP_PROVIDER "${providerName}"`);
+};
+
+/**
+ * Brings a phone number into E.164 form. Ten-digit Indian mobile numbers are accepted with or
+ * without the +91 or 0 prefix; numbers from other countries need their + prefix.
+ * @param {string} phone - The number as typed, spaces and dashes allowed.
+ * @returns {string | null} The number, e.g. +919876543210, or null if it is not valid.
+ */
+export const normalizePhoneNumber = (phone: string): string | null => {
+  const compact = phone.replace(/[\s()-]/g, '');
+  const indianMatch = /^(?:\+91|0091|91|0)?([6-9]\d{9})$/.exec(compact);
+  if (indianMatch) return `+91${indianMatch[1]}`;
+  return /^\+[1-9]\d{7,14}$/.test(compact) ? compact : null;
+};
+
+const hashCode = (challengeId: string, code: string): Buffer => createHash('sha256').update(`${challengeId}:${code}`).digest();
+
+/**
+ * Creates a code for a phone number and sends it. Earlier codes for the number stop working.
+ * @param {AuthDatabase} db - The database.
+ * @param {OtpProvider | null} provider - The provider to send the code with, or null to not
+ *   send it (for a number without an account, so the answer does not reveal which have one).
+ * @param {Pick<OtpChallengeRow, 'phone' | 'purpose' | 'name'>} challenge - What the code is for.
+ * @returns {Promise<OtpChallenge>} The id to verify the code with, and when it expires.
+ * @throws {HttpError} If a code was sent to this number less than a minute ago.
+ */
+export const createOtpChallenge = async (
+  db: AuthDatabase,
+  provider: OtpProvider | null,
+  challenge: Pick<OtpChallengeRow, 'phone' | 'purpose' | 'name'>
+): Promise<OtpChallenge> => {
+  const now = Date.now();
+  db.prepare('DELETE FROM otp_challenges WHERE expires_at <= ?').run(new Date(now).toISOString());
+  const lastSent = db.prepare('SELECT MAX(created_at) AS created_at FROM otp_challenges WHERE phone = ?').get(challenge.phone) as { created_at: string | null };
+  if (lastSent.created_at && now - Date.parse(lastSent.created_at) < RESEND_INTERVAL_MS) {
+    throw new HttpError(429, 'TOO_MANY_REQUESTS', 'Please wait a minute before asking for a new code');
+  }
+
+  const challengeId = randomUUID();
+  const code = randomInt(0, 1000000).toString().padStart(6, '0');
+  const expiresAt = new Date(now + CODE_LIFETIME_MS).toISOString();
+  db.prepare('DELETE FROM otp_challenges WHERE phone = ?').run(challenge.phone);
+  db.prepare(
+    `INSERT INTO otp_challenges (id, phone, purpose, name, code_hash, attempts, expires_at, created_at)
+     VALUES (?, ?, ?, ?, ?, 0, ?, ?)`
+  ).run(challengeId, challenge.phone, challenge.purpose, challenge.name, hashCode(challengeId, code).toString('hex'), expiresAt, new Date(now).toISOString());
+  if (provider) await provider.sendCode(challenge.phone, code);
+  return { challengeId, expiresAt };
+};
+
+/**
+ * Checks a code. A right code can only be used once; after too many wrong ones, a new code
+ * must be asked for.
+ * @param {AuthDatabase} db - The database.
+ * @param {string} challengeId - The id returned by `createOtpChallenge`.
+ * @param {string} code - The code as typed.
+ * @returns {OtpChallengeRow} What the code was for.
+ * @throws {HttpError} If the code is wrong, used up or expired.
+ */
+export const verifyOtpChallenge = (db: AuthDatabase, challengeId: string, code: string): OtpChallengeRow => {
+  const challenge = db.prepare('SELECT * FROM otp_challenges WHERE id = ? AND expires_at > ?')
+    .get(challengeId, new Date().toISOString()) as OtpChallengeRow | undefined;
+  if (!challenge) throw new HttpError(401, 'INVALID_CODE', 'The code is wrong or has expired');
+
+  const isRight = timingSafeEqual(hashCode(challengeId, code.trim()), Buffer.from(challenge.code_hash, 'hex'));
+  if (isRight || challenge.attempts + 1 >= MAX_CODE_ATTEMPTS) {
+    db.prepare('DELETE FROM otp_challenges WHERE id = ?').run(challengeId);
+  } else {
+    db.prepare('UPDATE otp_challenges SET attempts = attempts + 1 WHERE id = ?').run(challengeId);
+  }
+  if (!isRight) throw new HttpError(401, 'INVALID_CODE', 'The code is wrong or has expired');
+  return challenge;
+};
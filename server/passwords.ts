@@ -0,0 +1,46 @@
+/**
+ * @file passwords.ts
+ * @description Hashes and checks account passwords with scrypt, a slow, memory-hard hash, so
+ * that a stolen database does not give away the passwords. Each hash has its own random salt
+ * and records its cost parameters, so they can be raised later without breaking old hashes.
+ */
+
+import { randomBytes, scrypt, ScryptOptions, timingSafeEqual } from 'crypto';
+
+const SALT_BYTES = 16;
+const KEY_BYTES = 64;
+const SCRYPT_OPTIONS = { N: 16384, r: 8, p: 1 };
+
+// The shortest password accepted.
+export const MIN_PASSWORD_LENGTH = 8;
+
+const deriveScryptKey = (password: string, salt: Buffer, options: ScryptOptions): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    scrypt(password.normalize('NFKC'), salt, KEY_BYTES, options, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+
+/**
+ * Hashes a password.
+ * @param {string} password - The password.
+ * @returns {Promise<string>} The hash, as `scrypt$N$r$p$salt$key` with base64 salt and key.
+ */
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(SALT_BYTES);
+  const key = await deriveScryptKey(password, salt, SCRYPT_OPTIONS);
+  const { N, r, p } = SCRYPT_OPTIONS;
+  return ['scrypt', N, r, p, salt.toString('base64'), key.toString('base64')].join('$');
+};
+
+/**
+ * Checks a password against a hash made by `hashPassword`, in constant time.
+ * @param {string} password - The password as typed.
+ * @param {string} passwordHash - The stored hash.
+ * @returns {Promise<boolean>} True if the password is right.
+ */
+export const verifyPassword = async (password: string, passwordHash: string): Promise<boolean> => {
+  const [algorithm, N, r, p, salt, storedKey] = passwordHash.split('$');
+  if (algorithm !== 'scrypt' || !storedKey) return false;
+  const expectedKey = Buffer.from(storedKey, 'base64');
+  const key = await deriveScryptKey(password, Buffer.from(salt, 'base64'), { N: Number(N), r: Number(r), p: Number(p) });
+  return key.length === expectedKey.length && timingSafeEqual(key, expectedKey);
+};
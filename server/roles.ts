@@ -0,0 +1,41 @@
+/**
+ * @file roles.ts
+ * @description The roles of accounts (see `UserRole`). Every new account is a learner; an NGO
+ * admin makes accounts volunteers or admins through the API. The first admins cannot be made
+ * by another one, so the accounts listed in `AUTH_ADMINS` become admins when the server starts.
+ */
+
+import { AuthDatabase, UserRow } from './database';
+import { normalizePhoneNumber } from './otp';
+import { UserRole } from '../types';
+
+export const USER_ROLES: UserRole[] = ['learner', 'volunteer', 'ngo_admin'];
+
+export const isUserRole = (value: unknown): value is UserRole => USER_ROLES.includes(value as UserRole);
+
+/**
+ * Finds an account by its phone number or email, as typed.
+ * @param {AuthDatabase} db - The database.
+ * @param {string} identifier - The phone number or email.
+ * @returns {UserRow | null} The account, or null if there is none.
+ */
+export const findUserByIdentifier = (db: AuthDatabase, identifier: string): UserRow | null => {
+  const phone = normalizePhoneNumber(identifier.trim());
+  const row = phone
+    ? db.prepare('SELECT * FROM users WHERE phone = ?').get(phone)
+    : db.prepare('SELECT * FROM users WHERE email = ?').get(identifier.trim().toLowerCase());
+  return (row as UserRow | undefined) ?? null;
+};
+
+/**
+ * Makes accounts NGO admins.
+ * @param {AuthDatabase} db - The database.
+ * @param {string[]} identifiers - The phone numbers or emails of the accounts.
+ * @returns {string[]} The identifiers that have no account (yet).
+ */
+export const grantAdminRole = (db: AuthDatabase, identifiers: string[]): string[] =>
+  identifiers.filter(identifier => {
+    const row = findUserByIdentifier(db, identifier);
+    if (row) db.prepare(`UPDATE users SET role = 'ngo_admin' WHERE id = ?`).run(row.id);
+    return !row;
+  });
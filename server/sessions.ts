@@ -0,0 +1,99 @@
+/**
+ * @file sessions.ts
+ * @description Token sessions for the auth server. Signing in creates a session with two random
+ * tokens: a short-lived access token sent with every request, and a long-lived refresh token
+ * that is exchanged for a new pair when the access token expires. Refreshing rotates both
+ * tokens, so a refresh token works only once. Only SHA-256 hashes of the tokens are stored.
+ */
+
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { AuthDatabase, SessionRow, UserRow } from './database';
+
+const ACCESS_TOKEN_LIFETIME_MS = 15 * 60 * 1000; // 15 minutes
+const REFRESH_TOKEN_LIFETIME_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+/**
+ * The tokens of a new or refreshed session, as sent to the app.
+ */
+export interface SessionTokens {
+  accessToken: string;
+  accessTokenExpiresAt: string;
+  refreshToken: string;
+}
+
+const createToken = (): string => randomBytes(32).toString('base64url');
+
+const hashToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+/**
+ * Makes a new token pair and its expiry dates.
+ * @returns The tokens, their hashes and their expiry dates.
+ */
+const createTokenPair = () => {
+  const now = Date.now();
+  const accessToken = createToken();
+  const refreshToken = createToken();
+  return {
+    tokens: { accessToken, refreshToken, accessTokenExpiresAt: new Date(now + ACCESS_TOKEN_LIFETIME_MS).toISOString() },
+    accessTokenHash: hashToken(accessToken),
+    refreshTokenHash: hashToken(refreshToken),
+    refreshExpiresAt: new Date(now + REFRESH_TOKEN_LIFETIME_MS).toISOString(),
+  };
+};
+
+/**
+ * Starts a session for a user, removing the sessions that have expired on the way.
+ * @param {AuthDatabase} db - The database.
+ * @param {string} userId - The id of the user.
+ * @returns {SessionTokens} The tokens of the new session.
+ */
+export const createSession = (db: AuthDatabase, userId: string): SessionTokens => {
+  const { tokens, accessTokenHash, refreshTokenHash, refreshExpiresAt } = createTokenPair();
+  const now = new Date().toISOString();
+  db.prepare('DELETE FROM sessions WHERE refresh_expires_at <= ?').run(now);
+  db.prepare(
+    `INSERT INTO sessions (id, user_id, access_token_hash, access_expires_at, refresh_token_hash, refresh_expires_at, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  ).run(randomUUID(), userId, accessTokenHash, tokens.accessTokenExpiresAt, refreshTokenHash, refreshExpiresAt, now);
+  return tokens;
+};
+
+/**
+ * Finds the user an access token belongs to.
+ * @param {AuthDatabase} db - The database.
+ * @param {string} accessToken - The access token.
+ * @returns {UserRow | null} The user, or null if the token is unknown or has expired.
+ */
+export const findUserByAccessToken = (db: AuthDatabase, accessToken: string): UserRow | null => {
+  const row = db.prepare(
+    `SELECT users.* FROM sessions JOIN users ON users.id = sessions.user_id
+     WHERE sessions.access_token_hash = ? AND sessions.access_expires_at > ?`
+  ).get(hashToken(accessToken), new Date().toISOString()) as UserRow | undefined;
+  return row ?? null;
+};
+
+/**
+ * Exchanges a refresh token for new tokens. The old tokens stop working.
+ * @param {AuthDatabase} db - The database.
+ * @param {string} refreshToken - The refresh token.
+ * @returns {{ userId: string; tokens: SessionTokens } | null} The user and new tokens, or null if the token is unknown or has expired.
+ */
+export const refreshSession = (db: AuthDatabase, refreshToken: string): { userId: string; tokens: SessionTokens } | null => {
+  const session = db.prepare('SELECT * FROM sessions WHERE refresh_token_hash = ? AND refresh_expires_at > ?')
+    .get(hashToken(refreshToken), new Date().toISOString()) as SessionRow | undefined;
+  if (!session) return null;
+  const { tokens, accessTokenHash, refreshTokenHash, refreshExpiresAt } = createTokenPair();
+  db.prepare(
+    'UPDATE sessions SET access_token_hash = ?, access_expires_at = ?, refresh_token_hash = ?, refresh_expires_at = ? WHERE id = ?'
+  ).run(accessTokenHash, tokens.accessTokenExpiresAt, refreshTokenHash, refreshExpiresAt, session.id);
+  return { userId: session.user_id, tokens };
+};
+
+/**
+ * Ends the session a refresh token belongs to.
+ * @param {AuthDatabase} db - The database.
+ * @param {string} refreshToken - The refresh token.
+ */
+export const deleteSession = (db: AuthDatabase, refreshToken: string) => {
+  db.prepare('DELETE FROM sessions WHERE refresh_token_hash = ?').run(hashToken(refreshToken));
+};
@@ -0,0 +1,80 @@
+/**
+ * @file aiErrors.ts
+ * @description The typed errors raised by the AI service and its providers.
+ * Every failure, whichever provider caused it, is normalised into an `AiServiceError`
+ * so that screens can show a consistent, translated message.
+ */
+
+import { TranslationKey } from '../types';
+
+/**
+ * The kinds of failure an AI request can end in.
+ */
+export type AiErrorCode =
+  | 'MISSING_API_KEY'
+  | 'TIMEOUT'
+  | 'NETWORK'
+  | 'RATE_LIMITED'
+  | 'SERVER'
+  | 'INVALID_REQUEST'
+  | 'EMPTY_RESPONSE'
+  | 'UNKNOWN';
+
+/**
+ * The error type thrown by every `AiService` method.
+ * `retryable` marks transient failures that are worth trying again.
+ */
+export class AiServiceError extends Error {
+  code: AiErrorCode;
+  retryable: boolean;
+  originalError?: unknown;
+
+  constructor(code: AiErrorCode, message: string, retryable = false, originalError?: unknown) {
+    super(message);
+    this.name = 'AiServiceError';
+    this.code = code;
+    this.retryable = retryable;
+    this.originalError = originalError;
+  }
+}
+
+// Maps each error code to its translation key, so screens can show a translated message.
+const AI_ERROR_MESSAGE_KEYS: Record<AiErrorCode, TranslationKey> = {
+  MISSING_API_KEY: 'aiErrorMissingApiKey',
+  TIMEOUT: 'aiErrorTimeout',
+  NETWORK: 'aiErrorNetwork',
+  RATE_LIMITED: 'aiErrorRateLimited',
+  SERVER: 'aiErrorServer',
+  INVALID_REQUEST: 'aiErrorInvalidRequest',
+  EMPTY_RESPONSE: 'aiErrorEmptyResponse',
+  UNKNOWN: 'aiErrorUnknown',
+};
+
+/**
+ * Converts any error into an `AiServiceError`. Providers map their own SDK errors
+ * first; this handles everything that is common to all of them.
+ * @param {unknown} error - The raw error.
+ * @returns {AiServiceError} The normalised error.
+ */
+export const toAiServiceError = (error: unknown): AiServiceError => {
+  if (error instanceof AiServiceError) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof Error && error.name === 'AbortError') {
+    return new AiServiceError('TIMEOUT', message, true, error);
+  }
+  // `fetch` rejects with a TypeError when the device is offline or the connection drops.
+  if (error instanceof TypeError) {
+    return new AiServiceError('NETWORK', message, true, error);
+  }
+  return new AiServiceError('UNKNOWN', message, false, error);
+};
+
+/**
+ * Returns the translation key describing an error thrown by the AI service.
+ * @param {unknown} error - The caught error.
+ * @returns {TranslationKey} A key that can be passed to `translate`.
+ */
+export const getAiErrorMessageKey = (error: unknown): TranslationKey =>
+  AI_ERROR_MESSAGE_KEYS[toAiServiceError(error).code];
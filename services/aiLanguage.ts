@@ -0,0 +1,131 @@
+/**
+ * @file aiLanguage.ts
+ * @description How the AI prompts ask for the user's language, and how an answer is checked
+ * to really be in it. Every language has a descriptor with its script and the register the
+ * answers should use; every AI prompt names the language through it. Since a model asked for
+ * Tamil sometimes answers in English, or in Tamil typed in Latin letters, the AI service checks
+ * the script of each answer with `judgeAnswerLanguage` and regenerates it once if it is wrong.
+ */
+
+import { LANGUAGE_OPTIONS } from '../constants';
+import { Language } from '../types';
+
+// The script and register of each language, as the prompts describe them. `letterPattern`
+// matches the letters (and vowel signs) of the script.
+const LANGUAGE_PROFILES: Record<Language, { script: string; letterPattern: RegExp; register: string }> = {
+  [Language.EN]: {
+    script: 'Latin',
+    letterPattern: /\p{Script=Latin}/gu,
+    register: 'Use short sentences and everyday words, for readers who are still learning English.',
+  },
+  [Language.HI]: {
+    script: 'Devanagari',
+    letterPattern: /\p{Script=Devanagari}/gu,
+    register: 'Use everyday spoken Hindi, not formal or Sanskritised Hindi. Common English words such as "mobile" may be used, written in Devanagari.',
+  },
+  [Language.TA]: {
+    script: 'Tamil',
+    letterPattern: /\p{Script=Tamil}/gu,
+    register: 'Use everyday spoken Tamil with simple words, not formal literary Tamil.',
+  },
+  [Language.TE]: {
+    script: 'Telugu',
+    letterPattern: /\p{Script=Telugu}/gu,
+    register: 'Use everyday spoken Telugu with simple words, not bookish or formal Telugu.',
+  },
+  [Language.KN]: {
+    script: 'Kannada',
+    letterPattern: /\p{Script=Kannada}/gu,
+    register: 'Use everyday spoken Kannada with simple words, as people speak it at home.',
+  },
+  [Language.ML]: {
+    script: 'Malayalam',
+    letterPattern: /\p{Script=Malayalam}/gu,
+    register: 'Use everyday spoken Malayalam with simple words, avoiding heavily Sanskritised terms.',
+  },
+  [Language.BN]: {
+    script: 'Bengali',
+    letterPattern: /\p{Script=Bengali}/gu,
+    register: 'Use everyday spoken Bengali (cholito bhasha), not the old literary sadhu bhasha.',
+  },
+  [Language.MR]: {
+    script: 'Devanagari',
+    letterPattern: /\p{Script=Devanagari}/gu,
+    register: 'Use everyday spoken Marathi with simple words. Write Marathi, not Hindi, even though both use Devanagari.',
+  },
+};
+
+// An answer whose letters are less than this share in the requested script is in the wrong language.
+const MIN_SCRIPT_SHARE = 0.5;
+// Answers with fewer letters than this (e.g. only emojis and a URL) are too short to judge.
+const MIN_LETTERS_TO_JUDGE = 20;
+// How many letters of a streamed answer are enough to judge it before it is complete.
+const STREAM_SAMPLE_LETTERS = 160;
+
+/**
+ * How a language is asked for in the AI prompts.
+ */
+export interface PromptLanguage {
+  name: string; // Used inside sentences, e.g. "Tamil (தமிழ்)" or "Simple English"
+  instruction: string; // The full request: the language, its script and its register
+}
+
+/**
+ * Returns how the AI prompts ask for a language.
+ * @param {Language} language - The language the answer must be in.
+ * @returns {PromptLanguage} Its name and instruction for the prompts.
+ */
+export const getPromptLanguage = (language: Language): PromptLanguage => {
+  const { nativeName, englishName } = LANGUAGE_OPTIONS.find(option => option.code === language)!;
+  const { script, register } = LANGUAGE_PROFILES[language];
+  if (language === Language.EN) {
+    return { name: 'Simple English', instruction: `Write in simple English. ${register}` };
+  }
+  const name = `${englishName} (${nativeName})`;
+  return {
+    name,
+    instruction: `Write in ${name}, in the ${script} script. ${register} Keep the names of apps, websites and government schemes, and URLs, as they are, but never write ${englishName} in Latin letters or switch to English sentences.`,
+  };
+};
+
+/**
+ * Returns the note added to a prompt that is sent again because its answer was in the wrong language.
+ * @param {Language} language - The language the answer must be in.
+ * @returns {string} The note.
+ */
+export const getLanguageReminder = (language: Language): string => {
+  const { name, instruction } = getPromptLanguage(language);
+  return `Important: your previous answer was not written in ${name}. Answer again, keeping the same format. ${instruction}`;
+};
+
+/**
+ * Keeps only the text of an answer that should be in the user's language: the keys of a JSON
+ * answer, its escape sequences (such as \n) and URLs are left out.
+ * @param {string} text - The answer, or the part of it received so far.
+ * @returns {string} The text to check.
+ */
+const getCheckedText = (text: string): string =>
+  text
+    .replace(/"(?:[^"\\]|\\.)*"\s*:/g, ' ')
+    .replace(/\\(?:u[0-9a-fA-F]{4}|.)/g, ' ')
+    .replace(/(?:https?:\/\/|www\.)\S+/g, ' ');
+
+/**
+ * Checks whether an answer is written in the script of the requested language. English, app
+ * names and URLs mixed into an Indian-language answer are fine as long as most of its letters
+ * are in the right script. Hindi and Marathi share a script, so they cannot be told apart.
+ * @param {string} text - The answer, or the part of it received so far.
+ * @param {Language} language - The language the answer must be in.
+ * @param {boolean} isComplete - False while the answer is still being streamed.
+ * @returns {boolean | undefined} Whether the answer is in the language, or undefined if a
+ * streamed answer is still too short to tell.
+ */
+export const judgeAnswerLanguage = (text: string, language: Language, isComplete: boolean): boolean | undefined => {
+  const checkedText = getCheckedText(text);
+  const letterCount = checkedText.match(/[\p{L}\p{M}]/gu)?.length ?? 0;
+  if (letterCount < (isComplete ? MIN_LETTERS_TO_JUDGE : STREAM_SAMPLE_LETTERS)) {
+    return isComplete ? true : undefined;
+  }
+  const scriptLetterCount = checkedText.match(LANGUAGE_PROFILES[language].letterPattern)?.length ?? 0;
+  return scriptLetterCount / letterCount >= MIN_SCRIPT_SHARE;
+};
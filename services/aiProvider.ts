@@ -0,0 +1,85 @@
+/**
+ * @file aiProvider.ts
+ * @description The contract every AI backend must implement, and the selection of the
+ * backend used by the app. The provider is picked with the `AI_PROVIDER` environment
+ * variable (see vite.config.ts): `gemini` (default) talks to Google Gemini, while `mock`
+ * answers every request locally with canned responses so the app works without a network.
+ */
+
+import type { Schema } from '@google/genai';
+import { createGeminiProvider } from './geminiProvider';
+import { createMockAiProvider } from './mockAiProvider';
+
+/**
+ * The AI features of the app. Providers may use this to tailor their answers
+ * (the mock provider returns a different canned response for each feature).
+ */
+export type AiFeature = 'smartPathway' | 'womenAwareness' | 'learnToUseApps';
+
+/**
+ * A previous turn of a conversation, used to seed a new chat session.
+ */
+export interface AiChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+/**
+ * A single generation request as seen by a provider.
+ */
+export interface AiProviderRequest {
+  feature: AiFeature;
+  contents: string;
+  systemInstruction?: string;
+  temperature: number;
+  responseMimeType?: 'text/plain' | 'application/json';
+  responseSchema?: Schema; // The JSON structure the answer must follow (with 'application/json')
+  abortSignal?: AbortSignal;
+}
+
+/**
+ * Options for starting a chat session on a provider.
+ */
+export interface AiProviderChatOptions {
+  feature: AiFeature;
+  systemInstruction: string;
+  history: AiChatTurn[];
+  temperature: number;
+}
+
+/**
+ * A chat session on a provider. It remembers every message sent through it.
+ */
+export interface AiProviderChat {
+  sendMessage: (message: string, abortSignal?: AbortSignal) => Promise<string | undefined>;
+  sendMessageStream: (message: string, abortSignal?: AbortSignal) => AsyncGenerator<string>;
+}
+
+/**
+ * The interface implemented by every AI backend.
+ */
+export interface AiProvider {
+  name: AiProviderName;
+  isConfigured: boolean; // False when the provider cannot be used (e.g. a missing API key)
+  generate: (request: AiProviderRequest) => Promise<string | undefined>;
+  generateStream: (request: AiProviderRequest) => AsyncGenerator<string>;
+  createChat: (options: AiProviderChatOptions) => AiProviderChat;
+}
+
+export type AiProviderName = 'gemini' | 'mock';
+
+/**
+ * Creates the provider selected by the `AI_PROVIDER` environment variable.
+ * @param {string | undefined} providerName - The provider to use. Defaults to `process.env.AI_PROVIDER`.
+ * @returns {AiProvider} The selected provider.
+ */
+export const createAiProvider = (providerName: string | undefined = process.env.AI_PROVIDER): AiProvider => {
+  if (providerName === 'mock') {
+    console.info("Using the offline mock AI provider. Responses are canned and do not come from Gemini.");
+    return createMockAiProvider();
+  }
+  if (providerName && providerName !== 'gemini') {
+    console.warn(`Unknown AI_PROVIDER "${providerName}", falling back to Gemini.`);
+  }
+  return createGeminiProvider(process.env.API_KEY);
+};
@@ -0,0 +1,346 @@
+/**
+ * @file aiService.ts
+ * @description The single entry point for every AI call made by the Femmora app.
+ * It sits on top of the selected `AiProvider` (Gemini or the offline mock), owns the
+ * temperature presets, and wraps each request with a timeout and retries with exponential
+ * backoff. Failures are normalised into `AiServiceError` so that every screen can react
+ * to them consistently. Requests that name the user's language have their answer checked to
+ * be in its script, and are regenerated once if it is not (see aiLanguage.ts); the answers of
+ * the offline mock, which are all in English, are not checked.
+ */
+
+import type { Schema } from '@google/genai';
+import { AiChatTurn, AiFeature, AiProvider, AiProviderName, createAiProvider } from './aiProvider';
+import { AiServiceError, toAiServiceError } from './aiErrors';
+import { getLanguageReminder, judgeAnswerLanguage } from './aiLanguage';
+import { Language } from '../types';
+
+export type { AiChatTurn, AiFeature } from './aiProvider';
+export { AiServiceError, getAiErrorMessageKey } from './aiErrors';
+
+// --- Configuration ---
+
+// Named temperature presets, from focused and structured to warm and conversational.
+export const AI_TEMPERATURE_PRESETS = {
+  precise: 0.4, // Structured output such as the Smart Pathway modules
+  balanced: 0.5, // Recommendations and mentor-style follow-up chat
+  friendly: 0.6, // Awareness tips and the app assistant chat
+  empathetic: 0.7, // The "Caring Partner" emotional support chat
+};
+
+export type AiTemperaturePreset = keyof typeof AI_TEMPERATURE_PRESETS;
+
+// How long a request may wait for the model (or, when streaming, for the next chunk).
+const AI_REQUEST_TIMEOUT_MS = 60000;
+// How many times a failed request is retried (only for transient failures).
+const AI_MAX_RETRIES = 2;
+// The first retry waits this long; every following retry doubles the wait.
+const AI_RETRY_BASE_DELAY_MS = 1000;
+// How many times an answer in the wrong language is regenerated. The last answer is kept either way.
+const AI_MAX_LANGUAGE_RETRIES = 1;
+
+// --- Request helpers ---
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Rejects with a TIMEOUT error if the given promise does not settle in time.
+ * The controller is aborted on timeout so that the underlying HTTP request is cancelled too.
+ * @param {Promise<T>} promise - The pending request.
+ * @param {AbortController} controller - The controller whose signal was handed to the provider.
+ * @returns {Promise<T>} The result of the request.
+ */
+const withTimeout = <T>(promise: Promise<T>, controller: AbortController): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      controller.abort();
+      reject(new AiServiceError('TIMEOUT', `The AI did not respond within ${AI_REQUEST_TIMEOUT_MS / 1000} seconds.`, true));
+    }, AI_REQUEST_TIMEOUT_MS);
+    promise.then(
+      value => { clearTimeout(timer); resolve(value); },
+      error => { clearTimeout(timer); reject(error); }
+    );
+  });
+
+/**
+ * Decides whether a failed attempt should be retried, and waits before the retry.
+ * @param {unknown} error - The error of the failed attempt.
+ * @param {number} attempt - The zero-based number of the failed attempt.
+ * @param {string} label - A short description used in log messages.
+ * @returns {Promise<AiServiceError | null>} The error to throw, or null if the caller should retry.
+ */
+const prepareRetry = async (error: unknown, attempt: number, label: string): Promise<AiServiceError | null> => {
+  const aiError = toAiServiceError(error);
+  if (!aiError.retryable || attempt >= AI_MAX_RETRIES) {
+    console.error(`${label} failed (${aiError.code}):`, aiError.originalError ?? aiError);
+    return aiError;
+  }
+  const delay = AI_RETRY_BASE_DELAY_MS * 2 ** attempt;
+  console.warn(`${label} failed (${aiError.code}), retrying in ${delay}ms...`);
+  await sleep(delay);
+  return null;
+};
+
+/**
+ * Runs a request with a timeout, retrying transient failures with exponential backoff.
+ * @param {(signal: AbortSignal) => Promise<string | undefined>} task - The request to run.
+ * @param {string} label - A short description used in log messages.
+ * @returns {Promise<string>} The non-empty text of the first successful attempt.
+ */
+const runRequest = async (task: (signal: AbortSignal) => Promise<string | undefined>, label: string): Promise<string> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const controller = new AbortController();
+      const text = await withTimeout(task(controller.signal), controller);
+      if (!text || !text.trim()) {
+        throw new AiServiceError('EMPTY_RESPONSE', 'The AI returned an empty response.');
+      }
+      return text;
+    } catch (error) {
+      const finalError = await prepareRetry(error, attempt, label);
+      if (finalError) throw finalError;
+    }
+  }
+};
+
+/**
+ * Runs a streaming request. Every chunk must arrive within the timeout. A failed stream is
+ * retried only if nothing has been received yet, so the caller never sees duplicated text.
+ * If the caller aborts (e.g. the user pressed "Stop"), the stream simply ends.
+ * @param {(signal: AbortSignal) => AsyncGenerator<string>} task - The streaming request to run.
+ * @param {string} label - A short description used in log messages.
+ * @param {AbortSignal} [abortSignal] - Lets the caller cancel the request.
+ * @returns {AsyncGenerator<string>} The streamed text chunks.
+ */
+async function* runStreamingRequest(task: (signal: AbortSignal) => AsyncGenerator<string>, label: string, abortSignal?: AbortSignal): AsyncGenerator<string> {
+  for (let attempt = 0; ; attempt++) {
+    if (abortSignal?.aborted) return;
+    const controller = new AbortController();
+    const abortRequest = () => controller.abort();
+    abortSignal?.addEventListener('abort', abortRequest);
+    let receivedText = false;
+    try {
+      const stream = task(controller.signal);
+      while (true) {
+        const chunk = await withTimeout(stream.next(), controller);
+        if (chunk.done) break;
+        receivedText = true;
+        yield chunk.value;
+      }
+      if (!receivedText) {
+        throw new AiServiceError('EMPTY_RESPONSE', 'The AI returned an empty response.');
+      }
+      return;
+    } catch (error) {
+      if (abortSignal?.aborted) return;
+      if (receivedText) throw toAiServiceError(error);
+      const finalError = await prepareRetry(error, attempt, label);
+      if (finalError) throw finalError;
+    } finally {
+      // Cancels the underlying request if the caller stopped reading early.
+      controller.abort();
+      abortSignal?.removeEventListener('abort', abortRequest);
+    }
+  }
+}
+
+/**
+ * Runs a request whose answer must be in the user's language, regenerating it while it is not.
+ * @param {(isRegeneration: boolean) => Promise<string>} task - The request; on a regeneration it
+ * should remind the model of the language.
+ * @param {Language | undefined} language - The language of the answer, if it should be checked.
+ * @param {string} label - A short description used in log messages.
+ * @returns {Promise<string>} The answer.
+ */
+const runLanguageCheckedRequest = async (task: (isRegeneration: boolean) => Promise<string>, language: Language | undefined, label: string): Promise<string> => {
+  for (let attempt = 0; ; attempt++) {
+    const text = await task(attempt > 0);
+    if (!language || attempt >= AI_MAX_LANGUAGE_RETRIES || judgeAnswerLanguage(text, language, true)) {
+      return text;
+    }
+    console.warn(`${label} was not in the requested language (${language}), regenerating...`);
+  }
+};
+
+/**
+ * Streams a request whose answer must be in the user's language. The first part of the answer
+ * is held back until there is enough of it to judge its script; an answer in the wrong language
+ * is then cancelled and regenerated before the caller has seen any of it.
+ * @param {(isRegeneration: boolean) => AsyncGenerator<string>} task - The streaming request; on a
+ * regeneration it should remind the model of the language.
+ * @param {Language | undefined} language - The language of the answer, if it should be checked.
+ * @param {string} label - A short description used in log messages.
+ * @param {AbortSignal} [abortSignal] - Lets the caller cancel the request.
+ * @returns {AsyncGenerator<string>} The streamed text chunks.
+ */
+async function* runLanguageCheckedStream(task: (isRegeneration: boolean) => AsyncGenerator<string>, language: Language | undefined, label: string, abortSignal?: AbortSignal): AsyncGenerator<string> {
+  for (let attempt = 0; ; attempt++) {
+    let isJudged = !language || attempt >= AI_MAX_LANGUAGE_RETRIES;
+    let heldText = '';
+    let isWrongLanguage = false;
+    for await (const chunk of task(attempt > 0)) {
+      if (isJudged) {
+        yield chunk;
+        continue;
+      }
+      heldText += chunk;
+      const isInLanguage = judgeAnswerLanguage(heldText, language!, false);
+      if (isInLanguage === undefined) continue;
+      if (!isInLanguage) {
+        isWrongLanguage = true;
+        break; // Ends the stream, which cancels the request
+      }
+      isJudged = true;
+      yield heldText;
+    }
+    if (abortSignal?.aborted) return;
+    if (!isJudged && !isWrongLanguage) {
+      // The whole answer was shorter than the sample, so it is judged now that it is complete.
+      if (judgeAnswerLanguage(heldText, language!, true)) {
+        yield heldText;
+        return;
+      }
+      isWrongLanguage = true;
+    }
+    if (!isWrongLanguage) return;
+    console.warn(`${label} was not in the requested language (${language}), regenerating...`);
+  }
+}
+
+// --- Service ---
+
+/**
+ * Parameters for a single, one-off text generation.
+ */
+export interface AiGenerateRequest {
+  feature: AiFeature;
+  contents: string;
+  systemInstruction?: string;
+  temperature: AiTemperaturePreset;
+  responseMimeType?: 'text/plain' | 'application/json';
+  responseSchema?: Schema;
+  language?: Language; // The language the answer must be in; an answer in another script is regenerated
+  signal?: AbortSignal; // Stops a streamed answer (streamText only)
+}
+
+/**
+ * Parameters for starting a multi-turn chat session.
+ */
+export interface AiChatOptions {
+  feature: AiFeature;
+  systemInstruction: string;
+  history: AiChatTurn[];
+  temperature: AiTemperaturePreset;
+  language?: Language; // The language the replies must be in; a reply in another script is regenerated
+}
+
+/**
+ * A running chat session. The session remembers every message sent through it, and the part
+ * of a streamed reply that was received before it was stopped.
+ */
+export interface AiChatSession {
+  sendMessage: (message: string) => Promise<string>;
+  sendMessageStream: (message: string, abortSignal?: AbortSignal) => AsyncGenerator<string>;
+}
+
+/**
+ * The public surface of the AI service.
+ */
+export interface AiService {
+  providerName: AiProviderName;
+  isConfigured: boolean; // False when the provider cannot be used; every request will then fail.
+  generateText: (request: AiGenerateRequest) => Promise<string>;
+  streamText: (request: AiGenerateRequest) => AsyncGenerator<string>;
+  createChat: (options: AiChatOptions) => AiChatSession;
+}
+
+/**
+ * Creates the AI service on top of a provider.
+ * @param {AiProvider} provider - The AI backend. Defaults to the one selected by `AI_PROVIDER`.
+ * @returns {AiService} The AI service.
+ */
+export const createAiService = (provider: AiProvider = createAiProvider()): AiService => {
+  // The mock's canned answers are in English, so checking them would only send every request
+  // in another language twice.
+  const getCheckedLanguage = (language: Language | undefined) => (provider.name === 'mock' ? undefined : language);
+
+  // A regenerated request reminds the model of the language its previous answer should have been in.
+  const toProviderRequest = ({ temperature, language, signal, ...request }: AiGenerateRequest, isRegeneration: boolean, abortSignal: AbortSignal) => ({
+    ...request,
+    contents: isRegeneration && language ? `${request.contents}\n\n${getLanguageReminder(language)}` : request.contents,
+    temperature: AI_TEMPERATURE_PRESETS[temperature],
+    abortSignal,
+  });
+
+  const generateText = (request: AiGenerateRequest) =>
+    runLanguageCheckedRequest(
+      isRegeneration => runRequest(signal => provider.generate(toProviderRequest(request, isRegeneration, signal)), 'AI generation'),
+      getCheckedLanguage(request.language),
+      'AI generation'
+    );
+
+  const streamText = (request: AiGenerateRequest) =>
+    runLanguageCheckedStream(
+      isRegeneration => runStreamingRequest(signal => provider.generateStream(toProviderRequest(request, isRegeneration, signal)), 'AI streaming generation', request.signal),
+      getCheckedLanguage(request.language),
+      'AI streaming generation',
+      request.signal
+    );
+
+  const createChat = ({ feature, systemInstruction, history, temperature, language }: AiChatOptions): AiChatSession => {
+    // The turns of the conversation so far. A provider chat only remembers a turn whose reply
+    // was read to the end, so after a reply is stopped the chat is opened again from these.
+    const turns: AiChatTurn[] = [...history];
+    const openChat = () => provider.createChat({
+      feature,
+      systemInstruction,
+      history: [...turns],
+      temperature: AI_TEMPERATURE_PRESETS[temperature],
+    });
+    let chat = openChat();
+
+    // A message sent again because its reply was in the wrong language goes to a new chat, opened
+    // from the turns before it so the wrong reply is not part of the conversation, and reminds
+    // the model of the language.
+    const sendTo = (isRegeneration: boolean) => {
+      if (isRegeneration) chat = openChat();
+      return chat;
+    };
+    const withReminder = (message: string, isRegeneration: boolean) =>
+      isRegeneration && language ? `${message}\n\n${getLanguageReminder(language)}` : message;
+
+    return {
+      sendMessage: async (message: string) => {
+        const reply = await runLanguageCheckedRequest(
+          isRegeneration => runRequest(signal => sendTo(isRegeneration).sendMessage(withReminder(message, isRegeneration), signal), 'AI chat message'),
+          getCheckedLanguage(language),
+          'AI chat message'
+        );
+        turns.push({ role: 'user', text: message }, { role: 'model', text: reply });
+        return reply;
+      },
+      sendMessageStream: async function* (message: string, abortSignal?: AbortSignal): AsyncGenerator<string> {
+        let reply = '';
+        let isComplete = false;
+        try {
+          for await (const chunk of runLanguageCheckedStream(
+            isRegeneration => runStreamingRequest(signal => sendTo(isRegeneration).sendMessageStream(withReminder(message, isRegeneration), signal), 'AI streaming chat message', abortSignal),
+            getCheckedLanguage(language),
+            'AI streaming chat message',
+            abortSignal
+          )) {
+            reply += chunk;
+            yield chunk;
+          }
+          isComplete = !abortSignal?.aborted;
+        } finally {
+          // A reply shown in part (e.g. stopped by the user) stays in the conversation, as on screen.
+          if (reply) turns.push({ role: 'user', text: message }, { role: 'model', text: reply });
+          if (!isComplete) chat = openChat();
+        }
+      },
+    };
+  };
+
+  return { providerName: provider.name, isConfigured: provider.isConfigured, generateText, streamText, createChat };
+};
@@ -0,0 +1,181 @@
+/**
+ * @file authApi.ts
+ * @description The client of the auth server's API (see server/authRoutes.ts). Every failure
+ * is normalised into an `AuthApiError`, so that the login and registration forms can show
+ * a consistent, translated message.
+ */
+
+import { AuthErrorCode, AuthSession, OtpChallenge, TranslationKey, User, UserRole } from '../types';
+
+// The shortest password the auth server accepts.
+export const MIN_PASSWORD_LENGTH = 8;
+
+// The quick login PIN has exactly this many digits.
+export const PIN_LENGTH = 4;
+
+// The auth API; by default on the same origin, where the Vite dev server forwards it to the auth server.
+const AUTH_API_URL = `${process.env.AUTH_API_URL ?? ''}/api/auth`;
+
+/**
+ * The error type thrown by every auth API call.
+ */
+export class AuthApiError extends Error {
+  code: AuthErrorCode;
+  status?: number; // The HTTP status, if the server answered
+
+  constructor(code: AuthErrorCode, message: string, status?: number) {
+    super(message);
+    this.name = 'AuthApiError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+// Maps each error code to its translation key, so forms can show a translated message.
+const AUTH_ERROR_MESSAGE_KEYS: Record<AuthErrorCode, TranslationKey> = {
+  INVALID_INPUT: 'authErrorInvalidInput',
+  EMAIL_TAKEN: 'authErrorEmailTaken',
+  INVALID_CREDENTIALS: 'authErrorInvalidCredentials',
+  INVALID_PHONE: 'authErrorInvalidPhone',
+  PHONE_TAKEN: 'authErrorPhoneTaken',
+  INVALID_CODE: 'authErrorInvalidCode',
+  PIN_LOCKED: 'authErrorPinLocked',
+  TOO_MANY_REQUESTS: 'authErrorTooManyRequests',
+  FORBIDDEN: 'authErrorForbidden',
+  USER_NOT_FOUND: 'authErrorUserNotFound',
+  UNAUTHORIZED: 'authErrorSessionExpired',
+  NOT_FOUND: 'authErrorServer',
+  NETWORK: 'authErrorNetwork',
+  SERVER: 'authErrorServer',
+};
+
+/**
+ * Returns the translation key describing an error thrown by the auth API.
+ * @param {unknown} error - The caught error.
+ * @returns {TranslationKey} A key that can be passed to `translate`.
+ */
+export const getAuthErrorMessageKey = (error: unknown): TranslationKey =>
+  AUTH_ERROR_MESSAGE_KEYS[error instanceof AuthApiError ? error.code : 'SERVER'];
+
+/**
+ * Sends a request to the auth API.
+ * @param {string} path - The route, e.g. '/login'.
+ * @param {RequestInit} init - The method, body and headers.
+ * @returns {Promise<T | undefined>} The parsed JSON answer, or undefined for an empty one.
+ * @throws {AuthApiError} If the server cannot be reached or answers with an error.
+ */
+const request = async <T>(path: string, init: RequestInit): Promise<T | undefined> => {
+  let response: Response;
+  try {
+    response = await fetch(`${AUTH_API_URL}${path}`, { ...init, headers: { 'Content-Type': 'application/json', ...init.headers } });
+  } catch (error) {
+    // `fetch` rejects with a TypeError when the device is offline or the server is not running.
+    throw new AuthApiError('NETWORK', error instanceof Error ? error.message : String(error));
+  }
+  if (response.status === 204) return undefined;
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    const code: AuthErrorCode = body?.error?.code && body.error.code in AUTH_ERROR_MESSAGE_KEYS ? body.error.code : 'SERVER';
+    throw new AuthApiError(code, body?.error?.message ?? response.statusText, response.status);
+  }
+  if (body === null) throw new AuthApiError('SERVER', 'The auth server sent an invalid answer', response.status);
+  return body as T;
+};
+
+const post = async <T>(path: string, body: object, accessToken?: string): Promise<T> =>
+  (await request<T>(path, { method: 'POST', body: JSON.stringify(body), headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : {} })) as T;
+
+/**
+ * Creates an account and signs it in.
+ * @returns {Promise<AuthSession>} The new session.
+ */
+export const registerAccount = (name: string, email: string, password: string): Promise<AuthSession> =>
+  post<AuthSession>('/register', { name, email, password });
+
+/**
+ * Signs in with an email and password.
+ * @returns {Promise<AuthSession>} The new session.
+ */
+export const loginWithPassword = (email: string, password: string): Promise<AuthSession> =>
+  post<AuthSession>('/login', { email, password });
+
+/**
+ * Sends a one-time code to a phone, to create an account with it or to log in.
+ * @param {string} phone - The phone number as typed.
+ * @param {'register' | 'login'} purpose - What the code is for.
+ * @param {string} [name] - The name of the account to create, for 'register'.
+ * @returns {Promise<OtpChallenge>} The challenge to verify the code with.
+ */
+export const requestOtpCode = (phone: string, purpose: 'register' | 'login', name?: string): Promise<OtpChallenge> =>
+  post<OtpChallenge>('/otp/request', { phone, purpose, name });
+
+/**
+ * Verifies a one-time code, creating the account or logging in.
+ * @param {string} challengeId - The challenge returned by `requestOtpCode`.
+ * @param {string} code - The code as typed.
+ * @returns {Promise<AuthSession>} The new session.
+ */
+export const verifyOtpCode = (challengeId: string, code: string): Promise<AuthSession> =>
+  post<AuthSession>('/otp/verify', { challengeId, code });
+
+/**
+ * Signs in with a phone number or email and the quick login PIN.
+ * @returns {Promise<AuthSession>} The new session.
+ */
+export const loginWithPinCode = (identifier: string, pin: string): Promise<AuthSession> =>
+  post<AuthSession>('/pin/login', { identifier, pin });
+
+/**
+ * Exchanges a refresh token for a new session. The old tokens stop working.
+ * @param {string} refreshToken - The refresh token of the current session.
+ * @returns {Promise<AuthSession>} The new session.
+ */
+export const refreshAuthSession = (refreshToken: string): Promise<AuthSession> =>
+  post<AuthSession>('/refresh', { refreshToken });
+
+/**
+ * Ends a session on the server.
+ * @param {string} refreshToken - The refresh token of the session.
+ */
+export const logoutSession = async (refreshToken: string) => {
+  await request('/logout', { method: 'POST', body: JSON.stringify({ refreshToken }) });
+};
+
+/**
+ * Fetches the signed-in user.
+ * @param {string} accessToken - The access token of the session.
+ * @returns {Promise<User>} The user.
+ */
+export const fetchCurrentUser = async (accessToken: string): Promise<User> => {
+  const body = await request<{ user: User }>('/me', { method: 'GET', headers: { Authorization: `Bearer ${accessToken}` } });
+  return body!.user;
+};
+
+/**
+ * Sets the signed-in user's quick login PIN.
+ * @param {string} accessToken - The access token of the session.
+ * @param {string} pin - The new PIN.
+ * @returns {Promise<User>} The updated user.
+ */
+export const setQuickLoginPin = async (accessToken: string, pin: string): Promise<User> =>
+  (await post<{ user: User }>('/pin', { pin }, accessToken)).user;
+
+/**
+ * Removes the signed-in user's quick login PIN.
+ * @param {string} accessToken - The access token of the session.
+ * @returns {Promise<User>} The updated user.
+ */
+export const removeQuickLoginPin = async (accessToken: string): Promise<User> => {
+  const body = await request<{ user: User }>('/pin', { method: 'DELETE', headers: { Authorization: `Bearer ${accessToken}` } });
+  return body!.user;
+};
+
+/**
+ * Changes the role of another account. Only NGO admins may.
+ * @param {string} accessToken - The access token of the admin's session.
+ * @param {string} identifier - The phone number or email of the account.
+ * @param {UserRole} role - The new role.
+ * @returns {Promise<User>} The updated account.
+ */
+export const setAccountRole = async (accessToken: string, identifier: string, role: UserRole): Promise<User> =>
+  (await post<{ user: User }>('/users/role', { identifier, role }, accessToken)).user;
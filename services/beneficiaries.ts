@@ -0,0 +1,46 @@
+/**
+ * @file beneficiaries.ts
+ * @description Reads and writes the beneficiaries a volunteer has registered, in the encrypted
+ * storage. Every volunteer has their own list, stored under a key that includes their user id.
+ * A beneficiary's pathways are stored like a user's, under her own id.
+ */
+
+import { secureStorage } from './secureStorage';
+import { deleteStoredPathways } from './pathwayStorage';
+import { Beneficiary } from '../types';
+
+const storageKey = (volunteerId: string) => `femmoraBeneficiaries_${volunteerId}`;
+
+/**
+ * Loads the beneficiaries of a volunteer, in the order they were registered.
+ * @param {string} volunteerId - The user id of the volunteer.
+ * @returns {Beneficiary[]} The beneficiaries, or an empty list if there are none or the data is corrupt.
+ */
+export const loadBeneficiaries = (volunteerId: string): Beneficiary[] => {
+  const storedBeneficiaries = secureStorage.getItem(storageKey(volunteerId));
+  if (!storedBeneficiaries) return [];
+  try {
+    const parsedBeneficiaries = JSON.parse(storedBeneficiaries);
+    return Array.isArray(parsedBeneficiaries) ? parsedBeneficiaries : [];
+  } catch (error) {
+    console.error("Failed to parse beneficiaries", error);
+    return [];
+  }
+};
+
+/**
+ * Replaces the beneficiaries of a volunteer.
+ * @param {string} volunteerId - The user id of the volunteer.
+ * @param {Beneficiary[]} beneficiaries - The complete list to store.
+ */
+export const storeBeneficiaries = (volunteerId: string, beneficiaries: Beneficiary[]) => {
+  secureStorage.setItem(storageKey(volunteerId), JSON.stringify(beneficiaries));
+};
+
+/**
+ * Deletes everything stored for a beneficiary (her pathways).
+ * @param {string} beneficiaryId - The id of the beneficiary.
+ */
+export const deleteBeneficiaryData = (beneficiaryId: string) => {
+  deleteStoredPathways(beneficiaryId);
+};
@@ -0,0 +1,74 @@
+/**
+ * @file conversationStorage.ts
+ * @description Reads and writes the saved AI chat conversations in the encrypted storage, and turns a
+ * saved conversation back into the history a new chat session is seeded with.
+ * Every user has their own list, stored under a key that includes the user's id.
+ */
+
+import { AiChatTurn } from './aiProvider';
+import { secureStorage } from './secureStorage';
+import { ChatMessage, SavedConversation } from '../types';
+
+const storageKey = (userId: string) => `femmoraConversations_${userId}`;
+
+/**
+ * Loads the saved conversations of a user, most recently updated first.
+ * @param {string} userId - The id of the user.
+ * @returns {SavedConversation[]} The conversations, or an empty list if there are none or the data is corrupt.
+ */
+export const loadConversations = (userId: string): SavedConversation[] => {
+  const storedConversations = secureStorage.getItem(storageKey(userId));
+  if (!storedConversations) return [];
+  try {
+    const parsedConversations = JSON.parse(storedConversations);
+    if (!Array.isArray(parsedConversations)) return [];
+    // Timestamps are stored as strings in JSON; turn them back into dates.
+    return parsedConversations.map((conversation: SavedConversation) => ({
+      ...conversation,
+      messages: conversation.messages.map(message => ({
+        ...message,
+        timestamp: message.timestamp ? new Date(message.timestamp) : undefined,
+      })),
+    }));
+  } catch (error) {
+    console.error("Failed to parse saved conversations", error);
+    return [];
+  }
+};
+
+/**
+ * Replaces the saved conversations of a user.
+ * @param {string} userId - The id of the user.
+ * @param {SavedConversation[]} conversations - The complete list to store.
+ */
+export const storeConversations = (userId: string, conversations: SavedConversation[]) => {
+  secureStorage.setItem(storageKey(userId), JSON.stringify(conversations));
+};
+
+/**
+ * Deletes every saved conversation of a user from the storage.
+ * @param {string} userId - The id of the user.
+ */
+export const deleteStoredConversations = (userId: string) => {
+  secureStorage.removeItem(storageKey(userId));
+};
+
+/**
+ * Rebuilds the history of a conversation for a new chat session: the hidden context turns
+ * followed by every exchange the user had. Intro and error messages are left out, and so is
+ * a question whose answer never arrived, so user and model turns keep alternating.
+ * @param {SavedConversation} conversation - The saved conversation.
+ * @returns {AiChatTurn[]} The history to seed the chat session with.
+ */
+export const getResumeHistory = (conversation: SavedConversation): AiChatTurn[] => {
+  const replayed = conversation.messages.filter(message => !message.isIntro && !message.isError);
+  const turns: AiChatTurn[] = [];
+  replayed.forEach((message: ChatMessage, index) => {
+    if (message.sender === 'user') {
+      if (replayed[index + 1]?.sender === 'ai') turns.push({ role: 'user', text: message.text });
+    } else if (replayed[index - 1]?.sender === 'user') {
+      turns.push({ role: 'model', text: message.text });
+    }
+  });
+  return [...conversation.contextTurns, ...turns];
+};
@@ -0,0 +1,114 @@
+/**
+ * @file crisisDetection.test.ts
+ * @description Checks `detectCrisis` against messages in every app language, in their own
+ * script and as typed in Latin letters, and against everyday messages that must not raise
+ * the crisis banner.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { detectCrisis, getCrisisHelplines } from './crisisDetection';
+import { CrisisCategory } from '../types';
+
+// Messages that show a crisis, with the category that should be found.
+const CRISIS_MESSAGES: { message: string; category: CrisisCategory }[] = [
+  // English
+  { message: 'Please help, I am in danger', category: 'immediateDanger' },
+  { message: 'He is going to kill me', category: 'immediateDanger' },
+  { message: "I'm scared he'll kill me tonight", category: 'immediateDanger' },
+  { message: 'Someone is following me home', category: 'immediateDanger' },
+  { message: 'I want to kill myself', category: 'selfHarm' },
+  { message: "I don't want to live anymore", category: 'selfHarm' },
+  { message: 'i dont wanna live', category: 'selfHarm' },
+  { message: 'Sometimes I just want to end it all', category: 'selfHarm' },
+  { message: 'i wanna die', category: 'selfHarm' },
+  { message: "There's no point living like this", category: 'selfHarm' },
+  { message: 'I feel suicidal', category: 'selfHarm' },
+  { message: 'My husband beats me every night', category: 'abuse' },
+  { message: 'I was harassed by my manager', category: 'abuse' },
+  { message: 'They are forcing me to get married', category: 'abuse' },
+  // Hindi and Hinglish
+  { message: 'मैं ख़तरे में हूँ', category: 'immediateDanger' },
+  { message: 'कोई मुझे बचाओ', category: 'immediateDanger' },
+  { message: 'mujhe bachao please', category: 'immediateDanger' },
+  { message: 'वो मुझे जान से मार देगा', category: 'immediateDanger' },
+  { message: 'मैं आत्महत्या करना चाहती हूँ', category: 'selfHarm' },
+  { message: 'main marna chahti hoon', category: 'selfHarm' },
+  { message: 'ab jeena nahi chahti', category: 'selfHarm' },
+  { message: 'मेरा पति मुझे मारता है', category: 'abuse' },
+  { message: 'mera pati roz marta hai', category: 'abuse' },
+  // Tamil and Tanglish
+  { message: 'நான் ஆபத்தில் இருக்கிறேன்', category: 'immediateDanger' },
+  { message: 'yaaravathu kaapathunga', category: 'immediateDanger' },
+  { message: 'எனக்கு சாகணும்', category: 'selfHarm' },
+  { message: 'enakku saaganum', category: 'selfHarm' },
+  { message: 'என் கணவர் என்னை அடிக்கிறார்', category: 'abuse' },
+  { message: 'en purushan adikkiraar', category: 'abuse' },
+  // Telugu
+  { message: 'నేను ప్రమాదంలో ఉన్నాను', category: 'immediateDanger' },
+  { message: 'నాకు చనిపోవాలని ఉంది', category: 'selfHarm' },
+  { message: 'నా భర్త నన్ను కొడుతున్నాడు', category: 'abuse' },
+  // Kannada
+  { message: 'ನಾನು ಅಪಾಯದಲ್ಲಿದ್ದೇನೆ', category: 'immediateDanger' },
+  { message: 'ನಾನು ಸಾಯಬೇಕು', category: 'selfHarm' },
+  { message: 'ನನ್ನ ಗಂಡ ಹೊಡೆಯುತ್ತಾನೆ', category: 'abuse' },
+  // Malayalam
+  { message: 'ഞാൻ അപകടത്തിലാണ്', category: 'immediateDanger' },
+  { message: 'എനിക്ക് മരിക്കണം', category: 'selfHarm' },
+  { message: 'ഭർത്താവ് എന്നെ അടിക്കുന്നു', category: 'abuse' },
+  // Bengali
+  { message: 'আমি বিপদে আছি', category: 'immediateDanger' },
+  { message: 'আমি মরে যেতে চাই', category: 'selfHarm' },
+  { message: 'স্বামী আমাকে মারে', category: 'abuse' },
+  // Marathi
+  { message: 'मी धोक्यात आहे', category: 'immediateDanger' },
+  { message: 'कोणीतरी वाचवा', category: 'immediateDanger' },
+  { message: 'mala vachva', category: 'immediateDanger' },
+  { message: 'मला जगायचं नाही', category: 'selfHarm' },
+  { message: 'नवरा मारहाण करतो', category: 'abuse' },
+];
+
+// Everyday messages, some with the same words, that show no crisis.
+const SAFE_MESSAGES = [
+  'This traffic is killing me',
+  "I'm dying to see the new movie",
+  'I almost died laughing at that joke',
+  "I'm gonna die of boredom in this class",
+  'How do I kill the weeds in my garden?',
+  "I don't want to be here at this party",
+  'How can I save money for my studies?',
+  'पैसे बचा लो, बाद में काम आएंगे',
+  'थोड़े पैसे बचाओ',
+  'paise bachao',
+  'पैसे वाचवा',
+  'paise vachva',
+  'मुझे सिलाई सीखनी है',
+  'எனக்கு தையல் கற்க வேண்டும்',
+  'I want to learn English',
+  '',
+];
+
+describe('detectCrisis', () => {
+  it.each(CRISIS_MESSAGES)('finds $category in "$message"', ({ message, category }) => {
+    expect(detectCrisis(message)?.category).toBe(category);
+  });
+
+  it.each(SAFE_MESSAGES)('finds nothing in "%s"', message => {
+    expect(detectCrisis(message)).toBeNull();
+  });
+
+  it('ignores case, curly apostrophes and extra spaces', () => {
+    expect(detectCrisis('I DON’T   want to live')?.category).toBe('selfHarm');
+  });
+
+  it('reports the most urgent category of a message', () => {
+    expect(detectCrisis('He beats me and says he is going to kill me')?.category).toBe('immediateDanger');
+  });
+});
+
+describe('getCrisisHelplines', () => {
+  it('offers the police first in immediate danger, and the women helpline first otherwise', () => {
+    expect(getCrisisHelplines('immediateDanger')[0].id).toBe('policeHelpline');
+    expect(getCrisisHelplines('selfHarm')[0].id).toBe('womenHelpline');
+    expect(getCrisisHelplines('abuse')).toHaveLength(3);
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * @file crisisDetection.ts
+ * @description A small local classifier that looks for signs of self-harm, abuse or immediate
+ * danger in a chat message, before the message is sent to the AI. It is keyword and pattern
+ * based, with patterns for every app language (also as typed in Latin letters, which is
+ * common on phones), and runs entirely on the device. A message is checked against the patterns of
+ * all languages, since users often mix languages or type in a different one from the UI.
+ */
+
+import { CrisisCategory, EmergencyContact, Language } from '../types';
+import { NATIONAL_HELPLINES } from '../data/emergencyContactsData';
+
+/**
+ * The result of checking a message.
+ */
+export interface CrisisAssessment {
+  category: CrisisCategory;
+  language: Language; // The language whose pattern matched
+}
+
+// The letters of the Indian scripts are not "word" characters for `\b`, so patterns in those
+// scripts match anywhere in the message; Latin patterns use word boundaries.
+const CRISIS_PATTERNS: Record<Language, Record<CrisisCategory, RegExp[]>> = {
+  [Language.EN]: {
+    immediateDanger: [
+      /\b(i am|i'm|im) in danger\b/,
+      /\b(going to|gonna|will|wants? to|trying to) kill me\b/,
+      /\bthreaten(ed|s|ing)? to kill\b/,
+      /\b(he|she|they|someone|somebody)('ll|'d| would| could| might| tried to| is going to| is gonna) kill me\b/,
+      /\b(someone|a man|he|they) (is|are) following me\b/,
+      /\blocked me (in|up)\b/,
+      /\b(i am|i'm|im) not safe\b/,
+    ],
+    selfHarm: [
+      /\bsuicid(e|al)\b/,
+      /\b(kill|hurt|harm|cut) (myself|me)\b/,
+      /\b(end|take) my (own )?life\b/,
+      /\b(want|wish) to die\b/,
+      /\b(wanna|gonna|going to) die\b(?! (of|from|laughing))/,
+      /\b(don't|dont|do not) (want to|wanna) (live|be alive|exist)\b/,
+      /\b(don't|dont|do not) (want to|wanna) be here any ?more\b/,
+      /\bend it all\b/,
+      /\bno (reason|point) (in )?(to live|living|going on)\b/,
+      /\bbetter off dead\b/,
+    ],
+    abuse: [
+      /\b(beats?|beating|hits?|hitting|slaps?|slapped|kicks?|kicked|burn(s|ed|t)?|chokes?|choked) me\b/,
+      /\b(i am|i'm|im|i was|i got|i am being|i was being) (abused|molested|raped|harassed|assaulted|beaten)\b/,
+      /\b(abus|molest|rap|harass|assault)\w* (me|my daughter|my sister)\b/,
+      /\bdomestic violence\b/,
+      /\bforc\w* me to (marry|get married)\b/,
+    ],
+  },
+  [Language.HI]: {
+    immediateDanger: [
+      /ख़?तरे\s*में\s*हूँ/,
+      /जान\s*से\s*मार/,
+      // "Save" alone is also said of money ("पैसे बचा लो"), so only a call for help counts.
+      /(मुझे|हमें|कोई)\s*(बचाओ|बचा\s*लो)/,
+      /(बचाओ|बचा\s*लो)\s*(मुझे|हमें)/,
+      /बचाओ\s*बचाओ/,
+      /पीछा\s*कर\s*रहा/,
+      /\b(khatre|khatra) (mein|me) hu\b/,
+      /\bjaan se maar/,
+      /\b(mujhe|hume|humein|koi) (bachao|bacha lo)\b/,
+      /\b(bachao|bacha lo) (mujhe|hume|humein)\b/,
+      /\bbachao bachao\b/,
+    ],
+    selfHarm: [
+      /आत्महत्या/,
+      /खुदकुशी/,
+      /(मरना|मर\s*जाना)\s*चाहती/,
+      /जीना\s*नहीं\s*चाहती/,
+      /खुद\s*को\s*(नुकसान|चोट)/,
+      /\b(aatmahatya|atmahatya|khudkushi)\b/,
+      /\b(marna|mar jana) chahti\b/,
+      /\bjeena nahi chahti\b/,
+    ],
+    abuse: [
+      /(मारता|मारते|पीटता|पीटते)\s*(है|हैं)/,
+      /(मारपीट|घरेलू\s*हिंसा|छेड़छाड़|बलात्कार|यौन\s*शोषण)/,
+      /ज़?बरदस्ती\s*(शादी|छूता|छूते)/,
+      /\b(maarta|marta|peetta|pitta|peet(a|ta)) hai\b/,
+      /\b(gharelu hinsa|maarpeet|marpeet|chhedchhad|balatkar)\b/,
+      /\bzabardasti (shaadi|shadi)\b/,
+    ],
+  },
+  [Language.TA]: {
+    immediateDanger: [
+      /ஆபத்தில்\s*இருக்கிறேன்/,
+      /கொல்ல\s*போகிறா/,
+      /கொன்றுவிடுவே/,
+      /காப்பாற்றுங்கள்/,
+      /பின்தொடர்கிறா/,
+      /\b(aabathil|abathula) irukken\b/,
+      /\bkaapathunga\b/,
+    ],
+    selfHarm: [
+      /தற்கொலை/,
+      /சாக\s*வேண்டும்/,
+      /சாகணும்/,
+      /வாழ\s*விருப்பமில்லை/,
+      /என்னை\s*நானே\s*காயப்படுத்த/,
+      /\b(tharkolai|thatkolai)\b/,
+      /\bsaaganum\b/,
+    ],
+    abuse: [
+      /அடிக்கிறா(ர்|ன்|ங்க)/,
+      /(குடும்ப\s*வன்முறை|பாலியல்\s*தொல்லை|கற்பழி|துன்புறுத்துகிறா)/,
+      /கட்டாய\s*திருமண/,
+      /\b(adikkiraar|adikkiran|adikkiraanga)\b/,
+    ],
+  },
+  [Language.TE]: {
+    immediateDanger: [
+      /ప్రమాదంలో\s*ఉన్నాను/,
+      /చంపేస్తా/,
+      /చంపుతాన(ని|ు)/,
+      /కాపాడండి/,
+      /(వెంబడిస్తున్నా|వెంటాడుతున్నా)/,
+      /\bpramadam(lo)? unnanu\b/,
+      /\bchampestha/,
+      /\bkapadandi\b/,
+    ],
+    selfHarm: [
+      /ఆత్మహత్య/,
+      /చనిపోవాలని/,
+      /బ్రతకాలని\s*లేదు/,
+      /నన్ను\s*నేనే\s*(గాయపరచుకో|హాని)/,
+      /\b(aathmahatya|atmahatya)\b/,
+      /\bchanipovalani\b/,
+      /\bbrathakalani ledu\b/,
+    ],
+    abuse: [
+      /కొడుతున్నా(డు|రు)/,
+      /(గృహ\s*హింస|లైంగిక\s*వేధింపు|అత్యాచారం|వేధిస్తున్నా)/,
+      /బలవంతపు\s*పెళ్లి/,
+      /\b(kodutunnadu|koduthunnadu|kodutunnaru)\b/,
+      /\bgruha himsa\b/,
+    ],
+  },
+  [Language.KN]: {
+    immediateDanger: [
+      /ಅಪಾಯದಲ್ಲಿ\s*ಇದ್ದೇನೆ/,
+      /ಅಪಾಯದಲ್ಲಿದ್ದೇನೆ/,
+      /(ಕೊಲ್ಲುತ್ತೇನೆ|ಕೊಲ್ಲುವುದಾಗಿ)/,
+      /ಕಾಪಾಡಿ/,
+      /ಹಿಂಬಾಲಿಸುತ್ತಿದ್ದಾ/,
+      /\bapayadalli iddene\b/,
+      /\bkapadi\b/,
+    ],
+    selfHarm: [
+      /ಆತ್ಮಹತ್ಯೆ/,
+      /ಸಾಯಬೇಕು/,
+      /ಬದುಕಲು\s*ಇಷ್ಟವಿಲ್ಲ/,
+      /ನನಗೆ\s*ನಾನೇ\s*(ಹಾನಿ|ನೋವು)/,
+      /\b(aathmahatye|atmahatye)\b/,
+      /\bsaayabeku\b/,
+    ],
+    abuse: [
+      /ಹೊಡೆಯುತ್ತಾ(ನೆ|ರೆ)/,
+      /(ಕೌಟುಂಬಿಕ\s*ಹಿಂಸೆ|ಲೈಂಗಿಕ\s*ಕಿರುಕುಳ|ಅತ್ಯಾಚಾರ|ಕಿರುಕುಳ\s*ಕೊಡು)/,
+      /ಬಲವಂತದ\s*ಮದುವೆ/,
+      /\b(hodeyuttane|hodeyuttare)\b/,
+    ],
+  },
+  [Language.ML]: {
+    immediateDanger: [
+      /അപകടത്തിലാണ്/,
+      /കൊല്ലുമെന്ന്/,
+      /(രക്ഷിക്കണേ|രക്ഷിക്കൂ)/,
+      /പിന്തുടരുന്നു/,
+      /\bapakadathilanu\b/,
+      /\brakshikkane\b/,
+    ],
+    selfHarm: [
+      /ആത്മഹത്യ/,
+      /മരിക്കണം/,
+      /ജീവിക്കാൻ\s*ആഗ്രഹമില്ല/,
+      /എന്നെ\s*തന്നെ\s*(ഉപദ്രവി|മുറിവേൽപ്പി)/,
+      /\b(athmahathya|aathmahatya)\b/,
+      /\bmarikkanam\b/,
+    ],
+    abuse: [
+      /എന്നെ\s*(അടിക്കുന്നു|തല്ലുന്നു)/,
+      /(ഗാർഹിക\s*പീഡനം|ലൈംഗിക\s*പീഡനം|ബലാത്സംഗ|ഉപദ്രവിക്കുന്നു)/,
+      /നിർബന്ധിത\s*വിവാഹ/,
+      /\benne (adikkunnu|thallunnu)\b/,
+    ],
+  },
+  [Language.BN]: {
+    immediateDanger: [
+      /বিপদে\s*আছি/,
+      /মেরে\s*ফেল(বে|ার)/,
+      /বাঁচাও/,
+      /পিছু\s*নিয়েছে/,
+      /\bbipode achi\b/,
+      /\bmere fel(be|ar)\b/,
+    ],
+    selfHarm: [
+      /আত্মহত্যা/,
+      /(মরে\s*যেতে|মরতে)\s*চাই/,
+      /বাঁচতে\s*চাই\s*না/,
+      /নিজের\s*ক্ষতি/,
+      /\b(attohotta|atmohotya)\b/,
+      /\b(more jete|morte) chai\b/,
+    ],
+    abuse: [
+      /(আমাকে|আমায়)\s*(মারে|মারধর|পেটায়)/,
+      /(পারিবারিক\s*হিংসা|গার্হস্থ্য\s*হিংসা|যৌন\s*হয়রানি|ধর্ষণ|নির্যাতন)/,
+      /জোর\s*করে\s*বিয়ে/,
+      /\bamake (mare|petay)\b/,
+      /\bmardhor\b/,
+    ],
+  },
+  [Language.MR]: {
+    immediateDanger: [
+      /धोक्यात\s*आहे/,
+      /जीवे\s*मार/,
+      // "Save" alone is also said of money ("पैसे वाचवा"), so only a call for help counts.
+      /(मला|आम्हाला|कोणीतरी)\s*वाचवा/,
+      /वाचवा\s*(मला|आम्हाला)/,
+      /वाचवा\s*वाचवा/,
+      /पाठलाग\s*करत/,
+      /\bdhokyat aahe\b/,
+      /\bjeeve maar/,
+      /\b(mala|amhala|konitari) vachva\b/,
+      /\bvachva (mala|amhala)\b/,
+      /\bvachva vachva\b/,
+    ],
+    selfHarm: [
+      /मरायचं\s*आहे/,
+      /मरावंसं\s*वाटतं/,
+      /जगायचं\s*नाही/,
+      /स्वतःला\s*(इजा|त्रास)/,
+      /\b(marayacha|marayche) aahe\b/,
+      /\bjagaycha nahi\b/,
+    ],
+    abuse: [
+      /(मारतो|मारहाण|मारझोड)/,
+      /(कौटुंबिक\s*हिंसा|लैंगिक\s*छळ|छळ\s*करतो)/,
+      /जबरदस्तीने\s*लग्न/,
+      /\b(marto|maarto) (mala|aahe)\b/,
+      /\bmarhan\b/,
+    ],
+  },
+};
+
+// When a message matches several categories, the most urgent one is reported.
+const CATEGORIES_BY_URGENCY: CrisisCategory[] = ['immediateDanger', 'selfHarm', 'abuse'];
+
+// The national helplines offered for each category, most relevant first.
+const HELPLINE_IDS_BY_CATEGORY: Record<CrisisCategory, string[]> = {
+  immediateDanger: ['policeHelpline', 'womenHelpline', 'childHelpline'],
+  selfHarm: ['womenHelpline', 'policeHelpline', 'childHelpline'],
+  abuse: ['womenHelpline', 'policeHelpline', 'childHelpline'],
+};
+
+/**
+ * Normalises a message for matching: one Unicode form (so letters with a nukta, like "ख़",
+ * match however they were typed), lower case, plain apostrophes and single spaces.
+ * @param {string} text - The message.
+ * @returns {string} The normalised message.
+ */
+const normalise = (text: string): string =>
+  text.normalize('NFC').toLowerCase().replace(/[‘’`]/g, "'").replace(/\s+/g, ' ').trim();
+
+/**
+ * Checks a chat message for signs of self-harm, abuse or immediate danger.
+ * @param {string} text - The user's message.
+ * @returns {CrisisAssessment | null} The most urgent category found, or null if none.
+ */
+export const detectCrisis = (text: string): CrisisAssessment | null => {
+  const message = normalise(text);
+  if (!message) return null;
+  for (const category of CATEGORIES_BY_URGENCY) {
+    for (const language of Object.values(Language)) {
+      if (CRISIS_PATTERNS[language][category].some(pattern => pattern.test(message))) {
+        return { category, language };
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Returns the helplines to offer for a crisis category, most relevant first.
+ * @param {CrisisCategory} category - The category of the crisis.
+ * @returns {EmergencyContact[]} The helplines.
+ */
+export const getCrisisHelplines = (category: CrisisCategory): EmergencyContact[] =>
+  HELPLINE_IDS_BY_CATEGORY[category]
+    .map(id => NATIONAL_HELPLINES.find(helpline => helpline.id === id))
+    .filter((helpline): helpline is EmergencyContact => helpline !== undefined);
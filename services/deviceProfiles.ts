@@ -0,0 +1,126 @@
+/**
+ * @file deviceProfiles.ts
+ * @description Reads and writes the profiles of this device in the encrypted storage. A phone is
+ * often shared by a whole household, so several accounts can stay signed in on it at once, each
+ * as its own profile; one of them is open at a time. Each profile can have a PIN, which is
+ * checked on this device (so it also works offline) and locks after too many wrong tries.
+ * The data of each profile is stored under keys that include its user id, which keeps the
+ * profiles apart.
+ */
+
+import { createSalt, hashPin } from './encryption';
+import { secureStorage } from './secureStorage';
+import { AuthSession, DeviceProfile, Language } from '../types';
+
+const PROFILES_STORAGE_KEY = 'femmoraProfiles';
+const ACTIVE_PROFILE_STORAGE_KEY = 'femmoraActiveProfile';
+const LEGACY_SESSION_STORAGE_KEY = 'femmoraSession'; // The single session kept before profiles existed
+
+// The number of wrong PINs after which a profile can only be opened by logging in again.
+export const MAX_PROFILE_PIN_ATTEMPTS = 5;
+
+/**
+ * The error thrown when a profile cannot be opened with the PIN given.
+ */
+export class ProfilePinError extends Error {
+  constructor(public readonly code: 'WRONG_PIN' | 'PIN_LOCKED', message: string) {
+    super(message);
+    this.name = 'ProfilePinError';
+  }
+}
+
+/**
+ * Loads the profiles of this device, most recently used first. A session kept by an older
+ * version of the app becomes the first profile.
+ * @param {Language} language - The language a profile made from an old session gets.
+ * @returns {DeviceProfile[]} The profiles, or an empty list if there are none or the data is corrupt.
+ */
+export const loadDeviceProfiles = (language: Language): DeviceProfile[] => {
+  const storedProfiles = secureStorage.getItem(PROFILES_STORAGE_KEY);
+  if (storedProfiles) {
+    try {
+      const parsedProfiles = JSON.parse(storedProfiles);
+      return Array.isArray(parsedProfiles) ? parsedProfiles : [];
+    } catch (error) {
+      console.error("Failed to parse device profiles", error);
+      return [];
+    }
+  }
+  const legacySession = secureStorage.getItem(LEGACY_SESSION_STORAGE_KEY);
+  if (!legacySession) return [];
+  secureStorage.removeItem(LEGACY_SESSION_STORAGE_KEY);
+  try {
+    const session: AuthSession = JSON.parse(legacySession);
+    const profiles = [createDeviceProfile(session, language)];
+    storeDeviceProfiles(profiles);
+    secureStorage.setItem(ACTIVE_PROFILE_STORAGE_KEY, session.user.id);
+    return profiles;
+  } catch (error) {
+    console.error("Failed to parse stored session", error);
+    return [];
+  }
+};
+
+/**
+ * Replaces the profiles of this device.
+ * @param {DeviceProfile[]} profiles - The complete list to store.
+ */
+export const storeDeviceProfiles = (profiles: DeviceProfile[]) => {
+  secureStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+};
+
+/**
+ * Loads the id of the user whose profile was open when the app was last used.
+ * @returns {string | null} The user id, or null if the profile picker should be shown.
+ */
+export const loadActiveProfileId = (): string | null => secureStorage.getItem(ACTIVE_PROFILE_STORAGE_KEY);
+
+/**
+ * Remembers which profile is open, so it stays open when the app is reloaded.
+ * @param {string | null} userId - The user id of the open profile, or null if none is.
+ */
+export const storeActiveProfileId = (userId: string | null) => {
+  if (userId) {
+    secureStorage.setItem(ACTIVE_PROFILE_STORAGE_KEY, userId);
+  } else {
+    secureStorage.removeItem(ACTIVE_PROFILE_STORAGE_KEY);
+  }
+};
+
+/**
+ * Creates the profile of a newly signed-in account.
+ * @param {AuthSession} session - The account's session.
+ * @param {Language} language - The language the profile starts in.
+ * @returns {DeviceProfile} The profile, without a PIN.
+ */
+export const createDeviceProfile = (session: AuthSession, language: Language): DeviceProfile => ({
+  session,
+  language,
+  failedPinAttempts: 0,
+  lastUsedAt: new Date().toISOString(),
+});
+
+/**
+ * Hashes a new profile PIN for storing.
+ * @param {string} pin - The PIN.
+ * @returns {Promise<DeviceProfile['pin']>} The salt and hash to store in the profile.
+ */
+export const createProfilePin = async (pin: string): Promise<DeviceProfile['pin']> => {
+  const salt = createSalt();
+  return { salt, hash: await hashPin(pin, salt) };
+};
+
+/**
+ * Checks a PIN entered to open a profile.
+ * @param {DeviceProfile} profile - The profile; it must have a PIN.
+ * @param {string} pin - The PIN entered.
+ * @returns {Promise<boolean>} True if the PIN is right.
+ * @throws {ProfilePinError} With code PIN_LOCKED if too many wrong PINs have been entered.
+ */
+export const isProfilePinCorrect = async (profile: DeviceProfile, pin: string): Promise<boolean> => {
+  if (profile.failedPinAttempts >= MAX_PROFILE_PIN_ATTEMPTS) {
+    throw new ProfilePinError('PIN_LOCKED', 'Too many wrong PINs');
+  }
+  if (!profile.pin) return true;
+  return (await hashPin(pin, profile.pin.salt)) === profile.pin.hash;
+};
@@ -0,0 +1,63 @@
+/**
+ * @file emergencyContacts.ts
+ * @description Reads and writes the user's emergency settings (trusted contacts and state)
+ * in the encrypted storage, and helps with phone numbers: validating what the user types and
+ * turning a number into a `tel:` link that opens the phone's dialler.
+ */
+
+import { secureStorage } from './secureStorage';
+import { EmergencySettings } from '../types';
+
+const storageKey = (userId: string) => `femmoraEmergency_${userId}`;
+
+export const EMPTY_EMERGENCY_SETTINGS: EmergencySettings = { trustedContacts: [] };
+
+/**
+ * Loads the emergency settings of a user.
+ * @param {string} userId - The id of the user.
+ * @returns {EmergencySettings} The settings, or empty settings if there are none or the data is corrupt.
+ */
+export const loadEmergencySettings = (userId: string): EmergencySettings => {
+  const storedSettings = secureStorage.getItem(storageKey(userId));
+  if (!storedSettings) return EMPTY_EMERGENCY_SETTINGS;
+  try {
+    const parsedSettings = JSON.parse(storedSettings);
+    return Array.isArray(parsedSettings?.trustedContacts) ? parsedSettings : EMPTY_EMERGENCY_SETTINGS;
+  } catch (error) {
+    console.error("Failed to parse emergency settings", error);
+    return EMPTY_EMERGENCY_SETTINGS;
+  }
+};
+
+/**
+ * Replaces the emergency settings of a user.
+ * @param {string} userId - The id of the user.
+ * @param {EmergencySettings} settings - The settings to store.
+ */
+export const storeEmergencySettings = (userId: string, settings: EmergencySettings) => {
+  secureStorage.setItem(storageKey(userId), JSON.stringify(settings));
+};
+
+/**
+ * Removes spaces, dashes, dots and brackets from a phone number, keeping a leading "+".
+ * @param {string} phoneNumber - The number as typed.
+ * @returns {string} The number with only digits (and a leading "+").
+ */
+export const normalisePhoneNumber = (phoneNumber: string): string =>
+  phoneNumber.trim().replace(/[\s\-().]/g, '');
+
+/**
+ * Checks that a phone number can be dialled: 3 to 15 digits, optionally starting with "+".
+ * Short numbers are allowed, as helplines like 100 or 1091 are also valid contacts.
+ * @param {string} phoneNumber - The number as typed.
+ * @returns {boolean} True if the number is valid.
+ */
+export const isValidPhoneNumber = (phoneNumber: string): boolean =>
+  /^\+?\d{3,15}$/.test(normalisePhoneNumber(phoneNumber));
+
+/**
+ * Builds the `tel:` link for a phone number.
+ * @param {string} phoneNumber - The number.
+ * @returns {string} The link.
+ */
+export const getTelLink = (phoneNumber: string): string => `tel:${normalisePhoneNumber(phoneNumber)}`;
@@ -0,0 +1,44 @@
+/**
+ * @file encryption.test.ts
+ * @description Checks that values survive `encryptJson` and `decryptJson`, and that the wrong
+ * PIN or changed data is refused.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createSalt, DecryptionError, decryptJson, deriveKey, encryptJson } from './encryption';
+
+describe('encryption', () => {
+  const salt = createSalt();
+
+  it('decrypts what it encrypted', async () => {
+    const key = await deriveKey('123456', salt);
+    const value = { name: 'Priya', contacts: ['112', '1091'], language: 'hi' };
+    expect(await decryptJson(key, await encryptJson(key, value))).toEqual(value);
+  });
+
+  it('uses a new IV every time', async () => {
+    const key = await deriveKey('123456', salt);
+    const [first, second] = [await encryptJson(key, 'same'), await encryptJson(key, 'same')];
+    expect(first.iv).not.toBe(second.iv);
+    expect(first.data).not.toBe(second.data);
+  });
+
+  it('throws a DecryptionError with a key derived from the wrong PIN', async () => {
+    const encrypted = await encryptJson(await deriveKey('123456', salt), 'secret');
+    await expect(decryptJson(await deriveKey('654321', salt), encrypted)).rejects.toBeInstanceOf(DecryptionError);
+  });
+
+  it('throws a DecryptionError with the same PIN under another salt', async () => {
+    const encrypted = await encryptJson(await deriveKey('123456', salt), 'secret');
+    await expect(decryptJson(await deriveKey('123456', createSalt()), encrypted)).rejects.toBeInstanceOf(DecryptionError);
+  });
+
+  it('throws a DecryptionError when the data was changed', async () => {
+    const key = await deriveKey('123456', salt);
+    const encrypted = await encryptJson(key, 'secret');
+    const bytes = Uint8Array.from(atob(encrypted.data), char => char.charCodeAt(0));
+    bytes[0] ^= 1;
+    const changed = { ...encrypted, data: btoa(String.fromCharCode(...bytes)) };
+    await expect(decryptJson(key, changed)).rejects.toBeInstanceOf(DecryptionError);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * @file encryption.ts
+ * @description Encrypts data at rest with the browser's Web Crypto API. A key is derived from
+ * the user's PIN with PBKDF2 (SHA-256) and a random salt, and data is encrypted with AES-GCM
+ * under a fresh random IV every time. AES-GCM also authenticates the data, so decrypting with
+ * a key derived from the wrong PIN fails instead of returning garbage.
+ */
+
+// The number of PBKDF2 iterations, which makes guessing a short PIN slow.
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+/**
+ * Data encrypted with AES-GCM. Both fields are base64.
+ */
+export interface EncryptedData {
+  iv: string;
+  data: string;
+}
+
+/**
+ * The error thrown when data cannot be decrypted, which almost always means the PIN was wrong.
+ */
+export class DecryptionError extends Error {
+  constructor(message = 'The data could not be decrypted') {
+    super(message);
+    this.name = 'DecryptionError';
+  }
+}
+
+/**
+ * Converts bytes to base64, in chunks so that large data (like photos) does not overflow the call stack.
+ * @param {Uint8Array} bytes - The bytes.
+ * @returns {string} The base64 text.
+ */
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Converts base64 back to bytes.
+ * @param {string} base64 - The base64 text.
+ * @returns {Uint8Array} The bytes.
+ */
+const fromBase64 = (base64: string): Uint8Array => Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+
+/**
+ * Creates a random salt for a new key.
+ * @returns {string} The salt, in base64.
+ */
+export const createSalt = (): string => toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+
+/**
+ * Derives an AES-GCM key from a PIN or password. This is deliberately slow.
+ * @param {string} pin - The PIN.
+ * @param {string} salt - The salt the key belongs to, in base64.
+ * @returns {Promise<CryptoKey>} The key, which cannot be exported.
+ */
+export const deriveKey = async (pin: string, salt: string): Promise<CryptoKey> => {
+  const pinKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    pinKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+/**
+ * Encrypts a value as JSON.
+ * @param {CryptoKey} key - The key.
+ * @param {unknown} value - The value; it must survive JSON.stringify.
+ * @returns {Promise<EncryptedData>} The encrypted value.
+ */
+export const encryptJson = async (key: CryptoKey, value: unknown): Promise<EncryptedData> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(value)));
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(encrypted)) };
+};
+
+/**
+ * Decrypts a value encrypted with `encryptJson`.
+ * @param {CryptoKey} key - The key.
+ * @param {EncryptedData} encrypted - The encrypted value.
+ * @returns {Promise<T>} The value.
+ * @throws {DecryptionError} If the key is wrong or the data was changed.
+ */
+export const decryptJson = async <T>(key: CryptoKey, encrypted: EncryptedData): Promise<T> => {
+  try {
+    const decrypted = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(encrypted.iv) }, key, fromBase64(encrypted.data));
+    return JSON.parse(new TextDecoder().decode(decrypted));
+  } catch {
+    throw new DecryptionError();
+  }
+};
+
+/**
+ * Hashes a PIN so it can be checked later without being stored. This is as slow as `deriveKey`.
+ * @param {string} pin - The PIN.
+ * @param {string} salt - The salt of the hash, in base64.
+ * @returns {Promise<string>} The hash, in base64.
+ */
+export const hashPin = async (pin: string, salt: string): Promise<string> => {
+  const pinKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    pinKey,
+    256
+  );
+  return toBase64(new Uint8Array(bits));
+};
@@ -0,0 +1,103 @@
+/**
+ * @file geminiProvider.ts
+ * @description The Google Gemini implementation of the `AiProvider` interface.
+ * It owns the `GoogleGenAI` client and the model selection, and maps Gemini SDK errors
+ * onto `AiServiceError` codes.
+ */
+
+import { GoogleGenAI, ApiError } from '@google/genai';
+import { AiProvider, AiProviderChatOptions, AiProviderRequest } from './aiProvider';
+import { AiServiceError, toAiServiceError } from './aiErrors';
+
+// The Gemini model used for every feature. Change it here to switch models app-wide.
+export const GEMINI_MODEL = 'gemini-2.5-flash-preview-04-17';
+
+/**
+ * Converts an error raised by the Gemini SDK into an `AiServiceError`.
+ * @param {unknown} error - The raw error.
+ * @returns {AiServiceError} The normalised error.
+ */
+const toGeminiError = (error: unknown): AiServiceError => {
+  if (error instanceof ApiError) {
+    if (error.status === 429) return new AiServiceError('RATE_LIMITED', error.message, true, error);
+    if (error.status >= 500) return new AiServiceError('SERVER', error.message, true, error);
+    return new AiServiceError('INVALID_REQUEST', error.message, false, error);
+  }
+  return toAiServiceError(error);
+};
+
+/**
+ * Creates the Gemini provider. The client is built once here and shared by every request.
+ * @param {string | undefined} apiKey - The Gemini API key.
+ * @returns {AiProvider} The Gemini provider.
+ */
+export const createGeminiProvider = (apiKey: string | undefined): AiProvider => {
+  if (!apiKey) {
+    console.error("API_KEY environment variable is not set. Gemini API calls will fail.");
+  }
+  const client = apiKey ? new GoogleGenAI({ apiKey }) : null;
+
+  const requireClient = (): GoogleGenAI => {
+    if (!client) {
+      throw new AiServiceError('MISSING_API_KEY', 'API Key is missing.');
+    }
+    return client;
+  };
+
+  const toGenerateParameters = ({ contents, systemInstruction, temperature, responseMimeType, responseSchema, abortSignal }: AiProviderRequest) => ({
+    model: GEMINI_MODEL,
+    contents,
+    config: { systemInstruction, temperature, responseMimeType, responseSchema, abortSignal },
+  });
+
+  const generate = async (request: AiProviderRequest) => {
+    try {
+      const response = await requireClient().models.generateContent(toGenerateParameters(request));
+      return response.text;
+    } catch (error) {
+      throw toGeminiError(error);
+    }
+  };
+
+  async function* generateStream(request: AiProviderRequest): AsyncGenerator<string> {
+    try {
+      const stream = await requireClient().models.generateContentStream(toGenerateParameters(request));
+      for await (const chunk of stream) {
+        if (chunk.text) yield chunk.text;
+      }
+    } catch (error) {
+      throw toGeminiError(error);
+    }
+  }
+
+  const createChat = ({ systemInstruction, history, temperature }: AiProviderChatOptions) => {
+    const chat = requireClient().chats.create({
+      model: GEMINI_MODEL,
+      history: history.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] })),
+      config: { systemInstruction, temperature },
+    });
+
+    return {
+      sendMessage: async (message: string, abortSignal?: AbortSignal) => {
+        try {
+          const response = await chat.sendMessage({ message, config: { abortSignal } });
+          return response.text;
+        } catch (error) {
+          throw toGeminiError(error);
+        }
+      },
+      sendMessageStream: async function* (message: string, abortSignal?: AbortSignal): AsyncGenerator<string> {
+        try {
+          const stream = await chat.sendMessageStream({ message, config: { abortSignal } });
+          for await (const chunk of stream) {
+            if (chunk.text) yield chunk.text;
+          }
+        } catch (error) {
+          throw toGeminiError(error);
+        }
+      },
+    };
+  };
+
+  return { name: 'gemini', isConfigured: !!client, generate, generateStream, createChat };
+};
@@ -0,0 +1,45 @@
+/**
+ * @file hardCodedText.ts
+ * @description Finds the UI text written straight into the JSX of a component instead of being
+ * read from the translation catalogs, so it is shown in English whatever the language. Used by
+ * the translation coverage report (scripts/translationCoverage.ts) and the development overlay
+ * (components/dev/TranslationOverlay.tsx). It reads the source as text, so it can miss text
+ * written in unusual ways, but it does not need a TypeScript parser.
+ */
+
+/**
+ * A piece of text written into the JSX of a component.
+ */
+export interface HardCodedText {
+  text: string; // With its whitespace collapsed, as the browser shows it
+  line: number;
+}
+
+// Text between the tags of an element, up to the next tag or expression. An arrow (`=>`) is
+// not the end of a tag.
+const JSX_TEXT = /(?<![=\-])>([^<>{}]+)(?=[<{])/g;
+// A plain string given to one of the props that are shown as text.
+const TEXT_PROP = /\s(?:placeholder|title|aria-label|alt|label|subtitle)="([^"]*)"/g;
+// What gives away code rather than text, for a `>` that is a comparison, closes a type
+// argument or is part of a regular expression.
+const CODE_PATTERN = /[;=`[\]\\]|&&|\|\||\?\?|\)\s*$|^\s*[),&|]/;
+// Comments, which are blanked out (keeping their line breaks) before the source is read.
+const COMMENT = /\/\*[\s\S]*?\*\/|(?<=^|\s)\/\/.*$/gm;
+
+/**
+ * Finds the hard-coded UI text of a source file.
+ * @param {string} source - The source of a `.tsx` file.
+ * @returns {HardCodedText[]} The text with letters in it, in the order of the file.
+ */
+export const findHardCodedText = (source: string): HardCodedText[] => {
+  const code = source.replace(COMMENT, comment => comment.replace(/[^\n]/g, ' '));
+  const found = [
+    ...[...code.matchAll(JSX_TEXT)].filter(match => !CODE_PATTERN.test(match[1])),
+    ...code.matchAll(TEXT_PROP),
+  ];
+  return found
+    .map(match => ({ text: match[1].replace(/\s+/g, ' ').trim(), index: match.index }))
+    .filter(({ text }) => /\p{L}/u.test(text))
+    .sort((a, b) => a.index - b.index)
+    .map(({ text, index }) => ({ text, line: code.slice(0, index).split('\n').length }));
+};
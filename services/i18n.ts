@@ -0,0 +1,150 @@
+/**
+ * @file i18n.ts
+ * @description Loads the translation catalogs and looks UI strings up in them. Every language
+ * has its own JSON catalog in locales/. English has every string and is bundled with the app;
+ * the other catalogs are loaded the first time their language is used. A string missing from a
+ * catalog is taken from the next language of its fallback chain (see LANGUAGE_FALLBACKS), which
+ * always ends in English.
+ * Strings can have `{name}` placeholders, filled in from the params, and plural forms, chosen
+ * with the language's plural rules from the `count` param.
+ */
+
+import en from '../locales/en.json';
+import { LANGUAGE_FALLBACKS, LANGUAGE_OPTIONS } from '../constants';
+import { Language, PluralForms, TranslationCatalog, TranslationKey, TranslationParams, TranslationStatus } from '../types';
+
+// Loads the catalog of each language. Vite puts every catalog but English in its own chunk.
+const CATALOG_LOADERS: Record<Language, () => Promise<TranslationCatalog>> = {
+  [Language.EN]: async () => en,
+  [Language.HI]: () => import('../locales/hi.json').then(module => module.default),
+  [Language.TA]: () => import('../locales/ta.json').then(module => module.default),
+  [Language.TE]: () => import('../locales/te.json').then(module => module.default),
+  [Language.KN]: () => import('../locales/kn.json').then(module => module.default),
+  [Language.ML]: () => import('../locales/ml.json').then(module => module.default),
+  [Language.BN]: () => import('../locales/bn.json').then(module => module.default),
+  [Language.MR]: () => import('../locales/mr.json').then(module => module.default),
+};
+
+// The catalogs loaded so far.
+const loadedCatalogs: Partial<Record<Language, TranslationCatalog>> = { [Language.EN]: en };
+
+/**
+ * Returns the languages a string is looked up in, in order.
+ * @param {Language} language - The language of the UI.
+ * @returns {Language[]} The language itself, its fallbacks, and English.
+ */
+export const getFallbackChain = (language: Language): Language[] =>
+  [...new Set([language, ...LANGUAGE_FALLBACKS[language], Language.EN])];
+
+/**
+ * Checks whether every catalog of a language's fallback chain has been loaded.
+ * @param {Language} language - The language.
+ * @returns {boolean} True if its strings can be looked up without falling back early.
+ */
+export const areCatalogsLoaded = (language: Language): boolean =>
+  getFallbackChain(language).every(chainLanguage => loadedCatalogs[chainLanguage] !== undefined);
+
+/**
+ * Loads the catalogs of a language's fallback chain that have not been loaded yet.
+ * A catalog that cannot be loaded (e.g. offline, before the app was cached) is skipped, so
+ * its strings fall back to the next language.
+ * @param {Language} language - The language.
+ * @returns {Promise<void>} Resolves when the catalogs are ready.
+ */
+export const loadCatalogs = async (language: Language): Promise<void> => {
+  await Promise.all(getFallbackChain(language)
+    .filter(chainLanguage => loadedCatalogs[chainLanguage] === undefined)
+    .map(async chainLanguage => {
+      try {
+        loadedCatalogs[chainLanguage] = await CATALOG_LOADERS[chainLanguage]();
+      } catch (error) {
+        console.error(`Failed to load the ${chainLanguage} translations`, error);
+      }
+    }));
+};
+
+/**
+ * Chooses the plural form for a count.
+ * @param {PluralForms} forms - The forms of the string.
+ * @param {Language} language - The language the forms are in.
+ * @param {number} count - The count.
+ * @returns {string} The form.
+ */
+const selectPluralForm = (forms: PluralForms, language: Language, count: number): string =>
+  forms[new Intl.PluralRules(language).select(count)] ?? forms.other;
+
+/**
+ * Fills in the `{name}` placeholders of a string. Placeholders without a value are left as they are.
+ * @param {string} text - The string.
+ * @param {TranslationParams} params - The values.
+ * @returns {string} The string with the values.
+ */
+export const interpolate = (text: string, params: TranslationParams): string =>
+  text.replace(/\{(\w+)\}/g, (placeholder, name: string) => (name in params ? String(params[name]) : placeholder));
+
+/**
+ * Finds the entry of a UI string, following a language's fallback chain through the loaded catalogs.
+ * @param {Language} language - The language.
+ * @param {TranslationKey} key - The key of the string.
+ * @returns {{ entry: string | PluralForms; language: Language } | undefined} The entry and the
+ * language it was found in, or undefined if no catalog has it.
+ */
+const findEntry = (language: Language, key: TranslationKey): { entry: string | PluralForms; language: Language } | undefined => {
+  for (const chainLanguage of getFallbackChain(language)) {
+    const entry = loadedCatalogs[chainLanguage]?.[key];
+    if (entry !== undefined) return { entry, language: chainLanguage };
+  }
+  return undefined;
+};
+
+/**
+ * Looks a UI string up in a language, following the fallback chain through the loaded catalogs.
+ * @param {Language} language - The language.
+ * @param {TranslationKey} key - The key of the string.
+ * @param {TranslationParams} [params] - The values of its placeholders, and `count` for plurals.
+ * @returns {string} The string, or the key itself if no catalog has it.
+ */
+export const translateText = (language: Language, key: TranslationKey, params: TranslationParams = {}): string => {
+  const found = findEntry(language, key);
+  if (!found) return key;
+  const text = typeof found.entry === 'string' ? found.entry : selectPluralForm(found.entry, found.language, Number(params.count ?? 0));
+  return interpolate(text, params);
+};
+
+/**
+ * Tells how a UI string is shown in a language, for the development overlay that highlights
+ * untranslated text.
+ * @param {Language} language - The language.
+ * @param {TranslationKey} key - The key of the string.
+ * @returns {TranslationStatus} Whether it is translated, the same as in English, taken from a fallback, or missing.
+ */
+export const getTranslationStatus = (language: Language, key: TranslationKey): TranslationStatus => {
+  const found = findEntry(language, key);
+  if (!found) return 'missing';
+  if (found.language !== language) return 'fallback';
+  const isSameAsEnglish = language !== Language.EN && JSON.stringify(found.entry) === JSON.stringify(en[key]);
+  return isSameAsEnglish ? 'identical' : 'translated';
+};
+
+/**
+ * Returns every form a UI string can take in a language, with its placeholders unfilled.
+ * @param {Language} language - The language.
+ * @param {TranslationKey} key - The key of the string.
+ * @returns {string[]} The string, or its plural forms, or the key itself if no catalog has it.
+ */
+export const getTranslationForms = (language: Language, key: TranslationKey): string[] => {
+  const found = findEntry(language, key);
+  if (!found) return [key];
+  return typeof found.entry === 'string' ? [found.entry] : Object.values(found.entry);
+};
+
+/**
+ * Returns the label of a language in the language pickers: its own name, and its English name
+ * for anyone who cannot read that script.
+ * @param {Language} language - The language.
+ * @returns {string} The label, e.g. "తెలుగు (Telugu)".
+ */
+export const getLanguagePickerLabel = (language: Language): string => {
+  const option = LANGUAGE_OPTIONS.find(languageOption => languageOption.code === language)!;
+  return option.code === Language.EN ? option.nativeName : `${option.nativeName} (${option.englishName})`;
+};
@@ -0,0 +1,131 @@
+/**
+ * @file incidentJournal.ts
+ * @description Reads and writes the user's private incident journal. The whole journal,
+ * photos included, is encrypted with a key derived from the user's journal PIN before it is
+ * written to the encrypted storage, so it is protected by both the journal PIN and the device
+ * passphrase; only the salt of the journal key is stored next to it. Without the PIN
+ * the entries cannot be read, and a forgotten PIN cannot be recovered.
+ */
+
+import { createSalt, decryptJson, deriveKey, encryptJson, EncryptedData } from './encryption';
+import { persistItem, secureStorage } from './secureStorage';
+import { IncidentEntry, IncidentPhoto } from '../types';
+
+const storageKey = (userId: string) => `femmoraJournal_${userId}`;
+
+// Photos are scaled down to fit in this many pixels on their longest side, to save space.
+const MAX_PHOTO_SIZE = 1280;
+const PHOTO_JPEG_QUALITY = 0.75;
+
+/**
+ * The journal as stored: the salt of its key and the encrypted entries.
+ */
+interface StoredJournal extends EncryptedData {
+  salt: string;
+}
+
+/**
+ * An unlocked journal: the key its entries are encrypted with.
+ */
+export interface JournalKey {
+  key: CryptoKey;
+  salt: string;
+}
+
+/**
+ * Checks that a PIN has 4 to 6 digits.
+ * @param {string} pin - The PIN as typed.
+ * @returns {boolean} True if it can be used.
+ */
+export const isValidPin = (pin: string): boolean => /^\d{4,6}$/.test(pin);
+
+/**
+ * Tells whether a user has set up a journal on this device.
+ * @param {string} userId - The id of the user.
+ * @returns {boolean} True if there is a journal.
+ */
+export const hasJournal = (userId: string): boolean => secureStorage.getItem(storageKey(userId)) !== null;
+
+/**
+ * Encrypts and stores the entries of a journal.
+ * @param {string} userId - The id of the user.
+ * @param {JournalKey} journalKey - The key of the journal.
+ * @param {IncidentEntry[]} entries - The complete list of entries.
+ * @throws {DOMException} If the browser's storage is full (QuotaExceededError).
+ */
+export const storeJournalEntries = async (userId: string, journalKey: JournalKey, entries: IncidentEntry[]) => {
+  const encrypted = await encryptJson(journalKey.key, entries);
+  const storedJournal: StoredJournal = { ...encrypted, salt: journalKey.salt };
+  await persistItem(storageKey(userId), JSON.stringify(storedJournal));
+};
+
+/**
+ * Creates an empty journal protected by a new PIN.
+ * @param {string} userId - The id of the user.
+ * @param {string} pin - The journal PIN.
+ * @returns {Promise<JournalKey>} The key of the new journal.
+ */
+export const createJournal = async (userId: string, pin: string): Promise<JournalKey> => {
+  const salt = createSalt();
+  const journalKey = { key: await deriveKey(pin, salt), salt };
+  await storeJournalEntries(userId, journalKey, []);
+  return journalKey;
+};
+
+/**
+ * Unlocks a user's journal with their PIN.
+ * @param {string} userId - The id of the user.
+ * @param {string} pin - The journal PIN.
+ * @returns {Promise<{ journalKey: JournalKey; entries: IncidentEntry[] }>} The key and the decrypted entries.
+ * @throws {DecryptionError} If the PIN is wrong.
+ */
+export const unlockJournal = async (userId: string, pin: string): Promise<{ journalKey: JournalKey; entries: IncidentEntry[] }> => {
+  const storedJournal: StoredJournal = JSON.parse(secureStorage.getItem(storageKey(userId)) ?? 'null');
+  if (!storedJournal) throw new Error('There is no journal to unlock');
+  const journalKey = { key: await deriveKey(pin, storedJournal.salt), salt: storedJournal.salt };
+  const entries = await decryptJson<IncidentEntry[]>(journalKey.key, storedJournal);
+  return { journalKey, entries };
+};
+
+/**
+ * Deletes a user's journal and all its entries, for when the PIN has been forgotten.
+ * @param {string} userId - The id of the user.
+ */
+export const deleteJournal = (userId: string) => {
+  secureStorage.removeItem(storageKey(userId));
+};
+
+/**
+ * Sorts entries by when the incident happened, most recent first.
+ * @param {IncidentEntry[]} entries - The entries.
+ * @returns {IncidentEntry[]} A sorted copy.
+ */
+export const sortIncidentEntries = (entries: IncidentEntry[]): IncidentEntry[] =>
+  [...entries].sort((a, b) => `${b.date} ${b.time}`.localeCompare(`${a.date} ${a.time}`));
+
+/**
+ * Reads a photo chosen by the user, scaling it down and re-encoding it as a JPEG so the
+ * journal stays small enough for the browser's storage. Re-encoding also drops the photo's
+ * metadata (such as the GPS position in its EXIF data).
+ * @param {File} file - The image file.
+ * @returns {Promise<IncidentPhoto>} The photo to attach.
+ */
+export const readIncidentPhoto = (file: File): Promise<IncidentPhoto> =>
+  new Promise((resolve, reject) => {
+    const objectUrl = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      const scale = Math.min(1, MAX_PHOTO_SIZE / Math.max(image.width, image.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+      canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(objectUrl);
+      resolve({ id: `photo-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, name: file.name, dataUrl: canvas.toDataURL('image/jpeg', PHOTO_JPEG_QUALITY) });
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(objectUrl);
+      reject(new Error(`Could not read the photo ${file.name}`));
+    };
+    image.src = objectUrl;
+  });
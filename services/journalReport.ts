@@ -0,0 +1,106 @@
+/**
+ * @file journalReport.ts
+ * @description Builds the printable report of the incident journal: a self-contained HTML
+ * page, dated, with every entry and its photos, that can be printed or saved as a PDF from
+ * the browser's print dialog and handed to a Protection Officer, the police or a lawyer.
+ */
+
+import { IncidentEntry } from '../types';
+
+/**
+ * The translated text of the report.
+ */
+export interface JournalReportLabels {
+  title: string;
+  preparedBy: string;
+  generatedOn: string;
+  entry: string;
+  date: string;
+  time: string;
+  place: string;
+  description: string;
+  witnesses: string;
+  photos: string;
+  declaration: string; // The statement above the signature line
+  signature: string;
+}
+
+/**
+ * Escapes text for use in HTML.
+ * @param {string} text - The text.
+ * @returns {string} The escaped text.
+ */
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+/**
+ * Builds one row of an entry's details, or nothing if the value is empty.
+ * @param {string} label - The label.
+ * @param {string} value - The value.
+ * @returns {string} The HTML.
+ */
+const detailRow = (label: string, value: string): string =>
+  value.trim() ? `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>` : '';
+
+/**
+ * Builds the report page. It opens the print dialog by itself once its photos have loaded.
+ * @param {IncidentEntry[]} entries - The entries, in the order they should appear.
+ * @param {JournalReportLabels} labels - The translated text.
+ * @param {string} authorName - The name of the user.
+ * @param {string} locale - The locale used to format dates, e.g. "en-IN".
+ * @returns {string} The HTML document.
+ */
+export const buildJournalReportHtml = (entries: IncidentEntry[], labels: JournalReportLabels, authorName: string, locale: string): string => {
+  const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString(locale, { day: 'numeric', month: 'long', year: 'numeric' });
+  const generatedOn = new Date().toLocaleString(locale, { dateStyle: 'long', timeStyle: 'short' });
+
+  const entriesHtml = entries.map((entry, index) => `
+    <section class="entry">
+      <h2>${escapeHtml(labels.entry)} ${index + 1}</h2>
+      <table>
+        ${detailRow(labels.date, formatDate(entry.date))}
+        ${detailRow(labels.time, entry.time)}
+        ${detailRow(labels.place, entry.place)}
+        ${detailRow(labels.description, entry.description)}
+        ${detailRow(labels.witnesses, entry.witnesses)}
+      </table>
+      ${entry.photos.length > 0 ? `
+        <h3>${escapeHtml(labels.photos)}</h3>
+        <div class="photos">
+          ${entry.photos.map(photo => `<figure><img src="${photo.dataUrl}" alt="${escapeHtml(photo.name)}"><figcaption>${escapeHtml(photo.name)}</figcaption></figure>`).join('')}
+        </div>` : ''}
+    </section>`).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeHtml(labels.title)} - ${escapeHtml(generatedOn)}</title>
+  <style>
+    body { font-family: 'Segoe UI', Tahoma, sans-serif; color: #111; margin: 2rem; line-height: 1.5; }
+    h1 { margin-bottom: 0.25rem; }
+    .meta { color: #444; margin-top: 0; }
+    .entry { border-top: 2px solid #0d9488; padding-top: 0.5rem; margin-top: 1.5rem; page-break-inside: avoid; }
+    table { border-collapse: collapse; width: 100%; }
+    th { text-align: left; vertical-align: top; width: 9rem; padding: 0.25rem 0.5rem 0.25rem 0; }
+    td { padding: 0.25rem 0; white-space: pre-wrap; }
+    .photos { display: flex; flex-wrap: wrap; gap: 0.75rem; }
+    figure { margin: 0; max-width: 45%; }
+    img { max-width: 100%; max-height: 12cm; border: 1px solid #ccc; }
+    figcaption { font-size: 0.8rem; color: #555; }
+    .declaration { margin-top: 3rem; page-break-inside: avoid; }
+    .signature { margin-top: 3rem; border-top: 1px solid #111; width: 16rem; padding-top: 0.25rem; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(labels.title)}</h1>
+  <p class="meta">${escapeHtml(labels.preparedBy)}: ${escapeHtml(authorName)}<br>${escapeHtml(labels.generatedOn)}: ${escapeHtml(generatedOn)}</p>
+  ${entriesHtml}
+  <div class="declaration">
+    <p>${escapeHtml(labels.declaration)}</p>
+    <p class="signature">${escapeHtml(labels.signature)}</p>
+  </div>
+  <script>window.onload = function () { window.print(); };</script>
+</body>
+</html>`;
+};
@@ -0,0 +1,86 @@
+/**
+ * @file mockAiProvider.ts
+ * @description A deterministic, fully offline implementation of the `AiProvider` interface.
+ * It returns the canned responses from `data/mockAiResponses.ts` for each feature, with a
+ * short simulated delay, so the whole app can be run and tested without an API key or network.
+ */
+
+import { AiFeature, AiProvider, AiProviderChatOptions, AiProviderRequest } from './aiProvider';
+import { MOCK_CHAT_REPLIES, MOCK_GENERATE_RESPONSES } from '../data/mockAiResponses';
+
+// Simulated network latency before a response starts.
+const MOCK_LATENCY_MS = 300;
+// Simulated delay between two streamed chunks.
+const MOCK_STREAM_CHUNK_DELAY_MS = 30;
+// Number of words sent in each streamed chunk.
+const MOCK_STREAM_WORDS_PER_CHUNK = 4;
+
+/**
+ * Waits for the given time, rejecting early with an AbortError if the request is cancelled.
+ * @param {number} ms - How long to wait.
+ * @param {AbortSignal} [signal] - An optional signal that cancels the wait.
+ */
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('The request was aborted.', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('The request was aborted.', 'AbortError'));
+    });
+  });
+
+/**
+ * Streams a canned text in small groups of words, the way a real model would.
+ * @param {string} text - The full text to stream.
+ * @param {AbortSignal} [signal] - An optional signal that cancels the stream.
+ */
+async function* streamText(text: string, signal?: AbortSignal): AsyncGenerator<string> {
+  await wait(MOCK_LATENCY_MS, signal);
+  const words = text.match(/\S+\s*/g) || [];
+  for (let i = 0; i < words.length; i += MOCK_STREAM_WORDS_PER_CHUNK) {
+    yield words.slice(i, i + MOCK_STREAM_WORDS_PER_CHUNK).join('');
+    await wait(MOCK_STREAM_CHUNK_DELAY_MS, signal);
+  }
+}
+
+/**
+ * Returns the next canned chat reply for a feature, cycling through the list.
+ * @param {AiFeature} feature - The feature the chat belongs to.
+ * @param {number} turn - How many messages have already been sent in this session.
+ */
+const getChatReply = (feature: AiFeature, turn: number): string => {
+  const replies = MOCK_CHAT_REPLIES[feature];
+  return replies[turn % replies.length];
+};
+
+/**
+ * Creates the offline mock provider.
+ * @returns {AiProvider} The mock provider.
+ */
+export const createMockAiProvider = (): AiProvider => {
+  const generate = async ({ feature, abortSignal }: AiProviderRequest) => {
+    await wait(MOCK_LATENCY_MS, abortSignal);
+    return MOCK_GENERATE_RESPONSES[feature];
+  };
+
+  const generateStream = ({ feature, abortSignal }: AiProviderRequest) =>
+    streamText(MOCK_GENERATE_RESPONSES[feature], abortSignal);
+
+  const createChat = ({ feature }: AiProviderChatOptions) => {
+    let turn = 0;
+    return {
+      sendMessage: async (_message: string, abortSignal?: AbortSignal) => {
+        await wait(MOCK_LATENCY_MS, abortSignal);
+        return getChatReply(feature, turn++);
+      },
+      sendMessageStream: (_message: string, abortSignal?: AbortSignal) =>
+        streamText(getChatReply(feature, turn++), abortSignal),
+    };
+  };
+
+  return { name: 'mock', isConfigured: true, generate, generateStream, createChat };
+};
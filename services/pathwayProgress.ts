@@ -0,0 +1,132 @@
+/**
+ * @file pathwayProgress.ts
+ * @description Progress tracking and reminder timing for saved pathways. Progress counts the
+ * steps and resources of the educational roadmap that the user has ticked off. Reminders are
+ * daily: one is due when its time of day has passed since it was last shown (or set).
+ * Everything here is pure; the state lives in the SavedPathwaysContext.
+ */
+
+import { PathwayProgress, PathwayReminder, SavedPathway } from '../types';
+
+export const EMPTY_PROGRESS: PathwayProgress = { completedSteps: [], completedResources: [] };
+
+/**
+ * Returns the key a resource is stored under in `PathwayProgress.completedResources`.
+ * @param {number} stepIndex - The index of the step.
+ * @param {number} resourceIndex - The index of the resource within the step.
+ * @returns {string} The key.
+ */
+export const getResourceKey = (stepIndex: number, resourceIndex: number): string => `${stepIndex}-${resourceIndex}`;
+
+/**
+ * Marks a step as done, or as not done if it already was.
+ * @param {PathwayProgress} progress - The current progress.
+ * @param {number} stepIndex - The index of the step.
+ * @returns {PathwayProgress} The new progress.
+ */
+export const toggleStep = (progress: PathwayProgress, stepIndex: number): PathwayProgress => ({
+  ...progress,
+  completedSteps: progress.completedSteps.includes(stepIndex)
+    ? progress.completedSteps.filter(index => index !== stepIndex)
+    : [...progress.completedSteps, stepIndex],
+  updatedAt: new Date().toISOString(),
+});
+
+/**
+ * Marks a resource as done, or as not done if it already was.
+ * @param {PathwayProgress} progress - The current progress.
+ * @param {string} resourceKey - The key from `getResourceKey`.
+ * @returns {PathwayProgress} The new progress.
+ */
+export const toggleResource = (progress: PathwayProgress, resourceKey: string): PathwayProgress => ({
+  ...progress,
+  completedResources: progress.completedResources.includes(resourceKey)
+    ? progress.completedResources.filter(key => key !== resourceKey)
+    : [...progress.completedResources, resourceKey],
+  updatedAt: new Date().toISOString(),
+});
+
+/**
+ * Computes how much of a pathway's roadmap is done. Every step and every resource counts once.
+ * @param {SavedPathway} pathway - The saved pathway.
+ * @returns {number} The completion percentage, from 0 to 100.
+ */
+export const getCompletionPercent = (pathway: SavedPathway): number => {
+  const steps = pathway.guidance.educationalPathway?.steps ?? [];
+  const progress = pathway.progress ?? EMPTY_PROGRESS;
+  let total = 0;
+  let done = 0;
+  steps.forEach((step, stepIndex) => {
+    total++;
+    if (progress.completedSteps.includes(stepIndex)) done++;
+    step.resources.forEach((_, resourceIndex) => {
+      total++;
+      if (progress.completedResources.includes(getResourceKey(stepIndex, resourceIndex))) done++;
+    });
+  });
+  return total === 0 ? 0 : Math.round((done / total) * 100);
+};
+
+/**
+ * Returns the index of the first step that is not done yet.
+ * @param {SavedPathway} pathway - The saved pathway.
+ * @returns {number} The step index, or -1 if every step is done.
+ */
+export const getNextStepIndex = (pathway: SavedPathway): number => {
+  const steps = pathway.guidance.educationalPathway?.steps ?? [];
+  const completedSteps = pathway.progress?.completedSteps ?? [];
+  return steps.findIndex((_, stepIndex) => !completedSteps.includes(stepIndex));
+};
+
+/**
+ * Picks the pathway to suggest in "continue where you left off": the unfinished pathway
+ * that was worked on (or created) most recently.
+ * @param {SavedPathway[]} pathways - The saved pathways.
+ * @returns {SavedPathway | undefined} The pathway, or undefined if every pathway is finished.
+ */
+export const getPathwayToContinue = (pathways: SavedPathway[]): SavedPathway | undefined => {
+  const lastActivity = (pathway: SavedPathway) => pathway.progress?.updatedAt ?? pathway.createdAt;
+  return pathways
+    .filter(pathway => getCompletionPercent(pathway) < 100)
+    .sort((a, b) => lastActivity(b).localeCompare(lastActivity(a)))[0];
+};
+
+/**
+ * Returns the reminder's time of day on the day of `date`.
+ * @param {PathwayReminder} reminder - The reminder.
+ * @param {Date} date - Any moment of the day.
+ * @returns {Date} The moment the reminder rings on that day.
+ */
+const atReminderTime = (reminder: PathwayReminder, date: Date): Date => {
+  const [hours, minutes] = reminder.time.split(':').map(Number);
+  const result = new Date(date);
+  result.setHours(hours, minutes, 0, 0);
+  return result;
+};
+
+/**
+ * Returns the next moment the reminder rings, strictly after `now`.
+ * @param {PathwayReminder} reminder - The reminder.
+ * @param {Date} now - The current time.
+ * @returns {Date} The next reminder time.
+ */
+export const getNextReminderTime = (reminder: PathwayReminder, now: Date): Date => {
+  const today = atReminderTime(reminder, now);
+  if (today > now) return today;
+  const tomorrow = new Date(today);
+  tomorrow.setDate(tomorrow.getDate() + 1);
+  return tomorrow;
+};
+
+/**
+ * Checks whether a reminder should be shown now, i.e. whether it rang since it was last shown
+ * or set. A reminder that rang while the app was closed is due the next time the app opens.
+ * @param {PathwayReminder} reminder - The reminder.
+ * @param {Date} now - The current time.
+ * @returns {boolean} True if the reminder is due.
+ */
+export const isReminderDue = (reminder: PathwayReminder, now: Date): boolean => {
+  const lastRing = atReminderTime(reminder, now);
+  if (lastRing > now) lastRing.setDate(lastRing.getDate() - 1);
+  return lastRing > new Date(reminder.lastShownAt ?? reminder.setAt);
+};
@@ -0,0 +1,141 @@
+/**
+ * @file pathwaySchema.ts
+ * @description The structured output contract of the Smart Pathway. The AI is asked to
+ * answer with JSON matching `PATHWAY_RESPONSE_SCHEMA`; the answer is then checked at runtime,
+ * module by module, by `parsePathwayResponse` in `parsers/guidanceParser.ts`.
+ */
+
+import { Schema, Type } from '@google/genai';
+import { PATHWAY_MODULE_KEYS } from '../parsers/guidanceParser';
+
+// --- Response schema ---
+
+const stringList = (description: string): Schema => ({ type: Type.ARRAY, items: { type: Type.STRING }, description });
+
+const EDUCATIONAL_PATHWAY_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    steps: {
+      type: Type.ARRAY,
+      description: 'The step-by-step roadmap, usually 3 to 5 steps.',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          stepTitle: { type: Type.STRING, description: 'e.g. "Step 1: 📚 Finish Class 12"' },
+          dos: stringList('Simple, actionable advice.'),
+          donts: stringList('Things to avoid, explained gently.'),
+          resources: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                name: { type: Type.STRING },
+                type: { type: Type.STRING, description: 'Video, Book/PDF, Notes/Material or Website/Platform' },
+                url: { type: Type.STRING, description: 'A valid, publicly accessible URL.' },
+              },
+              required: ['name'],
+              propertyOrdering: ['name', 'type', 'url'],
+            },
+          },
+          tip: { type: Type.STRING },
+        },
+        required: ['stepTitle', 'dos', 'donts', 'resources', 'tip'],
+        propertyOrdering: ['stepTitle', 'dos', 'donts', 'resources', 'tip'],
+      },
+    },
+  },
+  required: ['steps'],
+};
+
+const LIFE_AWARENESS_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    ageGroupFocus: { type: Type.STRING },
+    topics: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          topicTitle: { type: Type.STRING },
+          guidancePoints: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                point: { type: Type.STRING },
+                visualCue: { type: Type.STRING },
+              },
+              required: ['point'],
+              propertyOrdering: ['point', 'visualCue'],
+            },
+          },
+          audioTip: { type: Type.STRING },
+        },
+        required: ['topicTitle', 'guidancePoints'],
+        propertyOrdering: ['topicTitle', 'guidancePoints', 'audioTip'],
+      },
+    },
+  },
+  required: ['ageGroupFocus', 'topics'],
+  propertyOrdering: ['ageGroupFocus', 'topics'],
+};
+
+const SCHEMES_AND_RIGHTS_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      emoji: { type: Type.STRING, description: '👩‍🎓, 💰 or ⚖' },
+      type: { type: Type.STRING, description: 'Scholarship, Scheme or Right' },
+      name: { type: Type.STRING },
+      details: { type: Type.STRING },
+      howToAccess: { type: Type.STRING },
+      source: { type: Type.STRING },
+      url: { type: Type.STRING, description: 'The official URL for applying or reading more.' },
+    },
+    required: ['type', 'name', 'details', 'howToAccess'],
+    propertyOrdering: ['emoji', 'type', 'name', 'details', 'howToAccess', 'source', 'url'],
+  },
+};
+
+const DIGITAL_LEARNING_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      app: { type: Type.STRING },
+      howToUse: { type: Type.STRING, description: 'Numbered steps, one per line.' },
+      exampleSearchOrTask: { type: Type.STRING },
+      visualCue: { type: Type.STRING },
+      audioTip: { type: Type.STRING },
+    },
+    required: ['app', 'howToUse', 'exampleSearchOrTask'],
+    propertyOrdering: ['app', 'howToUse', 'exampleSearchOrTask', 'visualCue', 'audioTip'],
+  },
+};
+
+const MOTIVATIONAL_SUPPORT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    personalizedEncouragement: { type: Type.STRING },
+    quote: { type: Type.STRING },
+    nextStep: { type: Type.STRING },
+    reminder: { type: Type.STRING },
+  },
+  required: ['quote', 'nextStep', 'reminder'],
+  propertyOrdering: ['personalizedEncouragement', 'quote', 'nextStep', 'reminder'],
+};
+
+// The JSON schema the AI must follow when generating a pathway.
+export const PATHWAY_RESPONSE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    educationalPathway: EDUCATIONAL_PATHWAY_SCHEMA,
+    lifeAwarenessModule: LIFE_AWARENESS_SCHEMA,
+    schemesAndRights: SCHEMES_AND_RIGHTS_SCHEMA,
+    digitalLearningTips: DIGITAL_LEARNING_SCHEMA,
+    motivationalSupport: MOTIVATIONAL_SUPPORT_SCHEMA,
+  },
+  required: PATHWAY_MODULE_KEYS,
+  propertyOrdering: PATHWAY_MODULE_KEYS,
+};
@@ -0,0 +1,44 @@
+/**
+ * @file pathwayStorage.ts
+ * @description Reads and writes the "My Pathways" library in the encrypted storage.
+ * Every user has their own list, stored under a key that includes the user's id.
+ */
+
+import { secureStorage } from './secureStorage';
+import { SavedPathway } from '../types';
+
+const storageKey = (userId: string) => `femmoraPathways_${userId}`;
+
+/**
+ * Loads the saved pathways of a user, newest first.
+ * @param {string} userId - The id of the user.
+ * @returns {SavedPathway[]} The saved pathways, or an empty list if there are none or the data is corrupt.
+ */
+export const loadSavedPathways = (userId: string): SavedPathway[] => {
+  const storedPathways = secureStorage.getItem(storageKey(userId));
+  if (!storedPathways) return [];
+  try {
+    const parsedPathways = JSON.parse(storedPathways);
+    return Array.isArray(parsedPathways) ? parsedPathways : [];
+  } catch (error) {
+    console.error("Failed to parse saved pathways", error);
+    return [];
+  }
+};
+
+/**
+ * Replaces the saved pathways of a user.
+ * @param {string} userId - The id of the user.
+ * @param {SavedPathway[]} pathways - The complete list to store.
+ */
+export const storeSavedPathways = (userId: string, pathways: SavedPathway[]) => {
+  secureStorage.setItem(storageKey(userId), JSON.stringify(pathways));
+};
+
+/**
+ * Deletes every saved pathway of a user from the storage.
+ * @param {string} userId - The id of the user.
+ */
+export const deleteStoredPathways = (userId: string) => {
+  secureStorage.removeItem(storageKey(userId));
+};
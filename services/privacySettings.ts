@@ -0,0 +1,56 @@
+/**
+ * @file privacySettings.ts
+ * @description Reads and writes the privacy settings of this device (disguise mode and
+ * whether AI chats are saved) and the quick-exit state. The settings are shared by every
+ * user of the device, as the disguise must already be in place before anyone logs in.
+ * The quick-exit state lives in sessionStorage, so it survives a reload of the tab but not
+ * closing it.
+ */
+
+import { PrivacySettings } from '../types';
+
+const SETTINGS_STORAGE_KEY = 'femmoraPrivacy';
+const QUICK_EXIT_STORAGE_KEY = 'femmoraQuickExit';
+
+export const DEFAULT_PRIVACY_SETTINGS: PrivacySettings = { disguiseMode: false, saveChatHistory: true };
+
+/**
+ * Loads the privacy settings of this device.
+ * @returns {PrivacySettings} The settings, or the defaults if there are none or the data is corrupt.
+ */
+export const loadPrivacySettings = (): PrivacySettings => {
+  const storedSettings = localStorage.getItem(SETTINGS_STORAGE_KEY);
+  if (!storedSettings) return DEFAULT_PRIVACY_SETTINGS;
+  try {
+    return { ...DEFAULT_PRIVACY_SETTINGS, ...JSON.parse(storedSettings) };
+  } catch (error) {
+    console.error("Failed to parse privacy settings", error);
+    return DEFAULT_PRIVACY_SETTINGS;
+  }
+};
+
+/**
+ * Replaces the privacy settings of this device.
+ * @param {PrivacySettings} settings - The settings to store.
+ */
+export const storePrivacySettings = (settings: PrivacySettings) => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Tells whether the quick exit is active in this tab.
+ * @returns {boolean} True if the neutral screen should be shown.
+ */
+export const isQuickExitActive = (): boolean => sessionStorage.getItem(QUICK_EXIT_STORAGE_KEY) === 'true';
+
+/**
+ * Turns the quick exit on or off for this tab.
+ * @param {boolean} isActive - Whether the neutral screen should be shown.
+ */
+export const setQuickExitActive = (isActive: boolean) => {
+  if (isActive) {
+    sessionStorage.setItem(QUICK_EXIT_STORAGE_KEY, 'true');
+  } else {
+    sessionStorage.removeItem(QUICK_EXIT_STORAGE_KEY);
+  }
+};
@@ -0,0 +1,43 @@
+/**
+ * @file safetyLog.ts
+ * @description Reads and writes the user's local safety log in the encrypted storage. The log records
+ * when a chat message looked like a crisis and when a helpline was called from the crisis
+ * banner, so the user (or someone helping them) can see it later. Only the kind of event is
+ * kept, never the message itself, and the log never leaves the device.
+ */
+
+import { secureStorage } from './secureStorage';
+import { SafetyLogEntry } from '../types';
+
+const storageKey = (userId: string) => `femmoraSafetyLog_${userId}`;
+
+// The oldest entries are dropped once the log reaches this size.
+const MAX_SAFETY_LOG_ENTRIES = 200;
+
+/**
+ * Loads the safety log of a user, newest first.
+ * @param {string} userId - The id of the user.
+ * @returns {SafetyLogEntry[]} The entries, or an empty list if there are none or the data is corrupt.
+ */
+export const loadSafetyLog = (userId: string): SafetyLogEntry[] => {
+  const storedLog = secureStorage.getItem(storageKey(userId));
+  if (!storedLog) return [];
+  try {
+    const parsedLog = JSON.parse(storedLog);
+    return Array.isArray(parsedLog) ? parsedLog : [];
+  } catch (error) {
+    console.error("Failed to parse the safety log", error);
+    return [];
+  }
+};
+
+/**
+ * Adds an entry to the safety log of a user.
+ * @param {string} userId - The id of the user.
+ * @param {Omit<SafetyLogEntry, 'id' | 'timestamp'>} event - What happened.
+ */
+export const recordSafetyEvent = (userId: string, event: Omit<SafetyLogEntry, 'id' | 'timestamp'>) => {
+  const entry: SafetyLogEntry = { ...event, id: `safety-${Date.now()}`, timestamp: new Date().toISOString() };
+  const log = [entry, ...loadSafetyLog(userId)].slice(0, MAX_SAFETY_LOG_ENTRIES);
+  secureStorage.setItem(storageKey(userId), JSON.stringify(log));
+};
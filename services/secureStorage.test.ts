@@ -0,0 +1,127 @@
+/**
+ * @file secureStorage.test.ts
+ * @description Checks the vault: setting it up, unlocking it with the right and the wrong
+ * passphrase, moving data saved in the clear into it, and undoing a write that fails.
+ * localStorage is replaced by an in-memory copy, as the tests run outside a browser.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DecryptionError } from './encryption';
+import { isVaultUnlocked, lockVault, persistItem, resetVault, secureStorage, setUpVault, unlockVault } from './secureStorage';
+
+/**
+ * An in-memory localStorage with the methods the vault uses.
+ */
+class MemoryStorage {
+  private values = new Map<string, string>();
+
+  get length() {
+    return this.values.size;
+  }
+
+  key(index: number) {
+    return [...this.values.keys()][index] ?? null;
+  }
+
+  getItem(key: string) {
+    return this.values.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string) {
+    this.values.set(key, String(value));
+  }
+
+  removeItem(key: string) {
+    this.values.delete(key);
+  }
+}
+
+const PASSPHRASE = 'lotus-123';
+
+describe('secureStorage', () => {
+  let storage: MemoryStorage;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    vi.stubGlobal('localStorage', storage);
+    resetVault();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('keeps values encrypted and reads them back after unlocking again', async () => {
+    await setUpVault(PASSPHRASE);
+    await persistItem('femmoraUserProfile', '{"name":"Priya"}');
+    expect(storage.getItem('femmoraSecure:femmoraUserProfile')).not.toContain('Priya');
+
+    lockVault();
+    expect(isVaultUnlocked()).toBe(false);
+    expect(secureStorage.getItem('femmoraUserProfile')).toBeNull();
+
+    await unlockVault(PASSPHRASE);
+    expect(secureStorage.getItem('femmoraUserProfile')).toBe('{"name":"Priya"}');
+  });
+
+  it('throws a DecryptionError and stays locked with the wrong passphrase', async () => {
+    await setUpVault(PASSPHRASE);
+    lockVault();
+    await expect(unlockVault('not-the-passphrase')).rejects.toBeInstanceOf(DecryptionError);
+    expect(isVaultUnlocked()).toBe(false);
+  });
+
+  it('moves the data saved in the clear into the vault, and leaves the clear keys alone', async () => {
+    storage.setItem('femmoraEmergencyContacts', '[{"name":"Amma"}]');
+    storage.setItem('femmoraLanguage', 'ta');
+    storage.setItem('femmoraTranslationOverlay', 'on');
+    storage.setItem('otherApp', 'kept');
+
+    await setUpVault(PASSPHRASE);
+
+    expect(storage.getItem('femmoraEmergencyContacts')).toBeNull();
+    expect(storage.getItem('femmoraSecure:femmoraEmergencyContacts')).not.toBeNull();
+    expect(storage.getItem('femmoraLanguage')).toBe('ta');
+    expect(storage.getItem('femmoraTranslationOverlay')).toBe('on');
+    expect(storage.getItem('otherApp')).toBe('kept');
+
+    lockVault();
+    await unlockVault(PASSPHRASE);
+    expect(secureStorage.getItem('femmoraEmergencyContacts')).toBe('[{"name":"Amma"}]');
+  });
+
+  it('refuses to write while locked', async () => {
+    await expect(persistItem('femmoraUserProfile', '{}')).rejects.toThrow('locked');
+  });
+
+  it('puts back the saved value when a write fails', async () => {
+    await setUpVault(PASSPHRASE);
+    await persistItem('femmoraJournal', 'first');
+    vi.spyOn(storage, 'setItem').mockImplementation(() => {
+      throw new DOMException('The quota has been exceeded', 'QuotaExceededError');
+    });
+
+    const write = persistItem('femmoraJournal', 'second');
+    expect(secureStorage.getItem('femmoraJournal')).toBe('second');
+    await expect(write).rejects.toThrow('quota');
+    expect(secureStorage.getItem('femmoraJournal')).toBe('first');
+
+    await expect(persistItem('femmoraNewKey', 'value')).rejects.toThrow('quota');
+    expect(secureStorage.getItem('femmoraNewKey')).toBeNull();
+  });
+
+  it('keeps a later value when an earlier write fails', async () => {
+    await setUpVault(PASSPHRASE);
+    const setItem = storage.setItem.bind(storage);
+    vi.spyOn(storage, 'setItem').mockImplementationOnce(() => {
+      throw new DOMException('The quota has been exceeded', 'QuotaExceededError');
+    }).mockImplementation(setItem);
+
+    const failed = persistItem('femmoraJournal', 'first');
+    const saved = persistItem('femmoraJournal', 'second');
+    await expect(failed).rejects.toThrow('quota');
+    await saved;
+    expect(secureStorage.getItem('femmoraJournal')).toBe('second');
+  });
+});
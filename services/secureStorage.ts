@@ -0,0 +1,179 @@
+/**
+ * @file secureStorage.ts
+ * @description The one storage layer for the user's data on this device. Every value is
+ * encrypted with AES-GCM under a key derived from the device passphrase (PBKDF2) before it
+ * is written to localStorage, under the key `femmoraSecure:<key>`.
+ *
+ * When the vault is unlocked, all values are decrypted once into memory, so that reads stay
+ * synchronous (`secureStorage.getItem` works like `localStorage.getItem`). Writes update the
+ * memory copy at once and are encrypted and written to localStorage in the background, in
+ * the order they were made; a write that fails is undone in memory too. Locking the vault
+ * forgets the key and the decrypted values.
+ *
+ * Only what must be read before the vault is unlocked stays in the clear: the language,
+ * the privacy settings (disguise mode), the vault's own salt and check value, and the switch
+ * of the development translation overlay.
+ */
+
+import { createSalt, decryptJson, deriveKey, encryptJson, EncryptedData } from './encryption';
+
+const VAULT_STORAGE_KEY = 'femmoraVault';
+const SECURE_KEY_PREFIX = 'femmoraSecure:';
+
+// The keys that stay in the clear, because they are needed before the vault is unlocked.
+const CLEAR_STORAGE_KEYS = ['femmoraLanguage', 'femmoraPrivacy', 'femmoraTranslationOverlay', VAULT_STORAGE_KEY];
+
+// The value encrypted to check a passphrase: it only decrypts with the right one.
+const VAULT_CHECK_VALUE = 'femmora-vault';
+
+// The shortest passphrase accepted.
+export const MIN_PASSPHRASE_LENGTH = 6;
+
+/**
+ * The vault's metadata, stored in the clear.
+ */
+interface StoredVault {
+  salt: string;
+  check: EncryptedData;
+}
+
+let vaultKey: CryptoKey | null = null; // Set while the vault is unlocked
+let decryptedValues = new Map<string, string>();
+let pendingWrites: Promise<void> = Promise.resolve(); // Keeps background writes in order
+
+const loadStoredVault = (): StoredVault | null => {
+  try {
+    return JSON.parse(localStorage.getItem(VAULT_STORAGE_KEY) ?? 'null');
+  } catch (error) {
+    console.error("Failed to parse the vault", error);
+    return null;
+  }
+};
+
+/**
+ * Lists the keys of localStorage that start with a prefix.
+ * @param {string} prefix - The prefix.
+ * @returns {string[]} The keys.
+ */
+const listStorageKeys = (prefix: string): string[] =>
+  Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i)).filter((key): key is string => key !== null && key.startsWith(prefix));
+
+/**
+ * Tells whether a passphrase has been set up on this device.
+ * @returns {boolean} True if there is a vault.
+ */
+export const isVaultSetUp = (): boolean => loadStoredVault() !== null;
+
+/**
+ * Tells whether the vault is unlocked in this tab.
+ * @returns {boolean} True if the data can be read and written.
+ */
+export const isVaultUnlocked = (): boolean => vaultKey !== null;
+
+/**
+ * Sets up the vault with a new passphrase and unlocks it. Data saved in the clear by older
+ * versions of the app is encrypted and its clear copy removed.
+ * @param {string} passphrase - The new passphrase.
+ */
+export const setUpVault = async (passphrase: string) => {
+  const salt = createSalt();
+  const key = await deriveKey(passphrase, salt);
+  const storedVault: StoredVault = { salt, check: await encryptJson(key, VAULT_CHECK_VALUE) };
+  localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(storedVault));
+  vaultKey = key;
+  decryptedValues = new Map();
+
+  const clearKeys = listStorageKeys('femmora').filter(storageKey => !CLEAR_STORAGE_KEYS.includes(storageKey) && !storageKey.startsWith(SECURE_KEY_PREFIX));
+  for (const clearKey of clearKeys) {
+    const value = localStorage.getItem(clearKey);
+    if (value !== null) await persistItem(clearKey, value);
+    localStorage.removeItem(clearKey);
+  }
+};
+
+/**
+ * Unlocks the vault and decrypts all data into memory.
+ * @param {string} passphrase - The passphrase.
+ * @throws {DecryptionError} If the passphrase is wrong.
+ */
+export const unlockVault = async (passphrase: string) => {
+  const storedVault = loadStoredVault();
+  if (!storedVault) throw new Error('The vault has not been set up');
+  const key = await deriveKey(passphrase, storedVault.salt);
+  await decryptJson<string>(key, storedVault.check); // Throws if the passphrase is wrong
+
+  const values = new Map<string, string>();
+  for (const storageKey of listStorageKeys(SECURE_KEY_PREFIX)) {
+    try {
+      const encrypted: EncryptedData = JSON.parse(localStorage.getItem(storageKey) ?? '');
+      values.set(storageKey.slice(SECURE_KEY_PREFIX.length), await decryptJson<string>(key, encrypted));
+    } catch (error) {
+      console.error(`Failed to decrypt ${storageKey}`, error);
+    }
+  }
+  vaultKey = key;
+  decryptedValues = values;
+};
+
+/**
+ * Locks the vault: the key and the decrypted data are forgotten. Writes already made are still saved.
+ */
+export const lockVault = () => {
+  vaultKey = null;
+  decryptedValues = new Map();
+};
+
+/**
+ * Deletes the vault and all the encrypted data, for when the passphrase has been forgotten.
+ */
+export const resetVault = () => {
+  lockVault();
+  listStorageKeys(SECURE_KEY_PREFIX).forEach(storageKey => localStorage.removeItem(storageKey));
+  localStorage.removeItem(VAULT_STORAGE_KEY);
+};
+
+/**
+ * Stores a value and waits until it has been encrypted and written.
+ * @param {string} key - The key.
+ * @param {string} value - The value.
+ * @returns {Promise<void>} Resolves once written.
+ * @throws {Error} If the vault is locked, or the browser's storage is full (QuotaExceededError).
+ */
+export const persistItem = (key: string, value: string): Promise<void> => {
+  const encryptionKey = vaultKey;
+  if (!encryptionKey) return Promise.reject(new Error('The secure storage is locked'));
+  const values = decryptedValues;
+  const previousValue = values.get(key);
+  values.set(key, value);
+  const write = pendingWrites
+    .then(async () => {
+      localStorage.setItem(SECURE_KEY_PREFIX + key, JSON.stringify(await encryptJson(encryptionKey, value)));
+    })
+    .catch(error => {
+      // The memory copy goes back to what is saved, unless a later write has replaced it.
+      if (values.get(key) === value) {
+        if (previousValue === undefined) values.delete(key);
+        else values.set(key, previousValue);
+      }
+      throw error;
+    });
+  pendingWrites = write.catch(() => undefined);
+  return write;
+};
+
+/**
+ * The encrypted storage, with the same methods as localStorage for the parts the app uses.
+ * `setItem` and `removeItem` return at once; failures to write are logged.
+ */
+export const secureStorage = {
+  getItem: (key: string): string | null => decryptedValues.get(key) ?? null,
+
+  setItem: (key: string, value: string) => {
+    persistItem(key, value).catch(error => console.error(`Failed to save ${key}`, error));
+  },
+
+  removeItem: (key: string) => {
+    decryptedValues.delete(key);
+    pendingWrites = pendingWrites.then(() => localStorage.removeItem(SECURE_KEY_PREFIX + key));
+  },
+};
@@ -0,0 +1,85 @@
+/**
+ * @file sosAlert.ts
+ * @description Builds the SOS alert sent to the user's trusted contacts: finds the device's
+ * current location, writes the alert message with a map link, and turns it into `sms:` and
+ * WhatsApp share links. Nothing is sent by the app itself; the links open the phone's own
+ * SMS and WhatsApp apps with the message ready to send.
+ */
+
+import { normalisePhoneNumber } from './emergencyContacts';
+import { GeoPoint } from '../types';
+
+// How long to wait for the device's location before sending the alert without it.
+export const SOS_LOCATION_TIMEOUT_MS = 10000;
+
+// The country code added to 10-digit Indian mobile numbers for WhatsApp, which needs it.
+const DEFAULT_COUNTRY_CODE = '91';
+
+/**
+ * Finds the device's current location.
+ * @param {number} timeoutMs - How long to wait for it.
+ * @returns {Promise<GeoPoint | null>} The location, or null if it is not available, not allowed or took too long.
+ */
+export const getCurrentLocation = (timeoutMs: number = SOS_LOCATION_TIMEOUT_MS): Promise<GeoPoint | null> =>
+  new Promise(resolve => {
+    if (!('geolocation' in navigator)) {
+      resolve(null);
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      position => resolve({ latitude: position.coords.latitude, longitude: position.coords.longitude, accuracy: position.coords.accuracy }),
+      error => {
+        console.warn("Could not get the location for the SOS alert", error);
+        resolve(null);
+      },
+      { enableHighAccuracy: true, timeout: timeoutMs, maximumAge: 60000 }
+    );
+  });
+
+/**
+ * Builds a map link for a location that opens in any browser or maps app.
+ * @param {GeoPoint} location - The location.
+ * @returns {string} The link.
+ */
+export const getMapLink = ({ latitude, longitude }: GeoPoint): string =>
+  `https://maps.google.com/?q=${latitude.toFixed(6)},${longitude.toFixed(6)}`;
+
+/**
+ * Writes the SOS message.
+ * @param {object} parts - The translated parts of the message.
+ * @param {string} parts.alert - The call for help.
+ * @param {string} parts.senderName - The name of the user.
+ * @param {string} parts.locationLabel - The label before the map link.
+ * @param {string} parts.noLocation - The text used when the location is not known.
+ * @param {GeoPoint | null} location - The user's location, if known.
+ * @returns {string} The message.
+ */
+export const buildSosMessage = (
+  parts: { alert: string; senderName: string; locationLabel: string; noLocation: string },
+  location: GeoPoint | null
+): string => [
+  `🆘 ${parts.alert}`,
+  `- ${parts.senderName}`,
+  location ? `${parts.locationLabel}: ${getMapLink(location)}` : parts.noLocation,
+].join('\n');
+
+/**
+ * Builds an `sms:` link that opens the SMS app with the message addressed to every number.
+ * @param {string[]} phoneNumbers - The numbers to send it to.
+ * @param {string} message - The message.
+ * @returns {string} The link.
+ */
+export const getSmsLink = (phoneNumbers: string[], message: string): string =>
+  `sms:${phoneNumbers.map(normalisePhoneNumber).join(',')}?body=${encodeURIComponent(message)}`;
+
+/**
+ * Builds a WhatsApp share link that opens a chat with one number and the message ready to send.
+ * @param {string} phoneNumber - The number, with or without a country code.
+ * @param {string} message - The message.
+ * @returns {string} The link.
+ */
+export const getWhatsAppLink = (phoneNumber: string, message: string): string => {
+  const digits = normalisePhoneNumber(phoneNumber).replace(/^\+/, '').replace(/^0+/, '');
+  const internationalNumber = digits.length === 10 ? `${DEFAULT_COUNTRY_CODE}${digits}` : digits;
+  return `https://wa.me/${internationalNumber}?text=${encodeURIComponent(message)}`;
+};
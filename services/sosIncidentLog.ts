@@ -0,0 +1,39 @@
+/**
+ * @file sosIncidentLog.ts
+ * @description Reads and writes the user's local incident log in the encrypted storage: one entry for
+ * every time the SOS alert was triggered, with the time and location it was sent with.
+ */
+
+import { secureStorage } from './secureStorage';
+import { SosIncident } from '../types';
+
+const storageKey = (userId: string) => `femmoraSosIncidents_${userId}`;
+
+/**
+ * Loads the incident log of a user, newest first.
+ * @param {string} userId - The id of the user.
+ * @returns {SosIncident[]} The incidents, or an empty list if there are none or the data is corrupt.
+ */
+export const loadSosIncidents = (userId: string): SosIncident[] => {
+  const storedIncidents = secureStorage.getItem(storageKey(userId));
+  if (!storedIncidents) return [];
+  try {
+    const parsedIncidents = JSON.parse(storedIncidents);
+    return Array.isArray(parsedIncidents) ? parsedIncidents : [];
+  } catch (error) {
+    console.error("Failed to parse the incident log", error);
+    return [];
+  }
+};
+
+/**
+ * Adds an incident to the log of a user.
+ * @param {string} userId - The id of the user.
+ * @param {Omit<SosIncident, 'id' | 'triggeredAt'>} incident - What was sent.
+ * @returns {SosIncident} The recorded incident.
+ */
+export const recordSosIncident = (userId: string, incident: Omit<SosIncident, 'id' | 'triggeredAt'>): SosIncident => {
+  const entry: SosIncident = { ...incident, id: `sos-${Date.now()}`, triggeredAt: new Date().toISOString() };
+  secureStorage.setItem(storageKey(userId), JSON.stringify([entry, ...loadSosIncidents(userId)]));
+  return entry;
+};
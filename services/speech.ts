@@ -0,0 +1,336 @@
+/**
+ * @file speech.ts
+ * @description Reads text aloud with the browser's Web Speech API, for users who find reading
+ * hard. The voice is chosen for the language of the text: a voice of the language itself, or
+ * of one of its fallbacks in the same script (e.g. a Hindi voice for Marathi). English text is
+ * never read with a voice of another language, nor the other way round, as that is gibberish;
+ * if a device has no suitable voice, the text is not read and the controls say so.
+ * Only one text is read at a time. The playback is kept here, outside React, since the
+ * browser has a single speech queue; `useReadAloud` follows it.
+ */
+
+import { LANGUAGE_FALLBACKS } from '../constants';
+import { isVaultUnlocked, secureStorage } from './secureStorage';
+import { Language } from '../types';
+
+/**
+ * The state of the read-aloud playback. `id` identifies the text being read (or the last one
+ * that could not be read), so each control knows whether the playback is its own.
+ */
+export interface SpeechPlayback {
+  id: string | null;
+  status: 'idle' | 'playing' | 'paused' | 'unavailable';
+  rate: number;
+}
+
+// The locale asked of the speech engine for each language.
+const SPEECH_LOCALES: Record<Language, string> = {
+  [Language.EN]: 'en-IN',
+  [Language.HI]: 'hi-IN',
+  [Language.TA]: 'ta-IN',
+  [Language.TE]: 'te-IN',
+  [Language.KN]: 'kn-IN',
+  [Language.ML]: 'ml-IN',
+  [Language.BN]: 'bn-IN',
+  [Language.MR]: 'mr-IN',
+};
+
+// The speeds the user can choose, as multiples of the voice's normal speed.
+export const SPEECH_RATES = [0.75, 1, 1.25, 1.5];
+const RATE_STORAGE_KEY = 'femmoraSpeechRate';
+// Some browsers stop reading an utterance after about 15 seconds, so long texts are read in
+// pieces of about this many characters, cut at the end of a sentence where possible.
+const MAX_CHUNK_LENGTH = 200;
+// How long to wait for the browser to list its voices, which some load in the background.
+const VOICES_TIMEOUT_MS = 2000;
+
+/**
+ * Loads the speed chosen on this device from the encrypted storage.
+ * @returns {number} The speed, or 1 if none was chosen.
+ */
+const loadSpeechRate = (): number => {
+  const storedRate = Number(secureStorage.getItem(RATE_STORAGE_KEY));
+  return SPEECH_RATES.includes(storedRate) ? storedRate : 1;
+};
+
+let playback: SpeechPlayback = { id: null, status: 'idle', rate: 1 };
+// The chosen speed can only be read once the storage is unlocked, which is after this module loads.
+let isRateLoaded = false;
+const listeners = new Set<() => void>();
+// The text being read: its pieces, the piece being read, and its voice.
+let reading: { chunks: string[]; chunkIndex: number; voice: SpeechSynthesisVoice | null; locale: string } | null = null;
+// Increased whenever the speech queue is replaced, so the events of cancelled pieces are ignored.
+let readingToken = 0;
+let voicesPromise: Promise<SpeechSynthesisVoice[]> | null = null;
+
+/**
+ * Replaces the playback state and tells the listeners.
+ * @param {Partial<SpeechPlayback>} changes - The changed fields.
+ */
+const updatePlayback = (changes: Partial<SpeechPlayback>) => {
+  playback = { ...playback, ...changes };
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * Checks whether the browser can read text aloud at all.
+ * @returns {boolean} True if the Web Speech API is available.
+ */
+export const isSpeechSupported = (): boolean =>
+  typeof window !== 'undefined' && 'speechSynthesis' in window && 'SpeechSynthesisUtterance' in window;
+
+/**
+ * Returns the voices of the device. Some browsers list them only after a `voiceschanged` event;
+ * an empty list is not kept, so it is asked for again next time.
+ * @returns {Promise<SpeechSynthesisVoice[]>} The voices, possibly none.
+ */
+const loadVoices = (): Promise<SpeechSynthesisVoice[]> => {
+  if (!voicesPromise) {
+    voicesPromise = new Promise<SpeechSynthesisVoice[]>(resolve => {
+      const voices = window.speechSynthesis.getVoices();
+      if (voices.length > 0) {
+        resolve(voices);
+        return;
+      }
+      const finish = () => {
+        window.speechSynthesis.removeEventListener('voiceschanged', finish);
+        resolve(window.speechSynthesis.getVoices());
+      };
+      window.speechSynthesis.addEventListener('voiceschanged', finish);
+      setTimeout(finish, VOICES_TIMEOUT_MS);
+    }).then(voices => {
+      if (voices.length === 0) voicesPromise = null;
+      return voices;
+    });
+  }
+  return voicesPromise;
+};
+
+/**
+ * Chooses the voice for a language: one of its own locale, then any of the language, then the
+ * same for its fallbacks (which share its script). Voices on the device are preferred to ones
+ * that need the network.
+ * @param {SpeechSynthesisVoice[]} voices - The voices of the device.
+ * @param {Language} language - The language of the text.
+ * @returns {SpeechSynthesisVoice | undefined} The voice, or undefined if none fits.
+ */
+const chooseVoice = (voices: SpeechSynthesisVoice[], language: Language): SpeechSynthesisVoice | undefined => {
+  const sortedVoices = [...voices].sort((a, b) => Number(b.localService) - Number(a.localService));
+  const getVoiceLocale = (voice: SpeechSynthesisVoice) => voice.lang.replace('_', '-').toLowerCase();
+  for (const chainLanguage of [language, ...LANGUAGE_FALLBACKS[language]]) {
+    const locale = SPEECH_LOCALES[chainLanguage].toLowerCase();
+    const voice = sortedVoices.find(candidate => getVoiceLocale(candidate) === locale)
+      ?? sortedVoices.find(candidate => getVoiceLocale(candidate).split('-')[0] === chainLanguage);
+    if (voice) return voice;
+  }
+  return undefined;
+};
+
+/**
+ * Finds how a language can be read on this device.
+ * @param {Language} language - The language of the text.
+ * @returns {Promise<{ voice: SpeechSynthesisVoice | null; locale: string } | null>} The voice
+ * and the locale to ask for, or null if no voice fits. When the browser lists no voices at all
+ * (as some phones do), the engine is asked for the locale without a voice and picks one itself.
+ */
+const findVoice = async (language: Language): Promise<{ voice: SpeechSynthesisVoice | null; locale: string } | null> => {
+  const voices = await loadVoices();
+  if (voices.length === 0) return { voice: null, locale: SPEECH_LOCALES[language] };
+  const voice = chooseVoice(voices, language);
+  return voice ? { voice, locale: voice.lang } : null;
+};
+
+/**
+ * Checks whether this device has a voice for a language.
+ * @param {Language} language - The language.
+ * @returns {Promise<boolean>} False if the Web Speech API is missing or no voice fits.
+ */
+export const canSpeakLanguage = async (language: Language): Promise<boolean> =>
+  isSpeechSupported() && (await findVoice(language)) !== null;
+
+/**
+ * Turns text as shown on screen (including the Markdown of AI replies) into text to read: the
+ * Markdown marks, URLs and emojis are left out, and links keep only their text.
+ * @param {string} text - The text.
+ * @returns {string} The text to read.
+ */
+export const toSpokenText = (text: string): string =>
+  text
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/(?:https?:\/\/|www\.)\S+/g, ' ')
+    .replace(/^[ \t]*(?:#{1,6}|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/[*_`~>|]/g, '')
+    .replace(/[\p{Extended_Pictographic}\u{FE0F}\u{20E3}]/gu, '')
+    .replace(/[ \t]+/g, ' ')
+    .trim();
+
+/**
+ * Cuts a text into pieces of at most MAX_CHUNK_LENGTH characters, at the end of a sentence or
+ * line where possible, or else between words.
+ * @param {string} text - The text to read.
+ * @returns {string[]} The pieces.
+ */
+const splitIntoChunks = (text: string): string[] => {
+  const sentences = text.split(/(?<=[.!?।॥\n])\s+/).flatMap(sentence => {
+    const pieces: string[] = [];
+    let rest = sentence.trim();
+    while (rest.length > MAX_CHUNK_LENGTH) {
+      const cut = rest.lastIndexOf(' ', MAX_CHUNK_LENGTH);
+      const end = cut > 0 ? cut : MAX_CHUNK_LENGTH;
+      pieces.push(rest.slice(0, end));
+      rest = rest.slice(end).trim();
+    }
+    return rest ? [...pieces, rest] : pieces;
+  });
+  return sentences.reduce<string[]>((chunks, sentence) => {
+    const last = chunks[chunks.length - 1];
+    if (last !== undefined && last.length + sentence.length + 1 <= MAX_CHUNK_LENGTH) {
+      chunks[chunks.length - 1] = `${last} ${sentence}`;
+    } else {
+      chunks.push(sentence);
+    }
+    return chunks;
+  }, []);
+};
+
+/**
+ * Queues the pieces of the current text from one piece on, replacing whatever is queued.
+ * @param {number} fromIndex - The first piece to read.
+ */
+const queueChunks = (fromIndex: number) => {
+  if (!reading) return;
+  const token = ++readingToken;
+  const { chunks, voice, locale } = reading;
+  window.speechSynthesis.cancel();
+  // A paused engine stays paused after cancel(), and would not read the new pieces.
+  window.speechSynthesis.resume();
+  chunks.slice(fromIndex).forEach((chunk, offset) => {
+    const chunkIndex = fromIndex + offset;
+    const utterance = new SpeechSynthesisUtterance(chunk);
+    utterance.lang = locale;
+    if (voice) utterance.voice = voice;
+    utterance.rate = playback.rate;
+    utterance.onstart = () => {
+      if (token === readingToken && reading) reading.chunkIndex = chunkIndex;
+    };
+    utterance.onend = () => {
+      if (token !== readingToken || chunkIndex !== chunks.length - 1) return;
+      reading = null;
+      updatePlayback({ status: 'idle' });
+    };
+    utterance.onerror = event => {
+      // Cancelled pieces report an error too; only real failures end the playback.
+      if (token !== readingToken || event.error === 'interrupted' || event.error === 'canceled') return;
+      console.error('Failed to read the text aloud', event.error);
+      readingToken++;
+      reading = null;
+      window.speechSynthesis.cancel();
+      updatePlayback({ status: event.error === 'language-unavailable' || event.error === 'voice-unavailable' ? 'unavailable' : 'idle' });
+    };
+    window.speechSynthesis.speak(utterance);
+  });
+};
+
+/**
+ * Reads a text aloud, stopping any other text being read.
+ * @param {string} id - Identifies the text, so its controls can follow the playback.
+ * @param {string} text - The text, as shown on screen.
+ * @param {Language} language - The language of the text.
+ * @returns {Promise<boolean>} False if the text cannot be read: no Web Speech API, no voice
+ * for the language, or nothing to read.
+ */
+export const speak = async (id: string, text: string, language: Language): Promise<boolean> => {
+  if (!isSpeechSupported()) return false;
+  stopSpeech();
+  const chunks = splitIntoChunks(toSpokenText(text));
+  if (chunks.length === 0) return false;
+  // The text is the current one while its voice is looked up, so that stopping it (or
+  // starting another text) in the meantime cancels it.
+  const token = ++readingToken;
+  updatePlayback({ id });
+  const voice = await findVoice(language);
+  if (token !== readingToken) return false;
+  if (!voice) {
+    updatePlayback({ id, status: 'unavailable' });
+    return false;
+  }
+  reading = { chunks, chunkIndex: 0, ...voice };
+  updatePlayback({ id, status: 'playing' });
+  queueChunks(0);
+  return true;
+};
+
+/**
+ * Pauses the text being read.
+ */
+export const pauseSpeech = () => {
+  if (playback.status !== 'playing') return;
+  window.speechSynthesis.pause();
+  updatePlayback({ status: 'paused' });
+};
+
+/**
+ * Goes on reading a paused text.
+ */
+export const resumeSpeech = () => {
+  if (playback.status !== 'paused') return;
+  window.speechSynthesis.resume();
+  updatePlayback({ status: 'playing' });
+};
+
+/**
+ * Stops reading.
+ * @param {string} [id] - Only stop if this text is the one being read (e.g. when its controls
+ * leave the screen). Any text is stopped if not given.
+ */
+export const stopSpeech = (id?: string) => {
+  if (id !== undefined && playback.id !== id) return;
+  if (!isSpeechSupported()) return;
+  readingToken++;
+  reading = null;
+  window.speechSynthesis.cancel();
+  window.speechSynthesis.resume();
+  if (playback.status !== 'idle') updatePlayback({ status: 'idle' });
+};
+
+/**
+ * Changes the reading speed and remembers it on this device. A text being read goes on at
+ * the new speed from the start of its current sentence.
+ * @param {number} rate - One of SPEECH_RATES.
+ */
+export const setSpeechRate = (rate: number) => {
+  secureStorage.setItem(RATE_STORAGE_KEY, String(rate));
+  isRateLoaded = true;
+  updatePlayback({ rate });
+  if (reading && playback.status !== 'idle') {
+    queueChunks(reading.chunkIndex);
+    // A new queue starts playing, even if the old one was paused.
+    if (playback.status === 'paused') updatePlayback({ status: 'playing' });
+  }
+};
+
+/**
+ * Returns the playback state. The object only changes when the state does. The chosen speed
+ * is read into it the first time it is asked for with the storage unlocked.
+ * @returns {SpeechPlayback} The state.
+ */
+export const getSpeechPlayback = (): SpeechPlayback => {
+  if (!isRateLoaded && isVaultUnlocked()) {
+    isRateLoaded = true;
+    playback = { ...playback, rate: loadSpeechRate() };
+  }
+  return playback;
+};
+
+/**
+ * Listens to changes of the playback state.
+ * @param {() => void} listener - Called after every change.
+ * @returns {() => void} Stops listening.
+ */
+export const subscribeToSpeech = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,79 @@
+/**
+ * @file userProfile.ts
+ * @description Reads and writes the user's profile (age, place, education, occupation and
+ * interests) in the encrypted storage, and turns the profile into the values the AI screens
+ * pre-fill their forms with. Every user has their own profile, stored under a key that
+ * includes the user's id.
+ */
+
+import { secureStorage } from './secureStorage';
+import { EDUCATION_LEVELS, GUIDANCE_CATEGORIES } from '../constants';
+import { UserProfile } from '../types';
+
+const storageKey = (userId: string) => `femmoraUserProfile_${userId}`;
+
+export const EMPTY_USER_PROFILE: UserProfile = { interests: [] };
+
+// The ages the app is made for.
+export const MIN_PROFILE_AGE = 5;
+export const MAX_PROFILE_AGE = 100;
+
+/**
+ * Loads the profile of a user.
+ * @param {string} userId - The id of the user.
+ * @returns {UserProfile} The profile, or an empty profile if there is none or the data is corrupt.
+ */
+export const loadUserProfile = (userId: string): UserProfile => {
+  const storedProfile = secureStorage.getItem(storageKey(userId));
+  if (!storedProfile) return EMPTY_USER_PROFILE;
+  try {
+    const parsedProfile = JSON.parse(storedProfile);
+    return Array.isArray(parsedProfile?.interests) ? parsedProfile : EMPTY_USER_PROFILE;
+  } catch (error) {
+    console.error("Failed to parse user profile", error);
+    return EMPTY_USER_PROFILE;
+  }
+};
+
+/**
+ * Replaces the profile of a user.
+ * @param {string} userId - The id of the user.
+ * @param {UserProfile} profile - The profile to store.
+ */
+export const storeUserProfile = (userId: string, profile: UserProfile) => {
+  secureStorage.setItem(storageKey(userId), JSON.stringify(profile));
+};
+
+/**
+ * Splits interests typed as a comma-separated list.
+ * @param {string} interests - The interests as typed, e.g. "tailoring, English".
+ * @returns {string[]} The interests, without blanks or repeats.
+ */
+export const parseInterests = (interests: string): string[] =>
+  [...new Set(interests.split(',').map(interest => interest.trim()).filter(Boolean))];
+
+/**
+ * Checks an age typed in the profile.
+ * @param {string} age - The age as typed; empty means not given.
+ * @returns {boolean} True if the age is empty or a whole number the app is made for.
+ */
+export const isValidProfileAge = (age: string): boolean => {
+  if (!age.trim()) return true;
+  const ageNumber = Number(age);
+  return Number.isInteger(ageNumber) && ageNumber >= MIN_PROFILE_AGE && ageNumber <= MAX_PROFILE_AGE;
+};
+
+/**
+ * Finds the education level of a profile.
+ * @param {UserProfile} profile - The profile.
+ * @returns The EDUCATION_LEVELS entry, or undefined if none was chosen.
+ */
+export const getEducationLevel = (profile: UserProfile) => EDUCATION_LEVELS.find(level => level.id === profile.educationLevel);
+
+/**
+ * Picks the Smart Pathway category that suits a profile.
+ * @param {UserProfile} profile - The profile.
+ * @returns {string} The id of a GUIDANCE_CATEGORIES entry; the first one if the profile does not tell.
+ */
+export const getSuggestedGuidanceCategory = (profile: UserProfile): string =>
+  getEducationLevel(profile)?.guidanceCategory ?? GUIDANCE_CATEGORIES[0].id;
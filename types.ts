@@ -5,6 +5,8 @@
  * consistency and provides a single source of truth for the application's data models.
  */
 
+import type { AiChatTurn, AiFeature } from './services/aiProvider';
+
 // --- Core Data Models ---
 
 /**
@@ -13,11 +15,95 @@
 export interface User {
   id: string;
   name: string;
-  email: string;
+  // Every user has an email, a phone number or both: many of our users have a phone but no email.
+  email?: string;
+  phone?: string; // In E.164 form, e.g. +919876543210
+  hasPin?: boolean; // True if a quick login PIN has been set
+  role?: UserRole; // Missing for sessions saved before roles existed, which means 'learner'
   profilePictureUrl?: string; // Optional URL for the user's avatar
   // Add other relevant user fields
 }
 
+/**
+ * What a user tells about herself once in her profile, so the AI features can be personalised
+ * without asking again. Every field is optional; the preferred language is kept with the
+ * device profile (see DeviceProfile).
+ */
+export interface UserProfile {
+  age?: number;
+  state?: string; // One of INDIAN_STATES
+  district?: string;
+  educationLevel?: string; // The id of an EDUCATION_LEVELS entry
+  occupation?: string;
+  interests: string[];
+}
+
+/**
+ * What an account may do. Learners use the app for themselves; volunteers (field workers) also
+ * register and assist beneficiaries who have no phone of their own; NGO admins also decide who
+ * is a volunteer. Roles are given on the auth server, never chosen in the app.
+ */
+export type UserRole = 'learner' | 'volunteer' | 'ngo_admin';
+
+/**
+ * The kinds of failure an auth request can end in, shared by the auth server and the app.
+ */
+export type AuthErrorCode =
+  | 'INVALID_INPUT'
+  | 'EMAIL_TAKEN'
+  | 'INVALID_CREDENTIALS'
+  | 'INVALID_PHONE'
+  | 'PHONE_TAKEN'
+  | 'INVALID_CODE'
+  | 'PIN_LOCKED'
+  | 'TOO_MANY_REQUESTS'
+  | 'FORBIDDEN'
+  | 'USER_NOT_FOUND'
+  | 'UNAUTHORIZED'
+  | 'NOT_FOUND'
+  | 'NETWORK'
+  | 'SERVER';
+
+/**
+ * A signed-in session with the auth server. The short-lived access token authorises
+ * requests; the refresh token is exchanged for a new session when it expires.
+ */
+export interface AuthSession {
+  user: User;
+  accessToken: string;
+  accessTokenExpiresAt: string; // ISO date
+  refreshToken: string;
+}
+
+/**
+ * A profile on a shared device: one signed-in account, with its own language and an optional
+ * PIN that must be entered to open it from the profile picker.
+ */
+export interface DeviceProfile {
+  session: AuthSession;
+  language: Language;
+  pin?: { salt: string; hash: string }; // The PIN, hashed with PBKDF2; never stored in the clear
+  failedPinAttempts: number; // Wrong PINs since the profile was last opened
+  lastUsedAt: string; // ISO date
+}
+
+/**
+ * What the profile picker shows of a profile, without its session tokens.
+ */
+export interface ProfileSummary {
+  user: User;
+  hasPin: boolean;
+  isLocked: boolean; // True after too many wrong PINs, until the user logs in again
+}
+
+/**
+ * A one-time code sent to a phone, waiting to be entered.
+ */
+export interface OtpChallenge {
+  challengeId: string;
+  expiresAt: string; // ISO date
+}
+
 /**
  * Represents a single educational resource item.
  */
@@ -119,13 +205,76 @@ export interface ForumReply {
 // ProgressMetric and AchievementBadge removed
 
 /**
- * Represents an emergency contact number.
+ * Represents an emergency contact number: a national or state helpline, or one of the
+ * user's own trusted contacts.
  */
 export interface EmergencyContact {
   id: string;
   name: string;
   phoneNumber: string;
-  type: 'Police' | 'Ambulance' | 'Women Helpline' | 'Child Helpline' | 'NGO Support';
+  type: 'Emergency' | 'Police' | 'Ambulance' | 'Women Helpline' | 'Child Helpline' | 'Mental Health' | 'NGO Support' | 'Trusted Contact';
+  relation?: string; // For trusted contacts, e.g. "Sister" or "Neighbour"
+  nameKey?: TranslationKey; // For national helplines, the key of the translated name
+}
+
+/**
+ * The user's emergency settings: their trusted contacts and the state whose helplines they see.
+ */
+export interface EmergencySettings {
+  trustedContacts: EmergencyContact[]; // All of type 'Trusted Contact'
+  state?: string; // A key of STATE_HELPLINES
+}
+
+/**
+ * The privacy settings of this device, for users who may be watched while using the app.
+ */
+export interface PrivacySettings {
+  disguiseMode: boolean; // Shows the app as a calculator in the browser tab and the header
+  saveChatHistory: boolean; // When false, AI chats are kept only in memory and never written to storage
+}
+
+/**
+ * A position from the device's geolocation.
+ */
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+  accuracy?: number; // In metres
+}
+
+/**
+ * An entry in the user's local incident log, written every time the SOS alert is triggered.
+ */
+export interface SosIncident {
+  id: string;
+  triggeredAt: string; // ISO date
+  location?: GeoPoint; // Missing if the location could not be found
+  contactsAlerted: number; // How many trusted contacts the alert was addressed to
+}
+
+/**
+ * A photo attached to an incident journal entry, stored inside the encrypted journal.
+ */
+export interface IncidentPhoto {
+  id: string;
+  name: string; // The original file name
+  dataUrl: string; // The photo, resized and re-encoded as a JPEG data URL
+}
+
+/**
+ * An entry in the user's private incident journal: a record of one incident of abuse or
+ * harassment, kept as evidence.
+ */
+export interface IncidentEntry {
+  id: string;
+  date: string; // YYYY-MM-DD, the day the incident happened
+  time: string; // HH:MM, or empty if not known
+  place: string;
+  description: string;
+  witnesses: string; // Names or descriptions of anyone who saw or heard it
+  photos: IncidentPhoto[];
+  createdAt: string; // ISO date
+  updatedAt: string; // ISO date
 }
 
 /**
@@ -165,20 +314,44 @@ export enum Language {
   EN = 'en', // English
   HI = 'hi', // Hindi
   TA = 'ta', // Tamil
-  // Add other regional languages as needed
-  // e.g., TE = 'te' (Telugu)
+  TE = 'te', // Telugu
+  KN = 'kn', // Kannada
+  ML = 'ml', // Malayalam
+  BN = 'bn', // Bengali
+  MR = 'mr', // Marathi
 }
 
 /**
- * Defines the structure for UI text translations.
- * It's a dictionary where each key maps to an object containing translations
- * for each supported language.
+ * The key of a UI string. The English catalog has every string, so its keys are the keys
+ * of all catalogs, and a key that does not exist fails to compile.
  */
-export interface Translations {
-  [key: string]: {
-    [lang in Language]: string;
-  };
-}
+export type TranslationKey = keyof typeof import('./locales/en.json');
+
+/**
+ * The forms of a string that depends on a number, chosen with the plural rules of the
+ * language (see Intl.PluralRules). Every language has at least the `other` form.
+ */
+export type PluralForms = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+/**
+ * The strings of one language, by key. Catalogs other than English may leave strings out;
+ * they are then taken from the language's fallbacks.
+ */
+export type TranslationCatalog = Partial<Record<TranslationKey, string | PluralForms>>;
+
+/**
+ * The values of the `{name}` placeholders of a string. `count` also chooses the plural form.
+ */
+export type TranslationParams = Record<string, string | number>;
+
+/**
+ * How a UI string is shown in a language:
+ * - `translated`: from the language's own catalog.
+ * - `identical`: from its own catalog, but the same as in English, so probably never translated.
+ * - `fallback`: missing from its catalog, so taken from a fallback language or English.
+ * - `missing`: in no catalog, so the key itself is shown.
+ */
+export type TranslationStatus = 'translated' | 'identical' | 'fallback' | 'missing';
 
 // --- New Interfaces for Comprehensive Guidance Pathway (Smart Pathway Feature) ---
 
@@ -246,7 +419,7 @@ export interface SchemeOrRightItem {
   details: string;
   howToAccess: string;
   source?: string; // The official source of the information
-  url?: string; // An extracted URL from howToAccess or source
+  url?: string; // The official link for applying or reading more
 }
 
 /**
@@ -270,6 +443,19 @@ export interface MotivationalSupportModule {
   reminder: string;
 }
 
+/**
+ * The keys of the five modules of a generated pathway, in the order the AI produces them.
+ */
+export type GuidanceModuleKey = 'educationalPathway' | 'lifeAwarenessModule' | 'schemesAndRights' | 'digitalLearningTips' | 'motivationalSupport';
+
+/**
+ * Describes why a module of the AI's response could not be used.
+ */
+export interface GuidanceModuleError {
+  module: GuidanceModuleKey | 'response'; // 'response' when the whole response could not be read
+  reason: string; // e.g., 'steps[1].dos must be a list'
+}
+
 /**
  * Represents the complete, structured guidance object parsed from the AI's response.
  */
@@ -280,9 +466,69 @@ export interface GeneratedGuidance {
   schemesAndRights?: SchemeOrRightItem[];
   digitalLearningTips?: DigitalLearningTip[];
   motivationalSupport?: MotivationalSupportModule;
+  moduleErrors?: GuidanceModuleError[]; // Modules that were missing or failed validation
   rawResponse?: string; // For debugging or if parsing fails for some parts
 }
 
+// --- Interfaces for Saved Pathways ("My Pathways") ---
+
+/**
+ * The Smart Pathway form inputs a pathway was generated from.
+ */
+export interface PathwayFormInputs {
+  category: string; // The id of a GUIDANCE_CATEGORIES entry
+  educationLevel: string;
+  careerGoal: string;
+  challenges: string;
+  skills: string;
+  interests: string;
+}
+
+/**
+ * What the user has marked as done in a pathway's educational roadmap.
+ */
+export interface PathwayProgress {
+  completedSteps: number[]; // Indexes of the completed steps
+  completedResources: string[]; // "<stepIndex>-<resourceIndex>" of the completed resources
+  updatedAt?: string; // ISO date string of the last change, for "continue where you left off"
+}
+
+/**
+ * A daily local reminder for a pathway's next step (`MotivationalSupportModule.nextStep`).
+ */
+export interface PathwayReminder {
+  time: string; // Local time of day, "HH:MM"
+  setAt: string; // ISO date string; no reminder is due before this moment
+  lastShownAt?: string; // ISO date string of the last time the reminder was shown
+}
+
+/**
+ * A generated pathway saved in the user's "My Pathways" library.
+ */
+export interface SavedPathway {
+  id: string;
+  title: string; // Defaults to the goal or category, can be renamed by the user
+  createdAt: string; // ISO date string
+  language: Language; // The language the pathway was generated in
+  inputs: PathwayFormInputs;
+  guidance: GeneratedGuidance;
+  progress?: PathwayProgress; // Missing until the user marks something as done
+  reminder?: PathwayReminder; // Missing when no reminder is set
+}
+
+/**
+ * Someone a volunteer registers and assists from her own device, usually because she has no
+ * phone or account of her own. Her pathways are kept on the volunteer's device under her id.
+ */
+export interface Beneficiary {
+  id: string;
+  name: string;
+  age?: number;
+  village?: string; // The village or area she lives in
+  phone?: string; // A number she can be reached on, if any
+  createdAt: string; // ISO date string
+}
+
 // --- Interface for Chat Functionality ---
 /**
  * Represents a single message in a chat session.
@@ -291,6 +537,57 @@ export interface ChatMessage {
   sender: 'user' | 'ai';
   text: string;
   timestamp?: Date;
+  isIntro?: boolean; // Shown to the user only; not replayed to the AI when the chat is resumed
+  isError?: boolean; // An error shown in place of the AI's reply; not replayed either
+}
+
+/**
+ * What a saved conversation was about, so its screen can show it again when it is resumed.
+ */
+export type ConversationContext =
+  | { feature: 'smartPathway'; pathwayId: string }
+  | { feature: 'womenAwareness'; age: number; awarenessPoints: AwarenessPoint[] }
+  | { feature: 'learnToUseApps'; goal: string; recommendations: AppRecommendation[] };
+
+/**
+ * Everything needed to rebuild a chat session, fixed when the chat starts.
+ */
+export interface ConversationSetup {
+  title: string;
+  language: Language; // The language the conversation was started in
+  systemInstruction: string;
+  contextTurns: AiChatTurn[]; // The hidden history the chat was seeded with, before the visible messages
+  context: ConversationContext;
+}
+
+/**
+ * A follow-up chat saved for the logged-in user, so it can be resumed later.
+ */
+export interface SavedConversation extends ConversationSetup {
+  id: string;
+  createdAt: string; // ISO date string
+  updatedAt: string; // ISO date string of the last message
+  messages: ChatMessage[];
+}
+
+// --- Interfaces for the Chat Safety Layer ---
+
+/**
+ * The kinds of crisis the local classifier looks for in chat messages.
+ */
+export type CrisisCategory = 'selfHarm' | 'abuse' | 'immediateDanger';
+
+/**
+ * An entry in the user's local safety log: a chat message that looked like a crisis,
+ * or a helpline the user called from the crisis banner. The message itself is not stored.
+ */
+export interface SafetyLogEntry {
+  id: string;
+  timestamp: string; // ISO date
+  type: 'crisisDetected' | 'helplineCalled';
+  feature: AiFeature; // The chat it happened in
+  category: CrisisCategory;
+  helplineNumber?: string; // Only for 'helplineCalled'
 }
 
 // --- Interface for "Learn to Use Apps" Feature ---
@@ -346,18 +643,14 @@ export interface QuizQuestion {
 /**
  * Represents the multilingual content for a detail section of a law.
  */
-export interface LawDetailContent {
-  [Language.EN]: string;
-  [Language.HI]: string;
-  [Language.TA]: string;
-}
+export type LawDetailContent = Record<Language, string>;
 
 /**
  * Represents a single law concerning women's rights in India.
  */
 export interface WomenLaw {
   id: string;
-  lawNameKey: string; // Key for UI_TEXT to get the translated Law Name
+  lawNameKey: TranslationKey; // Key of the translated Law Name
   fullForm: LawDetailContent;
   applicability: LawDetailContent;
   crimesCovered: LawDetailContent;
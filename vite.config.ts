@@ -6,7 +6,15 @@ export default defineConfig(({ mode }) => {
     return {
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.AUTH_API_URL': JSON.stringify(env.AUTH_API_URL)
+      },
+      server: {
+        proxy: {
+          // Forward auth requests to the local auth server (npm run server).
+          '/api': `http://localhost:${env.AUTH_PORT || 3001}`
+        }
       },
       resolve: {
         alias: {